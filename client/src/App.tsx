@@ -6,6 +6,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/context/ThemeContext";
 import { ChatHistoryProvider } from "@/context/ChatHistoryContext";
 import { WebSearchProvider } from "@/context/WebSearchContext";
+import { ModelProvider } from "@/context/ModelContext";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
 import PrivacyPolicy from "@/pages/PrivacyPolicy";
@@ -44,8 +45,10 @@ function App() {
         <TooltipProvider>
           <ChatHistoryProvider>
             <WebSearchProvider>
-              <Toaster />
-              <Router />
+              <ModelProvider>
+                <Toaster />
+                <Router />
+              </ModelProvider>
             </WebSearchProvider>
           </ChatHistoryProvider>
         </TooltipProvider>
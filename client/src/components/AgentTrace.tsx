@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, CheckCircle2, XCircle, ListTree } from 'lucide-react';
+import type { AgentStep } from '@shared/schema';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+
+interface AgentTraceProps {
+  trace: AgentStep[];
+}
+
+function formatArguments(rawArguments: string) {
+  try {
+    return JSON.stringify(JSON.parse(rawArguments), null, 2);
+  } catch {
+    return rawArguments;
+  }
+}
+
+export function AgentTrace({ trace }: AgentTraceProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const toolCallCount = trace.reduce((count, step) => count + step.toolCalls.length, 0);
+  const totalTokens = trace.reduce((count, step) => count + step.tokens, 0);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="mt-3">
+      <CollapsibleTrigger
+        className="flex items-center gap-1 text-xs text-neutral-400 hover:text-white transition-colors"
+        data-testid="button-agent-trace"
+      >
+        {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <ListTree className="h-3 w-3" />
+        Agent trace · {trace.length} step{trace.length === 1 ? '' : 's'} · {toolCallCount} tool call{toolCallCount === 1 ? '' : 's'}
+        {totalTokens > 0 && ` · ${totalTokens.toLocaleString()} tokens`}
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ol className="mt-2 space-y-2 border-l border-neutral-800 pl-3">
+          {trace.map((step) => (
+            <li key={step.step} className="text-xs text-neutral-400">
+              <div className="font-medium text-neutral-300">
+                Step {step.step}
+                {step.toolCalls.length === 0 && ' · final answer'}
+                {step.tokens > 0 && <span className="ml-2 text-neutral-500">{step.tokens.toLocaleString()} tokens</span>}
+              </div>
+              {step.toolCalls.map((toolCall) => (
+                <div key={toolCall.id} className="mt-1">
+                  <div className="flex items-center gap-1">
+                    {toolCall.success ? (
+                      <CheckCircle2 className="h-3 w-3 text-green-500" />
+                    ) : (
+                      <XCircle className="h-3 w-3 text-red-400" />
+                    )}
+                    <span>{toolCall.name.replace(/_/g, ' ')}</span>
+                    <span className="text-neutral-500">{(toolCall.durationMs / 1000).toFixed(1)}s</span>
+                  </div>
+                  <pre className="mt-1 overflow-x-auto rounded bg-neutral-900 p-2 text-[11px] text-neutral-500">
+                    {formatArguments(toolCall.arguments)}
+                  </pre>
+                </div>
+              ))}
+            </li>
+          ))}
+        </ol>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,30 @@
+import React from 'react';
+import type { AnalysisResult } from '@shared/schema';
+import { ChartCard } from '@/components/ChartCard';
+import { DataTableCard } from '@/components/DataTableCard';
+
+interface AnalysisCardProps {
+  analysis: AnalysisResult;
+}
+
+export function AnalysisCard({ analysis }: AnalysisCardProps) {
+  return (
+    <div className="mb-3" data-testid="card-analysis">
+      <div className="mb-2 text-xs text-neutral-400">
+        {analysis.analysisType.charAt(0).toUpperCase() + analysis.analysisType.slice(1)} of {analysis.rowCount.toLocaleString()} rows
+        and {analysis.columns.length} columns
+      </div>
+      {analysis.notes.length > 0 && (
+        <ul className="mb-2 list-disc pl-5 text-xs text-neutral-400">
+          {analysis.notes.map((note, index) => (
+            <li key={index}>{note}</li>
+          ))}
+        </ul>
+      )}
+      {analysis.tables.map((table, index) => (
+        <DataTableCard key={index} table={table} />
+      ))}
+      {analysis.chart && <ChartCard chart={analysis.chart} />}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import React from 'react';
+import { AlertCircle, Check, FileCode, FileSpreadsheet, FileText, Image, Loader2, X } from 'lucide-react';
+import { formatSize } from '@/utils/helpers';
+
+// Extraction runs while the file uploads, so the two share one status
+export type AttachmentStatus = 'uploading' | 'ready' | 'failed';
+
+interface AttachmentChipProps {
+  filename: string;
+  sizeBytes: number;
+  kind?: string;
+  status?: AttachmentStatus;
+  // What was extracted, or why the file could not be read
+  detail?: string;
+  // Thumbnail shown in place of the icon
+  previewUrl?: string;
+  onRemove?: () => void;
+  onClick?: () => void;
+}
+
+const KIND_ICONS: Record<string, typeof FileText> = {
+  image: Image,
+  pdf: FileText,
+  document: FileText,
+  data: FileSpreadsheet,
+  code: FileCode,
+  text: FileText,
+};
+
+const KIND_LABELS: Record<string, string> = {
+  image: 'Image',
+  pdf: 'PDF',
+  document: 'Word',
+  data: 'Data',
+  code: 'Code',
+  text: 'Text',
+};
+
+export function AttachmentChip({ filename, sizeBytes, kind, status, detail, previewUrl, onRemove, onClick }: AttachmentChipProps) {
+  const Icon = (kind && KIND_ICONS[kind]) || FileText;
+
+  return (
+    <div
+      className={`group flex max-w-[16rem] items-center gap-2 rounded-lg border px-2 py-1.5 text-xs ${
+        status === 'failed' ? 'border-red-500/50 bg-red-900/20' : 'border-neutral-700 bg-neutral-800'
+      }`}
+      title={detail ? `${filename}: ${detail}` : filename}
+      data-testid={`attachment-chip-${filename}`}
+    >
+      <button
+        type="button"
+        onClick={onClick}
+        disabled={!onClick}
+        className="flex min-w-0 flex-1 items-center gap-2 text-left disabled:cursor-default"
+      >
+        {previewUrl ? (
+          <img src={previewUrl} alt="" className="h-8 w-8 shrink-0 rounded object-cover" />
+        ) : (
+          <Icon className="h-4 w-4 shrink-0 text-neutral-400" />
+        )}
+        <span className="min-w-0">
+          <span className="block truncate text-white">{filename}</span>
+          <span className="flex items-center gap-1 text-neutral-400">
+            {kind ? `${KIND_LABELS[kind] || kind} · ` : ''}{formatSize(sizeBytes)}
+            {status === 'uploading' && <Loader2 className="h-3 w-3 animate-spin text-primary" aria-label="Reading" />}
+            {status === 'ready' && <Check className="h-3 w-3 text-green-400" aria-label="Ready" />}
+            {status === 'failed' && <AlertCircle className="h-3 w-3 text-red-400" aria-label="Failed" />}
+          </span>
+          {detail && <span className={`block truncate ${status === 'failed' ? 'text-red-300' : 'text-neutral-500'}`}>{detail}</span>}
+        </span>
+      </button>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="shrink-0 rounded-full p-0.5 text-neutral-400 hover:bg-neutral-700 hover:text-white"
+          aria-label={`Remove ${filename}`}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import React from 'react';
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  Scatter,
+  ScatterChart,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Download } from 'lucide-react';
+import type { ChartResult } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { useToast } from '@/hooks/use-toast';
+import { fetchWithAuth } from '@/lib/queryClient';
+
+interface ChartCardProps {
+  chart: ChartResult;
+}
+
+// Same colours as the server-rendered image
+const PALETTE = ['#2563eb', '#f97316', '#16a34a', '#dc2626', '#9333ea', '#0891b2', '#ca8a04', '#db2777'];
+
+function renderChart(chart: ChartResult) {
+  const { spec } = chart;
+  // Series are keyed by position since their names may contain characters recharts reads as paths
+  const keys = spec.series.map((_, i) => `s${i}`);
+  const xAxisProps = { tickLine: false, axisLine: false, minTickGap: 16 };
+  const yAxisProps = { tickLine: false, axisLine: false, width: 48 };
+  const legend = spec.series.length > 1 ? <ChartLegend content={<ChartLegendContent />} /> : null;
+
+  if (spec.type === 'pie') {
+    const slices = spec.series[0].points
+      .filter((point) => point.y > 0)
+      .map((point) => ({ name: String(point.x), value: point.y }));
+    return (
+      <PieChart>
+        <ChartTooltip content={<ChartTooltipContent nameKey="name" hideLabel />} />
+        <Pie data={slices} dataKey="value" nameKey="name" outerRadius="80%" isAnimationActive={false}>
+          {slices.map((slice, i) => (
+            <Cell key={slice.name} fill={PALETTE[i % PALETTE.length]} />
+          ))}
+        </Pie>
+      </PieChart>
+    );
+  }
+
+  if (spec.type === 'scatter') {
+    return (
+      <ScatterChart>
+        <CartesianGrid />
+        <XAxis type="number" dataKey="x" name={spec.xAxis.label} domain={['auto', 'auto']} {...xAxisProps} />
+        <YAxis type="number" dataKey="y" name={spec.yAxis.label} domain={['auto', 'auto']} {...yAxisProps} />
+        <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+        {legend}
+        {spec.series.map((series, i) => (
+          <Scatter key={keys[i]} name={keys[i]} data={series.points} fill={`var(--color-${keys[i]})`} isAnimationActive={false} />
+        ))}
+      </ScatterChart>
+    );
+  }
+
+  // Category charts share one row per x value with a column per series
+  const rows = new Map<string, Record<string, string | number>>();
+  spec.series.forEach((series, i) => {
+    for (const point of series.points) {
+      const x = String(point.x);
+      if (!rows.has(x)) rows.set(x, { x });
+      rows.get(x)![keys[i]] = point.y;
+    }
+  });
+  const data = Array.from(rows.values());
+  const axes = (
+    <>
+      <CartesianGrid vertical={false} />
+      <XAxis dataKey="x" {...xAxisProps} />
+      <YAxis {...yAxisProps} />
+      <ChartTooltip content={<ChartTooltipContent />} />
+      {legend}
+    </>
+  );
+
+  if (spec.type === 'line') {
+    return (
+      <LineChart data={data}>
+        {axes}
+        {keys.map((key) => (
+          <Line key={key} dataKey={key} stroke={`var(--color-${key})`} strokeWidth={2} dot={data.length <= 60} isAnimationActive={false} />
+        ))}
+      </LineChart>
+    );
+  }
+
+  if (spec.type === 'area') {
+    return (
+      <AreaChart data={data}>
+        {axes}
+        {keys.map((key) => (
+          <Area key={key} dataKey={key} stroke={`var(--color-${key})`} fill={`var(--color-${key})`} fillOpacity={0.25} isAnimationActive={false} />
+        ))}
+      </AreaChart>
+    );
+  }
+
+  return (
+    <BarChart data={data} barCategoryGap={spec.type === 'histogram' ? 1 : '10%'}>
+      {axes}
+      {keys.map((key) => (
+        <Bar key={key} dataKey={key} fill={`var(--color-${key})`} isAnimationActive={false} />
+      ))}
+    </BarChart>
+  );
+}
+
+export function ChartCard({ chart }: ChartCardProps) {
+  const { toast } = useToast();
+  const { spec } = chart;
+  const config: ChartConfig = Object.fromEntries(
+    spec.series.map((series, i) => [`s${i}`, { label: series.name, color: PALETTE[i % PALETTE.length] }])
+  );
+
+  const downloadChart = async () => {
+    try {
+      const response = await fetchWithAuth(chart.image_url);
+      if (!response.ok) throw new Error(`${response.status}: ${response.statusText}`);
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${spec.title || 'chart'}.${chart.format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Chart download failed:', error);
+      toast({
+        title: 'Download failed',
+        description: 'Could not download the chart image.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="mb-3 rounded-lg border border-neutral-600 bg-neutral-900 p-4" data-testid="card-chart">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">{spec.title || 'Chart'}</span>
+        <Button variant="outline" size="sm" onClick={downloadChart} className="h-8 text-xs" data-testid="button-download-chart">
+          <Download className="mr-1 h-3 w-3" />
+          {chart.format.toUpperCase()}
+        </Button>
+      </div>
+      <ChartContainer config={config} className="mt-3 aspect-[8/5] w-full">
+        {renderChart(chart)}
+      </ChartContainer>
+      {(spec.xAxis.label || spec.yAxis.label) && (
+        <div className="mt-1 text-center text-xs text-neutral-400">
+          {[spec.yAxis.label, spec.xAxis.label].filter(Boolean).join(' by ')}
+        </div>
+      )}
+    </div>
+  );
+}
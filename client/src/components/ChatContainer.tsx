@@ -17,8 +17,8 @@ export function ChatContainer() {
   // Update chat history in the background when messages change
   // This stores conversation context even though we don't show it to the user
   useEffect(() => {
-    // Only update if there are messages to save
-    if (messages.length > 0) {
+    // Only update if there are messages to save, and not on every streamed token
+    if (messages.length > 0 && !messages[messages.length - 1].loading) {
       updateCurrentChat(messages);
     }
   }, [messages, updateCurrentChat]);
@@ -45,8 +45,8 @@ export function ChatContainer() {
           );
         })}
         
-        {/* Loading indicator when AI is thinking */}
-        {isLoading && (
+        {/* Loading indicator when AI is thinking, until a streamed reply takes its place */}
+        {isLoading && !messages[messages.length - 1]?.loading && (
           <div className="flex items-start space-x-3 mb-4">
             <div className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center overflow-hidden">
               <img 
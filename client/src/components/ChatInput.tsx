@@ -1,11 +1,14 @@
 import React, { useRef, useState, useEffect, ChangeEvent } from 'react';
-import { Send, Volume2, ImagePlus, Image, X, Mic, Search, Camera, FolderOpen, Loader2, Square, Settings, Globe, Lock } from 'lucide-react';
+import { Send, Volume2, Paperclip, Mic, Search, Camera, FolderOpen, Loader2, Square, Settings, Globe, Lock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useChat } from '@/context/ChatContext';
 import { useAuth } from '@/hooks/useAuth';
 import { useUsageLimit } from '@/hooks/useUsageLimit';
-import { autoResizeTextarea } from '@/utils/helpers';
+import { autoResizeTextarea, errorMessage } from '@/utils/helpers';
 import { useToast } from '@/hooks/use-toast';
+import { apiUpload } from '@/lib/queryClient';
+import type { AttachmentInfo } from '@shared/schema';
+import { AttachmentChip, type AttachmentStatus } from '@/components/AttachmentChip';
 import { 
   Tooltip, 
   TooltipContent, 
@@ -23,12 +26,38 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Switch } from '@/components/ui/switch';
 
+// Files per message, and the size of each; the server enforces the same size
+const MAX_ATTACHMENTS = 16;
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+const ACCEPTED_ATTACHMENTS = [
+  'image/png', 'image/jpeg', 'image/gif', 'image/webp',
+  '.pdf', '.docx', '.csv', '.tsv', '.json', '.txt', '.md', '.log',
+  '.js', '.jsx', '.ts', '.tsx', '.py', '.rb', '.php', '.java', '.kt', '.swift', '.go', '.rs', '.c', '.h',
+  '.cpp', '.cs', '.sh', '.sql', '.html', '.css', '.xml', '.yaml', '.yml', '.toml',
+].join(',');
+
+// A file picked for the next message; it is uploaded and read as soon as it is picked
+interface PendingAttachment {
+  key: string;
+  file: File;
+  previewUrl?: string;
+  status: AttachmentStatus;
+  info?: AttachmentInfo;
+  error?: string;
+}
+
+function describeExtraction(attachment: PendingAttachment) {
+  if (attachment.status === 'uploading') return 'Reading…';
+  if (attachment.status === 'failed') return attachment.error;
+  const info = attachment.info!;
+  if (info.kind === 'image') return undefined;
+  const pages = info.pageCount ? ` from ${info.pageCount} ${info.pageCount === 1 ? 'page' : 'pages'}` : '';
+  return `${info.textLength.toLocaleString()} characters${pages}${info.truncated ? ', cut to fit' : ''}`;
+}
+
 export function ChatInput() {
   const [input, setInput] = useState('');
-  const [imageFiles, setImageFiles] = useState<File[]>([]);
-  const [imagePreviewUrls, setImagePreviewUrls] = useState<string[]>([]);
-  const [imageNames, setImageNames] = useState<string[]>([]);
-  const [isUploadingImage, setIsUploadingImage] = useState(false);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
   const [isListening, setIsListening] = useState(false);
   const recognitionRef = useRef<SpeechRecognition | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -37,7 +66,7 @@ export function ChatInput() {
   const { sendUserMessage, searchAndRespond, isLoading, isTyping, stopGeneration, stopTyping } = useChat();
   const { toast } = useToast();
   const { isAuthenticated } = useAuth();
-  const { usage, incrementUsage } = useUsageLimit();
+  const { usage, refreshUsage } = useUsageLimit();
 
   // Auto-resize textarea on input
   useEffect(() => {
@@ -46,17 +75,22 @@ export function ChatInput() {
     }
   }, [input]);
 
+  const isUploading = attachments.some(attachment => attachment.status === 'uploading');
+  const readyAttachments = attachments.filter(attachment => attachment.status === 'ready');
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     // Prevent multiple submissions and ensure we have content
-    if (isLoading || isUploadingImage || (!input.trim() && imageFiles.length === 0)) return;
+    if (isLoading || isUploading || (!input.trim() && readyAttachments.length === 0)) return;
 
-    // Check usage limits for non-authenticated users
-    if (!isAuthenticated && !usage.canSendMessage) {
+    // Check the daily usage limits reported by the server
+    if (!usage.canSendMessage) {
       toast({
         title: "Daily Limit Reached",
-        description: `You've reached your daily limit of ${usage.limit} messages. Sign in to continue chatting without limits.`,
+        description: isAuthenticated
+          ? `You've reached today's limit of the ${usage.planLabel} plan. Your quota resets at midnight UTC.`
+          : `You've reached your daily limit of ${usage.limit} messages. Sign in to continue chatting.`,
         variant: "destructive",
         duration: 5000,
       });
@@ -65,11 +99,11 @@ export function ChatInput() {
 
     // Store current state before clearing
     const currentInput = input.trim();
-    const currentImageFiles = [...imageFiles];
+    const currentAttachments = readyAttachments.map(attachment => attachment.info!);
 
-    // Clear state immediately for better UX
+    // Clear state immediately for better UX; files that could not be read are dropped
     setInput('');
-    removeImage(); // This clears all images
+    removeAttachment();
 
     // Reset textarea height
     if (textareaRef.current) {
@@ -77,13 +111,9 @@ export function ChatInput() {
     }
 
     try {
-      // Increment usage count for non-authenticated users before sending
-      if (!isAuthenticated) {
-        await incrementUsage();
-      }
-      
-      // Send the message with optional images
-      await sendUserMessage(currentInput, currentImageFiles.length > 0 ? currentImageFiles : undefined);
+      // Send the message with optional attachments; the server counts it against the daily quota
+      await sendUserMessage(currentInput, currentAttachments.length > 0 ? currentAttachments : undefined);
+      refreshUsage();
     } catch (error) {
       console.error('Failed to send message:', error);
       // Restore input on error for retry
@@ -197,7 +227,7 @@ export function ChatInput() {
     if (!isAuthenticated) {
       toast({
         title: "Sign In Required",
-        description: "Image upload is only available for signed-in users. Sign in to unlock this feature.",
+        description: "Attachments are only available for signed-in users. Sign in to unlock this feature.",
         variant: "destructive",
         duration: 4000,
       });
@@ -225,121 +255,79 @@ export function ChatInput() {
     }
   };
 
-  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-
-    if (files && files.length > 0) {
-      setIsUploadingImage(true);
-      
-      const newFiles: File[] = [];
-      const newPreviewUrls: string[] = [];
-      const newNames: string[] = [];
-      
-      // Process multiple files (max 16 for GPT-4o)
-      const filesToProcess = Array.from(files).slice(0, 16);
-      
-      for (const file of filesToProcess) {
-        // Check if the file is an image
-        if (!file.type.startsWith('image/')) {
-          toast({
-            title: "Error",
-            description: `"${file.name}" is not an image file`,
-            variant: "destructive",
-            duration: 3000,
-          });
-          continue;
-        }
-
-        // Check file size (limit to 8MB per file)
-        if (file.size > 8 * 1024 * 1024) {
-          toast({
-            title: "Error",
-            description: `"${file.name}" is too large (maximum: 8MB per file)`,
-            variant: "destructive",
-            duration: 3000,
-          });
-          continue;
-        }
+  const uploadAttachment = async (attachment: PendingAttachment) => {
+    const update = (changes: Partial<PendingAttachment>) =>
+      setAttachments(prev => prev.map(item => item.key === attachment.key ? { ...item, ...changes } : item));
 
-        try {
-          // Create preview URL for the image
-          const previewUrl = URL.createObjectURL(file);
-          
-          newFiles.push(file);
-          newPreviewUrls.push(previewUrl);
-          newNames.push(file.name);
-        } catch (error) {
-          toast({
-            title: "Error",
-            description: `Failed to process "${file.name}"`,
-            variant: "destructive",
-            duration: 3000,
-          });
-        }
-      }
+    try {
+      const formData = new FormData();
+      formData.append('file', attachment.file);
+      const info = await apiUpload<AttachmentInfo>('/api/attachments', formData);
+      update({ status: 'ready', info });
+    } catch (error) {
+      update({ status: 'failed', error: errorMessage(error) });
+    }
+  };
 
-      if (newFiles.length > 0) {
-        // Add to existing files instead of replacing them
-        setImageFiles(prev => [...prev, ...newFiles]);
-        setImagePreviewUrls(prev => [...prev, ...newPreviewUrls]);
-        setImageNames(prev => [...prev, ...newNames]);
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
 
-        // Simulate processing time for better UX
-        await new Promise(resolve => setTimeout(resolve, 300));
+    const room = MAX_ATTACHMENTS - attachments.length;
+    if (files.length > room) {
+      toast({
+        title: "Too many files",
+        description: `A message can carry at most ${MAX_ATTACHMENTS} attachments`,
+        variant: "destructive",
+        duration: 3000,
+      });
+    }
 
+    const picked: PendingAttachment[] = [];
+    for (const file of files.slice(0, Math.max(room, 0))) {
+      if (file.size > MAX_ATTACHMENT_BYTES) {
         toast({
-          title: "Images ready",
-          description: `${newFiles.length} image${newFiles.length > 1 ? 's' : ''} ready to send`,
-          duration: 2000,
+          title: "Error",
+          description: `"${file.name}" is too large (maximum: ${MAX_ATTACHMENT_BYTES / 1024 / 1024}MB per file)`,
+          variant: "destructive",
+          duration: 3000,
         });
+        continue;
       }
-      
-      setIsUploadingImage(false);
+
+      picked.push({
+        key: `${Date.now()}-${Math.random()}`,
+        file,
+        previewUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : undefined,
+        status: 'uploading',
+      });
     }
-  };
 
-  const removeImage = (indexToRemove?: number) => {
-    if (indexToRemove !== undefined) {
-      // Remove specific image
-      const urlToRevoke = imagePreviewUrls[indexToRemove];
-      if (urlToRevoke) {
-        URL.revokeObjectURL(urlToRevoke);
-      }
-      
-      setImageFiles(prev => prev.filter((_, i) => i !== indexToRemove));
-      setImagePreviewUrls(prev => prev.filter((_, i) => i !== indexToRemove));
-      setImageNames(prev => prev.filter((_, i) => i !== indexToRemove));
-    } else {
-      // Remove all images
-      imagePreviewUrls.forEach(url => URL.revokeObjectURL(url));
-      
-      setImageFiles([]);
-      setImageNames([]);
-      setImagePreviewUrls([]);
-      setIsUploadingImage(false);
-
-      // Reset both file inputs
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-      if (cameraInputRef.current) {
-        cameraInputRef.current.value = '';
-      }
+    if (picked.length > 0) {
+      setAttachments(prev => [...prev, ...picked]);
+      picked.forEach(uploadAttachment);
     }
   };
 
+  const removeAttachment = (key?: string) => {
+    const removed = key ? attachments.filter(attachment => attachment.key === key) : attachments;
+    removed.forEach(attachment => attachment.previewUrl && URL.revokeObjectURL(attachment.previewUrl));
+    setAttachments(prev => key ? prev.filter(attachment => attachment.key !== key) : []);
+  };
+
 
   return (
     <footer className="sticky bottom-0 py-4 bg-neutral-900">
       <div className="container mx-auto px-4">
         {/* Now let's add our text-to-speech component */}
         <form onSubmit={handleSubmit} className="max-w-3xl mx-auto">
-          {/* Hidden file inputs for image upload */}
+          {/* Hidden file inputs for attachments */}
           <input 
             type="file"
             ref={fileInputRef}
             onChange={handleFileChange}
-            accept="image/*"
+            accept={ACCEPTED_ATTACHMENTS}
             multiple
             className="hidden"
             data-testid="input-gallery-upload"
@@ -354,74 +342,47 @@ export function ChatInput() {
             data-testid="input-camera-capture"
           />
 
-          {/* Multiple images preview */}
-          {(imageFiles.length > 0 || isUploadingImage) && (
+          {/* Attachments for the next message, with how reading each one went */}
+          {attachments.length > 0 && (
             <div className="mb-3 p-3 bg-neutral-800 rounded-lg border border-neutral-700">
               <div className="flex items-center justify-between mb-2">
                 <div className="flex items-center gap-2">
-                  {isUploadingImage ? (
+                  {isUploading ? (
                     <Loader2 className="h-4 w-4 animate-spin text-primary" />
                   ) : (
-                    <Image className="h-4 w-4 text-primary" />
+                    <Paperclip className="h-4 w-4 text-primary" />
                   )}
                   <span className="text-sm font-medium text-white">
-                    {isUploadingImage ? (
-                      <span className="flex items-center gap-2">
-                        Processing images
-                        <div className="typing-dots text-primary">
-                          <div className="typing-dot"></div>
-                          <div className="typing-dot"></div>
-                          <div className="typing-dot"></div>
-                        </div>
-                      </span>
-                    ) : (
-                      `${imageFiles.length} image${imageFiles.length !== 1 ? 's' : ''} ready`
-                    )}
+                    {isUploading
+                      ? 'Reading attachments…'
+                      : `${readyAttachments.length} attachment${readyAttachments.length !== 1 ? 's' : ''} ready`}
                   </span>
                 </div>
-                {!isUploadingImage && imageFiles.length > 0 && (
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => removeImage()}
-                    className="text-xs text-neutral-400 hover:text-white"
-                    data-testid="button-remove-all-images"
-                  >
-                    Clear all
-                  </Button>
-                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeAttachment()}
+                  className="text-xs text-neutral-400 hover:text-white"
+                  data-testid="button-remove-all-attachments"
+                >
+                  Clear all
+                </Button>
               </div>
-              
-              <div className="grid grid-cols-4 gap-2">
-                {imagePreviewUrls.map((url, index) => (
-                  <div key={index} className="relative group">
-                    <img 
-                      src={url}
-                      alt={`Preview ${index + 1}`}
-                      className="w-full h-16 object-cover rounded border border-neutral-600"
-                      data-testid={`image-preview-${index}`}
-                    />
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => removeImage(index)}
-                      className="absolute -top-1 -right-1 h-5 w-5 rounded-full bg-red-500 hover:bg-red-600 text-white opacity-0 group-hover:opacity-100 transition-opacity"
-                      data-testid={`button-remove-image-${index}`}
-                    >
-                      <X className="h-3 w-3" />
-                    </Button>
-                    <div className="absolute bottom-0 left-0 right-0 bg-black/70 text-white text-xs px-1 py-0.5 rounded-b truncate">
-                      {imageNames[index]}
-                    </div>
-                  </div>
+
+              <div className="flex flex-wrap gap-2">
+                {attachments.map((attachment) => (
+                  <AttachmentChip
+                    key={attachment.key}
+                    filename={attachment.file.name}
+                    sizeBytes={attachment.file.size}
+                    kind={attachment.info?.kind}
+                    status={attachment.status}
+                    detail={describeExtraction(attachment)}
+                    previewUrl={attachment.previewUrl}
+                    onRemove={() => removeAttachment(attachment.key)}
+                  />
                 ))}
-                {isUploadingImage && (
-                  <div className="w-full h-16 bg-neutral-700 rounded border border-neutral-600 flex items-center justify-center">
-                    <Image className="h-6 w-6 text-neutral-500 animate-pulse" />
-                  </div>
-                )}
               </div>
             </div>
           )}
@@ -463,25 +424,25 @@ export function ChatInput() {
                             type="button"
                             variant="ghost"
                             size="icon"
-                            disabled={isUploadingImage || !isAuthenticated}
+                            disabled={!isAuthenticated}
                             className={`h-9 w-9 rounded-full hover:bg-neutral-700 ${!isAuthenticated ? 'opacity-50 cursor-not-allowed' : ''} ${
-                              imageFiles.length > 0 ? 'text-primary hover:text-primary' : 'text-neutral-400 hover:text-white'
-                            } ${isUploadingImage ? 'opacity-50 cursor-not-allowed' : ''}`}
-                            data-testid="button-image-options"
+                              attachments.length > 0 ? 'text-primary hover:text-primary' : 'text-neutral-400 hover:text-white'
+                            }`}
+                            data-testid="button-attachment-options"
                           >
                             {!isAuthenticated ? (
                               <div className="relative">
-                                <ImagePlus className={`h-5 w-5 ${isUploadingImage ? 'animate-pulse' : ''}`} />
+                                <Paperclip className="h-5 w-5" />
                                 <Lock className="h-2 w-2 absolute -top-1 -right-1 text-red-400" />
                               </div>
                             ) : (
-                              <ImagePlus className={`h-5 w-5 ${isUploadingImage ? 'animate-pulse' : ''}`} />
+                              <Paperclip className={`h-5 w-5 ${isUploading ? 'animate-pulse' : ''}`} />
                             )}
                           </Button>
                         </DropdownMenuTrigger>
                       </TooltipTrigger>
                       <TooltipContent side="top">
-                        <p>{!isAuthenticated ? 'Sign in to add images' : 'Add image'}</p>
+                        <p>{!isAuthenticated ? 'Sign in to attach files' : 'Attach files'}</p>
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
@@ -493,7 +454,7 @@ export function ChatInput() {
                     </DropdownMenuItem>
                     <DropdownMenuItem onClick={handleGalleryClick} className="cursor-pointer" data-testid="option-gallery">
                       <FolderOpen className="mr-2 h-4 w-4" />
-                      Choose from Gallery
+                      Upload Files
                       {!isAuthenticated && <Lock className="ml-auto h-4 w-4 text-red-400" />}
                     </DropdownMenuItem>
                   </DropdownMenuContent>
@@ -507,14 +468,12 @@ export function ChatInput() {
               onKeyDown={handleKeyDown}
               rows={1}
               placeholder={
-                isUploadingImage 
-                  ? "Processing images..." 
-                  : imageFiles.length > 0
-                      ? `Ask about ${imageFiles.length} image${imageFiles.length !== 1 ? 's' : ''}...`
-                      : "Ask Anything..."
+                readyAttachments.length > 0
+                  ? `Ask about ${readyAttachments.length} attachment${readyAttachments.length !== 1 ? 's' : ''}...`
+                  : "Ask Anything..."
               }
               className="flex-1 py-3 px-3 bg-transparent border-none focus:outline-none focus:ring-0 resize-none text-white placeholder-neutral-500 min-h-[44px] max-h-[200px]"
-              disabled={isLoading || isUploadingImage}
+              disabled={isLoading}
             />
 
             <div className="flex items-center pr-2 space-x-1">
@@ -542,7 +501,7 @@ export function ChatInput() {
               <Button
                 type={isLoading || isTyping ? "button" : "submit"}
                 onClick={(isLoading || isTyping) ? (isLoading ? stopGeneration : stopTyping) : undefined}
-                disabled={isUploadingImage || (!(isLoading || isTyping) && (!input.trim() && imageFiles.length === 0))}
+                disabled={!(isLoading || isTyping) && (isUploading || (!input.trim() && readyAttachments.length === 0))}
                 className={`h-9 w-9 rounded-full text-white shadow-md disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center transition-all duration-200 ${
                   (isLoading || isTyping)
                     ? 'bg-muted-foreground hover:bg-muted-foreground/80 shadow-lg' 
@@ -583,9 +542,13 @@ export function ChatInput() {
                   )}
                 </div>
                 <span>
-                  InfonexAgent • Sign in for unlimited access and image features
+                  InfonexAgent • Sign in for higher limits and attachments
                 </span>
               </div>
+            ) : usage.quotas ? (
+              <span>
+                {usage.planLabel} plan • {usage.quotas.messages.remaining} of {usage.quotas.messages.limit} messages and {usage.quotas.images.remaining} image generations left today
+              </span>
             ) : (
               <span>
                 InfonexAgent is using Infonex Ai to generate human-like text and analyze images
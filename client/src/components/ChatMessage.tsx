@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { Message } from '@/types';
+import type { AnalysisResult, AttachmentContentPart, ChartResult, FileSearchPassage, FileSearchResult, MarketQuote, QueryResult, WeatherReport, WebSearchResult } from '@shared/schema';
 import { 
   User, 
   ThumbsUp, 
@@ -9,7 +10,10 @@ import {
   Check,
   Download,
   FileText,
-  ExternalLink
+  ExternalLink,
+  Loader2,
+  Wrench,
+  XCircle
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import logoImage from '../assets/logo.webp';
@@ -20,6 +24,19 @@ import { extractCodeBlocks } from '@/utils/helpers';
 import { useToast } from '@/hooks/use-toast';
 import { useChat } from '@/context/ChatContext';
 import { TypingAnimation } from '@/components/TypingAnimation';
+import { AgentTrace } from '@/components/AgentTrace';
+import { UsageBadge } from '@/components/UsageBadge';
+import { WeatherCard } from '@/components/WeatherCard';
+import { MarketChart } from '@/components/MarketChart';
+import { ChartCard } from '@/components/ChartCard';
+import { AnalysisCard } from '@/components/AnalysisCard';
+import { QueryResultCard } from '@/components/QueryResultCard';
+import { SourceFootnotes } from '@/components/SourceFootnotes';
+import { SearchResults } from '@/components/SearchResults';
+import { CitationSources, CitedText } from '@/components/Citations';
+import { AttachmentChip } from '@/components/AttachmentChip';
+import { useArtifactUrl } from '@/hooks/useArtifactUrl';
+import { fetchWithAuth } from '@/lib/queryClient';
 import { 
   Tooltip, 
   TooltipContent, 
@@ -27,13 +44,39 @@ import {
   TooltipTrigger 
 } from '@/components/ui/tooltip';
 
+// Result cards that show more than the Sources list of a cited answer does
+const VISUAL_VERTICALS = new Set(['images', 'videos', 'places']);
+
 interface ChatMessageProps {
   message: Message;
   useTypingAnimation?: boolean;
 }
 
+function MessageImage({ src, alt, testId }: { src: string; alt: string; testId: string }) {
+  const resolvedSrc = useArtifactUrl(src);
+
+  if (!resolvedSrc) {
+    return (
+      <div className="flex h-32 sm:h-40 items-center justify-center rounded-lg border border-neutral-600">
+        <Loader2 className="h-4 w-4 animate-spin text-neutral-400" />
+      </div>
+    );
+  }
+
+  return (
+    <img 
+      src={resolvedSrc}
+      alt={alt}
+      className="max-w-full h-32 sm:h-40 rounded-lg border border-neutral-600 object-cover cursor-pointer hover:opacity-90 transition-opacity"
+      data-testid={testId}
+      onClick={() => window.open(resolvedSrc, '_blank')}
+    />
+  );
+}
+
 export function ChatMessage({ message, useTypingAnimation = false }: ChatMessageProps) {
   const { role, content } = message;
+  const citations = message.citations || [];
   const isUser = role === 'user';
   const { toast } = useToast();
   const { isTyping, stopTyping } = useChat();
@@ -48,6 +91,14 @@ export function ChatMessage({ message, useTypingAnimation = false }: ChatMessage
   let contentString: string;
   let images: string[] = [];
   let pdfLinks: Array<{url: string, title: string}> = [];
+  let weatherReports: WeatherReport[] = [];
+  let marketQuotes: MarketQuote[] = [];
+  let charts: ChartResult[] = [];
+  let analyses: AnalysisResult[] = [];
+  let queryResults: QueryResult[] = [];
+  let sources: FileSearchPassage[] = [];
+  let webResults: WebSearchResult[] = [];
+  let files: AttachmentContentPart[] = [];
 
   // Helper function to extract markdown images from text
   const extractMarkdownImages = (text: string) => {
@@ -94,6 +145,28 @@ export function ChatMessage({ message, useTypingAnimation = false }: ChatMessage
           url: (item as any).pdf_url,
           title: (item as any).title || 'Generated PDF'
         });
+      } else if (item.type === 'weather_report') {
+        weatherReports.push(item as unknown as WeatherReport);
+      } else if (item.type === 'market_quote') {
+        marketQuotes.push(item as unknown as MarketQuote);
+      } else if (item.type === 'chart_result') {
+        charts.push(item as unknown as ChartResult);
+      } else if (item.type === 'analysis_result') {
+        analyses.push(item as unknown as AnalysisResult);
+      } else if (item.type === 'query_result') {
+        queryResults.push(item as unknown as QueryResult);
+      } else if (item.type === 'attachment') {
+        // Attached images are shown with the other images; other files as chips
+        const attachment = item as unknown as AttachmentContentPart;
+        if (attachment.kind === 'image') {
+          images.push(`/api/attachments/${attachment.attachment_id}`);
+        } else {
+          files.push(attachment);
+        }
+      } else if (item.type === 'file_search_result') {
+        sources.push(...(item as unknown as FileSearchResult).passages);
+      } else if (item.type === 'web_search_result') {
+        webResults.push(item as unknown as WebSearchResult);
       }
     }
     const joinedText = textParts.join('\n');
@@ -137,6 +210,8 @@ export function ChatMessage({ message, useTypingAnimation = false }: ChatMessage
 
     // Clean up text for better speech synthesis
     return textContent
+      // Citation markers are for reading, not listening
+      .replace(/\[\d+(?:\s*,\s*\d+)*\]/g, ' ')
       // Replace common emoji patterns with spaces to prevent reading emoji codes
       .replace(/:[a-z_]+:/g, ' ')
       // Remove special characters and brackets that might be read literally
@@ -258,9 +333,54 @@ export function ChatMessage({ message, useTypingAnimation = false }: ChatMessage
     });
   };
 
+  // PDFs may belong to the signed-in user, so load them with their token before opening
+  const openPdf = async (pdfUrl: string) => {
+    // Open the tab right away so the browser does not treat it as an unrequested popup
+    const pdfWindow = window.open('', '_blank');
+    try {
+      const response = await fetchWithAuth(pdfUrl);
+      if (!response.ok) throw new Error(`${response.status}: ${response.statusText}`);
+      const url = window.URL.createObjectURL(await response.blob());
+      if (pdfWindow) {
+        pdfWindow.location.href = url;
+      }
+    } catch (error) {
+      console.error('Opening PDF failed:', error);
+      pdfWindow?.close();
+      toast({
+        title: "Could not open PDF",
+        description: "The document could not be loaded. Please try downloading it instead.",
+        variant: "destructive",
+        duration: 3000,
+      });
+    }
+  };
+
+  const downloadAttachment = async (attachment: AttachmentContentPart) => {
+    try {
+      const response = await fetchWithAuth(`/api/attachments/${attachment.attachment_id}`);
+      if (!response.ok) throw new Error(`${response.status}: ${response.statusText}`);
+      const url = window.URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.filename || 'attachment';
+      link.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Attachment download failed:', error);
+      toast({
+        title: "Download failed",
+        description: attachment.filename,
+        variant: "destructive",
+        duration: 3000,
+      });
+    }
+  };
+
   const downloadImage = async (imageUrl: string, filename: string) => {
     try {
-      const response = await fetch(imageUrl);
+      const response = await fetchWithAuth(imageUrl);
+      if (!response.ok) throw new Error(`${response.status}: ${response.statusText}`);
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       
@@ -306,12 +426,10 @@ export function ChatMessage({ message, useTypingAnimation = false }: ChatMessage
             <div className={`grid gap-2 ${images.length === 1 ? 'grid-cols-1' : images.length === 2 ? 'grid-cols-2' : 'grid-cols-2 md:grid-cols-3'}`}>
               {images.map((imageUrl, index) => (
                 <div key={index} className="relative group">
-                  <img 
+                  <MessageImage
                     src={imageUrl}
                     alt={`${isUser ? 'Uploaded' : 'Generated'} image ${index + 1}`}
-                    className="max-w-full h-32 sm:h-40 rounded-lg border border-neutral-600 object-cover cursor-pointer hover:opacity-90 transition-opacity"
-                    data-testid={`message-image-${index}`}
-                    onClick={() => window.open(imageUrl, '_blank')}
+                    testId={`message-image-${index}`}
                   />
                   {images.length > 1 && (
                     <div className="absolute top-1 right-1 bg-black/70 text-white text-xs px-1 py-0.5 rounded">
@@ -347,6 +465,21 @@ export function ChatMessage({ message, useTypingAnimation = false }: ChatMessage
           </div>
         )}
 
+        {/* Display attached files other than images */}
+        {files.length > 0 && (
+          <div className={`mb-3 flex flex-wrap gap-2 ${isUser ? 'justify-end' : ''}`}>
+            {files.map((file) => (
+              <AttachmentChip
+                key={file.attachment_id}
+                filename={file.filename || 'Attachment'}
+                sizeBytes={file.size_bytes || 0}
+                kind={file.kind}
+                onClick={() => downloadAttachment(file)}
+              />
+            ))}
+          </div>
+        )}
+
         {/* Display PDF links if present */}
         {pdfLinks.length > 0 && (
           <div className="mb-3">
@@ -364,7 +497,7 @@ export function ChatMessage({ message, useTypingAnimation = false }: ChatMessage
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => window.open(pdfLink.url, '_blank')}
+                            onClick={() => openPdf(pdfLink.url)}
                             className="h-8 text-xs"
                           >
                             <ExternalLink className="h-3 w-3 mr-1" />
@@ -402,6 +535,53 @@ export function ChatMessage({ message, useTypingAnimation = false }: ChatMessage
           </div>
         )}
 
+        {/* Display weather cards returned by the weather tool */}
+        {weatherReports.map((report, index) => (
+          <WeatherCard key={index} report={report} />
+        ))}
+
+        {/* Display price charts returned by the market data tools */}
+        {marketQuotes.map((quote, index) => (
+          <MarketChart key={index} quote={quote} />
+        ))}
+
+        {/* Display charts drawn by the chart tools */}
+        {charts.map((chart) => (
+          <ChartCard key={chart.image_id} chart={chart} />
+        ))}
+
+        {/* Display tables from the data analysis tool */}
+        {analyses.map((analysis, index) => (
+          <AnalysisCard key={index} analysis={analysis} />
+        ))}
+
+        {/* Display rows returned by SQL queries over the user's datasets */}
+        {queryResults.map((result, index) => (
+          <QueryResultCard key={index} result={result} />
+        ))}
+
+        {/* Tools the assistant is calling; replaced by the agent trace once the answer is complete */}
+        {!message.trace && message.toolCalls && message.toolCalls.length > 0 && (
+          <div className="mb-3 flex flex-wrap gap-2">
+            {message.toolCalls.map((toolCall) => (
+              <span
+                key={toolCall.id}
+                className="inline-flex items-center gap-1 rounded-full border border-neutral-700 bg-neutral-900 px-2 py-0.5 text-xs text-neutral-400"
+                data-testid={`tool-call-${toolCall.name}`}
+              >
+                {toolCall.status === 'running' ? (
+                  <Loader2 className="h-3 w-3 animate-spin text-primary" />
+                ) : toolCall.status === 'error' ? (
+                  <XCircle className="h-3 w-3 text-red-400" />
+                ) : (
+                  <Wrench className="h-3 w-3" />
+                )}
+                {toolCall.name.replace(/_/g, ' ')}
+              </span>
+            ))}
+          </div>
+        )}
+
         <div className="text-foreground">
           {contentParts.map((part, index) => {
             if (part.isCode) {
@@ -420,12 +600,38 @@ export function ChatMessage({ message, useTypingAnimation = false }: ChatMessage
               );
             } else {
               // No typing animation - display text immediately
-              return <p key={index} className="whitespace-pre-line">{part.text}</p>;
+              return (
+                <p key={index} className="whitespace-pre-line">
+                  {citations.length > 0 ? <CitedText text={part.text} citations={citations} /> : part.text}
+                </p>
+              );
             }
           })}
+          {/* Cursor while tokens are still streaming in */}
+          {message.loading && (
+            <span className="animate-pulse text-primary">|</span>
+          )}
         </div>
 
-        {!isUser && (
+        {/* Document passages the answer cites, from the file search tool */}
+        {sources.length > 0 && <SourceFootnotes passages={sources} />}
+
+        {/* Web sources the answer cites; their markers in the text preview them on hover */}
+        {citations.length > 0 && <CitationSources citations={citations} />}
+
+        {/* Web results from a searched question or the web search tool; cited answers list web and
+            news results under Sources instead */}
+        {webResults
+          .filter((result) => citations.length === 0 || VISUAL_VERTICALS.has(result.vertical))
+          .map((result, index) => (
+            <SearchResults key={index} result={result} />
+          ))}
+
+        {!isUser && message.trace && message.trace.some(step => step.toolCalls.length > 0) && (
+          <AgentTrace trace={message.trace} />
+        )}
+
+        {!isUser && !message.loading && (
           <div className="flex mt-3 pt-2 border-t border-neutral-800">
             <div className="flex space-x-1">
               <TooltipProvider>
@@ -505,6 +711,8 @@ export function ChatMessage({ message, useTypingAnimation = false }: ChatMessage
                 </TooltipProvider>
               )}
             </div>
+
+            {message.usage && <UsageBadge usage={message.usage} />}
           </div>
         )}
       </div>
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Globe } from 'lucide-react';
+import type { MessageCitation } from '@shared/schema';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+
+// A statement's citation markers: [1], [2][3] or [1, 2]
+const CITATION_MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+function siteName(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+// Only web pages are linked; a javascript: URL in a tampered chat would run in the page
+function webHref(url: string): string | undefined {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:' ? url : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Many sites have no icon at their root, so fall back to a globe when it fails to load
+function Favicon({ src }: { src: string }) {
+  const [failed, setFailed] = useState(false);
+  if (!webHref(src) || failed) {
+    return <Globe className="h-3.5 w-3.5 shrink-0 text-neutral-500" />;
+  }
+  return (
+    <img
+      src={src}
+      alt=""
+      loading="lazy"
+      referrerPolicy="no-referrer"
+      className="h-3.5 w-3.5 shrink-0 rounded-sm"
+      onError={() => setFailed(true)}
+    />
+  );
+}
+
+function CitationMarker({ citation }: { citation: MessageCitation }) {
+  return (
+    <sup className="mx-px">
+      <HoverCard openDelay={150} closeDelay={100}>
+        <HoverCardTrigger asChild>
+          <a
+            href={webHref(citation.url)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="rounded bg-neutral-800 px-1 text-[10px] font-medium text-primary no-underline hover:bg-neutral-700"
+            data-testid={`citation-marker-${citation.number}`}
+          >
+            {citation.number}
+          </a>
+        </HoverCardTrigger>
+        <HoverCardContent side="top" className="w-72 border-neutral-700 bg-neutral-900 p-3">
+          <div className="mb-1 flex items-center gap-1.5 text-xs text-neutral-400">
+            <Favicon src={citation.favicon} />
+            <span className="truncate">{siteName(citation.url)}</span>
+          </div>
+          <a
+            href={webHref(citation.url)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="line-clamp-2 text-sm font-medium text-blue-400 hover:underline"
+          >
+            {citation.title}
+          </a>
+          {citation.snippet && <p className="mt-1 line-clamp-4 text-xs text-neutral-300">{citation.snippet}</p>}
+        </HoverCardContent>
+      </HoverCard>
+    </sup>
+  );
+}
+
+/**
+ * Text with its [n] markers turned into superscript links to the cited pages, each showing a
+ * preview of its source on hover. Markers naming a number without a citation stay as written.
+ */
+export function CitedText({ text, citations }: { text: string; citations: MessageCitation[] }) {
+  const byNumber = new Map(citations.map((citation) => [citation.number, citation]));
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+
+  for (const match of Array.from(text.matchAll(CITATION_MARKER))) {
+    const cited = match[1].split(',').map((number) => byNumber.get(Number(number.trim())));
+    if (cited.some((citation) => !citation)) continue;
+
+    // The marker sits against the statement it follows, like a footnote
+    nodes.push(text.slice(last, match.index).replace(/[ \t]+$/, ''));
+    for (const citation of cited as MessageCitation[]) {
+      nodes.push(<CitationMarker key={`${match.index}-${citation.number}`} citation={citation} />);
+    }
+    last = match.index! + match[0].length;
+  }
+  nodes.push(text.slice(last));
+
+  return <>{nodes}</>;
+}
+
+/**
+ * The web sources an answer cites, listed below it by number
+ */
+export function CitationSources({ citations }: { citations: MessageCitation[] }) {
+  return (
+    <div className="mt-3 border-t border-neutral-800 pt-2" data-testid="citation-sources">
+      <div className="mb-1 text-xs font-medium uppercase tracking-wide text-neutral-500">Sources</div>
+      <ol className="space-y-0.5">
+        {citations.map((citation) => (
+          <li key={citation.number} id={`citation-${citation.number}`} data-testid={`citation-source-${citation.number}`}>
+            <a
+              href={webHref(citation.url)}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={citation.snippet || citation.title}
+              className="flex items-center gap-1.5 rounded px-1 py-0.5 text-xs text-neutral-400 hover:bg-neutral-800 hover:text-neutral-200"
+            >
+              <span className="shrink-0 font-medium text-primary">[{citation.number}]</span>
+              <Favicon src={citation.favicon} />
+              <span className="min-w-0 truncate text-neutral-200">{citation.title}</span>
+              <span className="shrink-0 text-neutral-500">{siteName(citation.url)}</span>
+            </a>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -1,8 +1,20 @@
 import React, { useState } from 'react';
-import { Copy, Check, Download, Code, ExternalLink } from 'lucide-react';
+import { Copy, Check, Download, Code, ExternalLink, Play, Loader2 } from 'lucide-react';
+import type { CodeExecutionResult, SandboxLanguage } from '@shared/schema';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+// Code fence languages that the server sandbox can run
+const runnableLanguages: Record<string, SandboxLanguage> = {
+  js: 'javascript',
+  javascript: 'javascript',
+  node: 'javascript',
+  py: 'python',
+  python: 'python',
+  python3: 'python',
+};
 
 
 interface CodeBlockProps {
@@ -12,7 +24,32 @@ interface CodeBlockProps {
 
 export function CodeBlock({ code, language = '' }: CodeBlockProps) {
   const [copied, setCopied] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<CodeExecutionResult | null>(null);
   const { toast } = useToast();
+  const sandboxLanguage = runnableLanguages[language.toLowerCase()];
+
+  const runCode = async () => {
+    if (!sandboxLanguage) return;
+
+    setIsRunning(true);
+    try {
+      const executionResult = await apiRequest<CodeExecutionResult>({
+        url: '/api/execute',
+        method: 'POST',
+        data: { language: sandboxLanguage, code },
+      });
+      setResult(executionResult);
+    } catch (error: any) {
+      toast({
+        title: "Run failed",
+        description: error.message || "Could not run this code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
 
   const copyToClipboard = () => {
     navigator.clipboard.writeText(code);
@@ -72,7 +109,52 @@ export function CodeBlock({ code, language = '' }: CodeBlockProps) {
         <code className="font-mono text-neutral-200 text-sm">{code}</code>
       </pre>
       
+      {/* Output of the last sandboxed run */}
+      {result && (
+        <div className="border-t border-neutral-800 px-4 py-3 text-xs" data-testid="code-output">
+          <div className="mb-2 flex items-center gap-2 text-neutral-400">
+            <span>Output</span>
+            <span className={result.exitCode === 0 ? 'text-green-500' : 'text-red-400'}>
+              {result.timedOut ? 'timed out' : result.exitCode === null ? 'stopped' : `exit ${result.exitCode}`}
+            </span>
+            <span>{(result.durationMs / 1000).toFixed(2)}s</span>
+            {result.truncated && <span>output truncated</span>}
+          </div>
+          {result.stdout && (
+            <pre className="font-mono whitespace-pre-wrap text-neutral-200">{result.stdout}</pre>
+          )}
+          {result.stderr && (
+            <pre className="font-mono whitespace-pre-wrap text-red-400">{result.stderr}</pre>
+          )}
+          {!result.stdout && !result.stderr && (
+            <span className="text-neutral-500">No output</span>
+          )}
+        </div>
+      )}
+      
       <div className="border-t border-neutral-800 py-1 px-2 flex items-center gap-1">
+        {sandboxLanguage && (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={runCode}
+                  disabled={isRunning}
+                  className="h-8 w-8 rounded-full text-neutral-400 hover:text-white hover:bg-neutral-800"
+                  data-testid="button-run-code"
+                >
+                  {isRunning ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent side="bottom">
+                <p>Run</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        )}
+
         <TooltipProvider>
           <Tooltip>
             <TooltipTrigger asChild>
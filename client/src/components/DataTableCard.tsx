@@ -0,0 +1,100 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import type { DataTable } from '@shared/schema';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface DataTableCardProps {
+  table: DataTable;
+}
+
+type Sort = { key: string; direction: 'asc' | 'desc' } | null;
+
+function formatCell(value: string | number | null) {
+  if (value === null) return '–';
+  if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+  return value;
+}
+
+// Missing values sort last in either direction
+function compareCells(a: string | number | null, b: string | number | null) {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+export function DataTableCard({ table }: DataTableCardProps) {
+  const [sort, setSort] = useState<Sort>(null);
+
+  const rows = useMemo(() => {
+    if (!sort) return table.rows;
+    const sign = sort.direction === 'asc' ? 1 : -1;
+    return [...table.rows].sort((a, b) => {
+      const result = compareCells(a[sort.key] ?? null, b[sort.key] ?? null);
+      return a[sort.key] === null || b[sort.key] === null ? result : result * sign;
+    });
+  }, [table.rows, sort]);
+
+  // Clicking a header sorts ascending, then descending, then back to the original order
+  const toggleSort = (key: string) => {
+    setSort((current) => {
+      if (current?.key !== key) return { key, direction: 'asc' };
+      return current.direction === 'asc' ? { key, direction: 'desc' } : null;
+    });
+  };
+
+  return (
+    <div className="mb-3 rounded-lg border border-neutral-600 bg-neutral-900 p-4" data-testid="card-data-table">
+      <div className="mb-2 text-sm font-medium">{table.title}</div>
+      <div className="max-h-96 overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-neutral-700">
+              {table.columns.map((column) => {
+                const Icon = sort?.key !== column.key ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+                return (
+                  <TableHead
+                    key={column.key}
+                    className={column.type === 'number' ? 'text-right' : undefined}
+                    aria-sort={sort?.key === column.key ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => toggleSort(column.key)}
+                      className="inline-flex items-center gap-1 hover:text-neutral-100"
+                    >
+                      {column.label}
+                      <Icon className="h-3 w-3 opacity-60" />
+                    </button>
+                  </TableHead>
+                );
+              })}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, index) => (
+              <TableRow key={index} className="border-neutral-800">
+                {table.columns.map((column) => (
+                  <TableCell
+                    key={column.key}
+                    className={column.type === 'number' ? 'py-2 text-right tabular-nums' : 'py-2'}
+                  >
+                    {formatCell(row[column.key] ?? null)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import React, { useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Database, Loader2, Trash2, Upload } from 'lucide-react';
+import type { DatasetInfo } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, apiUpload } from '@/lib/queryClient';
+import { errorMessage, formatSize } from '@/utils/helpers';
+
+interface DatasetsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DATASETS_KEY = ['/api/datasets'];
+
+export function DatasetsDialog({ open, onOpenChange }: DatasetsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const { data: datasets = [], isLoading } = useQuery<DatasetInfo[]>({
+    queryKey: DATASETS_KEY,
+    enabled: open,
+  });
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const dataset = await apiUpload<DatasetInfo>('/api/datasets', formData);
+      await queryClient.invalidateQueries({ queryKey: DATASETS_KEY });
+      toast({
+        title: 'Dataset uploaded',
+        description: `Ask questions about "${dataset.name}" in the chat.`,
+      });
+    } catch (error) {
+      toast({ title: 'Upload failed', description: errorMessage(error), variant: 'destructive' });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (dataset: DatasetInfo) => {
+    try {
+      await apiRequest({ url: `/api/datasets/${dataset.id}`, method: 'DELETE' });
+      await queryClient.invalidateQueries({ queryKey: DATASETS_KEY });
+    } catch (error) {
+      toast({ title: 'Delete failed', description: errorMessage(error), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg bg-neutral-800 border-neutral-700 text-white">
+        <DialogHeader>
+          <DialogTitle>Datasets</DialogTitle>
+          <DialogDescription className="text-neutral-400">
+            Upload CSV, TSV, JSON or SQLite files and the assistant can answer questions about them with SQL.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,.tsv,.tab,.json,.sqlite,.sqlite3,.db"
+          className="hidden"
+          onChange={handleUpload}
+          data-testid="input-dataset-file"
+        />
+        <Button
+          onClick={() => fileInput.current?.click()}
+          disabled={isUploading}
+          className="w-full bg-neutral-700 hover:bg-neutral-600 text-white"
+          data-testid="button-upload-dataset"
+        >
+          {isUploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+          Upload a file
+        </Button>
+
+        <div className="max-h-80 space-y-2 overflow-y-auto">
+          {isLoading && <div className="text-sm text-neutral-400">Loading…</div>}
+          {!isLoading && datasets.length === 0 && (
+            <div className="text-sm text-neutral-400">No datasets yet.</div>
+          )}
+          {datasets.map((dataset) => (
+            <div
+              key={dataset.id}
+              className="flex items-start justify-between gap-2 rounded-md border border-neutral-700 p-3"
+              data-testid={`dataset-${dataset.name}`}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <Database className="h-4 w-4 shrink-0 text-neutral-400" />
+                  <span className="truncate">{dataset.name}</span>
+                </div>
+                <div className="mt-1 text-xs text-neutral-400">
+                  {dataset.filename} · {formatSize(dataset.sizeBytes)}
+                </div>
+                <div className="mt-1 text-xs text-neutral-500">
+                  {dataset.tables.map((table) => `${table.name} (${table.rowCount.toLocaleString()} rows)`).join(', ')}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(dataset)}
+                className="h-8 w-8 shrink-0 text-neutral-400 hover:bg-neutral-700 hover:text-red-400"
+                aria-label={`Delete ${dataset.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,130 @@
+import React, { useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { FileText, Loader2, Trash2, Upload } from 'lucide-react';
+import type { DocumentInfo } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, apiUpload } from '@/lib/queryClient';
+import { errorMessage, formatSize } from '@/utils/helpers';
+
+interface DocumentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DOCUMENTS_KEY = ['/api/documents'];
+
+export function DocumentsDialog({ open, onOpenChange }: DocumentsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const { data: documents = [], isLoading } = useQuery<DocumentInfo[]>({
+    queryKey: DOCUMENTS_KEY,
+    enabled: open,
+  });
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('document', file);
+      const document = await apiUpload<DocumentInfo>('/api/upload-document', formData);
+      await queryClient.invalidateQueries({ queryKey: DOCUMENTS_KEY });
+      toast({
+        title: 'Document uploaded',
+        description: `Ask about "${document.title}" in the chat.`,
+      });
+    } catch (error) {
+      toast({ title: 'Upload failed', description: errorMessage(error), variant: 'destructive' });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (document: DocumentInfo) => {
+    try {
+      await apiRequest({ url: `/api/documents/${document.id}`, method: 'DELETE' });
+      await queryClient.invalidateQueries({ queryKey: DOCUMENTS_KEY });
+    } catch (error) {
+      toast({ title: 'Delete failed', description: errorMessage(error), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg bg-neutral-800 border-neutral-700 text-white">
+        <DialogHeader>
+          <DialogTitle>Documents</DialogTitle>
+          <DialogDescription className="text-neutral-400">
+            Upload PDF, Word, text or Markdown files and the assistant can answer from them, citing the passages it used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".pdf,.docx,.txt,.text,.md,.markdown"
+          className="hidden"
+          onChange={handleUpload}
+          data-testid="input-document-file"
+        />
+        <Button
+          onClick={() => fileInput.current?.click()}
+          disabled={isUploading}
+          className="w-full bg-neutral-700 hover:bg-neutral-600 text-white"
+          data-testid="button-upload-document"
+        >
+          {isUploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+          {isUploading ? 'Reading the document…' : 'Upload a file'}
+        </Button>
+
+        <div className="max-h-80 space-y-2 overflow-y-auto">
+          {isLoading && <div className="text-sm text-neutral-400">Loading…</div>}
+          {!isLoading && documents.length === 0 && (
+            <div className="text-sm text-neutral-400">No documents yet.</div>
+          )}
+          {documents.map((document) => (
+            <div
+              key={document.id}
+              className="flex items-start justify-between gap-2 rounded-md border border-neutral-700 p-3"
+              data-testid={`document-${document.id}`}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <FileText className="h-4 w-4 shrink-0 text-neutral-400" />
+                  <span className="truncate">{document.title}</span>
+                </div>
+                <div className="mt-1 truncate text-xs text-neutral-400">
+                  {document.filename} · {formatSize(document.sizeBytes)}
+                  {document.pageCount !== null && ` · ${document.pageCount} ${document.pageCount === 1 ? 'page' : 'pages'}`}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(document)}
+                className="h-8 w-8 shrink-0 text-neutral-400 hover:bg-neutral-700 hover:text-red-400"
+                aria-label={`Delete ${document.title}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,6 +8,7 @@ import { useAuth } from '@/hooks/useAuth';
 import logoImage from '../assets/logo.webp';
 import { AuthButtons } from './AuthButtons';
 import { UserMenu } from './UserMenu';
+import { ModelSelector } from './ModelSelector';
 
 export function Header() {
   const { clearMessages } = useChat();
@@ -39,6 +40,7 @@ export function Header() {
         
         {/* Conditional rendering based on authentication state */}
         <div className="flex items-center space-x-2">
+          <ModelSelector />
           {isLoading ? (
             // Show loading state
             <div className="flex items-center space-x-2">
@@ -0,0 +1,129 @@
+import React from 'react';
+import { Area, Bar, CartesianGrid, ComposedChart, XAxis, YAxis } from 'recharts';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+import type { MarketPeriod, MarketQuote } from '@shared/schema';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+
+interface MarketChartProps {
+  quote: MarketQuote;
+}
+
+const chartConfig = {
+  close: { label: 'Close', color: 'hsl(var(--primary))' },
+  range: { label: 'Low – High', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+const PERIOD_LABELS: Record<MarketPeriod, string> = {
+  '1d': '1 day',
+  '5d': '5 days',
+  '1mo': '1 month',
+  '3mo': '3 months',
+  '6mo': '6 months',
+  '1y': '1 year',
+};
+
+function formatPrice(value: number, currency: string) {
+  // Crypto prices can be fractions of a cent, so keep significant digits for small values
+  const maximumFractionDigits = value >= 1 ? 2 : 6;
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits }).format(value);
+  } catch {
+    // Not an ISO currency, such as BTC
+    return `${value.toLocaleString(undefined, { maximumFractionDigits })} ${currency}`;
+  }
+}
+
+function formatTime(time: string, period: MarketPeriod) {
+  const date = new Date(time);
+  if (period === '1d') return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  if (period === '5d') return date.toLocaleDateString([], { weekday: 'short', hour: '2-digit' });
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+export function MarketChart({ quote }: MarketChartProps) {
+  const rising = quote.change >= 0;
+  const ChangeIcon = rising ? TrendingUp : TrendingDown;
+  const data = quote.series.map((point) => ({
+    time: point.time,
+    close: point.close,
+    range: [point.low, point.high],
+  }));
+
+  return (
+    <div className="mb-3 rounded-lg border border-neutral-600 bg-neutral-900 p-4" data-testid="card-market-quote">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="text-sm font-medium">
+            {quote.name}
+            {quote.name !== quote.symbol && <span className="ml-1 text-neutral-400">{quote.symbol}</span>}
+          </div>
+          <div className="mt-1 text-2xl font-semibold">{formatPrice(quote.price, quote.currency)}</div>
+        </div>
+        <div className="text-right text-xs">
+          <div className={`flex items-center justify-end gap-1 text-sm ${rising ? 'text-green-400' : 'text-red-400'}`}>
+            <ChangeIcon className="h-4 w-4" />
+            {rising ? '+' : ''}{quote.changePercent.toFixed(2)}%
+          </div>
+          <div className="text-neutral-400">{PERIOD_LABELS[quote.period]}</div>
+        </div>
+      </div>
+
+      {data.length > 1 && (
+        <ChartContainer config={chartConfig} className="mt-3 aspect-[2/1] w-full">
+          <ComposedChart data={data} margin={{ top: 4, right: 4, bottom: 0, left: 4 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="time"
+              tickLine={false}
+              axisLine={false}
+              minTickGap={32}
+              tickFormatter={(time: string) => formatTime(time, quote.period)}
+            />
+            <YAxis
+              domain={['auto', 'auto']}
+              tickLine={false}
+              axisLine={false}
+              width={64}
+              tickFormatter={(value: number) => formatPrice(value, quote.currency)}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => payload?.[0] ? formatTime(payload[0].payload.time, quote.period) : ''}
+                  formatter={(value, name) => (
+                    <div className="flex w-full justify-between gap-3">
+                      <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label}</span>
+                      <span className="font-mono">
+                        {Array.isArray(value)
+                          ? value.map((v) => formatPrice(Number(v), quote.currency)).join(' – ')
+                          : formatPrice(Number(value), quote.currency)}
+                      </span>
+                    </div>
+                  )}
+                />
+              }
+            />
+            <Bar dataKey="range" fill="var(--color-range)" barSize={2} isAnimationActive={false} />
+            <Area
+              dataKey="close"
+              type="monotone"
+              stroke="var(--color-close)"
+              fill="var(--color-close)"
+              fillOpacity={0.15}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </ComposedChart>
+        </ChartContainer>
+      )}
+
+      <div className="mt-2 text-right text-[10px] text-neutral-500">Data: {quote.source}</div>
+    </div>
+  );
+}
@@ -1,32 +1,70 @@
 import React from 'react';
-import { useChat } from '@/context/ChatContext';
-import { Button } from '@/components/ui/button';
-import { PlusCircle } from 'lucide-react';
-import { useChatHistory } from '@/context/ChatHistoryContext';
-import { ChatMenu } from '@/components/ChatMenu';
+import { useQuery } from '@tanstack/react-query';
+import { Eye, Wrench, Zap, Brain } from 'lucide-react';
+import type { ModelCapabilities, ModelId, ModelInfo } from '@shared/schema';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useModel } from '@/context/ModelContext';
+
+const capabilityIcons: Record<keyof ModelCapabilities, { icon: typeof Eye; label: string }> = {
+  vision: { icon: Eye, label: 'Vision' },
+  tools: { icon: Wrench, label: 'Tools' },
+  streaming: { icon: Zap, label: 'Streaming' },
+  reasoning: { icon: Brain, label: 'Reasoning' },
+};
+
+function CapabilityIcons({ capabilities }: { capabilities: ModelCapabilities }) {
+  return (
+    <span className="flex items-center gap-1 text-neutral-400">
+      {(Object.keys(capabilityIcons) as Array<keyof ModelCapabilities>)
+        .filter(capability => capabilities[capability])
+        .map(capability => {
+          const { icon: Icon, label } = capabilityIcons[capability];
+          return <Icon key={capability} className="h-3 w-3" aria-label={label} />;
+        })}
+    </span>
+  );
+}
 
 export function ModelSelector() {
-  const { clearMessages } = useChat();
-  
+  const { selectedModel, setSelectedModel } = useModel();
+  // The server registry is the source of truth for which models can be picked
+  const { data: models = [], isLoading } = useQuery<ModelInfo[]>({
+    queryKey: ['/api/models'],
+  });
+  const selected = models.find(model => model.id === selectedModel);
+
   return (
-    <div className="bg-muted border-b border-neutral-800">
-      <div className="container mx-auto px-6 py-3">
-        <div className="flex items-center justify-between">
-          <ChatMenu />
-          <div className="flex items-center">
-            <span className="text-sm text-muted-foreground mr-3 font-medium">Using INFONEX AI</span>
-          </div>
-          <Button 
-            variant="outline" 
-            size="sm" 
-            onClick={clearMessages}
-            className="flex items-center gap-1 professional-border"
-          >
-            <PlusCircle className="h-4 w-4" />
-            <span>New Chat</span>
-          </Button>
-        </div>
-      </div>
-    </div>
+    <Select
+      value={selectedModel}
+      onValueChange={(value) => setSelectedModel(value as ModelId)}
+      disabled={isLoading || models.length === 0}
+    >
+      <SelectTrigger
+        className="h-8 w-[170px] rounded-full bg-neutral-800 border-neutral-700 text-white text-sm"
+        data-testid="select-model"
+      >
+        {/* Show only the label in the trigger, not the full option with its description */}
+        <SelectValue placeholder="Select model">{selected?.label}</SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        {models.map(model => (
+          <SelectItem key={model.id} value={model.id} data-testid={`option-model-${model.id}`}>
+            <div className="flex flex-col gap-0.5">
+              <span className="flex items-center gap-2">
+                {model.label}
+                <CapabilityIcons capabilities={model.capabilities} />
+              </span>
+              <span className="text-xs text-neutral-500">{model.description}</span>
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
   );
 }
@@ -0,0 +1,22 @@
+import React from 'react';
+import type { QueryResult } from '@shared/schema';
+import { DataTableCard } from '@/components/DataTableCard';
+
+interface QueryResultCardProps {
+  result: QueryResult;
+}
+
+export function QueryResultCard({ result }: QueryResultCardProps) {
+  return (
+    <div className="mb-3" data-testid="card-query-result">
+      <pre className="mb-2 overflow-x-auto rounded-md bg-neutral-950 p-3 text-xs text-neutral-300">
+        <code>{result.sql}</code>
+      </pre>
+      <DataTableCard table={result.table} />
+      <div className="-mt-2 mb-3 text-xs text-neutral-400">
+        {result.rowCount.toLocaleString()} {result.rowCount === 1 ? 'row' : 'rows'}
+        {result.truncated && ' (more rows matched; only these were returned)'} · {result.durationMs} ms
+      </div>
+    </div>
+  );
+}
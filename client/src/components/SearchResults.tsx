@@ -1,66 +1,204 @@
 import React from 'react';
-import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { Globe, ExternalLink } from 'lucide-react';
-import type { SearchResult } from '@/utils/search';
+import { Calendar, ExternalLink, Globe, Image as ImageIcon, MapPin, Newspaper, Phone, PlayCircle, Star, Video, type LucideIcon } from 'lucide-react';
+import type { SearchVertical, WebSearchResult, WebSearchSource } from '@shared/schema';
 
 interface SearchResultsProps {
-  results: SearchResult[];
-  isLoading: boolean;
+  result: WebSearchResult;
 }
 
-export function SearchResults({ results, isLoading }: SearchResultsProps) {
-  if (isLoading) {
-    return (
-      <div className="bg-neutral-800 border border-neutral-700 rounded-lg p-4 animate-pulse">
-        <div className="h-4 bg-neutral-700 rounded w-1/3 mb-3"></div>
-        <div className="h-3 bg-neutral-700 rounded w-full mb-2"></div>
-        <div className="h-3 bg-neutral-700 rounded w-5/6"></div>
+const VERTICAL_HEADINGS: Record<SearchVertical, { label: string; icon: LucideIcon }> = {
+  web: { label: 'Web sources', icon: Globe },
+  news: { label: 'News', icon: Newspaper },
+  images: { label: 'Images', icon: ImageIcon },
+  videos: { label: 'Videos', icon: Video },
+  places: { label: 'Places', icon: MapPin },
+};
+
+function Citation({ source }: { source: WebSearchSource }) {
+  return <span className="shrink-0 text-xs font-medium text-primary">[{source.citation}]</span>;
+}
+
+// Shared frame of the list verticals: citation, optional thumbnail, text and an external link icon
+function ResultLink({ source, thumbnail, children }: { source: WebSearchSource; thumbnail?: React.ReactNode; children: React.ReactNode }) {
+  return (
+    <a
+      href={source.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-start gap-2 hover:bg-neutral-700/30 rounded-md p-2 transition-colors"
+    >
+      <span className="mt-0.5"><Citation source={source} /></span>
+      <div className="flex-1 min-w-0">{children}</div>
+      {thumbnail}
+      <ExternalLink className="h-3 w-3 text-neutral-500 mt-1 flex-shrink-0" />
+    </a>
+  );
+}
+
+function Title({ children }: { children: React.ReactNode }) {
+  return <h3 className="text-sm font-medium text-blue-400 mb-1 line-clamp-1">{children}</h3>;
+}
+
+function Thumbnail({ src, children }: { src?: string; children?: React.ReactNode }) {
+  if (!src) return null;
+  return (
+    <div className="relative h-14 w-20 shrink-0 overflow-hidden rounded bg-neutral-700">
+      <img src={src} alt="" loading="lazy" referrerPolicy="no-referrer" className="h-full w-full object-cover" />
+      {children}
+    </div>
+  );
+}
+
+function WebResult({ source }: { source: WebSearchSource }) {
+  return (
+    <ResultLink source={source}>
+      <Title>{source.title}</Title>
+      {source.snippet && <p className="text-xs text-neutral-300 line-clamp-2">{source.snippet}</p>}
+      <div className="text-xs text-neutral-500 mt-1 truncate">{source.siteName}</div>
+    </ResultLink>
+  );
+}
+
+function NewsResult({ source }: { source: WebSearchSource }) {
+  return (
+    <ResultLink source={source} thumbnail={<Thumbnail src={source.thumbnailUrl} />}>
+      <Title>{source.title}</Title>
+      {source.snippet && <p className="text-xs text-neutral-300 line-clamp-2">{source.snippet}</p>}
+      <div className="flex items-center gap-1 text-xs text-neutral-500 mt-1 min-w-0">
+        <span className="truncate">{source.source || source.siteName}</span>
+        {source.date && (
+          <>
+            <Calendar className="ml-1 h-3 w-3 shrink-0" />
+            <time className="shrink-0">{source.date}</time>
+          </>
+        )}
+      </div>
+    </ResultLink>
+  );
+}
+
+function VideoResult({ source }: { source: WebSearchSource }) {
+  const thumbnail = (
+    <Thumbnail src={source.thumbnailUrl}>
+      <PlayCircle className="absolute inset-0 m-auto h-6 w-6 text-white/80" />
+      {source.duration && (
+        <span className="absolute bottom-0.5 right-0.5 rounded bg-black/75 px-1 text-[10px] text-white">{source.duration}</span>
+      )}
+    </Thumbnail>
+  );
+  return (
+    <ResultLink source={source} thumbnail={thumbnail}>
+      <Title>{source.title}</Title>
+      <div className="text-xs text-neutral-500 truncate">
+        {[source.source || source.siteName, source.date].filter(Boolean).join(' · ')}
+      </div>
+    </ResultLink>
+  );
+}
+
+function PlaceResult({ source }: { source: WebSearchSource }) {
+  return (
+    <ResultLink source={source}>
+      <Title>{source.title}</Title>
+      <div className="flex flex-wrap items-center gap-x-2 text-xs text-neutral-400">
+        {source.category && <span>{source.category}</span>}
+        {source.rating !== undefined && (
+          <span className="flex items-center gap-0.5 text-amber-400">
+            <Star className="h-3 w-3 fill-current" />
+            {source.rating.toFixed(1)}
+            {source.ratingCount !== undefined && <span className="text-neutral-500">({source.ratingCount.toLocaleString()})</span>}
+          </span>
+        )}
       </div>
-    );
-  }
+      {source.address && (
+        <div className="flex items-start gap-1 text-xs text-neutral-300 mt-1">
+          <MapPin className="mt-0.5 h-3 w-3 shrink-0" />
+          <span>{source.address}</span>
+        </div>
+      )}
+      {source.phone && (
+        <div className="flex items-center gap-1 text-xs text-neutral-500 mt-0.5">
+          <Phone className="h-3 w-3 shrink-0" />
+          <span>{source.phone}</span>
+        </div>
+      )}
+    </ResultLink>
+  );
+}
+
+function ImageGrid({ sources }: { sources: WebSearchSource[] }) {
+  return (
+    <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+      {sources.map((source) => (
+        <a
+          key={source.citation}
+          id={`web-source-${source.citation}`}
+          href={source.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="group overflow-hidden rounded-md border border-neutral-700 hover:border-neutral-500"
+          data-testid={`web-source-${source.citation}`}
+        >
+          <div className="aspect-video bg-neutral-700">
+            {(source.thumbnailUrl || source.imageUrl) && (
+              <img
+                src={source.thumbnailUrl || source.imageUrl}
+                alt={source.title}
+                loading="lazy"
+                referrerPolicy="no-referrer"
+                className="h-full w-full object-cover"
+              />
+            )}
+          </div>
+          <div className="flex items-start gap-1 p-1.5">
+            <Citation source={source} />
+            <span className="min-w-0">
+              <span className="block truncate text-xs text-neutral-200">{source.title}</span>
+              <span className="block truncate text-[11px] text-neutral-500">{source.siteName}</span>
+            </span>
+          </div>
+        </a>
+      ))}
+    </div>
+  );
+}
 
-  if (results.length === 0) {
-    return null;
-  }
+const LIST_RESULTS: Record<Exclude<SearchVertical, 'images'>, (props: { source: WebSearchSource }) => React.ReactElement> = {
+  web: WebResult,
+  news: NewsResult,
+  videos: VideoResult,
+  places: PlaceResult,
+};
 
-  // Show maximum 5 results to avoid cluttering the UI
-  const displayResults = results.slice(0, 5);
+/**
+ * Web results an answer cites as [1], [2], ..., listed below it as cards suited to the vertical:
+ * thumbnails for images and videos, publish dates for news and addresses for places
+ */
+export function SearchResults({ result }: SearchResultsProps) {
+  const { label, icon: Icon } = VERTICAL_HEADINGS[result.vertical] || VERTICAL_HEADINGS.web;
+  const ListResult = (result.vertical !== 'images' && LIST_RESULTS[result.vertical]) || WebResult;
 
   return (
-    <div className="bg-neutral-800 border border-neutral-700 rounded-lg p-3">
+    <div className="mt-3 bg-neutral-800 border border-neutral-700 rounded-lg p-3" data-testid={`search-results-${result.vertical}`}>
       <div className="flex items-center mb-2 text-sm text-neutral-400">
-        <Globe className="h-4 w-4 mr-2" />
-        <span>Web results for your query</span>
-      </div>
-      
-      <div className="space-y-2">
-        {displayResults.map((result, index) => (
-          <a 
-            key={index}
-            href={result.url}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="block hover:bg-neutral-700/30 rounded-md p-2 transition-colors"
-          >
-            <div className="flex justify-between items-start">
-              <div className="flex-1">
-                <h3 className="text-sm font-medium text-blue-400 mb-1 line-clamp-1">
-                  {result.title}
-                </h3>
-                {result.description && (
-                  <p className="text-xs text-neutral-300 line-clamp-2">
-                    {result.description}
-                  </p>
-                )}
-                <div className="text-xs text-neutral-500 mt-1 truncate">
-                  {result.source || new URL(result.url).hostname}
-                </div>
-              </div>
-              <ExternalLink className="h-3 w-3 text-neutral-500 mt-1 flex-shrink-0" />
-            </div>
-          </a>
-        ))}
+        <Icon className="h-4 w-4 mr-2" />
+        <span>{label}</span>
+        {result.searchQuery !== result.query && (
+          <span className="ml-1 truncate text-neutral-500" title="The query that was searched">for “{result.searchQuery}”</span>
+        )}
       </div>
+
+      {result.vertical === 'images' ? (
+        <ImageGrid sources={result.sources} />
+      ) : (
+        <ol className="space-y-1">
+          {result.sources.map((source) => (
+            <li key={source.citation} id={`web-source-${source.citation}`} data-testid={`web-source-${source.citation}`}>
+              <ListResult source={source} />
+            </li>
+          ))}
+        </ol>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,48 @@
+import React from 'react';
+import { FileText } from 'lucide-react';
+import type { FileSearchPassage } from '@shared/schema';
+
+interface SourceFootnotesProps {
+  passages: FileSearchPassage[];
+}
+
+// Longest part of a passage shown before it is expanded
+const SNIPPET_LENGTH = 220;
+
+/**
+ * Passages from the user's documents that the answer cites as [1], [2], ..., listed below it
+ */
+export function SourceFootnotes({ passages }: SourceFootnotesProps) {
+  return (
+    <div className="mt-3 border-t border-neutral-800 pt-2" data-testid="source-footnotes">
+      <div className="mb-1 text-xs font-medium uppercase tracking-wide text-neutral-500">Sources</div>
+      <ol className="space-y-1">
+        {passages.map((passage) => (
+          <li
+            key={`${passage.documentId}-${passage.citation}`}
+            id={`source-${passage.citation}`}
+            className="text-xs text-neutral-400"
+            data-testid={`source-footnote-${passage.citation}`}
+          >
+            <details className="group">
+              <summary className="flex cursor-pointer list-none items-start gap-1.5 hover:text-neutral-200">
+                <span className="shrink-0 font-medium text-primary">[{passage.citation}]</span>
+                <FileText className="mt-0.5 h-3 w-3 shrink-0" />
+                <span className="min-w-0">
+                  <span className="text-neutral-200">{passage.title}</span>
+                  {passage.page !== null && <span>, p. {passage.page}</span>}
+                  <span className="group-open:hidden">
+                    {' '}— {passage.text.length > SNIPPET_LENGTH ? `${passage.text.slice(0, SNIPPET_LENGTH)}…` : passage.text}
+                  </span>
+                </span>
+              </summary>
+              <blockquote className="ml-6 mt-1 whitespace-pre-line border-l border-neutral-700 pl-2 text-neutral-300">
+                {passage.text}
+              </blockquote>
+            </details>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Clock, Coins } from 'lucide-react';
+import type { MessageUsage } from '@shared/schema';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+
+interface UsageBadgeProps {
+  usage: MessageUsage;
+}
+
+function formatCost(costUsd: number) {
+  if (costUsd === 0) return 'free';
+  // Most replies cost fractions of a cent, so keep enough digits to tell them apart
+  return costUsd < 0.01 ? `$${costUsd.toFixed(4)}` : `$${costUsd.toFixed(2)}`;
+}
+
+export function UsageBadge({ usage }: UsageBadgeProps) {
+  const totalTokens = usage.promptTokens + usage.completionTokens;
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span
+            className="ml-auto flex items-center gap-2 self-center text-xs text-neutral-500"
+            data-testid="badge-message-usage"
+          >
+            <span className="flex items-center gap-1">
+              <Coins className="h-3 w-3" />
+              {formatCost(usage.costUsd)}
+            </span>
+            <span className="flex items-center gap-1">
+              <Clock className="h-3 w-3" />
+              {(usage.latencyMs / 1000).toFixed(1)}s
+            </span>
+          </span>
+        </TooltipTrigger>
+        <TooltipContent side="bottom">
+          <p>
+            {usage.promptTokens.toLocaleString()} prompt + {usage.completionTokens.toLocaleString()} completion = {totalTokens.toLocaleString()} tokens
+          </p>
+          {usage.toolCalls > 0 && <p>{usage.toolCalls} tool call{usage.toolCalls === 1 ? '' : 's'}</p>}
+          <p>Estimated cost {formatCost(usage.costUsd)}</p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
@@ -12,12 +12,17 @@ import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { logOut } from '@/lib/firebase';
 import { useLocation } from 'wouter';
-import { LogOut, User, Settings, FileText, ShieldCheck } from 'lucide-react';
+import { LogOut, User, Settings, FileText, ShieldCheck, Database, Files } from 'lucide-react';
+import { useState } from 'react';
+import { DatasetsDialog } from '@/components/DatasetsDialog';
+import { DocumentsDialog } from '@/components/DocumentsDialog';
 
 export function UserMenu() {
   const { firebaseUser, user } = useAuth();
   const { toast } = useToast();
   const [, navigate] = useLocation();
+  const [isDatasetsOpen, setIsDatasetsOpen] = useState(false);
+  const [isDocumentsOpen, setIsDocumentsOpen] = useState(false);
 
   const handleLogout = async () => {
     try {
@@ -56,87 +61,109 @@ export function UserMenu() {
   };
 
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button
-          variant="outline"
-          size="sm"
-          className="p-2 rounded-full bg-neutral-800 hover:bg-neutral-700 border-neutral-700 text-white transition-colors"
-          data-testid="button-user-menu"
-        >
-          <Avatar className="h-6 w-6">
-            <AvatarImage 
-              src={photoURL || undefined} 
-              alt={displayName}
-              className="object-cover"
-            />
-            <AvatarFallback className="bg-neutral-600 text-white text-xs">
-              {getInitials(displayName, email)}
-            </AvatarFallback>
-          </Avatar>
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent 
-        align="end" 
-        className="bg-neutral-800 border-neutral-700 text-white min-w-[200px]"
-        data-testid="menu-user-dropdown"
-      >
-        {/* User Info */}
-        <div className="px-3 py-2">
-          <div className="flex items-center space-x-2">
-            <Avatar className="h-8 w-8">
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="p-2 rounded-full bg-neutral-800 hover:bg-neutral-700 border-neutral-700 text-white transition-colors"
+            data-testid="button-user-menu"
+          >
+            <Avatar className="h-6 w-6">
               <AvatarImage 
                 src={photoURL || undefined} 
                 alt={displayName}
                 className="object-cover"
               />
-              <AvatarFallback className="bg-neutral-600 text-white text-sm">
+              <AvatarFallback className="bg-neutral-600 text-white text-xs">
                 {getInitials(displayName, email)}
               </AvatarFallback>
             </Avatar>
-            <div className="flex flex-col">
-              <span className="text-sm font-medium" data-testid="text-user-name">
-                {displayName}
-              </span>
-              <span className="text-xs text-neutral-400 truncate" data-testid="text-user-email">
-                {email}
-              </span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent 
+          align="end" 
+          className="bg-neutral-800 border-neutral-700 text-white min-w-[200px]"
+          data-testid="menu-user-dropdown"
+        >
+          {/* User Info */}
+          <div className="px-3 py-2">
+            <div className="flex items-center space-x-2">
+              <Avatar className="h-8 w-8">
+                <AvatarImage 
+                  src={photoURL || undefined} 
+                  alt={displayName}
+                  className="object-cover"
+                />
+                <AvatarFallback className="bg-neutral-600 text-white text-sm">
+                  {getInitials(displayName, email)}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex flex-col">
+                <span className="text-sm font-medium" data-testid="text-user-name">
+                  {displayName}
+                </span>
+                <span className="text-xs text-neutral-400 truncate" data-testid="text-user-email">
+                  {email}
+                </span>
+              </div>
             </div>
           </div>
-        </div>
         
-        <DropdownMenuSeparator className="bg-neutral-700" />
+          <DropdownMenuSeparator className="bg-neutral-700" />
         
-        {/* Menu Items */}
-        <DropdownMenuItem 
-          className="hover:bg-neutral-700 cursor-pointer" 
-          onClick={() => navigate("/privacy-policy")}
-          data-testid="menu-privacy-policy"
-        >
-          <ShieldCheck className="h-4 w-4 mr-2" />
-          Privacy Policy
-        </DropdownMenuItem>
+          {/* Menu Items */}
+          <DropdownMenuItem 
+            className="hover:bg-neutral-700 cursor-pointer" 
+            onClick={() => setIsDatasetsOpen(true)}
+            data-testid="menu-datasets"
+          >
+            <Database className="h-4 w-4 mr-2" />
+            Datasets
+          </DropdownMenuItem>
+
+          <DropdownMenuItem 
+            className="hover:bg-neutral-700 cursor-pointer" 
+            onClick={() => setIsDocumentsOpen(true)}
+            data-testid="menu-documents"
+          >
+            <Files className="h-4 w-4 mr-2" />
+            Documents
+          </DropdownMenuItem>
+
+          <DropdownMenuItem 
+            className="hover:bg-neutral-700 cursor-pointer" 
+            onClick={() => navigate("/privacy-policy")}
+            data-testid="menu-privacy-policy"
+          >
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Privacy Policy
+          </DropdownMenuItem>
         
-        <DropdownMenuItem 
-          className="hover:bg-neutral-700 cursor-pointer" 
-          onClick={() => navigate("/terms-conditions")}
-          data-testid="menu-terms-conditions"
-        >
-          <FileText className="h-4 w-4 mr-2" />
-          Terms & Conditions
-        </DropdownMenuItem>
+          <DropdownMenuItem 
+            className="hover:bg-neutral-700 cursor-pointer" 
+            onClick={() => navigate("/terms-conditions")}
+            data-testid="menu-terms-conditions"
+          >
+            <FileText className="h-4 w-4 mr-2" />
+            Terms & Conditions
+          </DropdownMenuItem>
         
-        <DropdownMenuSeparator className="bg-neutral-700" />
+          <DropdownMenuSeparator className="bg-neutral-700" />
         
-        <DropdownMenuItem 
-          className="hover:bg-neutral-700 cursor-pointer text-red-400 hover:text-red-300" 
-          onClick={handleLogout}
-          data-testid="menu-logout"
-        >
-          <LogOut className="h-4 w-4 mr-2" />
-          Log Out
-        </DropdownMenuItem>
-      </DropdownMenuContent>
-    </DropdownMenu>
+          <DropdownMenuItem 
+            className="hover:bg-neutral-700 cursor-pointer text-red-400 hover:text-red-300" 
+            onClick={handleLogout}
+            data-testid="menu-logout"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Log Out
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <DatasetsDialog open={isDatasetsOpen} onOpenChange={setIsDatasetsOpen} />
+      <DocumentsDialog open={isDocumentsOpen} onOpenChange={setIsDocumentsOpen} />
+    </>
   );
 }
\ No newline at end of file
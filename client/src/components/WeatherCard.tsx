@@ -0,0 +1,101 @@
+import React from 'react';
+import {
+  Cloud,
+  CloudDrizzle,
+  CloudFog,
+  CloudLightning,
+  CloudRain,
+  CloudSnow,
+  CloudSun,
+  Droplets,
+  Moon,
+  Sun,
+  Wind,
+  type LucideIcon,
+} from 'lucide-react';
+import type { WeatherReport } from '@shared/schema';
+
+interface WeatherCardProps {
+  report: WeatherReport;
+}
+
+// Icon for a WMO weather code, following the groups Open-Meteo documents
+function weatherIcon(code: number, isDay = true): LucideIcon {
+  if (code === 0 || code === 1) return isDay ? Sun : Moon;
+  if (code === 2) return CloudSun;
+  if (code === 3) return Cloud;
+  if (code === 45 || code === 48) return CloudFog;
+  if (code >= 51 && code <= 57) return CloudDrizzle;
+  if ((code >= 61 && code <= 67) || (code >= 80 && code <= 82)) return CloudRain;
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) return CloudSnow;
+  if (code >= 95) return CloudLightning;
+  return Cloud;
+}
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+function compassPoint(degrees: number) {
+  return COMPASS_POINTS[Math.round(degrees / 45) % 8];
+}
+
+function formatDay(date: string, index: number) {
+  if (index === 0) return 'Today';
+  // Forecast dates are local to the location, so format them without shifting time zones
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', timeZone: 'UTC' });
+}
+
+export function WeatherCard({ report }: WeatherCardProps) {
+  const { location, current, forecast } = report;
+  const CurrentIcon = weatherIcon(current.weatherCode, current.isDay);
+  const place = [location.region, location.country].filter(Boolean).join(', ');
+
+  return (
+    <div className="mb-3 rounded-lg border border-neutral-600 bg-neutral-900 p-4" data-testid="card-weather">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="text-sm font-medium">{location.name}</div>
+          {place && <div className="text-xs text-neutral-400">{place}</div>}
+          <div className="mt-2 flex items-center gap-3">
+            <CurrentIcon className="h-10 w-10 text-primary" />
+            <div>
+              <div className="text-3xl font-semibold">{Math.round(current.temperature)}°C</div>
+              <div className="text-xs text-neutral-400">Feels like {Math.round(current.apparentTemperature)}°C</div>
+            </div>
+          </div>
+        </div>
+        <div className="space-y-1 text-right text-xs text-neutral-400">
+          <div className="text-sm text-neutral-200">{current.condition}</div>
+          <div className="flex items-center justify-end gap-1">
+            <Droplets className="h-3 w-3" />
+            {current.humidity}% humidity
+          </div>
+          <div className="flex items-center justify-end gap-1">
+            <Wind className="h-3 w-3" />
+            {Math.round(current.windSpeed)} km/h {compassPoint(current.windDirection)}
+          </div>
+          {current.precipitation > 0 && <div>{current.precipitation} mm precipitation</div>}
+        </div>
+      </div>
+
+      {forecast.length > 0 && (
+        <div className="mt-4 grid grid-cols-[repeat(auto-fit,minmax(4.5rem,1fr))] gap-2 border-t border-neutral-700 pt-3">
+          {forecast.map((day, index) => {
+            const DayIcon = weatherIcon(day.weatherCode);
+            return (
+              <div key={day.date} className="flex flex-col items-center gap-1 text-xs" title={day.condition}>
+                <span className="text-neutral-400">{formatDay(day.date, index)}</span>
+                <DayIcon className="h-5 w-5" />
+                <span>
+                  {Math.round(day.temperatureMax)}° <span className="text-neutral-500">{Math.round(day.temperatureMin)}°</span>
+                </span>
+                {day.precipitationProbability !== null && day.precipitationProbability > 0 && (
+                  <span className="text-blue-400">{day.precipitationProbability}%</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
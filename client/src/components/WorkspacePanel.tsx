@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ChevronRight, Download, FileText, FolderOpen, X } from 'lucide-react';
+import type { WorkspaceFileInfo } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useChat } from '@/context/ChatContext';
+import { useChatHistory } from '@/context/ChatHistoryContext';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { fetchWithAuth } from '@/lib/queryClient';
+import { formatSize } from '@/utils/helpers';
+
+interface WorkspaceListing {
+  directory: string;
+  files: WorkspaceFileInfo[];
+  totalBytes: number;
+  quotaBytes: number;
+}
+
+function fileUrl(chatId: string, path: string) {
+  return `/api/sessions/${encodeURIComponent(chatId)}/files/${path.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * Files the assistant wrote in the current chat, shown beside the conversation
+ */
+export function WorkspacePanel() {
+  const { firebaseUser } = useAuth();
+  const { currentChatId } = useChatHistory();
+  const { isLoading: isReplying } = useChat();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(true);
+  const [preview, setPreview] = useState<{ path: string; content: string } | null>(null);
+
+  const enabled = !!firebaseUser && !!currentChatId;
+  const { data: listing, refetch } = useQuery<WorkspaceListing>({
+    queryKey: [`/api/sessions/${encodeURIComponent(currentChatId || '')}/files`],
+    enabled,
+  });
+
+  // The assistant may have changed files while replying
+  useEffect(() => {
+    if (enabled && !isReplying) void refetch();
+  }, [enabled, isReplying, refetch]);
+
+  useEffect(() => {
+    setPreview(null);
+  }, [currentChatId]);
+
+  if (!enabled || !listing || listing.files.length === 0) return null;
+
+  const fetchFile = async (path: string) => {
+    const response = await fetchWithAuth(fileUrl(currentChatId!, path));
+    if (!response.ok) throw new Error(`${response.status}: ${response.statusText}`);
+    return response;
+  };
+
+  const openPreview = async (path: string) => {
+    try {
+      const response = await fetchFile(path);
+      setPreview({ path, content: await response.text() });
+    } catch (error) {
+      console.error('Workspace file preview failed:', error);
+      toast({ title: 'Could not open file', description: path, variant: 'destructive' });
+    }
+  };
+
+  const downloadFile = async (path: string) => {
+    try {
+      const response = await fetchFile(path);
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = path.split('/').pop() || 'file.txt';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Workspace file download failed:', error);
+      toast({ title: 'Download failed', description: path, variant: 'destructive' });
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => setIsOpen(true)}
+        className="fixed right-4 top-20 z-30 hidden h-10 w-10 rounded-full bg-neutral-800 text-white hover:bg-neutral-700 md:inline-flex"
+        aria-label="Show workspace files"
+        data-testid="button-open-workspace"
+      >
+        <FolderOpen className="h-5 w-5" />
+      </Button>
+    );
+  }
+
+  return (
+    <aside className="hidden w-80 shrink-0 flex-col border-l border-neutral-800 bg-neutral-900 md:flex" data-testid="panel-workspace">
+      <div className="flex items-center justify-between border-b border-neutral-800 px-4 py-3">
+        <div>
+          <h2 className="text-sm font-medium text-white">Workspace</h2>
+          <div className="text-xs text-neutral-400">
+            {listing.files.length} {listing.files.length === 1 ? 'file' : 'files'} · {formatSize(listing.totalBytes)} of {formatSize(listing.quotaBytes)}
+          </div>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsOpen(false)}
+          className="h-8 w-8 rounded-full text-neutral-400 hover:bg-neutral-800"
+          aria-label="Hide workspace files"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {preview ? (
+        <div className="flex min-h-0 flex-1 flex-col">
+          <div className="flex items-center gap-1 border-b border-neutral-800 px-3 py-2 text-xs">
+            <button type="button" onClick={() => setPreview(null)} className="text-neutral-400 hover:text-white">
+              Files
+            </button>
+            <ChevronRight className="h-3 w-3 text-neutral-500" />
+            <span className="truncate">{preview.path}</span>
+          </div>
+          <ScrollArea className="flex-1">
+            <pre className="whitespace-pre-wrap break-words p-3 text-xs text-neutral-300">{preview.content}</pre>
+          </ScrollArea>
+        </div>
+      ) : (
+        <ScrollArea className="flex-1">
+          <ul className="p-2">
+            {listing.files.map((file) => {
+              const segments = file.path.split('/');
+              return (
+                <li
+                  key={file.path}
+                  className="group flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-neutral-800"
+                  data-testid={`workspace-file-${file.path}`}
+                >
+                  <FileText className="h-4 w-4 shrink-0 text-neutral-400" />
+                  <button type="button" onClick={() => openPreview(file.path)} className="min-w-0 flex-1 text-left">
+                    <div className="truncate text-sm">{segments[segments.length - 1]}</div>
+                    <div className="truncate text-xs text-neutral-500">
+                      {segments.length > 1 ? `${segments.slice(0, -1).join('/')}/ · ` : ''}{formatSize(file.sizeBytes)}
+                    </div>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => downloadFile(file.path)}
+                    className="h-7 w-7 shrink-0 text-neutral-400 opacity-0 hover:bg-neutral-700 group-hover:opacity-100"
+                    aria-label={`Download ${file.path}`}
+                  >
+                    <Download className="h-3.5 w-3.5" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        </ScrollArea>
+      )}
+    </aside>
+  );
+}
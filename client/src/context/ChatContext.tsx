@@ -1,14 +1,16 @@
 import React, { createContext, useState, useContext, useCallback, useEffect } from 'react';
-import { Message } from '@/types';
-import { sendMessage, sendMessageWithImage, uploadImage } from '@/utils/api';
-import { getSystemMessage } from '@/utils/helpers';
+import { Message, ToolCallStatus } from '@/types';
+import { searchAnswer, sendMessage, sendMessageWithImage } from '@/utils/api';
+import type { AttachmentInfo, ChatStreamEvent } from '@shared/schema';
+import { getSystemMessage, toApiContent, toAttachmentPart } from '@/utils/helpers';
 import { useToast } from '@/hooks/use-toast';
 import { useChatHistory } from '@/context/ChatHistoryContext';
 import { useWebSearch } from '@/context/WebSearchContext';
+import { useModel } from '@/context/ModelContext';
 
 interface ChatContextType {
   messages: Message[];
-  sendUserMessage: (content: string, imageFiles?: File[]) => Promise<void>;
+  sendUserMessage: (content: string, attachments?: AttachmentInfo[]) => Promise<void>;
   searchAndRespond: (query: string) => Promise<void>;
   isLoading: boolean;
   isTyping: boolean;
@@ -35,6 +37,7 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   // Get web search setting
   const { isWebSearchEnabled } = useWebSearch();
+  const { selectedModel } = useModel();
 
   // Update local messages when currentChat changes
   useEffect(() => {
@@ -51,64 +54,24 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   // Removed preset word detection - AI now autonomously decides when to use tools
 
-  const sendUserMessage = useCallback(async (content: string, imageFiles?: File[]) => {
-    if (!content.trim() && (!imageFiles || imageFiles.length === 0)) return;
+  const sendUserMessage = useCallback(async (content: string, attachments?: AttachmentInfo[]) => {
+    if (!content.trim() && (!attachments || attachments.length === 0)) return;
 
     // AI now autonomously decides when to use search, file search, or image generation tools
 
-    // Process multiple uploaded image files
-    let imageDataArray: string[] = [];
-    if (imageFiles && imageFiles.length > 0) {
-      try {
-        // Process each image file
-        for (const imageFile of imageFiles) {
-          const imageData = await uploadImage(imageFile);
-          imageDataArray.push(imageData);
-        }
-        console.log(`${imageFiles.length} image(s) uploaded successfully`);
-      } catch (error) {
-        console.error('Failed to process images:', error);
-        toast({
-          title: 'Image Upload Error',
-          description: 'Failed to process the images. Please try again.',
-          variant: 'destructive',
-        });
-        return;
-      }
-    }
-
-    // Create the message content based on whether there are images
-    let messageContent: string | Array<{type: string, text?: string, image_url?: {url: string}}> = content;
-
-    if (imageFiles && imageFiles.length > 0 && imageDataArray.length > 0) {
-      // Create array content format for multiple images
-      const contentArray = [];
-
-      // Add text content if provided
-      if (content.trim()) {
-        contentArray.push({
-          type: 'text',
-          text: content
-        });
-      }
-
-      // Add each image
-      for (const imageData of imageDataArray) {
-        contentArray.push({
-          type: 'image_url',
-          image_url: {
-            url: `data:image/jpeg;base64,${imageData}`
-          }
-        });
-      }
-
-      messageContent = contentArray;
+    // Attachments were uploaded when they were picked; the message only references them
+    let messageContent: Message['content'] = content;
+    if (attachments && attachments.length > 0) {
+      messageContent = [
+        ...(content.trim() ? [{ type: 'text', text: content }] : []),
+        ...attachments.map(toAttachmentPart),
+      ];
     }
 
     const userMessage: Message = {
       role: 'user',
       content: messageContent,
-      model: 'gpt-5',
+      model: selectedModel,
       timestamp: new Date().toISOString(),
     };
 
@@ -120,77 +83,67 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
     // Show loading state immediately, including for image processing
     setIsLoading(true);
 
+    const controller = new AbortController();
+    setAbortController(controller);
+
+    // Placeholder assistant message that fills in as tokens stream from the server
+    const streamingMessage: Message = {
+      role: 'assistant',
+      content: '',
+      model: selectedModel,
+      timestamp: new Date().toISOString(),
+      loading: true,
+    };
+    let streamedText = '';
+    let toolCalls: ToolCallStatus[] = [];
+
+    const handleStreamEvent = (event: ChatStreamEvent) => {
+      if (event.type === 'token') {
+        streamedText += event.delta;
+      } else if (event.type === 'tool_call_start') {
+        toolCalls = [...toolCalls, { id: event.id, name: event.name, status: 'running' }];
+      } else if (event.type === 'tool_call_finish') {
+        toolCalls = toolCalls.map(call =>
+          call.id === event.id ? { ...call, status: event.success ? 'done' : 'error' } : call
+        );
+      } else {
+        return;
+      }
+      setMessages([...updatedMessages, { ...streamingMessage, content: streamedText, toolCalls }]);
+    };
+
     try {
       // Get current messages at the time of sending, including system message for AI context
       const currentMessages = [systemMessage, ...messages, userMessage];
 
-      let aiResponse;
-
-      if (imageFiles && imageFiles.length > 0 && imageDataArray.length > 0) {
-        // Use the image-enabled API call with multiple images
-        // Convert the messages to the proper format with image data
-        const messagesForAPI = currentMessages.map(msg => {
-          // For the user message with images, send the array format
-          if (msg.role === 'user' && Array.isArray(msg.content)) {
-            return { ...msg, content: msg.content };
-          }
-          // For AI messages with array content (like PDF responses), convert to text properly
-          if (Array.isArray(msg.content)) {
-            const textParts = [];
-            for (const item of msg.content) {
-              if (item.type === 'text' && item.text) {
-                textParts.push(item.text);
-              } else if (item.type === 'pdf_link' && (item as any).pdf_url) {
-                textParts.push(`[PDF document: ${(item as any).title || 'Generated PDF'} - not accessible to AI]`);
-              }
-            }
-            return { ...msg, content: textParts.join('\n') };
-          }
-          // For other messages, convert to string
-          return { ...msg, content: String(msg.content) };
-        });
-
-        aiResponse = await sendMessage(content, 'gpt-5', messagesForAPI);
-      } else {
-        // Regular text-only API call - convert AI messages with array content to proper text format
-        const messagesForAPI = currentMessages.map(msg => {
-          // For AI messages with array content (like PDF responses), convert to text properly
-          if (Array.isArray(msg.content)) {
-            const textParts = [];
-            for (const item of msg.content) {
-              if (item.type === 'text' && item.text) {
-                textParts.push(item.text);
-              } else if (item.type === 'pdf_link' && (item as any).pdf_url) {
-                textParts.push(`[PDF document: ${(item as any).title || 'Generated PDF'} - not accessible to AI]`);
-              }
-            }
-            return { ...msg, content: textParts.join('\n') };
-          }
-          return msg;
-        });
-
-        aiResponse = await sendMessage(content, 'gpt-5', messagesForAPI);
-      }
+      // Convert messages with array content (cards, PDF links, attachments) to what the API reads
+      const messagesForAPI = currentMessages.map(msg => ({ ...msg, content: toApiContent(msg.content) }));
+      const aiResponse = await sendMessage(content, selectedModel, messagesForAPI, controller.signal, isWebSearchEnabled, handleStreamEvent, currentChat?.id);
 
-      // Add AI response to the chat
+      // Add AI response to the chat; the text already streamed in, so no typing animation is needed
       const newMessage: Message = {
         ...aiResponse,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         timestamp: new Date().toISOString()
       };
 
       const finalMessages = [...updatedMessages, newMessage];
       setMessages(finalMessages);
       updateCurrentChat(finalMessages);
-
-      // Set this as the last message ID and start typing animation
       setLastMessageId(newMessage.timestamp);
-      setIsTyping(true);
-
-      // Auto-stop typing after a reasonable duration (3 seconds)
-      setTimeout(() => {
-        setIsTyping(false);
-      }, 3000);
     } catch (error: any) {
+      // Keep whatever had streamed in when the user stops generation
+      if (controller.signal.aborted) {
+        if (streamedText) {
+          const partialMessages = [...updatedMessages, { ...streamingMessage, content: streamedText, loading: false }];
+          setMessages(partialMessages);
+          updateCurrentChat(partialMessages);
+        } else {
+          setMessages(updatedMessages);
+        }
+        return;
+      }
+
       console.error('Error sending message:', error);
 
       // Extract meaningful error message
@@ -215,7 +168,7 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const errorMessageForUI: Message = {
         role: 'assistant',
         content: 'I apologize, but I encountered an error processing your request. Please try again later.',
-        model: 'gpt-5',
+        model: selectedModel,
         timestamp: new Date().toISOString(),
       };
 
@@ -226,7 +179,7 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setIsLoading(false);
       setAbortController(null);
     }
-  }, [messages, toast, updateCurrentChat, systemMessage]);
+  }, [messages, toast, updateCurrentChat, systemMessage, isWebSearchEnabled, selectedModel, currentChat?.id]);
 
   // Function to regenerate the last AI response
   const regenerateLastResponse = useCallback(async () => {
@@ -289,49 +242,27 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
       if (imageData) {
         // Use the image-enabled API call with preserved image data
         // Convert messages with array content to proper text format for API
-        const messagesForAPI = currentMessages.map(msg => {
-          if (Array.isArray(msg.content)) {
-            const textParts = [];
-            for (const item of msg.content) {
-              if (item.type === 'text' && item.text) {
-                textParts.push(item.text);
-              } else if (item.type === 'pdf_link' && (item as any).pdf_url) {
-                textParts.push(`[PDF document: ${(item as any).title || 'Generated PDF'} - not accessible to AI]`);
-              }
-            }
-            return { ...msg, content: textParts.join('\n') };
-          }
-          return msg;
-        });
+        const messagesForAPI = currentMessages.map(msg => ({ ...msg, content: toApiContent(msg.content) }));
 
         aiResponse = await sendMessageWithImage(
           textContent,
           imageData,
-          'gpt-5',
+          selectedModel,
           messagesForAPI
         );
       } else {
         // Regular text message
         // Convert messages with array content to proper text format for API
-        const messagesForAPI = currentMessages.map(msg => {
-          if (Array.isArray(msg.content)) {
-            const textParts = [];
-            for (const item of msg.content) {
-              if (item.type === 'text' && item.text) {
-                textParts.push(item.text);
-              } else if (item.type === 'pdf_link' && (item as any).pdf_url) {
-                textParts.push(`[PDF document: ${(item as any).title || 'Generated PDF'} - not accessible to AI]`);
-              }
-            }
-            return { ...msg, content: textParts.join('\n') };
-          }
-          return msg;
-        });
+        const messagesForAPI = currentMessages.map(msg => ({ ...msg, content: toApiContent(msg.content) }));
 
         aiResponse = await sendMessage(
           textContent,
-          'gpt-5',
-          messagesForAPI
+          selectedModel,
+          messagesForAPI,
+          undefined,
+          undefined,
+          undefined,
+          currentChat?.id
         );
       }
 
@@ -384,7 +315,7 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const errorMessageForUI: Message = {
         role: 'assistant',
         content: 'I apologize, but I encountered an error generating a new response. Please try again later.',
-        model: 'gpt-5',
+        model: selectedModel,
         timestamp: new Date().toISOString(),
       };
 
@@ -395,7 +326,7 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setIsLoading(false);
       setAbortController(null);
     }
-  }, [messages, toast, updateCurrentChat, systemMessage]);
+  }, [messages, toast, updateCurrentChat, systemMessage, selectedModel, currentChat?.id]);
 
   const clearMessages = useCallback(() => {
     // Delete the current chat if it exists, then start a new one
@@ -442,92 +373,16 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const isSearchMessage = content.startsWith('🔍');
 
       if (isSearchMessage) {
-        // Extract the actual search query (remove 🔍 if present)
-        const searchQuery = content.startsWith('🔍') ? content.replace('🔍 ', '').trim() : content;
-
-        // Perform search using Serper API
-        const searchResponse = await fetch('/api/search', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ query: searchQuery }),
-        });
-
-        if (!searchResponse.ok) {
-          throw new Error('Search failed');
-        }
-
-        const searchData = await searchResponse.json();
-
-        // Create a refined prompt with search results for GPT-4o-mini
-        const searchResults = searchData.organic?.slice(0, 5).map((result: any) => 
-          `Title: ${result.title}\nSnippet: ${result.snippet}\nURL: ${result.link}`
-        ).join('\n\n') || 'No search results found.';
-
-        // Check if this is a question about who developed/created the AI
-        const isDeveloperQuery = searchQuery.toLowerCase().includes('who developed') || 
-                                searchQuery.toLowerCase().includes('who created') ||
-                                searchQuery.toLowerCase().includes('who made') ||
-                                searchQuery.toLowerCase().includes('developer') ||
-                                searchQuery.toLowerCase().includes('creator');
+        // The server searches, reads the pages and answers with citations
+        const searchQuery = content.replace('🔍 ', '').trim();
+        const history = [systemMessage, ...messages.slice(0, userMessageIndex)]
+          .map(msg => ({ ...msg, content: toApiContent(msg.content) }));
 
-        let refinedPrompt;
-
-        if (isDeveloperQuery && searchQuery.toLowerCase().includes('you')) {
-          refinedPrompt = `I was developed by Infonex and I am running as a search question refiner using the GPT-4o-mini AI model engine. I help provide real-time information by searching the web and refining the results to give you accurate and up-to-date answers.
-
-Based on the following search results for "${searchQuery}":
-
-${searchResults}
-
-Please provide a comprehensive response that includes the above information about my development by Infonex and my role as a search refiner, while also incorporating any relevant information from the search results.`;
-        } else {
-          refinedPrompt = `Based on the following search results for "${searchQuery}", provide a comprehensive and accurate answer:
-
-${searchResults}
-
-Please synthesize this information and provide a helpful response that directly answers the user's query. Include relevant details and cite sources when appropriate.`;
-        }
+        const controller = new AbortController();
+        setAbortController(controller);
+        const aiResponse = await searchAnswer(searchQuery, history, currentChat?.id, controller.signal);
 
-        // Send to GPT-4o-mini for refinement
-        const currentMessages = [
-          systemMessage,
-          ...messagesUpToUserMessage,
-          { role: 'user', content: refinedPrompt }
-        ];
-
-        // Convert messages with array content to proper text format for API
-        const messagesForAPI = currentMessages.filter((msg): msg is Message => 
-          'model' in msg && 'timestamp' in msg
-        ).map(msg => {
-          if (Array.isArray(msg.content)) {
-            const textParts = [];
-            for (const item of msg.content) {
-              if (item.type === 'text' && item.text) {
-                textParts.push(item.text);
-              } else if (item.type === 'pdf_link' && (item as any).pdf_url) {
-                textParts.push(`[PDF document: ${(item as any).title || 'Generated PDF'} - not accessible to AI]`);
-              }
-            }
-            return { ...msg, content: textParts.join('\n') };
-          }
-          return msg;
-        });
-
-        const aiResponse = await sendMessage(
-          refinedPrompt,
-          'gpt-5-mini',
-          messagesForAPI
-        );
-
-        // Add the refined AI response to the chat
-        const newMessage: Message = {
-          ...aiResponse,
-          timestamp: new Date().toISOString(),
-        };
-
-        const finalMessages = [...messagesUpToUserMessage, newMessage];
+        const finalMessages = [...messagesUpToUserMessage, aiResponse];
         setMessages(finalMessages);
         updateCurrentChat(finalMessages);
 
@@ -565,49 +420,27 @@ Please synthesize this information and provide a helpful response that directly
             }
           }
           // Convert messages with array content to proper text format for API
-          const messagesForAPI = currentMessages.map(msg => {
-            if (Array.isArray(msg.content)) {
-              const textParts = [];
-              for (const item of msg.content) {
-                if (item.type === 'text' && item.text) {
-                  textParts.push(item.text);
-                } else if (item.type === 'pdf_link' && (item as any).pdf_url) {
-                  textParts.push(`[PDF document: ${(item as any).title || 'Generated PDF'} - not accessible to AI]`);
-                }
-              }
-              return { ...msg, content: textParts.join('\n') };
-            }
-            return msg;
-          });
+          const messagesForAPI = currentMessages.map(msg => ({ ...msg, content: toApiContent(msg.content) }));
 
           aiResponse = await sendMessageWithImage(
             typeof userMessage.content === 'string' ? userMessage.content : '',
             imageData,
-            'gpt-5',
+            selectedModel,
             messagesForAPI
           );
         } else {
           // Handle text-only messages with GPT-4o
           // Convert messages with array content to proper text format for API
-          const messagesForAPI = currentMessages.map(msg => {
-            if (Array.isArray(msg.content)) {
-              const textParts = [];
-              for (const item of msg.content) {
-                if (item.type === 'text' && item.text) {
-                  textParts.push(item.text);
-                } else if (item.type === 'pdf_link' && (item as any).pdf_url) {
-                  textParts.push(`[PDF document: ${(item as any).title || 'Generated PDF'} - not accessible to AI]`);
-                }
-              }
-              return { ...msg, content: textParts.join('\n') };
-            }
-            return msg;
-          });
+          const messagesForAPI = currentMessages.map(msg => ({ ...msg, content: toApiContent(msg.content) }));
 
           aiResponse = await sendMessage(
             content,
-            'gpt-5',
-            messagesForAPI
+            selectedModel,
+            messagesForAPI,
+            undefined,
+            undefined,
+            undefined,
+            currentChat?.id
           );
         }
 
@@ -652,7 +485,7 @@ Please synthesize this information and provide a helpful response that directly
       const errorMessageForUI: Message = {
         role: 'assistant',
         content: 'I apologize, but I encountered an error generating a new response. Please try again later.',
-        model: 'gpt-5',
+        model: selectedModel,
         timestamp: new Date().toISOString(),
       };
 
@@ -663,7 +496,7 @@ Please synthesize this information and provide a helpful response that directly
       setIsLoading(false);
       setAbortController(null);
     }
-  }, [messages, toast, updateCurrentChat, systemMessage, sendMessage, sendMessageWithImage]);
+  }, [messages, toast, updateCurrentChat, systemMessage, sendMessage, sendMessageWithImage, selectedModel, currentChat?.id]);
 
   // Function to search and get AI refined response
   const searchAndRespond = useCallback(async (query: string) => {
@@ -682,74 +515,15 @@ Please synthesize this information and provide a helpful response that directly
     updateCurrentChat(updatedMessages);
     setIsLoading(true);
 
-    try {
-      // Search using Serper API
-      const searchResponse = await fetch('/api/search', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ query }),
-      });
-
-      if (!searchResponse.ok) {
-        throw new Error('Search failed');
-      }
-
-      const searchData = await searchResponse.json();
-
-      // Create a refined prompt with search results for GPT-4o-mini
-      const searchResults = searchData.organic?.slice(0, 5).map((result: any) => 
-        `Title: ${result.title}\nSnippet: ${result.snippet}\nURL: ${result.link}`
-      ).join('\n\n') || 'No search results found.';
-
-      // Check if this is a question about who developed/created the AI
-      const isDeveloperQuery = query.toLowerCase().includes('who developed') || 
-                              query.toLowerCase().includes('who created') ||
-                              query.toLowerCase().includes('who made') ||
-                              query.toLowerCase().includes('developer') ||
-                              query.toLowerCase().includes('creator');
-
-      let refinedPrompt;
-
-      if (isDeveloperQuery && query.toLowerCase().includes('you')) {
-        refinedPrompt = `I was developed by Infonex and I am running as a search question refiner using the GPT-4o-mini AI model engine. I help provide real-time information by searching the web and refining the results to give you accurate and up-to-date answers.
-
-Based on the following search results for "${query}":
+    const controller = new AbortController();
+    setAbortController(controller);
 
-${searchResults}
-
-Please provide a comprehensive response that includes the above information about my development by Infonex and my role as a search refiner, while also incorporating any relevant information from the search results.`;
-      } else {
-        refinedPrompt = `Based on the following search results for "${query}", provide a comprehensive and accurate answer:
-
-${searchResults}
-
-Please synthesize this information and provide a helpful response that directly answers the user's query. Include relevant details and cite sources when appropriate.`;
-      }
-
-      // Send to GPT-4o-mini for refinement
-      const currentMessages = [
-        systemMessage,
-        ...updatedMessages,
-        { role: 'user', content: refinedPrompt }
-      ];
-
-      const aiResponse = await sendMessage(
-        refinedPrompt,
-        'gpt-5-mini',
-        currentMessages.filter((msg): msg is Message => 
-          'model' in msg && 'timestamp' in msg
-        )
-      );
-
-      // Add the refined AI response to the chat
-      const newMessage: Message = {
-        ...aiResponse,
-        timestamp: new Date().toISOString(),
-      };
+    try {
+      // The server rewrites the query, searches, reads the top pages and answers with citations
+      const history = [systemMessage, ...messages].map(msg => ({ ...msg, content: toApiContent(msg.content) }));
+      const aiResponse = await searchAnswer(query, history, currentChat?.id, controller.signal);
 
-      const finalMessages = [...updatedMessages, newMessage];
+      const finalMessages = [...updatedMessages, aiResponse];
       setMessages(finalMessages);
       updateCurrentChat(finalMessages);
 
@@ -794,7 +568,7 @@ Please synthesize this information and provide a helpful response that directly
       setIsLoading(false);
       setAbortController(null);
     }
-  }, [messages, toast, updateCurrentChat, systemMessage, isLoading]);
+  }, [messages, toast, updateCurrentChat, systemMessage, isLoading, currentChat?.id]);
 
   // Stop generation function
   const stopGeneration = useCallback(() => {
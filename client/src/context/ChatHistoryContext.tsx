@@ -1,7 +1,9 @@
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import { Chat, Message } from '@/types';
 import { nanoid } from 'nanoid';
 import { getSystemMessage, getWelcomeMessage } from '@/utils/helpers';
+import { onAuthStateChange } from '@/lib/firebase';
+import { apiRequest } from '@/lib/queryClient';
 
 interface ChatHistoryContextType {
   chats: Chat[];
@@ -17,9 +19,47 @@ const ChatHistoryContext = createContext<ChatHistoryContextType | undefined>(und
 
 const STORAGE_KEY = 'infoagent-chat-history';
 
+// Wait for a burst of updates (such as a streamed reply) to settle before saving to the server
+const SYNC_DELAY_MS = 1500;
+
+const hasUserMessage = (chat: Chat) => chat.messages.some(msg => msg.role === 'user');
+
+// Drop replies that are still being generated; the server ignores client-only fields
+const toServerChat = (chat: Chat): Chat => ({
+  ...chat,
+  messages: chat.messages.filter(msg => !msg.loading),
+});
+
 export const ChatHistoryProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [chats, setChats] = useState<Chat[]>([]);
   const [currentChatId, setCurrentChatId] = useState<string | null>(null);
+  // Firebase uid of the signed-in user once their history has been loaded from the server
+  const syncedUserIdRef = useRef<string | null>(null);
+  const pendingSyncsRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  // Chats changed by updateCurrentChat whose new state still has to be sent to the server
+  const changedChatIdsRef = useRef(new Set<string>());
+
+  const scheduleSync = useCallback((chat: Chat) => {
+    if (!syncedUserIdRef.current || !hasUserMessage(chat)) return;
+
+    const pendingSyncs = pendingSyncsRef.current;
+    clearTimeout(pendingSyncs.get(chat.id));
+    pendingSyncs.set(chat.id, setTimeout(() => {
+      pendingSyncs.delete(chat.id);
+      if (chat.messages.some(msg => msg.loading)) return;
+      apiRequest({ url: `/api/chat-sessions/${encodeURIComponent(chat.id)}`, method: 'PUT', data: toServerChat(chat) })
+        .catch(error => console.warn('Failed to save chat to the server:', error));
+    }, SYNC_DELAY_MS));
+  }, []);
+
+  // Sync once the change is committed; state updaters may run more than once and must stay pure
+  useEffect(() => {
+    const changedChatIds = changedChatIdsRef.current;
+    for (const chat of chats) {
+      if (changedChatIds.has(chat.id)) scheduleSync(chat);
+    }
+    changedChatIds.clear();
+  }, [chats, scheduleSync]);
 
   // Load chats from localStorage on initial render
   useEffect(() => {
@@ -53,6 +93,43 @@ export const ChatHistoryProvider: React.FC<{ children: React.ReactNode }> = ({ c
     }
   }, []);
 
+  // Signed-in users keep their history on the server. The first sign-in on a browser uploads
+  // the chats kept locally so far; localStorage then just caches the server copy.
+  useEffect(() => {
+    return onAuthStateChange(async (user) => {
+      syncedUserIdRef.current = null;
+      if (!user) return;
+
+      try {
+        const importedKey = `${STORAGE_KEY}-imported-${user.uid}`;
+        if (!localStorage.getItem(importedKey)) {
+          const localChats = (JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]') as Chat[]).filter(hasUserMessage);
+          if (localChats.length > 0) {
+            await apiRequest({ url: '/api/chat-sessions/import', method: 'POST', data: localChats.map(toServerChat) });
+          }
+          localStorage.setItem(importedKey, 'true');
+        }
+
+        const serverChats = await apiRequest<Chat[]>({ url: '/api/chat-sessions', method: 'GET' });
+        setChats(prevChats => {
+          // Keep fresh conversations that have nothing worth saving yet
+          const serverIds = new Set(serverChats.map(chat => chat.id));
+          const unsavedChats = prevChats.filter(chat => !serverIds.has(chat.id) && !hasUserMessage(chat));
+          const mergedChats = [...unsavedChats, ...serverChats];
+
+          setCurrentChatId(prevId => {
+            if (prevId && mergedChats.some(chat => chat.id === prevId)) return prevId;
+            return mergedChats[0]?.id ?? prevId;
+          });
+          return mergedChats;
+        });
+        syncedUserIdRef.current = user.uid;
+      } catch (error) {
+        console.warn('Failed to load chat history from the server:', error);
+      }
+    });
+  }, []);
+
   // Save chats to localStorage whenever chats change
   useEffect(() => {
     if (chats.length > 0) {
@@ -110,6 +187,8 @@ export const ChatHistoryProvider: React.FC<{ children: React.ReactNode }> = ({ c
                 const hasText = msg.content.some(item => item.type === 'text');
                 const hasImage = msg.content.some(item => item.type === 'image_url');
                 const hasPdf = msg.content.some(item => item.type === 'pdf_link');
+                // Attachments are small references to files stored on the server
+                const isReference = (item: { type: string }) => item.type === 'pdf_link' || item.type === 'attachment';
                 
                 if (hasText && (hasImage || hasPdf)) {
                   return {
@@ -129,12 +208,12 @@ export const ChatHistoryProvider: React.FC<{ children: React.ReactNode }> = ({ c
                 } else if (hasText) {
                   return {
                     ...msg,
-                    content: msg.content.filter(item => item.type === 'text' || item.type === 'pdf_link')
+                    content: msg.content.filter(item => item.type === 'text' || isReference(item))
                   };
-                } else if (hasPdf) {
+                } else if (msg.content.some(isReference)) {
                   return {
                     ...msg,
-                    content: msg.content.filter(item => item.type === 'pdf_link')
+                    content: msg.content.filter(isReference)
                   };
                 } else {
                   return {
@@ -235,6 +314,7 @@ export const ChatHistoryProvider: React.FC<{ children: React.ReactNode }> = ({ c
 
   const updateCurrentChat = useCallback((messages: Message[]) => {
     if (!currentChatId) return;
+    changedChatIdsRef.current.add(currentChatId);
     
     setChats(prevChats => {
       const updatedChats = prevChats.map(chat => {
@@ -327,6 +407,14 @@ export const ChatHistoryProvider: React.FC<{ children: React.ReactNode }> = ({ c
   }, [currentChatId]);
 
   const deleteChat = useCallback((chatId: string) => {
+    changedChatIdsRef.current.delete(chatId);
+    if (syncedUserIdRef.current) {
+      clearTimeout(pendingSyncsRef.current.get(chatId));
+      pendingSyncsRef.current.delete(chatId);
+      apiRequest({ url: `/api/chat-sessions/${encodeURIComponent(chatId)}`, method: 'DELETE' })
+        .catch(error => console.warn('Failed to delete chat from the server:', error));
+    }
+
     setChats(prevChats => {
       const filteredChats = prevChats.filter(chat => chat.id !== chatId);
       
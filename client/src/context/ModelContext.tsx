@@ -0,0 +1,38 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { modelIds, type ModelId } from '@shared/schema';
+
+interface ModelContextType {
+  selectedModel: ModelId;
+  setSelectedModel: (model: ModelId) => void;
+}
+
+const DEFAULT_MODEL: ModelId = 'gpt-5';
+
+const ModelContext = createContext<ModelContextType | undefined>(undefined);
+
+export const useModel = () => {
+  const context = useContext(ModelContext);
+  if (context === undefined) {
+    throw new Error('useModel must be used within a ModelProvider');
+  }
+  return context;
+};
+
+export const ModelProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [selectedModel, setSelectedModel] = useState<ModelId>(() => {
+    // Load from localStorage, ignoring models that are no longer offered
+    const saved = localStorage.getItem('selectedModel');
+    return saved && (modelIds as readonly string[]).includes(saved) ? saved as ModelId : DEFAULT_MODEL;
+  });
+
+  useEffect(() => {
+    // Save to localStorage whenever the selection changes
+    localStorage.setItem('selectedModel', selectedModel);
+  }, [selectedModel]);
+
+  return (
+    <ModelContext.Provider value={{ selectedModel, setSelectedModel }}>
+      {children}
+    </ModelContext.Provider>
+  );
+};
@@ -0,0 +1,41 @@
+// Hook for displaying images and PDFs stored by our API
+import { useEffect, useState } from 'react';
+import { fetchWithAuth } from '@/lib/queryClient';
+
+const isApiUrl = (url: string) => url.startsWith('/api/');
+
+/**
+ * Artifacts served from /api may belong to the signed-in user, so elements like <img>
+ * cannot load them directly. This fetches them with the user's token and returns an
+ * object URL instead; any other URL is returned unchanged. Returns null while loading.
+ */
+export function useArtifactUrl(url: string): string | null {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isApiUrl(url)) return;
+
+    let cancelled = false;
+    let createdUrl: string | null = null;
+
+    fetchWithAuth(url)
+      .then(response => {
+        if (!response.ok) throw new Error(`${response.status}: ${response.statusText}`);
+        return response.blob();
+      })
+      .then(blob => {
+        if (cancelled) return;
+        createdUrl = URL.createObjectURL(blob);
+        setObjectUrl(createdUrl);
+      })
+      .catch(error => console.warn(`Failed to load ${url}:`, error));
+
+    return () => {
+      cancelled = true;
+      if (createdUrl) URL.revokeObjectURL(createdUrl);
+      setObjectUrl(null);
+    };
+  }, [url]);
+
+  return isApiUrl(url) ? objectUrl : url;
+}
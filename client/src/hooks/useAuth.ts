@@ -32,14 +32,12 @@ export function useAuth() {
     retry: false,
   });
 
-  // Mutation to sync user data with database
+  // Mutation to sync user data with database. The server takes the account identity from
+  // the ID token sent with the request; only profile fields are passed along.
   const syncUserMutation = useMutation({
     mutationFn: async (userData: {
-      firebaseUid: string;
-      email: string;
       displayName: string | null;
       photoURL: string | null;
-      emailVerified: boolean;
     }) => {
       return await apiRequest<User>({
         url: '/api/auth/sync-user',
@@ -56,11 +54,8 @@ export function useAuth() {
   useEffect(() => {
     if (firebaseUser && !syncUserMutation.isPending) {
       syncUserMutation.mutate({
-        firebaseUid: firebaseUser.uid,
-        email: firebaseUser.email || '',
         displayName: firebaseUser.displayName,
         photoURL: firebaseUser.photoURL,
-        emailVerified: firebaseUser.emailVerified,
       });
     }
   }, [firebaseUser, syncUserMutation]);
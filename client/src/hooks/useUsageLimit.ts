@@ -1,64 +1,67 @@
-// Hook for tracking daily usage limits for non-authenticated users
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/queryClient';
+// Hook for tracking daily usage limits; the server counts usage and decides what applies to the caller
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { PlanId, UsageStatus } from '@shared/schema';
 import { useAuth } from './useAuth';
 
 export interface DailyUsage {
+  plan: PlanId | null;
+  planLabel: string | null;
   messageCount: number;
   limit: number;
+  quotas: UsageStatus['quotas'] | null;
   canSendMessage: boolean;
   canGenerateImage: boolean;
   canUploadImage: boolean;
 }
 
+function toDailyUsage(status: UsageStatus | undefined): DailyUsage {
+  // Until the server answers, assume the anonymous defaults and let the server enforce them
+  if (!status) {
+    return {
+      plan: null,
+      planLabel: null,
+      messageCount: 0,
+      limit: 10,
+      quotas: null,
+      canSendMessage: true,
+      canGenerateImage: false,
+      canUploadImage: false,
+    };
+  }
+
+  const { quotas } = status;
+  return {
+    plan: status.plan,
+    planLabel: status.planLabel,
+    messageCount: quotas.messages.used,
+    limit: quotas.messages.limit,
+    quotas,
+    canSendMessage: quotas.messages.remaining > 0 && quotas.tokens.remaining > 0,
+    canGenerateImage: quotas.images.remaining > 0,
+    canUploadImage: quotas.uploads.remaining > 0,
+  };
+}
+
 export function useUsageLimit() {
-  const { isAuthenticated } = useAuth();
+  const { firebaseUser, isLoading: isAuthLoading } = useAuth();
   const queryClient = useQueryClient();
 
-  // Query daily usage for non-authenticated users
-  const { data: usage, isLoading } = useQuery<DailyUsage>({
-    queryKey: ['/api/usage/daily'],
-    enabled: !isAuthenticated,
+  // Keyed by user so signing in or out fetches the limits for the new identity
+  const { data: status, isLoading } = useQuery<UsageStatus>({
+    queryKey: ['/api/usage/daily', firebaseUser?.uid ?? 'anonymous'],
+    enabled: !isAuthLoading,
     retry: false,
   });
 
-  // Mutation to increment message count
-  const incrementUsageMutation = useMutation({
-    mutationFn: async () => {
-      return await apiRequest({
-        url: '/api/usage/increment',
-        method: 'POST',
-      });
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/usage/daily'] });
-    },
-  });
-
-  // For authenticated users, no limits apply
-  if (isAuthenticated) {
-    return {
-      usage: {
-        messageCount: 0,
-        limit: Infinity,
-        canSendMessage: true,
-        canGenerateImage: true,
-        canUploadImage: true,
-      } as DailyUsage,
-      isLoading: false,
-      incrementUsage: () => Promise.resolve(),
-    };
-  }
+  // Usage is counted server-side by /api/chat, so just fetch the new numbers afterwards
+  const refreshUsage = useCallback(() => {
+    return queryClient.invalidateQueries({ queryKey: ['/api/usage/daily'] });
+  }, [queryClient]);
 
   return {
-    usage: usage || {
-      messageCount: 0,
-      limit: 10,
-      canSendMessage: true,
-      canGenerateImage: false,
-      canUploadImage: false,
-    },
-    isLoading,
-    incrementUsage: incrementUsageMutation.mutateAsync,
+    usage: toDailyUsage(status),
+    isLoading: isAuthLoading || isLoading,
+    refreshUsage,
   };
-}
\ No newline at end of file
+}
@@ -1,4 +1,19 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { auth } from "@/lib/firebase";
+
+// Identify the signed-in user to the server with their Firebase ID token
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const user = auth.currentUser;
+  if (!user) return {};
+  return { Authorization: `Bearer ${await user.getIdToken()}` };
+}
+
+// Fetch one of our own API resources, such as a stored image or PDF, as the signed-in user
+export async function fetchWithAuth(url: string): Promise<Response> {
+  // Only same-origin paths get the token; it must never be sent to third-party hosts
+  const headers = url.startsWith('/') ? await getAuthHeaders() : {};
+  return fetch(url, { headers, credentials: "include" });
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -19,7 +34,10 @@ export async function apiRequest<T = any>(
   
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(data ? { "Content-Type": "application/json" } : {}),
+      ...(await getAuthHeaders()),
+    },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
     signal,
@@ -29,6 +47,75 @@ export async function apiRequest<T = any>(
   return await res.json() as T;
 }
 
+// POST a multipart form, such as a file upload, as the signed-in user
+export async function apiUpload<T = any>(url: string, data: FormData): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: await getAuthHeaders(),
+    body: data,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return await res.json() as T;
+}
+
+// POST to an endpoint that answers with server-sent events, passing each parsed `data:` payload to onEvent
+export async function apiStream<T = any>(
+  options: {
+    url: string;
+    data?: unknown | undefined;
+    signal?: AbortSignal;
+  },
+  onEvent: (event: T) => void
+): Promise<void> {
+  const { url, data, signal } = options;
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+      ...(await getAuthHeaders()),
+    },
+    body: data ? JSON.stringify(data) : undefined,
+    credentials: "include",
+    signal,
+  });
+
+  await throwIfResNotOk(res);
+  if (!res.body) {
+    throw new Error("Streaming is not supported by this browser");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line; keep any trailing partial event for the next chunk
+    const events = buffer.split("\n\n");
+    buffer = events.pop() || "";
+
+    for (const rawEvent of events) {
+      const payload = rawEvent
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trim())
+        .join("\n");
+
+      if (payload) {
+        onEvent(JSON.parse(payload) as T);
+      }
+    }
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -36,6 +123,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey[0] as string, {
+      headers: await getAuthHeaders(),
       credentials: "include",
     });
 
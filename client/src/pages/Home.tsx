@@ -2,6 +2,7 @@ import React from 'react';
 import { Header } from '@/components/Header';
 import { ChatContainer } from '@/components/ChatContainer';
 import { ChatInput } from '@/components/ChatInput';
+import { WorkspacePanel } from '@/components/WorkspacePanel';
 import { ChatProvider } from '@/context/ChatContext';
 import { ChatHistoryProvider } from '@/context/ChatHistoryContext';
 
@@ -11,7 +12,10 @@ export default function Home() {
       <ChatProvider>
         <div className="flex flex-col min-h-screen bg-neutral-900 text-white">
           <Header />
-          <ChatContainer />
+          <div className="flex flex-grow min-h-0">
+            <ChatContainer />
+            <WorkspacePanel />
+          </div>
           <ChatInput />
         </div>
       </ChatProvider>
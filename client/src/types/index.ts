@@ -1,13 +1,26 @@
+import type { AgentStep, MessageCitation, MessageUsage, ModelId } from '@shared/schema';
+
 export interface Message {
   id?: number;
   role: 'user' | 'assistant' | 'system';
   content: string | Array<{type: string, text?: string, image_data?: string}>;
-  model: 'gpt-5' | 'gpt-5-mini' | 'gpt-5-nano' | 'gpt-4o' | 'gpt-4o-mini' | 'llama-4-maverick';
+  model: ModelId;
   timestamp: string;
   loading?: boolean;
+  toolCalls?: ToolCallStatus[];
+  trace?: AgentStep[];
+  usage?: MessageUsage;
+  // Web sources the text cites as [1], [2], ...
+  citations?: MessageCitation[];
+}
+
+export interface ToolCallStatus {
+  id: string;
+  name: string;
+  status: 'running' | 'done' | 'error';
 }
 
-export type ModelType = 'gpt-5' | 'gpt-5-mini' | 'gpt-5-nano' | 'gpt-4o' | 'gpt-4o-mini' | 'llama-4-maverick';
+export type ModelType = ModelId;
 
 export interface Chat {
   id: string;
@@ -1,5 +1,6 @@
 import { Message } from '@/types';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, apiStream } from '@/lib/queryClient';
+import type { AgentStep, ChatStreamEvent, MessageCitation, MessageUsage, ModelId, SearchAnswerResponse } from '@shared/schema';
 
 export interface ImageData {
   type: 'image';
@@ -13,35 +14,10 @@ export interface TextData {
 
 export type MessageContent = string | (TextData | ImageData)[];
 
-export async function uploadImage(file: File): Promise<string> {
-  try {
-    // Create FormData to upload the image file
-    const formData = new FormData();
-    formData.append('image', file);
-
-    // Upload image to server and get URL
-    const response = await fetch('/api/upload-image', {
-      method: 'POST',
-      body: formData,
-    });
-
-    if (!response.ok) {
-      throw new Error(`Upload failed: ${response.statusText}`);
-    }
-
-    const result = await response.json();
-
-    return result.url;
-  } catch (error) {
-    console.error('Image upload failed:', error);
-    throw new Error('Failed to upload image');
-  }
-}
-
 export async function sendMessageWithImage(
   content: string,
   imageData: string | null,
-  model: 'gpt-5' | 'gpt-5-mini' | 'gpt-5-nano' | 'gpt-4o' | 'gpt-4o-mini' | 'llama-4-maverick',
+  model: ModelId,
   messages: Message[],
   signal?: AbortSignal
 ): Promise<Message> {
@@ -98,16 +74,61 @@ export async function sendMessageWithImage(
 
 export async function sendMessage(
   content: string,
-  model: 'gpt-5' | 'gpt-5-mini' | 'gpt-5-nano' | 'gpt-4o' | 'gpt-4o-mini' | 'llama-4-maverick',
+  model: ModelId,
   messages: Message[],
   signal?: AbortSignal,
-  webSearchEnabled = true
+  webSearchEnabled = true,
+  onStreamEvent?: (event: ChatStreamEvent) => void,
+  chatId?: string
 ): Promise<Message> {
   try {
+    // Stream tokens and tool activity as they arrive when the caller wants live updates
+    if (onStreamEvent) {
+      let finalEvent: Extract<ChatStreamEvent, { type: 'message' }> | null = null;
+
+      await apiStream<ChatStreamEvent>({
+        url: '/api/chat',
+        data: {
+          model: model,
+          messages: messages.map(({ role, content }) => ({ role, content })),
+          webSearchEnabled,
+          chatId,
+          stream: true,
+        },
+        signal,
+      }, (event) => {
+        if (event.type === 'error') {
+          throw new Error(event.message);
+        }
+        if (event.type === 'message') {
+          finalEvent = event;
+        }
+        onStreamEvent(event);
+      });
+
+      if (!finalEvent) {
+        throw new Error('The response stream ended before the message was complete');
+      }
+
+      const { message, trace, usage, citations } = finalEvent as Extract<ChatStreamEvent, { type: 'message' }>;
+      return {
+        role: message.role,
+        content: message.content as Message['content'],
+        model: model,
+        timestamp: new Date().toISOString(),
+        trace,
+        usage,
+        citations,
+      };
+    }
+
     // Use the improved apiRequest function
     const data = await apiRequest<{
       message: { role: 'user' | 'assistant' | 'system'; content: string };
       model: string;
+      trace?: AgentStep[];
+      usage?: MessageUsage;
+      citations?: MessageCitation[];
     }>({
       url: '/api/chat',
       method: 'POST',
@@ -115,6 +136,7 @@ export async function sendMessage(
         model: model,
         messages: messages.map(({ role, content }) => ({ role, content })),
         webSearchEnabled,
+        chatId,
       },
       signal,
     });
@@ -124,9 +146,45 @@ export async function sendMessage(
       content: data.message.content,
       model: model,
       timestamp: new Date().toISOString(),
+      trace: data.trace,
+      usage: data.usage,
+      citations: data.citations,
     };
   } catch (error) {
     console.error('Error sending message:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+// Search the web for a question and get an answer citing the pages it used, which come
+// back as a web_search_result part of the message
+export async function searchAnswer(
+  query: string,
+  messages: Message[],
+  chatId?: string,
+  signal?: AbortSignal
+): Promise<Message> {
+  try {
+    const data = await apiRequest<SearchAnswerResponse>({
+      url: '/api/search-answer',
+      method: 'POST',
+      data: {
+        query,
+        messages: messages.map(({ role, content }) => ({ role, content })),
+        chatId,
+      },
+      signal,
+    });
+
+    return {
+      role: data.message.role,
+      content: data.message.content as Message['content'],
+      model: data.model,
+      timestamp: new Date().toISOString(),
+      usage: data.usage,
+      citations: data.citations,
+    };
+  } catch (error) {
+    console.error('Error searching the web:', error);
+    throw error;
+  }
+}
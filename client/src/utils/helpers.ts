@@ -1,4 +1,5 @@
 import { Message } from '@/types';
+import type { AnalysisResult, AttachmentContentPart, AttachmentInfo, ChartResult, FileSearchResult, MarketQuote, QueryResult, WeatherReport, WebSearchResult } from '@shared/schema';
 
 export function formatTimestamp(timestamp: string): string {
   const date = new Date(timestamp);
@@ -24,6 +25,96 @@ export const getWelcomeMessage = (model: string): Message => ({
   timestamp: new Date().toISOString(),
 });
 
+// Content parts of assistant messages that are rendered as cards from tool results
+export function isCardContent(item: { type: string }): boolean {
+  return item.type === 'weather_report' || item.type === 'market_quote' || item.type === 'chart_result' || item.type === 'analysis_result' || item.type === 'query_result' || item.type === 'file_search_result' || item.type === 'web_search_result';
+}
+
+// Short text standing in for a card when the conversation is sent back to the model
+export function describeCardContent(item: { type: string }): string {
+  if (item.type === 'weather_report') {
+    const { location, current } = item as unknown as WeatherReport;
+    return `[Weather card for ${location.name}: ${current.temperature}°C, ${current.condition}]`;
+  }
+  if (item.type === 'chart_result') {
+    const { spec } = item as unknown as ChartResult;
+    return `[${spec.type} chart${spec.title ? ` "${spec.title}"` : ''} of ${spec.series.map(series => series.name).join(', ')}]`;
+  }
+  if (item.type === 'analysis_result') {
+    const { analysisType, rowCount, tables } = item as unknown as AnalysisResult;
+    return `[${analysisType} analysis of ${rowCount} rows: ${tables.map(table => table.title).join(', ')}]`;
+  }
+  if (item.type === 'query_result') {
+    const { dataset, sql, rowCount } = item as unknown as QueryResult;
+    return `[Query on ${dataset} returning ${rowCount} rows: ${sql}]`;
+  }
+  if (item.type === 'file_search_result') {
+    const { passages } = item as unknown as FileSearchResult;
+    return `[Document passages cited as ${passages
+      .map(passage => `[${passage.citation}] ${passage.title}${passage.page !== null ? ` p. ${passage.page}` : ''}`)
+      .join(', ')}]`;
+  }
+  if (item.type === 'web_search_result') {
+    const { vertical, sources } = item as unknown as WebSearchResult;
+    const kind = vertical === 'web' ? 'Web pages' : `Web ${vertical} results`;
+    return `[${kind} cited as ${sources.map(source => `[${source.citation}] ${source.title} (${source.url})`).join(', ')}]`;
+  }
+  const quote = item as unknown as MarketQuote;
+  const sign = quote.change >= 0 ? '+' : '';
+  return `[Price chart for ${quote.symbol}: ${quote.price} ${quote.currency}, ${sign}${quote.changePercent.toFixed(2)}% over ${quote.period}]`;
+}
+
+// Reference to an uploaded attachment, as kept in a message's content
+export function toAttachmentPart(attachment: AttachmentInfo): AttachmentContentPart {
+  return {
+    type: 'attachment',
+    attachment_id: attachment.id,
+    filename: attachment.filename,
+    kind: attachment.kind,
+    mime_type: attachment.mimeType,
+    size_bytes: attachment.sizeBytes,
+  };
+}
+
+// Content of a message as sent back to the model: its text, with cards and PDF links described
+// in words. Attachments stay references; the server reads them again on every request.
+export function toApiContent(content: Message['content']): Message['content'] {
+  if (!Array.isArray(content)) return content;
+
+  const textParts: string[] = [];
+  const attachments: Exclude<Message['content'], string> = [];
+  for (const item of content) {
+    if (item.type === 'text' && item.text) {
+      textParts.push(item.text);
+    } else if (item.type === 'pdf_link' && (item as any).pdf_url) {
+      textParts.push(`[PDF document: ${(item as any).title || 'Generated PDF'} - not accessible to AI]`);
+    } else if (isCardContent(item)) {
+      textParts.push(describeCardContent(item));
+    } else if (item.type === 'attachment') {
+      attachments.push(item);
+    }
+  }
+
+  const text = textParts.join('\n');
+  return attachments.length > 0 ? [...(text ? [{ type: 'text', text }] : []), ...attachments] : text;
+}
+
+export function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Errors from the API read "<status>: <body>"; show the server's message when there is one
+export function errorMessage(error: any) {
+  const body = String(error?.message || '').replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body || 'Something went wrong';
+  }
+}
+
 export function escapeHtml(unsafe: string): string {
   return unsafe
     .replace(/&/g, '&amp;')
@@ -1,17 +1,11 @@
 import { apiRequest } from '@/lib/queryClient';
-
-export interface SearchResult {
-  title: string;
-  url: string;
-  description?: string;
-  source?: string;
-}
+import type { WebSearchHit } from '@shared/schema';
 
 interface SearchResponse {
-  results: SearchResult[];
+  results: WebSearchHit[];
 }
 
-export async function performSearch(query: string): Promise<SearchResult[]> {
+export async function performSearch(query: string): Promise<WebSearchHit[]> {
   if (!query || query.trim().length < 3) {
     return [];
   }
@@ -32,4 +26,4 @@ export async function performSearch(query: string): Promise<SearchResult[]> {
     console.error('Search error:', error);
     return [];
   }
-}
\ No newline at end of file
+}
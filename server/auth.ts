@@ -0,0 +1,81 @@
+import type { Request, Response, NextFunction } from "express";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { log } from "./vite";
+import { verifyFirebaseIdToken, TokenVerificationError, type FirebaseTokenClaims } from "./services/firebaseAuth";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Signed-in user resolved from the Firebase ID token, if any
+      user?: User;
+      // Verified claims of that token
+      authClaims?: FirebaseTokenClaims;
+    }
+  }
+}
+
+/**
+ * Attach req.user for requests carrying `Authorization: Bearer <Firebase ID token>`.
+ * The token must verify against Firebase's public keys; requests with a bad token are
+ * rejected rather than treated as anonymous. Users seen for the first time are created
+ * from the token claims so that requests racing the client's /api/auth/sync-user call
+ * still resolve to an account.
+ */
+export async function attachUser(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) {
+    return next();
+  }
+
+  let claims: FirebaseTokenClaims;
+  try {
+    claims = await verifyFirebaseIdToken(header.slice("Bearer ".length).trim());
+  } catch (error: any) {
+    if (error instanceof TokenVerificationError) {
+      return res.status(401).json({ message: "Invalid authentication token" });
+    }
+    log(`Error verifying authentication token: ${error.message}`, "error");
+    return res.status(500).json({ message: "Failed to verify authentication token" });
+  }
+
+  const firebaseUid = claims.sub;
+  req.authClaims = claims;
+
+  try {
+    let user = await storage.getUserByFirebaseUid(firebaseUid);
+    if (!user && claims.email) {
+      user = await storage.createOrUpdateUser({
+        firebaseUid,
+        email: claims.email,
+        displayName: claims.name || null,
+        photoURL: claims.picture || null,
+        emailVerified: claims.email_verified || false,
+      });
+    }
+
+    req.user = user;
+    next();
+  } catch (error: any) {
+    log(`Error resolving user: ${error.message}`, "error");
+    res.status(500).json({ message: "Failed to resolve user" });
+  }
+}
+
+/**
+ * Reject requests that are not from a signed-in user
+ */
+export function requireUser(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ message: "Sign in required" });
+  }
+  next();
+}
+
+/**
+ * Whether the request may read a record owned by ownerId. Records without an owner were
+ * created anonymously and stay readable by anyone holding their link.
+ */
+export function canAccess(req: Request, ownerId: number | null) {
+  return ownerId === null || req.user?.id === ownerId;
+}
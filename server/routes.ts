@@ -1,34 +1,93 @@
-import { searchOpenAIEnhanced } from './services/search';
-import { searchSerper } from './services/serper';
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { z } from "zod";
-import { chatCompletionRequestSchema, insertMessageSchema, insertChatSessionSchema, images, pdfs, users, dailyUsage, type User, type InsertUser } from "@shared/schema";
-import { generateOpenAIResponse, generateOpenAIMiniResponse } from "./services/openai";
-import { generateDeepSeekResponse } from "./services/openrouter";
-import { generateMaverickResponse, handleImageUpload } from "./services/openrouter-maverick";
-import { handleSearch } from "./services/search";
+import { chatCompletionRequestSchema, type ChatCompletionRequest, codeExecutionRequestSchema, searchAnswerRequestSchema, type SearchAnswerResponse, webSearchOptionsSchema, insertMessageSchema, syncedChatSchema, images, pdfs, users, dailyUsage, type Image, type Pdf, type User, type InsertUser } from "@shared/schema";
+import { getModelProvider, listModels } from "./services/modelRegistry";
+import { handleImageUpload } from "./services/openrouter-maverick";
+import { SearchUnavailableError, webSearch } from "./services/webSearch";
+import { openEventStream, type ChatEventStream } from "./services/sse";
+import { runSandboxedCode } from "./services/sandbox";
+import { createUsageMeter, setQuotaHeaders, type UsageMeter } from "./services/quota";
+import { estimateCost } from "./services/pricing";
+import { recordModelUsage } from "./services/usageRecords";
+import { buildChatContext } from "./services/contextWindow";
+import { SEARCH_ANSWER_MODEL, searchAndAnswer } from "./services/searchAnswer";
+import { collectCitations } from "./services/citations";
+import { buildDataset, DatasetFormatError, MAX_DATASET_BYTES, MAX_DATASETS_PER_USER } from "./services/datasets";
+import { DocumentFormatError, indexDocument, MAX_DOCUMENT_BYTES, MAX_DOCUMENTS_PER_USER } from "./services/documents";
+import { AttachmentError, extractAttachment, MAX_ATTACHMENT_BYTES, resolveAttachments } from "./services/attachments";
+import { putBlob, sendBlob, type StoredBlob } from "./services/blobStore";
+import { listWorkspace, MAX_WORKSPACE_BYTES, readWorkspaceFile, WorkspaceError, WorkspaceFileNotFoundError } from "./services/workspace";
 import { log } from "./vite";
 import { db } from "./db";
-import { messages, chatSessions } from "@shared/schema";
-import { eq, and } from "drizzle-orm";
+import { eq } from "drizzle-orm";
 import multer from 'multer';
 import { storage } from './storage';
+import { attachUser, requireUser, canAccess } from './auth';
+
+/**
+ * Count a chat request against the caller's message and upload quotas. Returns the reason
+ * the request is refused, or null when it may go ahead.
+ */
+async function consumeChatQuota(usageMeter: UsageMeter, chatRequest: ChatCompletionRequest): Promise<string | null> {
+  const planLabel = usageMeter.plan.label;
+  const { quotas } = await usageMeter.status();
+  if (quotas.tokens.remaining <= 0) {
+    return `Daily token limit of the ${planLabel} plan reached`;
+  }
+
+  // Only images attached to the new message count; earlier ones were counted when they were
+  // sent, and attachments when they were uploaded
+  const lastMessage = chatRequest.messages[chatRequest.messages.length - 1];
+  const uploadCount = lastMessage?.role === "user" && Array.isArray(lastMessage.content)
+    ? lastMessage.content.filter(part => part.type !== "text" && part.type !== "attachment").length
+    : 0;
+  if (uploadCount > 0 && !(await usageMeter.consume("uploads", uploadCount))) {
+    return `Daily image upload limit of the ${planLabel} plan reached`;
+  }
+
+  if (!(await usageMeter.consume("messages"))) {
+    return `Daily message limit of the ${planLabel} plan reached`;
+  }
+
+  return null;
+}
+
+/**
+ * A Content-Disposition header for a stored file. The plain filename falls back to ASCII;
+ * filename* carries the real name for browsers that read it.
+ */
+function contentDisposition(type: "inline" | "attachment", filename: string): string {
+  return `${type}; filename="${filename.replace(/[^\x20-\x7e]|["\\]/g, "_")}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+/**
+ * The blob holding an image. Images stored before the blob store keep their bytes as base64
+ * in the row; they are moved into the store the first time they are read.
+ */
+async function imageBlob(image: Image): Promise<StoredBlob> {
+  if (image.blobHash && image.sizeBytes !== null) {
+    return { hash: image.blobHash, size: image.sizeBytes };
+  }
+  const legacy = image.imageData || "";
+  const blob = await putBlob(Buffer.from(legacy.split(",")[1] || legacy, "base64"));
+  await db.update(images).set({ blobHash: blob.hash, sizeBytes: blob.size, imageData: null }).where(eq(images.id, image.id));
+  return blob;
+}
+
+// Same as imageBlob, for PDFs
+async function pdfBlob(pdf: Pdf): Promise<StoredBlob> {
+  if (pdf.blobHash && pdf.sizeBytes !== null) {
+    return { hash: pdf.blobHash, size: pdf.sizeBytes };
+  }
+  const blob = await putBlob(Buffer.from(pdf.pdfData || "", "base64"));
+  await db.update(pdfs).set({ blobHash: blob.hash, sizeBytes: blob.size, pdfData: null }).where(eq(pdfs.id, pdf.id));
+  return blob;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Helper function to get client IP address
-  const getClientIP = (req: any) => {
-    return req.headers['x-forwarded-for'] || 
-           req.connection.remoteAddress || 
-           req.socket.remoteAddress ||
-           (req.connection.socket ? req.connection.socket.remoteAddress : null) ||
-           '127.0.0.1';
-  };
-
-  // Helper function to get today's date in YYYY-MM-DD format
-  const getTodayDate = () => {
-    return new Date().toISOString().split('T')[0];
-  };
+  // Resolve the signed-in user, if any, for every API request
+  app.use("/api", attachUser);
 
   // Configure multer for image uploads (memory storage)
   const upload = multer({ 
@@ -39,21 +98,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Firebase Authentication Routes
-  // Route to sync Firebase user with database
+  // Route to sync Firebase user with database. Identity comes from the verified token;
+  // the body may only fill in profile fields the token does not carry.
   app.post('/api/auth/sync-user', async (req, res) => {
     try {
-      const { firebaseUid, email, displayName, photoURL, emailVerified } = req.body;
-      
-      if (!firebaseUid || !email) {
-        return res.status(400).json({ error: 'Firebase UID and email are required' });
+      const claims = req.authClaims;
+      if (!claims) {
+        return res.status(401).json({ error: 'Sign in required' });
+      }
+
+      const email = claims.email || req.user?.email;
+      if (!email) {
+        return res.status(400).json({ error: 'An email address is required' });
       }
 
+      const { displayName, photoURL } = req.body;
       const userData: InsertUser = {
-        firebaseUid,
+        firebaseUid: claims.sub,
         email,
-        displayName: displayName || null,
-        photoURL: photoURL || null,
-        emailVerified: emailVerified || false,
+        displayName: claims.name || displayName || null,
+        photoURL: claims.picture || photoURL || null,
+        emailVerified: claims.email_verified || false,
       };
 
       const user = await storage.createOrUpdateUser(userData);
@@ -67,9 +132,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Route to get current user
   app.get('/api/auth/user', async (req, res) => {
     try {
-      // For now, return null since we're not implementing session-based auth
-      // In a full implementation, you'd validate the Firebase token here
-      res.json(null);
+      // Resolved from the verified Firebase ID token by attachUser
+      res.json(req.user ?? null);
     } catch (error: any) {
       log(`Error getting user: ${error.message}`, "error");
       res.status(500).json({ error: 'Failed to get user' });
@@ -77,69 +141,125 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Usage tracking routes
-  // Route to get daily usage for non-authenticated users
+  // Route to get the caller's plan and what is left of today's quotas. Usage is counted
+  // by the endpoints that consume it, so there is no client-side increment.
   app.get('/api/usage/daily', async (req, res) => {
     try {
-      const clientIP = getClientIP(req);
-      const today = getTodayDate();
-      
-      const usage = await storage.getDailyUsage(clientIP, today);
-      const messageCount = usage?.messageCount || 0;
-      const limit = 10;
-      
-      res.json({
-        messageCount,
-        limit,
-        canSendMessage: messageCount < limit,
-        canGenerateImage: false,
-        canUploadImage: false,
-      });
+      const usageMeter = await createUsageMeter(req);
+      const status = await usageMeter.status();
+      setQuotaHeaders(res, status);
+      res.json(status);
     } catch (error: any) {
       log(`Error getting daily usage: ${error.message}`, "error");
       res.status(500).json({ error: 'Failed to get usage data' });
     }
   });
 
-  // Route to increment message count for non-authenticated users
-  app.post('/api/usage/increment', async (req, res) => {
+  // Route to get token, cost and latency totals of the model calls made for the signed-in user,
+  // per day and per model, over the last `days` days (30 by default)
+  app.get('/api/usage/summary', requireUser, async (req, res) => {
     try {
-      const clientIP = getClientIP(req);
-      const today = getTodayDate();
-      
-      const updatedUsage = await storage.incrementDailyUsage(clientIP, today);
-      
-      const limit = 10;
-      res.json({
-        messageCount: updatedUsage.messageCount,
-        limit,
-        canSendMessage: updatedUsage.messageCount < limit,
-        canGenerateImage: false,
-        canUploadImage: false,
-      });
+      const days = req.query.days === undefined ? 30 : Number(req.query.days);
+      if (!Number.isInteger(days) || days < 1 || days > 365) {
+        return res.status(400).json({ error: 'days must be a whole number between 1 and 365' });
+      }
+
+      const since = new Date();
+      since.setUTCHours(0, 0, 0, 0);
+      since.setUTCDate(since.getUTCDate() - (days - 1));
+
+      const summary = await storage.getUsageSummary(req.user!.id, since);
+      res.json(summary);
     } catch (error: any) {
-      log(`Error incrementing usage: ${error.message}`, "error");
-      res.status(500).json({ error: 'Failed to update usage' });
+      log(`Error getting usage summary: ${error.message}`, "error");
+      res.status(500).json({ error: 'Failed to get usage summary' });
     }
   });
-  // Search endpoint for realtime data using Serper API
+
+  // Web search through the configured providers, returning normalized results
   app.post('/api/search', async (req, res) => {
     try {
-      const { query } = req.body;
+      const { query, ...filters } = req.body;
       
       if (!query || typeof query !== 'string') {
         return res.status(400).json({ error: 'Query is required and must be a string' });
       }
+      const options = webSearchOptionsSchema.safeParse(filters);
+      if (!options.success) {
+        return res.status(400).json({ error: 'Invalid search filters', errors: options.error.format() });
+      }
       
-      // Use Serper API for real web search results
-      const data = await searchSerper(query);
+      const data = await webSearch(query, options.data);
       res.json(data);
     } catch (error: any) {
-      log(`Error in Serper search endpoint: ${error.message}`, "error");
-      res.status(500).json({ error: error.message || 'Web search failed' });
+      log(`Error in search endpoint: ${error.message}`, "error");
+      res.status(error instanceof SearchUnavailableError ? 503 : 500).json({ error: error.message || 'Web search failed' });
+    }
+  });
+
+  // Search the web for a question and answer it with numbered citations to the pages used
+  app.post("/api/search-answer", async (req, res) => {
+    try {
+      const validationResult = searchAnswerRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Invalid request format",
+          errors: validationResult.error.format()
+        });
+      }
+      const searchRequest = validationResult.data;
+
+      // A searched question counts as one chat message
+      const usageMeter = await createUsageMeter(req);
+      const quotaError = await consumeChatQuota(usageMeter, {
+        model: SEARCH_ANSWER_MODEL,
+        messages: [{ role: "user", content: searchRequest.query }],
+        webSearchEnabled: true,
+        stream: false
+      });
+      setQuotaHeaders(res, await usageMeter.status());
+      if (quotaError) {
+        return res.status(429).json({ message: quotaError });
+      }
+
+      // Stop searching and reading pages if the client goes away
+      const abortController = new AbortController();
+      res.on("close", () => abortController.abort());
+
+      const startedAt = Date.now();
+      const answer = await searchAndAnswer(searchRequest, { userId: req.user?.id, signal: abortController.signal });
+      await usageMeter.record("tokens", answer.tokens.promptTokens + answer.tokens.completionTokens);
+
+      const response: SearchAnswerResponse = {
+        message: {
+          role: "assistant",
+          content: [{ type: "text", text: answer.text }, answer.result]
+        },
+        model: SEARCH_ANSWER_MODEL,
+        usage: {
+          ...answer.tokens,
+          toolCalls: 0,
+          latencyMs: Date.now() - startedAt,
+          costUsd: answer.costUsd
+        },
+        citations: answer.citations
+      };
+      return res.status(200).json(response);
+    } catch (error: any) {
+      log(`Error in search answer endpoint: ${error.message}`, "error");
+      return res.status(error instanceof SearchUnavailableError ? 503 : 500).json({ message: error.message || "Web search failed" });
     }
   });
+
   app.post("/api/upload-image", upload.single('image'), async (req, res) => {
     try {
+      // Uploads are counted when the image is sent with a chat message; reject early once none are left
+      const status = await (await createUsageMeter(req)).status();
+      setQuotaHeaders(res, status);
+      if (status.quotas.uploads.remaining <= 0) {
+        return res.status(429).json({ error: `Daily image upload limit of the ${status.planLabel} plan reached` });
+      }
+
       await handleImageUpload(req, res);
     } catch (error: any) {
       log(`Error in image upload endpoint: ${error.message}`, "error");
@@ -147,6 +267,150 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Documents the signed-in user uploads for the file_search tool, parsed per request like datasets
+  const documentUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_DOCUMENT_BYTES },
+  }).single("document");
+
+  app.post("/api/upload-document", requireUser, (req, res, next) => {
+    documentUpload(req, res, (error: any) => {
+      if (!error) return next();
+      const tooLarge = error.code === "LIMIT_FILE_SIZE";
+      return res.status(tooLarge ? 413 : 400).json({
+        message: tooLarge ? `Documents are limited to ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB` : error.message
+      });
+    });
+  }, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "A file is required" });
+      }
+
+      const existing = await storage.getDocumentsForUser(req.user!.id);
+      if (existing.length >= MAX_DOCUMENTS_PER_USER) {
+        return res.status(409).json({ message: `At most ${MAX_DOCUMENTS_PER_USER} documents can be kept; delete one first` });
+      }
+
+      const saved = await indexDocument(req.user!.id, req.file.originalname, req.file.buffer);
+      return res.status(201).json(saved);
+    } catch (error: any) {
+      if (error instanceof DocumentFormatError) {
+        return res.status(400).json({ message: error.message });
+      }
+      log(`Error uploading document: ${error.message}`, "error");
+      return res.status(500).json({ message: error.message || "Failed to upload document" });
+    }
+  });
+
+  app.get("/api/documents", requireUser, async (req, res) => {
+    try {
+      return res.status(200).json(await storage.getDocumentsForUser(req.user!.id));
+    } catch (error: any) {
+      log(`Error fetching documents: ${error.message}`, "error");
+      return res.status(500).json({ message: error.message || "Failed to fetch documents" });
+    }
+  });
+
+  app.delete("/api/documents/:id", requireUser, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const deleted = Number.isInteger(id) && await storage.deleteDocumentForUser(req.user!.id, id);
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      return res.status(200).json({ message: "Document deleted successfully" });
+    } catch (error: any) {
+      log(`Error deleting document: ${error.message}`, "error");
+      return res.status(500).json({ message: error.message || "Failed to delete document" });
+    }
+  });
+
+  // Files attached to chat messages. They are read when uploaded and referenced by id from
+  // the message, so the chat request carries neither the file nor its text.
+  const attachmentUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_ATTACHMENT_BYTES },
+  }).single("file");
+
+  app.post("/api/attachments", requireUser, (req, res, next) => {
+    attachmentUpload(req, res, (error: any) => {
+      if (!error) return next();
+      const tooLarge = error.code === "LIMIT_FILE_SIZE";
+      return res.status(tooLarge ? 413 : 400).json({
+        message: tooLarge ? `Attachments are limited to ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB` : error.message
+      });
+    });
+  }, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "A file is required" });
+      }
+
+      // Unlike inline images, attachments are stored whether or not a message ever uses them, so
+      // they count against the upload quota here rather than when they are sent. Files that
+      // cannot be read are refused without using up an upload.
+      const usageMeter = await createUsageMeter(req);
+      const status = await usageMeter.status();
+      if (status.quotas.uploads.remaining <= 0) {
+        setQuotaHeaders(res, status);
+        return res.status(429).json({ message: `Daily upload limit of the ${status.planLabel} plan reached` });
+      }
+
+      const extracted = await extractAttachment(req.file.originalname, req.file.mimetype, req.file.buffer);
+      const counted = await usageMeter.consume("uploads");
+      setQuotaHeaders(res, await usageMeter.status());
+      if (!counted) {
+        return res.status(429).json({ message: `Daily upload limit of the ${status.planLabel} plan reached` });
+      }
+
+      const blob = await putBlob(req.file.buffer);
+      const saved = await storage.saveAttachment({
+        userId: req.user!.id,
+        filename: req.file.originalname,
+        mimeType: extracted.mimeType,
+        kind: extracted.kind,
+        sizeBytes: req.file.size,
+        blobHash: blob.hash,
+        extractedText: extracted.text,
+        truncated: extracted.truncated,
+        pageCount: extracted.pageCount,
+      });
+      return res.status(201).json(saved);
+    } catch (error: any) {
+      if (error instanceof AttachmentError) {
+        return res.status(400).json({ message: error.message });
+      }
+      log(`Error uploading attachment: ${error.message}`, "error");
+      return res.status(500).json({ message: error.message || "Failed to upload attachment" });
+    }
+  });
+
+  app.get("/api/attachments/:id", requireUser, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const attachment = Number.isInteger(id) ? await storage.getAttachmentForUser(req.user!.id, id) : undefined;
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      // Only images, whose bytes were checked on upload, are shown inline; anything else downloads
+      const isImage = attachment.kind === "image";
+      return await sendBlob(req, res, { hash: attachment.blobHash, size: attachment.sizeBytes }, {
+        'Content-Type': isImage ? attachment.mimeType : 'application/octet-stream',
+        'Content-Disposition': contentDisposition(isImage ? 'inline' : 'attachment', attachment.filename),
+        'Cache-Control': 'private, max-age=31536000',
+        'Content-Security-Policy': "default-src 'none'",
+        'X-Content-Type-Options': 'nosniff'
+      });
+    } catch (error: any) {
+      log(`Error serving attachment: ${error.message}`, "error");
+      return res.status(500).json({ message: error.message || "Failed to serve attachment" });
+    }
+  });
+
   // Image serving endpoint
   app.get("/api/images/:id", async (req, res) => {
     try {
@@ -159,22 +423,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get image from database
       const [image] = await db.select().from(images).where(eq(images.id, imageId));
       
-      if (!image) {
+      if (!image || !canAccess(req, image.userId)) {
         return res.status(404).json({ error: 'Image not found' });
       }
       
-      // Convert base64 back to buffer
-      const imageBuffer = Buffer.from(image.imageData, 'base64');
-      
-      // Set appropriate headers
-      res.set({
+      await sendBlob(req, res, await imageBlob(image), {
         'Content-Type': image.mimeType,
-        'Content-Length': imageBuffer.length.toString(),
-        'Content-Disposition': `inline; filename="${image.filename}"`,
-        'Cache-Control': 'public, max-age=31536000' // Cache for 1 year since images are immutable
+        'Content-Disposition': contentDisposition('inline', image.filename),
+        // Cache for 1 year since images are immutable; owned images stay out of shared caches
+        'Cache-Control': `${image.userId === null ? 'public' : 'private'}, max-age=31536000`,
+        // Charts may be stored as SVG; never let an image opened directly run scripts
+        'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'",
+        'X-Content-Type-Options': 'nosniff'
       });
-      
-      res.send(imageBuffer);
     } catch (error: any) {
       log(`Error serving image: ${error.message}`, "error");
       res.status(500).json({ error: 'Failed to serve image' });
@@ -193,22 +454,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get PDF from database
       const [pdf] = await db.select().from(pdfs).where(eq(pdfs.id, pdfId));
       
-      if (!pdf) {
+      if (!pdf || !canAccess(req, pdf.userId)) {
         return res.status(404).json({ error: 'PDF not found' });
       }
       
-      // Convert base64 back to buffer
-      const pdfBuffer = Buffer.from(pdf.pdfData, 'base64');
-      
-      // Set appropriate headers
-      res.set({
+      // Range requests let PDF viewers load large documents page by page
+      await sendBlob(req, res, await pdfBlob(pdf), {
         'Content-Type': 'application/pdf',
-        'Content-Length': pdfBuffer.length.toString(),
-        'Content-Disposition': `inline; filename="${pdf.filename}"`,
-        'Cache-Control': 'public, max-age=31536000' // Cache for 1 year since PDFs are immutable
+        'Content-Disposition': contentDisposition('inline', pdf.filename),
+        // Cache for 1 year since PDFs are immutable; owned PDFs stay out of shared caches
+        'Cache-Control': `${pdf.userId === null ? 'public' : 'private'}, max-age=31536000`
       });
-      
-      res.send(pdfBuffer);
     } catch (error: any) {
       log(`Error serving PDF: ${error.message}`, "error");
       res.status(500).json({ error: 'Failed to serve PDF' });
@@ -227,22 +483,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get image from database
       const [image] = await db.select().from(images).where(eq(images.id, imageId));
       
-      if (!image) {
+      if (!image || !canAccess(req, image.userId)) {
         return res.status(404).json({ error: 'Image not found' });
       }
       
-      // Convert base64 back to buffer
-      const imageBuffer = Buffer.from(image.imageData.split(',')[1] || image.imageData, 'base64');
-      
-      // Set appropriate headers for download
-      res.set({
+      await sendBlob(req, res, await imageBlob(image), {
         'Content-Type': image.mimeType,
-        'Content-Length': imageBuffer.length.toString(),
-        'Content-Disposition': `attachment; filename="${image.filename}"`,
-        'Cache-Control': 'public, max-age=31536000'
+        'Content-Disposition': contentDisposition('attachment', image.filename),
+        'Cache-Control': `${image.userId === null ? 'public' : 'private'}, max-age=31536000`
       });
-      
-      res.send(imageBuffer);
     } catch (error: any) {
       log(`Error downloading image: ${error.message}`, "error");
       res.status(500).json({ error: 'Failed to download image' });
@@ -261,30 +510,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get PDF from database
       const [pdf] = await db.select().from(pdfs).where(eq(pdfs.id, pdfId));
       
-      if (!pdf) {
+      if (!pdf || !canAccess(req, pdf.userId)) {
         return res.status(404).json({ error: 'PDF not found' });
       }
       
-      // Convert base64 back to buffer
-      const pdfBuffer = Buffer.from(pdf.pdfData, 'base64');
-      
-      // Set appropriate headers for download
-      res.set({
+      await sendBlob(req, res, await pdfBlob(pdf), {
         'Content-Type': 'application/pdf',
-        'Content-Length': pdfBuffer.length.toString(),
-        'Content-Disposition': `attachment; filename="${pdf.filename}"`,
-        'Cache-Control': 'public, max-age=31536000'
+        'Content-Disposition': contentDisposition('attachment', pdf.filename),
+        'Cache-Control': `${pdf.userId === null ? 'public' : 'private'}, max-age=31536000`
       });
-      
-      res.send(pdfBuffer);
     } catch (error: any) {
       log(`Error downloading PDF: ${error.message}`, "error");
       res.status(500).json({ error: 'Failed to download PDF' });
     }
   });
   
+  // Models available for chat, as registered in the model registry
+  app.get("/api/models", (req, res) => {
+    res.json(listModels());
+  });
+
+  // Run a code snippet in the sandbox (used by the Run button on code blocks); for signed-in
+  // users only, and each run counts as a message
+  app.post("/api/execute", requireUser, async (req, res) => {
+    try {
+      const validationResult = codeExecutionRequestSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Invalid request format",
+          errors: validationResult.error.format()
+        });
+      }
+
+      const usageMeter = await createUsageMeter(req);
+      const allowed = await usageMeter.consume("messages");
+      setQuotaHeaders(res, await usageMeter.status());
+      if (!allowed) {
+        return res.status(429).json({ message: `Daily message limit of the ${usageMeter.plan.label} plan reached` });
+      }
+
+      const { language, code } = validationResult.data;
+      const result = await runSandboxedCode(language, code);
+      res.json(result);
+    } catch (error: any) {
+      log(`Error executing code: ${error.message}`, "error");
+      res.status(500).json({ message: error.message || "Failed to execute code" });
+    }
+  });
+
   // Chat completion endpoint
   app.post("/api/chat", async (req, res) => {
+    let stream: ChatEventStream | null = null;
+
     try {
       // Validate request payload
       const validationResult = chatCompletionRequestSchema.safeParse(req.body);
@@ -297,117 +575,123 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const chatRequest = validationResult.data;
-      let response;
-      
-      // Route to appropriate model
-      if (chatRequest.model === "gpt-5") {
-        // Use OpenAI's GPT-5
-        response = await generateOpenAIResponse(chatRequest);
-      } else if (chatRequest.model === "gpt-5-mini") {
-        // Use OpenAI's GPT-5-mini (specifically for search refinement)
-        response = await generateOpenAIMiniResponse(chatRequest);
-      } else if (chatRequest.model === "gpt-5-nano") {
-        // Use OpenAI's GPT-5-nano (fastest option)
-        response = await generateOpenAIMiniResponse(chatRequest);
-      } else if (chatRequest.model === "gpt-4o") {
-        // Use OpenAI's GPT-4o (legacy support)
-        response = await generateOpenAIResponse(chatRequest);
-      } else if (chatRequest.model === "gpt-4o-mini") {
-        // Use OpenAI's GPT-4o-mini (legacy support)
-        response = await generateOpenAIMiniResponse(chatRequest);
-      } else if (chatRequest.model === "deepseek-r1") {
-        response = await generateDeepSeekResponse(chatRequest);
-      } else if (chatRequest.model === "llama-4-maverick") {
-        // For now, redirect to GPT-4o-mini since we're not using Maverick
-        response = await generateOpenAIResponse(chatRequest);
-      } else {
+      // Attachments are sent by reference; the model gets their text and images
+      const resolvedRequest = await resolveAttachments(chatRequest, req.user?.id);
+
+      // Resolve the provider from the model registry before any streaming starts
+      const provider = getModelProvider(chatRequest.model);
+      if (!provider) {
         return res.status(400).json({ message: "Invalid model selection" });
       }
-      
-      // Log the response for debugging
-      let previewContent = 'Complex content structure';
-      let formattedResponse;
-      
-      // Handle different response formats with proper type checking
-      const hasRole = typeof response === 'object' && response !== null && 'role' in response;
-      const hasContent = typeof response === 'object' && response !== null && 'content' in response;
-      const hasMessage = typeof response === 'object' && response !== null && 'message' in response;
-      
-      if (hasRole && hasContent) {
-        // Direct format from Maverick service
-        const typedResponse = response as unknown as { role: string; content: any; model?: string };
-        
-        if (typeof typedResponse.content === 'string') {
-          previewContent = typedResponse.content.substring(0, 50);
-        }
-        
-        formattedResponse = {
-          message: {
-            role: typedResponse.role,
-            content: typedResponse.content
-          },
-          model: typedResponse.model || chatRequest.model
-        };
-      } else if (hasMessage) {
-        // Already in message format
-        const typedResponse = response as { message: { role: string; content: string }; model: string };
-        formattedResponse = typedResponse;
-        
-        if (typeof typedResponse.message.content === 'string') {
-          previewContent = typedResponse.message.content.substring(0, 50);
-        }
-      } else {
-        // Unknown format, try to adapt
-        formattedResponse = {
-          message: {
-            role: 'assistant',
-            content: JSON.stringify(response)
-          },
-          model: chatRequest.model
-        };
+
+      const hasImageInput = resolvedRequest.messages.some(msg =>
+        Array.isArray(msg.content) && msg.content.some(part => part.type !== "text")
+      );
+      if (hasImageInput && !provider.capabilities.vision) {
+        return res.status(400).json({ message: `${provider.label} does not support image input` });
       }
+
+      // Enforce the caller's daily quotas before any model work starts
+      const usageMeter = await createUsageMeter(req);
+      const quotaError = await consumeChatQuota(usageMeter, chatRequest);
+      const usageStatus = await usageMeter.status();
+      setQuotaHeaders(res, usageStatus);
+      if (quotaError) {
+        return res.status(429).json({ message: quotaError });
+      }
+
+      // In streaming mode tokens and tool activity are pushed to the client as they happen
+      const abortController = new AbortController();
+      if (chatRequest.stream) {
+        stream = openEventStream(res);
+        // Stop generating if the client goes away mid-stream
+        res.on("close", () => abortController.abort());
+      }
+
+      // Providers without streaming deliver the full answer with the final message event
+      const startedAt = Date.now();
+      const contextRequest = await buildChatContext(resolvedRequest, req.user?.id);
+      const formattedResponse = await provider.generate(contextRequest, {
+        onEvent: provider.capabilities.streaming ? stream?.send : undefined,
+        signal: abortController.signal,
+        userId: req.user?.id,
+        sessionId: chatRequest.chatId,
+        usage: usageMeter
+      });
+
+      const tokens = formattedResponse.tokens || { promptTokens: 0, completionTokens: 0 };
+      formattedResponse.usage = {
+        ...tokens,
+        toolCalls: formattedResponse.trace?.reduce((total, step) => total + step.toolCalls.length, 0) || 0,
+        latencyMs: Date.now() - startedAt,
+        costUsd: estimateCost(formattedResponse.model, tokens)
+      };
+      await usageMeter.record("tokens", tokens.promptTokens + tokens.completionTokens);
+      await recordModelUsage({
+        userId: req.user?.id,
+        chatId: chatRequest.chatId,
+        purpose: "chat",
+        model: formattedResponse.model,
+        tokens,
+        toolCalls: formattedResponse.usage.toolCalls,
+        latencyMs: formattedResponse.usage.latencyMs
+      });
+      formattedResponse.citations = collectCitations(formattedResponse.message.content);
+
+      // Log the response for debugging
+      const previewContent = typeof formattedResponse.message.content === 'string'
+        ? formattedResponse.message.content.substring(0, 50)
+        : 'Complex content structure';
       
       log(`Model ${chatRequest.model} response: ${previewContent}...`);
       
-      // Store messages in the database if sessionId is provided
-      if (chatRequest.sessionId) {
+      // Save the exchange to the signed-in user's chat, so the answer is kept even if the client never syncs it
+      if (req.user && chatRequest.chatId) {
+        const question = chatRequest.messages[chatRequest.messages.length - 1];
         try {
-          // First, store the user message
-          const lastUserMessage = chatRequest.messages[chatRequest.messages.length - 1];
-          if (lastUserMessage.role === 'user') {
-            await db.insert(messages).values({
-              role: lastUserMessage.role,
-              content: typeof lastUserMessage.content === 'string' 
-                ? lastUserMessage.content 
-                : JSON.stringify(lastUserMessage.content),
-              model: chatRequest.model,
-              sessionId: parseInt(chatRequest.sessionId)
-            });
-          }
-          
-          // Then store the assistant's response
-          await db.insert(messages).values({
-            role: formattedResponse.message.role,
-            content: formattedResponse.message.content,
-            model: formattedResponse.model,
-            sessionId: parseInt(chatRequest.sessionId)
-          });
-          
-          // Update the chat session's updatedAt timestamp
-          await db
-            .update(chatSessions)
-            .set({ updatedAt: new Date() })
-            .where(eq(chatSessions.id, parseInt(chatRequest.sessionId)));
+          await storage.appendChatMessages(req.user.id, chatRequest.chatId, [
+            ...(question?.role === "user"
+              ? [{ role: question.role, content: question.content, model: chatRequest.model, timestamp: new Date(startedAt).toISOString() }]
+              : []),
+            {
+              role: "assistant",
+              content: formattedResponse.message.content,
+              model: formattedResponse.model,
+              timestamp: new Date().toISOString(),
+              trace: formattedResponse.trace,
+              usage: formattedResponse.usage,
+              citations: formattedResponse.citations
+            }
+          ]);
         } catch (dbError: any) {
-          log(`Error storing messages in database: ${dbError.message}`, "error");
           // Continue with the response even if database storage fails
+          log(`Error storing messages in database: ${dbError.message}`, "error");
         }
       }
+
+      if (stream) {
+        stream.send({
+          type: "message",
+          message: { role: "assistant", content: formattedResponse.message.content },
+          model: formattedResponse.model,
+          trace: formattedResponse.trace,
+          usage: formattedResponse.usage,
+          citations: formattedResponse.citations
+        });
+        return stream.close();
+      }
       
       // Return the standardized response
       return res.status(200).json(formattedResponse);
     } catch (error: any) {
       log(`Error in chat endpoint: ${error.message}`, "error");
+
+      // Headers are already sent in streaming mode, so report the failure as an event
+      if (stream) {
+        stream.send({ type: "error", message: error.message || "Something went wrong" });
+        return stream.close();
+      }
+
       return res.status(500).json({ message: error.message || "Something went wrong" });
     }
   });
@@ -415,111 +699,212 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Search endpoint
   app.get("/api/search", async (req, res) => {
     try {
-      await handleSearch(req, res);
+      const { query, ...filters } = req.query;
+      if (!query || typeof query !== "string") {
+        return res.status(400).json({ message: "Invalid query parameter", results: [] });
+      }
+      const options = webSearchOptionsSchema.safeParse(filters);
+      if (!options.success) {
+        return res.status(400).json({ message: "Invalid search filters", errors: options.error.format(), results: [] });
+      }
+
+      const { results } = await webSearch(query, options.data);
+      return res.json({ results });
     } catch (error: any) {
       log(`Error in search endpoint: ${error.message}`, "error");
-      return res.status(500).json({ message: error.message || "Error performing search" });
+      return res.status(error instanceof SearchUnavailableError ? 503 : 500).json({ message: error.message || "Error performing search", results: [] });
     }
   });
 
-  // Chat sessions endpoints
-  app.post("/api/chat-sessions", async (req, res) => {
+  // Chat history endpoints, scoped to the signed-in user. Chats are addressed by the
+  // id the client generated for them so local and server copies line up.
+  app.get("/api/chat-sessions", requireUser, async (req, res) => {
     try {
-      const validationResult = insertChatSessionSchema.safeParse(req.body);
-      
+      const chats = await storage.getChatsForUser(req.user!.id);
+      return res.status(200).json(chats);
+    } catch (error: any) {
+      log(`Error fetching chat sessions: ${error.message}`, "error");
+      return res.status(500).json({ message: error.message || "Failed to fetch chat sessions" });
+    }
+  });
+
+  // One-time upload of chats kept in the browser before the user signed in
+  app.post("/api/chat-sessions/import", requireUser, async (req, res) => {
+    try {
+      const validationResult = z.array(syncedChatSchema).max(500).safeParse(req.body);
+
       if (!validationResult.success) {
-        return res.status(400).json({ 
-          message: "Invalid request format", 
-          errors: validationResult.error.format() 
+        return res.status(400).json({
+          message: "Invalid request format",
+          errors: validationResult.error.format()
         });
       }
 
-      const [newSession] = await db
-        .insert(chatSessions)
-        .values(validationResult.data)
-        .returning();
-
-      return res.status(201).json(newSession);
+      const imported = await storage.importChatsForUser(req.user!.id, validationResult.data);
+      return res.status(200).json({ imported });
     } catch (error: any) {
-      log(`Error creating chat session: ${error.message}`, "error");
-      return res.status(500).json({ message: error.message || "Failed to create chat session" });
+      log(`Error importing chat sessions: ${error.message}`, "error");
+      return res.status(500).json({ message: error.message || "Failed to import chat sessions" });
     }
   });
 
-  app.get("/api/chat-sessions", async (req, res) => {
+  app.get("/api/chat-sessions/:clientId", requireUser, async (req, res) => {
     try {
-      const allSessions = await db
-        .select()
-        .from(chatSessions)
-        .orderBy(chatSessions.updatedAt);
+      const chat = await storage.getChatForUser(req.user!.id, req.params.clientId);
+
+      if (!chat) {
+        return res.status(404).json({ message: "Chat session not found" });
+      }
 
-      return res.status(200).json(allSessions);
+      return res.status(200).json(chat);
     } catch (error: any) {
-      log(`Error fetching chat sessions: ${error.message}`, "error");
-      return res.status(500).json({ message: error.message || "Failed to fetch chat sessions" });
+      log(`Error fetching chat session: ${error.message}`, "error");
+      return res.status(500).json({ message: error.message || "Failed to fetch chat session" });
     }
   });
 
-  app.get("/api/chat-sessions/:id", async (req, res) => {
+  app.put("/api/chat-sessions/:clientId", requireUser, async (req, res) => {
     try {
-      const sessionId = parseInt(req.params.id);
-      
-      if (isNaN(sessionId)) {
-        return res.status(400).json({ message: "Invalid session ID" });
+      const validationResult = syncedChatSchema.safeParse({ ...req.body, id: req.params.clientId });
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Invalid request format",
+          errors: validationResult.error.format()
+        });
       }
 
-      const [session] = await db
-        .select()
-        .from(chatSessions)
-        .where(eq(chatSessions.id, sessionId));
+      await storage.saveChatForUser(req.user!.id, validationResult.data);
+      return res.status(200).json(validationResult.data);
+    } catch (error: any) {
+      log(`Error saving chat session: ${error.message}`, "error");
+      return res.status(500).json({ message: error.message || "Failed to save chat session" });
+    }
+  });
+
+  app.delete("/api/chat-sessions/:clientId", requireUser, async (req, res) => {
+    try {
+      const deleted = await storage.deleteChatForUser(req.user!.id, req.params.clientId);
 
-      if (!session) {
+      if (!deleted) {
         return res.status(404).json({ message: "Chat session not found" });
       }
 
-      const sessionMessages = await db
-        .select()
-        .from(messages)
-        .where(eq(messages.sessionId, sessionId))
-        .orderBy(messages.timestamp);
+      return res.status(200).json({ message: "Chat session deleted successfully" });
+    } catch (error: any) {
+      log(`Error deleting chat session: ${error.message}`, "error");
+      return res.status(500).json({ message: error.message || "Failed to delete chat session" });
+    }
+  });
 
-      return res.status(200).json({
-        ...session,
-        messages: sessionMessages
-      });
+  // Datasets the signed-in user uploads for the query_database tool. The file field is
+  // parsed per request so an oversized upload gets a JSON answer instead of an error page.
+  const datasetUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_DATASET_BYTES },
+  }).single("file");
+
+  app.get("/api/datasets", requireUser, async (req, res) => {
+    try {
+      return res.status(200).json(await storage.getDatasetsForUser(req.user!.id));
     } catch (error: any) {
-      log(`Error fetching chat session: ${error.message}`, "error");
-      return res.status(500).json({ message: error.message || "Failed to fetch chat session" });
+      log(`Error fetching datasets: ${error.message}`, "error");
+      return res.status(500).json({ message: error.message || "Failed to fetch datasets" });
     }
   });
 
-  app.delete("/api/chat-sessions/:id", async (req, res) => {
+  app.post("/api/datasets", requireUser, (req, res, next) => {
+    datasetUpload(req, res, (error: any) => {
+      if (!error) return next();
+      const tooLarge = error.code === "LIMIT_FILE_SIZE";
+      return res.status(tooLarge ? 413 : 400).json({
+        message: tooLarge ? `Datasets are limited to ${MAX_DATASET_BYTES / 1024 / 1024} MB` : error.message
+      });
+    });
+  }, async (req, res) => {
     try {
-      const sessionId = parseInt(req.params.id);
-      
-      if (isNaN(sessionId)) {
-        return res.status(400).json({ message: "Invalid session ID" });
+      if (!req.file) {
+        return res.status(400).json({ message: "A file is required" });
       }
 
-      // First delete all messages for this session
-      await db
-        .delete(messages)
-        .where(eq(messages.sessionId, sessionId));
+      const name = typeof req.body.name === "string" && req.body.name.trim() ? req.body.name : undefined;
+      const built = await buildDataset(req.file.originalname, req.file.buffer, name);
 
-      // Then delete the session
-      const [deletedSession] = await db
-        .delete(chatSessions)
-        .where(eq(chatSessions.id, sessionId))
-        .returning();
+      // Replacing a dataset of the same name does not count against the limit
+      const existing = await storage.getDatasetsForUser(req.user!.id);
+      if (existing.length >= MAX_DATASETS_PER_USER && !existing.some(dataset => dataset.name === built.name)) {
+        return res.status(409).json({ message: `At most ${MAX_DATASETS_PER_USER} datasets can be kept; delete one first` });
+      }
 
-      if (!deletedSession) {
-        return res.status(404).json({ message: "Chat session not found" });
+      const saved = await storage.saveDatasetForUser({
+        userId: req.user!.id,
+        name: built.name,
+        filename: req.file.originalname,
+        sourceFormat: built.sourceFormat,
+        tables: built.tables,
+        sizeBytes: built.data.length,
+        data: Buffer.from(built.data).toString("base64"),
+      });
+      return res.status(201).json(saved);
+    } catch (error: any) {
+      if (error instanceof DatasetFormatError) {
+        return res.status(400).json({ message: error.message });
       }
+      log(`Error uploading dataset: ${error.message}`, "error");
+      return res.status(500).json({ message: error.message || "Failed to upload dataset" });
+    }
+  });
 
-      return res.status(200).json({ message: "Chat session deleted successfully" });
+  app.delete("/api/datasets/:id", requireUser, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const deleted = Number.isInteger(id) && await storage.deleteDatasetForUser(req.user!.id, id);
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Dataset not found" });
+      }
+
+      return res.status(200).json({ message: "Dataset deleted successfully" });
     } catch (error: any) {
-      log(`Error deleting chat session: ${error.message}`, "error");
-      return res.status(500).json({ message: error.message || "Failed to delete chat session" });
+      log(`Error deleting dataset: ${error.message}`, "error");
+      return res.status(500).json({ message: error.message || "Failed to delete dataset" });
+    }
+  });
+
+  // Workspace files the agent wrote in a chat of the signed-in user, addressed by the chat's client id
+  app.get("/api/sessions/:id/files", requireUser, async (req, res) => {
+    try {
+      const listing = await listWorkspace({ userId: req.user!.id, sessionId: req.params.id });
+      return res.status(200).json({ ...listing, quotaBytes: MAX_WORKSPACE_BYTES });
+    } catch (error: any) {
+      log(`Error listing workspace files: ${error.message}`, "error");
+      return res.status(500).json({ message: error.message || "Failed to list files" });
+    }
+  });
+
+  app.get("/api/sessions/:id/files/*", requireUser, async (req, res) => {
+    try {
+      const file = await readWorkspaceFile({ userId: req.user!.id, sessionId: req.params.id }, req.params[0]);
+      const filename = file.path.split("/").pop()!;
+
+      // Always served as a plain-text download so agent-written HTML or SVG never runs in our origin
+      res.set({
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Disposition': contentDisposition('attachment', filename),
+        'Cache-Control': 'private, no-cache',
+        'Content-Security-Policy': "default-src 'none'",
+        'X-Content-Type-Options': 'nosniff'
+      });
+      return res.send(file.content);
+    } catch (error: any) {
+      if (error instanceof WorkspaceFileNotFoundError) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      if (error instanceof WorkspaceError) {
+        return res.status(400).json({ message: error.message });
+      }
+      log(`Error serving workspace file: ${error.message}`, "error");
+      return res.status(500).json({ message: error.message || "Failed to serve file" });
     }
   });
 
@@ -0,0 +1,196 @@
+import type { Attachment, AttachmentKind, ChatCompletionRequest } from "@shared/schema";
+import { storage } from "../storage";
+import { getBlobStore } from "./blobStore";
+import { DocumentFormatError, extractDocumentPages } from "./documents";
+import { DataParseError, parseTable, type DataFormat } from "./tabularData";
+
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+// Text handed to the model per attachment, about 25k tokens; longer files are cut
+export const MAX_ATTACHMENT_TEXT_CHARS = 100_000;
+
+// Image types the models accept, with the bytes their files start with
+const IMAGE_SIGNATURES: Record<string, (buffer: Buffer) => boolean> = {
+  "image/png": buffer => buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  "image/jpeg": buffer => buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff,
+  "image/gif": buffer => buffer.subarray(0, 4).toString("latin1") === "GIF8",
+  "image/webp": buffer => buffer.subarray(0, 4).toString("latin1") === "RIFF" && buffer.subarray(8, 12).toString("latin1") === "WEBP"
+};
+const DATA_EXTENSIONS: Record<string, DataFormat> = { csv: "csv", tsv: "tsv", tab: "tsv", json: "json" };
+const TEXT_EXTENSIONS = new Set(["txt", "text", "md", "markdown", "log", "rst"]);
+// Code files by extension, with the language their contents are fenced as
+const CODE_LANGUAGES: Record<string, string> = {
+  js: "javascript", jsx: "jsx", mjs: "javascript", cjs: "javascript", ts: "typescript", tsx: "tsx",
+  py: "python", rb: "ruby", php: "php", java: "java", kt: "kotlin", swift: "swift", go: "go", rs: "rust",
+  c: "c", h: "c", cpp: "cpp", cc: "cpp", hpp: "cpp", cs: "csharp", scala: "scala", r: "r", lua: "lua",
+  sh: "bash", bash: "bash", zsh: "bash", ps1: "powershell", sql: "sql", html: "html", htm: "html",
+  css: "css", scss: "scss", vue: "vue", svelte: "svelte", xml: "xml", yaml: "yaml", yml: "yaml",
+  toml: "toml", ini: "ini", env: "bash", dockerfile: "dockerfile", graphql: "graphql", proto: "protobuf"
+};
+
+/**
+ * Thrown when an uploaded file is not a supported attachment or cannot be read
+ */
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+export interface ExtractedAttachment {
+  kind: AttachmentKind;
+  mimeType: string;
+  // Null for images, which the model sees as images
+  text: string | null;
+  truncated: boolean;
+  pageCount: number | null;
+}
+
+function extensionOf(filename: string): string {
+  const name = filename.toLowerCase();
+  return name === "dockerfile" ? "dockerfile" : name.includes(".") ? name.split(".").pop()! : "";
+}
+
+function attachmentKind(filename: string, mimeType: string): AttachmentKind {
+  const extension = extensionOf(filename);
+  if (mimeType.startsWith("image/")) return "image";
+  if (extension === "pdf" || mimeType === "application/pdf") return "pdf";
+  if (extension === "docx") return "document";
+  if (DATA_EXTENSIONS[extension]) return "data";
+  if (CODE_LANGUAGES[extension]) return "code";
+  if (TEXT_EXTENSIONS.has(extension) || mimeType.startsWith("text/")) return "text";
+  throw new AttachmentError(`"${filename}" is not a supported attachment; attach images, PDFs, Word documents, CSV or JSON data, code or text files`);
+}
+
+function decodeText(filename: string, buffer: Buffer): string {
+  const text = buffer.toString("utf8");
+  if (text.includes("\u0000")) {
+    throw new AttachmentError(`"${filename}" is not a text file`);
+  }
+  return text.replace(/^\uFEFF/, "");
+}
+
+// A line describing the shape of tabular data, when it parses as a table
+function describeData(text: string, format: DataFormat): string {
+  try {
+    const { columns, rows } = parseTable(text, format);
+    return `${rows.length} rows; columns: ${columns.map(column => `${column.name} (${column.type})`).join(", ")}\n\n`;
+  } catch (error) {
+    if (error instanceof DataParseError) return "";
+    throw error;
+  }
+}
+
+/**
+ * Work out what kind of file an upload is and extract the text the model will read from it
+ */
+export async function extractAttachment(filename: string, mimeType: string, buffer: Buffer): Promise<ExtractedAttachment> {
+  if (buffer.length > MAX_ATTACHMENT_BYTES) {
+    throw new AttachmentError(`Attachments are limited to ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+  }
+
+  const kind = attachmentKind(filename, mimeType);
+  const extension = extensionOf(filename);
+  let text: string;
+  let pageCount: number | null = null;
+
+  try {
+    switch (kind) {
+      case "image":
+        if (!IMAGE_SIGNATURES[mimeType]?.(buffer)) {
+          throw new AttachmentError(`"${filename}" is not a PNG, JPEG, GIF or WebP image`);
+        }
+        return { kind, mimeType, text: null, truncated: false, pageCount: null };
+      case "pdf": {
+        const pages = await extractDocumentPages("pdf", buffer);
+        pageCount = pages.length;
+        text = pages.map(page => `--- Page ${page.page} ---\n${page.text.trim()}`).join("\n\n");
+        if (!pages.some(page => page.text.trim())) {
+          throw new AttachmentError(`No text found in "${filename}"; scanned pages without a text layer cannot be read`);
+        }
+        break;
+      }
+      case "document":
+        text = (await extractDocumentPages("docx", buffer))[0].text;
+        break;
+      case "data": {
+        const raw = decodeText(filename, buffer);
+        text = describeData(raw, DATA_EXTENSIONS[extension]) + raw;
+        break;
+      }
+      case "code":
+        text = `\`\`\`${CODE_LANGUAGES[extension]}\n${decodeText(filename, buffer)}\n\`\`\``;
+        break;
+      case "text":
+        text = decodeText(filename, buffer);
+        break;
+    }
+  } catch (error) {
+    if (error instanceof DocumentFormatError) {
+      throw new AttachmentError(`"${filename}": ${error.message}`);
+    }
+    throw error;
+  }
+
+  const truncated = text.length > MAX_ATTACHMENT_TEXT_CHARS;
+  return {
+    kind,
+    // Browsers often send code and data files as application/octet-stream
+    mimeType: kind === "pdf" ? "application/pdf" : mimeType === "application/octet-stream" ? "text/plain" : mimeType,
+    text: truncated ? text.slice(0, MAX_ATTACHMENT_TEXT_CHARS) : text,
+    truncated,
+    pageCount
+  };
+}
+
+type ChatMessage = ChatCompletionRequest["messages"][number];
+type ContentPart = Exclude<ChatMessage["content"], string>[number];
+
+// What the model is given in place of an attachment; images come with their bytes
+function attachmentParts(attachment: Attachment | undefined, imageData: Buffer | undefined, filename: string): ContentPart[] {
+  if (!attachment || (attachment.kind === "image" && !imageData)) {
+    return [{ type: "text", text: `[Attached file "${filename}" is no longer available]` }];
+  }
+  if (attachment.kind === "image") {
+    return [
+      { type: "text", text: `[Attached image "${attachment.filename}"]` },
+      { type: "image_url", image_url: { url: `data:${attachment.mimeType};base64,${imageData!.toString("base64")}` } }
+    ];
+  }
+
+  const details = [attachment.kind, attachment.pageCount ? `${attachment.pageCount} pages` : null].filter(Boolean).join(", ");
+  const note = attachment.truncated ? `\n[Only the first ${MAX_ATTACHMENT_TEXT_CHARS.toLocaleString()} characters are included]` : "";
+  return [{
+    type: "text",
+    text: `[Attached file "${attachment.filename}" (${details})]\n${attachment.extractedText || ""}${note}\n[End of "${attachment.filename}"]`
+  }];
+}
+
+/**
+ * Replace the attachment references in a chat request with the attachments' text and images,
+ * read from the owner's stored attachments. Attachments of other users are never resolved.
+ */
+export async function resolveAttachments(request: ChatCompletionRequest, userId: number | undefined): Promise<ChatCompletionRequest> {
+  const ids = request.messages.flatMap(message =>
+    typeof message.content === "string" ? [] : message.content.flatMap(part => part.type === "attachment" ? [part.attachment_id] : [])
+  );
+  if (ids.length === 0) return request;
+
+  const stored = userId ? await storage.getAttachmentsForUser(userId, Array.from(new Set(ids))) : [];
+  const byId = new Map(stored.map(attachment => [attachment.id, attachment]));
+  // Only images are read from the blob store; the model gets the extracted text of everything else
+  const images = await Promise.all(stored.filter(attachment => attachment.kind === "image").map(
+    async attachment => [attachment.id, await getBlobStore().get(attachment.blobHash)] as const
+  ));
+  const imageData = new Map(images);
+
+  return {
+    ...request,
+    messages: request.messages.map(message => typeof message.content === "string" ? message : {
+      ...message,
+      content: message.content.flatMap(part => part.type === "attachment"
+        ? attachmentParts(byId.get(part.attachment_id), imageData.get(part.attachment_id), part.filename || `attachment ${part.attachment_id}`)
+        : [part])
+    })
+  };
+}
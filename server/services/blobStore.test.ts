@@ -0,0 +1,150 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import os from "os";
+import path from "path";
+import { mkdtemp, rm } from "fs/promises";
+import type { AddressInfo } from "net";
+import express from "express";
+import { createLocalBlobStore, createS3BlobStore, hashBlob, putBlob, sendBlob, setBlobStore, type BlobStore } from "./blobStore";
+
+async function listen(server: http.Server): Promise<string> {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  after(() => server.close());
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+const blob = Buffer.from("0123456789abcdefghijklmnopqrstuvwxyz");
+const hash = hashBlob(blob);
+
+// Minimal S3 stand-in keeping objects in memory. Like some S3-compatible backends it can be
+// told to ignore Range headers and answer with the whole object.
+const objects = new Map<string, Buffer>();
+const s3Requests: http.IncomingMessage[] = [];
+let honourRange = true;
+const s3 = http.createServer(async (req, res) => {
+  s3Requests.push(req);
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+
+  if (req.method === "PUT") {
+    objects.set(req.url!, Buffer.concat(chunks));
+    return res.end();
+  }
+  const data = objects.get(req.url!);
+  if (!data) {
+    res.statusCode = 404;
+    return res.end();
+  }
+  const range = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range || "");
+  if (range && honourRange) {
+    res.writeHead(206, { "Content-Range": `bytes ${range[1]}-${range[2]}/${data.length}` });
+    return res.end(data.subarray(Number(range[1]), Number(range[2]) + 1));
+  }
+  res.end(req.method === "HEAD" ? undefined : data);
+});
+const s3Endpoint = await listen(s3);
+
+const s3Store = createS3BlobStore({
+  endpoint: `${s3Endpoint}/`,
+  bucket: "uploads",
+  region: "eu-west-1",
+  accessKeyId: "test-access-key",
+  secretAccessKey: "test-secret-key"
+});
+
+describe("S3 blob store", () => {
+  it("signs uploads and keeps blobs under the prefix, fanned out by hash", async () => {
+    assert.equal(await s3Store.has(hash), false);
+    await s3Store.put(hash, blob);
+    assert.equal(await s3Store.has(hash), true);
+
+    const upload = s3Requests.find(req => req.method === "PUT")!;
+    assert.equal(upload.url, `/uploads/blobs/${hash.slice(0, 2)}/${hash}`);
+    assert.equal(upload.headers["x-amz-content-sha256"], hash);
+    assert.match(upload.headers.authorization!, /^AWS4-HMAC-SHA256 Credential=test-access-key\/\d{8}\/eu-west-1\/s3\/aws4_request, SignedHeaders=[^,]*host[^,]*, Signature=[0-9a-f]{64}$/);
+  });
+
+  it("returns only the requested range, even from backends that send the whole blob", async () => {
+    honourRange = true;
+    assert.equal((await s3Store.get(hash, { start: 10, end: 15 }))?.toString(), "abcdef");
+
+    honourRange = false;
+    try {
+      assert.equal((await s3Store.get(hash, { start: 10, end: 15 }))?.toString(), "abcdef");
+      assert.equal((await s3Store.get(hash))?.toString(), blob.toString());
+    } finally {
+      honourRange = true;
+    }
+  });
+
+  it("returns undefined for a blob the bucket does not have", async () => {
+    assert.equal(await s3Store.get(hashBlob(Buffer.from("missing"))), undefined);
+  });
+});
+
+describe("local blob store", async () => {
+  const root = await mkdtemp(path.join(os.tmpdir(), "blobs-"));
+  after(() => rm(root, { recursive: true, force: true }));
+  const store = createLocalBlobStore(root);
+
+  it("reads back whole blobs and byte ranges", async () => {
+    await store.put(hash, blob);
+    assert.deepEqual(await store.get(hash), blob);
+    assert.equal((await store.get(hash, { start: 30, end: 35 }))?.toString(), "uvwxyz");
+    assert.equal(await store.get(hashBlob(Buffer.from("missing"))), undefined);
+  });
+
+  it("refuses hashes that are not SHA-256 digests", async () => {
+    await assert.rejects(store.get("../../etc/passwd"), /Invalid blob hash/);
+  });
+});
+
+describe("putBlob and sendBlob", async () => {
+  // The S3 store with its backend ignoring Range, counting the uploads that reach it
+  let puts = 0;
+  const store: BlobStore = { ...s3Store, async put(h, data) { puts++; return s3Store.put(h, data); } };
+  setBlobStore(store);
+  honourRange = false;
+  after(() => { honourRange = true; });
+
+  const app = express();
+  app.get("/blob", (req, res, next) => {
+    sendBlob(req, res, { hash, size: blob.length }, { "Content-Type": "text/plain" }).catch(next);
+  });
+  const base = await listen(http.createServer(app));
+
+  it("stores a blob once however often it is put", async () => {
+    const content = Buffer.from("stored once");
+    const first = await putBlob(content);
+    const second = await putBlob(content);
+    assert.deepEqual(first, second);
+    assert.deepEqual(first, { hash: hashBlob(content), size: content.length });
+    assert.equal(puts, 1);
+  });
+
+  it("answers a range request with 206 and just those bytes", async () => {
+    await s3Store.put(hash, blob);
+    const response = await fetch(`${base}/blob`, { headers: { Range: "bytes=10-15" } });
+    assert.equal(response.status, 206);
+    assert.equal(response.headers.get("content-range"), `bytes 10-15/${blob.length}`);
+    assert.equal(response.headers.get("content-length"), "6");
+    assert.equal(await response.text(), "abcdef");
+  });
+
+  it("answers the whole blob, a 304 for a matching ETag and a 416 for a range past the end", async () => {
+    const whole = await fetch(`${base}/blob`);
+    assert.equal(whole.status, 200);
+    assert.equal(whole.headers.get("etag"), `"${hash}"`);
+    assert.equal(await whole.text(), blob.toString());
+
+    // fetch marks conditional requests no-cache, which is never fresh; send what a browser
+    // revalidating its cache sends instead
+    const revalidated = await fetch(`${base}/blob`, { headers: { "If-None-Match": `"${hash}"`, "Cache-Control": "max-age=0" } });
+    assert.equal(revalidated.status, 304);
+
+    const unsatisfiable = await fetch(`${base}/blob`, { headers: { Range: "bytes=100-200" } });
+    assert.equal(unsatisfiable.status, 416);
+    assert.equal(unsatisfiable.headers.get("content-range"), `bytes */${blob.length}`);
+  });
+});
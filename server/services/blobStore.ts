@@ -0,0 +1,302 @@
+import { createHash, createHmac } from "crypto";
+import { mkdir, open, rename, stat, writeFile } from "fs/promises";
+import path from "path";
+import type { Request, Response } from "express";
+import { nanoid } from "nanoid";
+
+// Blobs are named by the SHA-256 of their bytes, so storing the same file twice keeps one copy
+const BLOB_HASH = /^[0-9a-f]{64}$/;
+
+/**
+ * Inclusive byte range of a blob, as in an HTTP Range header
+ */
+export interface BlobRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A blob kept in the store, as recorded on the row that uses it
+ */
+export interface StoredBlob {
+  hash: string;
+  size: number;
+}
+
+/**
+ * Where uploaded and generated files are kept. Blobs are immutable and addressed by hash,
+ * so a backend only needs to write, look up and read them.
+ */
+export interface BlobStore {
+  readonly id: string;
+  has(hash: string): Promise<boolean>;
+  put(hash: string, data: Buffer): Promise<void>;
+  // Undefined when the store has no blob with this hash
+  get(hash: string, range?: BlobRange): Promise<Buffer | undefined>;
+}
+
+/**
+ * Thrown when a row refers to a blob the store does not have
+ */
+export class BlobNotFoundError extends Error {
+  constructor(hash: string) {
+    super(`Blob ${hash} is missing from the blob store`);
+    this.name = "BlobNotFoundError";
+  }
+}
+
+function checkHash(hash: string) {
+  if (!BLOB_HASH.test(hash)) {
+    throw new Error(`Invalid blob hash "${hash}"`);
+  }
+}
+
+export function hashBlob(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Keep blobs as files under a directory, fanned out by the first two characters of the hash
+ */
+export function createLocalBlobStore(root = process.env.BLOB_STORE_DIR || path.resolve("data", "blobs")): BlobStore {
+  const fileFor = (hash: string) => {
+    checkHash(hash);
+    return path.join(root, hash.slice(0, 2), hash);
+  };
+
+  return {
+    id: "local",
+    async has(hash) {
+      try {
+        await stat(fileFor(hash));
+        return true;
+      } catch (error: any) {
+        if (error.code === "ENOENT") return false;
+        throw error;
+      }
+    },
+    async put(hash, data) {
+      const file = fileFor(hash);
+      await mkdir(path.dirname(file), { recursive: true });
+      // Write under a temporary name first so a blob is never read half written
+      const temporary = `${file}.${nanoid(8)}.tmp`;
+      await writeFile(temporary, data);
+      await rename(temporary, file);
+    },
+    async get(hash, range) {
+      let handle;
+      try {
+        handle = await open(fileFor(hash), "r");
+      } catch (error: any) {
+        if (error.code === "ENOENT") return undefined;
+        throw error;
+      }
+      try {
+        if (!range) return await handle.readFile();
+        const buffer = Buffer.alloc(range.end - range.start + 1);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, range.start);
+        return buffer.subarray(0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    }
+  };
+}
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+}
+
+export interface S3BlobStoreOptions extends S3Credentials {
+  // For example https://s3.eu-west-1.amazonaws.com or http://localhost:9000 for MinIO
+  endpoint: string;
+  bucket: string;
+  // Prepended to every key, so one bucket can hold blobs of several deployments
+  prefix?: string;
+}
+
+const sha256Hex = (data: string | Buffer) => createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) => createHmac("sha256", key).update(data).digest();
+
+/**
+ * Sign a request with AWS Signature Version 4, returning the headers to send with it.
+ * Only the path is signed as a resource; the store never uses query strings.
+ */
+export function signS3Request(
+  method: string,
+  url: URL,
+  headers: Record<string, string>,
+  payloadHash: string,
+  credentials: S3Credentials,
+  date = new Date()
+): Record<string, string> {
+  const amzDate = date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${credentials.region}/s3/aws4_request`;
+
+  const signed: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()])),
+    host: url.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate
+  };
+  const names = Object.keys(signed).sort();
+  const signedHeaders = names.join(";");
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    "",
+    names.map(name => `${name}:${signed[name]}\n`).join(""),
+    signedHeaders,
+    payloadHash
+  ].join("\n");
+
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signingKey = ["s3", "aws4_request"].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), credentials.region)
+  );
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  const { host, ...sent } = signed;
+  return {
+    ...sent,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+}
+
+/**
+ * Keep blobs in an S3-compatible bucket (AWS S3, MinIO, R2 and the like), using path-style URLs
+ */
+export function createS3BlobStore(options: S3BlobStoreOptions): BlobStore {
+  const endpoint = options.endpoint.replace(/\/$/, "");
+  const prefix = options.prefix ?? "blobs/";
+  const urlFor = (hash: string) => {
+    checkHash(hash);
+    return new URL(`${endpoint}/${encodeURIComponent(options.bucket)}/${prefix}${hash.slice(0, 2)}/${hash}`);
+  };
+
+  async function send(method: string, hash: string, headers: Record<string, string> = {}, body?: Buffer) {
+    const url = urlFor(hash);
+    // The payload hash of an upload is the blob's own hash
+    const payloadHash = body ? hash : sha256Hex("");
+    const response = await fetch(url, {
+      method,
+      headers: signS3Request(method, url, headers, payloadHash, options),
+      body
+    });
+    if (!response.ok && response.status !== 404) {
+      const detail = method === "HEAD" ? "" : (await response.text()).slice(0, 200);
+      throw new Error(`Blob store ${method} failed with ${response.status} ${response.statusText} ${detail}`.trim());
+    }
+    return response;
+  }
+
+  return {
+    id: "s3",
+    async has(hash) {
+      return (await send("HEAD", hash)).ok;
+    },
+    async put(hash, data) {
+      await send("PUT", hash, { "content-type": "application/octet-stream" }, data);
+    },
+    async get(hash, range) {
+      const response = await send("GET", hash, range ? { range: `bytes=${range.start}-${range.end}` } : {});
+      if (response.status === 404) return undefined;
+      const data = Buffer.from(await response.arrayBuffer());
+      // Backends that ignore Range answer 200 with the whole blob, so cut the range out here
+      return range && response.status !== 206 ? data.subarray(range.start, range.end + 1) : data;
+    }
+  };
+}
+
+function createConfiguredBlobStore(): BlobStore {
+  if (process.env.BLOB_STORE !== "s3") {
+    return createLocalBlobStore();
+  }
+  const required = ["S3_ENDPOINT", "S3_BUCKET", "S3_ACCESS_KEY_ID", "S3_SECRET_ACCESS_KEY"].filter(name => !process.env[name]);
+  if (required.length > 0) {
+    throw new Error(`BLOB_STORE=s3 needs ${required.join(", ")}`);
+  }
+  return createS3BlobStore({
+    endpoint: process.env.S3_ENDPOINT!,
+    bucket: process.env.S3_BUCKET!,
+    region: process.env.S3_REGION || "us-east-1",
+    accessKeyId: process.env.S3_ACCESS_KEY_ID!,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY!,
+    prefix: process.env.S3_PREFIX
+  });
+}
+
+// BLOB_STORE=s3 keeps blobs in a bucket; otherwise they are files under BLOB_STORE_DIR
+let blobStore: BlobStore = createConfiguredBlobStore();
+
+/**
+ * Replace the store new blobs are written to and read from
+ */
+export function setBlobStore(next: BlobStore) {
+  blobStore = next;
+}
+
+export function getBlobStore(): BlobStore {
+  return blobStore;
+}
+
+/**
+ * Store bytes unless a blob with the same hash is already kept, returning what to record on the row
+ */
+export async function putBlob(data: Buffer): Promise<StoredBlob> {
+  const hash = hashBlob(data);
+  if (!(await blobStore.has(hash))) {
+    await blobStore.put(hash, data);
+  }
+  return { hash, size: data.length };
+}
+
+export async function readBlob(hash: string): Promise<Buffer> {
+  const data = await blobStore.get(hash);
+  if (!data) {
+    throw new BlobNotFoundError(hash);
+  }
+  return data;
+}
+
+/**
+ * Send a blob in response to a GET or HEAD request. The hash doubles as a strong ETag, so
+ * revalidation is answered with 304, and a single byte range is answered with 206.
+ * `headers` carries the Content-Type and the other headers of the route.
+ */
+export async function sendBlob(req: Request, res: Response, blob: StoredBlob, headers: Record<string, string>) {
+  const etag = `"${blob.hash}"`;
+  res.set({ ...headers, ETag: etag, "Accept-Ranges": "bytes" });
+  if (req.fresh) {
+    return res.status(304).end();
+  }
+
+  // If-Range asks for the range only while the blob is unchanged, which a hash always is when it matches
+  let range: BlobRange | undefined;
+  const ifRange = req.headers["if-range"];
+  if (req.headers.range && (!ifRange || ifRange === etag)) {
+    const ranges = req.range(blob.size, { combine: true });
+    if (ranges === -1) {
+      res.set("Content-Range", `bytes */${blob.size}`);
+      return res.status(416).end();
+    }
+    // Malformed and multipart ranges are answered with the whole blob
+    if (Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1) {
+      range = { start: ranges[0].start, end: ranges[0].end };
+    }
+  }
+
+  const data = await blobStore.get(blob.hash, range);
+  if (!data) {
+    throw new BlobNotFoundError(blob.hash);
+  }
+  if (range) {
+    res.status(206).set("Content-Range", `bytes ${range.start}-${range.end}/${blob.size}`);
+  }
+  res.set("Content-Length", data.length.toString());
+  return req.method === "HEAD" ? res.end() : res.end(data);
+}
@@ -0,0 +1,385 @@
+import { Resvg } from "@resvg/resvg-js";
+import type { ChartSeries, ChartSpec, ChartType } from "@shared/schema";
+import { histogramBins } from "./statistics";
+import { DataParseError, parseTable } from "./tabularData";
+
+const WIDTH = 800;
+const HEIGHT = 500;
+// PNGs are rendered at twice the SVG size so they stay sharp on high-density screens
+const PNG_SCALE = 2;
+
+// Charts with more points than this are unreadable; the data should be aggregated first
+const MAX_POINTS_PER_SERIES = 500;
+const MAX_SERIES = 8;
+const MAX_PIE_SLICES = 20;
+
+const FONT_FAMILY = "DejaVu Sans, Arial, Helvetica, sans-serif";
+const PALETTE = ["#2563eb", "#f97316", "#16a34a", "#dc2626", "#9333ea", "#0891b2", "#ca8a04", "#db2777"];
+
+/**
+ * Thrown when the data given to a chart tool cannot be turned into the requested chart
+ */
+export class ChartDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChartDataError";
+  }
+}
+
+export interface ChartOptions {
+  title?: string;
+  xLabel?: string;
+  yLabel?: string;
+  // Columns to use; picked from the data when not given
+  xField?: string;
+  yFields?: string[];
+}
+
+type Row = Record<string, unknown>;
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Rows of a dataset given as CSV or TSV with a header line, a JSON array of objects or values,
+ * or a JSON object of label/value pairs
+ */
+export function parseChartData(data: string): Row[] {
+  try {
+    return parseTable(data).rows;
+  } catch (error) {
+    if (error instanceof DataParseError) {
+      throw new ChartDataError(error.message);
+    }
+    throw error;
+  }
+}
+
+function describeColumns(rows: Row[]) {
+  const columns: string[] = [];
+  for (const row of rows.slice(0, 50)) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+  const numeric = columns.filter(column => rows.every(row =>
+    row[column] === null || row[column] === undefined || row[column] === "" || toNumber(row[column]) !== undefined
+  ) && rows.some(row => toNumber(row[column]) !== undefined));
+  return { columns, numeric };
+}
+
+function checkColumn(columns: string[], field: string) {
+  if (!columns.includes(field)) {
+    throw new ChartDataError(`The data has no "${field}" column; available columns: ${columns.join(", ")}`);
+  }
+}
+
+function seriesFor(rows: Row[], xField: string | undefined, yField: string, numericX: boolean): ChartSeries {
+  const points: ChartSeries["points"] = [];
+  rows.forEach((row, i) => {
+    const y = toNumber(row[yField]);
+    if (y === undefined) return;
+    if (numericX) {
+      const x = xField ? toNumber(row[xField]) : i + 1;
+      if (x !== undefined) points.push({ x, y });
+    } else {
+      points.push({ x: xField ? String(row[xField] ?? "") : String(i + 1), y });
+    }
+  });
+  return { name: yField, points };
+}
+
+function formatNumber(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    notation: Math.abs(value) >= 10_000 ? "compact" : "standard",
+    maximumFractionDigits: 2
+  }).format(value);
+}
+
+function histogram(rows: Row[], field: string): ChartSeries {
+  const values = rows.map(row => toNumber(row[field])).filter((value): value is number => value !== undefined);
+  const bins = histogramBins(values);
+  return {
+    name: field,
+    points: bins.map(bin => ({
+      x: bin.start === bin.end ? formatNumber(bin.start) : `${formatNumber(bin.start)}–${formatNumber(bin.end)}`,
+      y: bin.count
+    }))
+  };
+}
+
+/**
+ * Turn rows of data into a chart spec. Unless told which columns to use, the x axis is the
+ * first text column (the row number when there is none) and every numeric column becomes a series.
+ */
+export function buildChartSpec(rows: Row[], type: ChartType, options: ChartOptions = {}): ChartSpec {
+  if (rows.length === 0) {
+    throw new ChartDataError("The data has no rows to chart");
+  }
+
+  const { columns, numeric } = describeColumns(rows);
+  options.yFields?.forEach(field => checkColumn(columns, field));
+  if (options.xField) checkColumn(columns, options.xField);
+  if (numeric.length === 0) {
+    throw new ChartDataError("The data has no numeric columns to chart");
+  }
+
+  const title = options.title;
+  let series: ChartSeries[];
+  let spec: Omit<ChartSpec, "series">;
+
+  if (type === "histogram") {
+    const field = options.yFields?.[0] || numeric[0];
+    series = [histogram(rows, field)];
+    spec = {
+      type,
+      title,
+      xAxis: { kind: "category", label: options.xLabel || field },
+      yAxis: { kind: "number", label: options.yLabel || "Count" }
+    };
+  } else if (type === "scatter") {
+    const xField = options.xField || (numeric.length > 1 ? numeric[0] : undefined);
+    const yFields = options.yFields || numeric.filter(column => column !== xField);
+    series = yFields.slice(0, MAX_SERIES).map(field => seriesFor(rows, xField, field, true));
+    spec = {
+      type,
+      title,
+      xAxis: { kind: "number", label: options.xLabel || xField },
+      yAxis: { kind: "number", label: options.yLabel || (yFields.length === 1 ? yFields[0] : undefined) }
+    };
+  } else {
+    const xField = options.xField
+      || columns.find(column => !numeric.includes(column))
+      || (numeric.length > 1 ? numeric[0] : undefined);
+    const yFields = options.yFields || numeric.filter(column => column !== xField);
+    // A pie shows the parts of one total, so only the first series is used
+    const fields = type === "pie" ? yFields.slice(0, 1) : yFields.slice(0, MAX_SERIES);
+    series = fields.map(field => seriesFor(rows, xField, field, false));
+    spec = {
+      type,
+      title,
+      xAxis: { kind: "category", label: options.xLabel || xField },
+      yAxis: { kind: "number", label: options.yLabel || (fields.length === 1 ? fields[0] : undefined) }
+    };
+  }
+
+  if (series.length === 0 || series.every(item => item.points.length === 0)) {
+    throw new ChartDataError("None of the rows have values to chart");
+  }
+  if (series.some(item => item.points.length > MAX_POINTS_PER_SERIES)) {
+    throw new ChartDataError(`Charts are limited to ${MAX_POINTS_PER_SERIES} points per series; aggregate the data first`);
+  }
+  if (type === "pie" && series[0].points.length > MAX_PIE_SLICES) {
+    throw new ChartDataError(`Pie charts are limited to ${MAX_PIE_SLICES} slices; group the smaller ones first`);
+  }
+
+  return { ...spec, series };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", "\"": "&quot;", "'": "&apos;" })[char]!);
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function textElement(x: number, y: number, text: string, attributes = ""): string {
+  return `<text x="${x.toFixed(1)}" y="${y.toFixed(1)}" ${attributes}>${escapeXml(text)}</text>`;
+}
+
+// Round tick values covering [min, max], about `count` of them
+function niceTicks(min: number, max: number, count = 5): number[] {
+  if (min === max) {
+    min -= 1;
+    max += 1;
+  }
+  const rough = (max - min) / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const normalized = rough / magnitude;
+  const step = (normalized < 1.5 ? 1 : normalized < 3 ? 2 : normalized < 7 ? 5 : 10) * magnitude;
+
+  const ticks: number[] = [];
+  for (let tick = Math.floor(min / step) * step; tick <= Math.ceil(max / step) * step + step / 2; tick += step) {
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  return ticks;
+}
+
+function scale(domainMin: number, domainMax: number, rangeMin: number, rangeMax: number) {
+  return (value: number) => rangeMin + ((value - domainMin) / (domainMax - domainMin || 1)) * (rangeMax - rangeMin);
+}
+
+function renderLegend(series: ChartSeries[], x: number, y: number): string {
+  let offset = 0;
+  return series.map((item, i) => {
+    const name = truncate(item.name, 24);
+    const entry = `<rect x="${x + offset}" y="${y - 9}" width="10" height="10" fill="${PALETTE[i % PALETTE.length]}"/>`
+      + textElement(x + offset + 14, y, name, `font-size="12" fill="#374151"`);
+    offset += 24 + name.length * 7;
+    return entry;
+  }).join("");
+}
+
+function renderCartesian(spec: ChartSpec, top: number): string {
+  const categories = spec.xAxis.kind === "category"
+    ? Array.from(new Set(spec.series.flatMap(item => item.points.map(point => String(point.x)))))
+    : [];
+  // Many category labels are slanted, which needs more room below the plot
+  const slanted = categories.length > 8;
+  const margin = { top, right: 24, bottom: slanted ? 100 : 64, left: 72 };
+  const plot = { left: margin.left, right: WIDTH - margin.right, top: margin.top, bottom: HEIGHT - margin.bottom };
+  const parts: string[] = [];
+
+  const yValues = spec.series.flatMap(item => item.points.map(point => point.y));
+  const startsAtZero = spec.type === "bar" || spec.type === "histogram" || spec.type === "area";
+  const yTicks = niceTicks(Math.min(...yValues, ...(startsAtZero ? [0] : [])), Math.max(...yValues, ...(startsAtZero ? [0] : [])));
+  const yScale = scale(yTicks[0], yTicks[yTicks.length - 1], plot.bottom, plot.top);
+  const baseline = yScale(Math.min(Math.max(0, yTicks[0]), yTicks[yTicks.length - 1]));
+
+  for (const tick of yTicks) {
+    const y = yScale(tick);
+    parts.push(`<line x1="${plot.left}" x2="${plot.right}" y1="${y.toFixed(1)}" y2="${y.toFixed(1)}" stroke="#e5e7eb"/>`);
+    parts.push(textElement(plot.left - 8, y + 4, formatNumber(tick), `font-size="11" fill="#6b7280" text-anchor="end"`));
+  }
+
+  let xPosition: (x: string | number) => number;
+  let band = 0;
+  if (spec.xAxis.kind === "number") {
+    const xValues = spec.series.flatMap(item => item.points.map(point => point.x as number));
+    const xTicks = niceTicks(Math.min(...xValues), Math.max(...xValues));
+    const xScale = scale(xTicks[0], xTicks[xTicks.length - 1], plot.left, plot.right);
+    xPosition = x => xScale(x as number);
+    for (const tick of xTicks) {
+      parts.push(textElement(xScale(tick), plot.bottom + 18, formatNumber(tick), `font-size="11" fill="#6b7280" text-anchor="middle"`));
+    }
+  } else {
+    band = (plot.right - plot.left) / categories.length;
+    const index = new Map(categories.map((category, i) => [category, i]));
+    xPosition = x => plot.left + band * (index.get(String(x))! + 0.5);
+
+    // Show every nth label so they do not overlap
+    const every = Math.ceil(categories.length / Math.floor((plot.right - plot.left) / 28));
+    categories.forEach((category, i) => {
+      if (i % every !== 0) return;
+      const x = xPosition(category);
+      parts.push(slanted
+        ? textElement(x, plot.bottom + 14, truncate(category, 14), `font-size="11" fill="#6b7280" text-anchor="end" transform="rotate(-35 ${x.toFixed(1)} ${(plot.bottom + 14).toFixed(1)})"`)
+        : textElement(x, plot.bottom + 18, truncate(category, 16), `font-size="11" fill="#6b7280" text-anchor="middle"`));
+    });
+  }
+
+  parts.push(`<line x1="${plot.left}" x2="${plot.right}" y1="${baseline.toFixed(1)}" y2="${baseline.toFixed(1)}" stroke="#9ca3af"/>`);
+
+  spec.series.forEach((item, seriesIndex) => {
+    const color = PALETTE[seriesIndex % PALETTE.length];
+    const points = item.points.map(point => ({ x: xPosition(point.x), y: yScale(point.y) }));
+
+    if (spec.type === "bar" || spec.type === "histogram") {
+      const groupWidth = band * (spec.type === "histogram" ? 0.98 : 0.8);
+      const barWidth = groupWidth / (spec.type === "histogram" ? 1 : spec.series.length);
+      for (const point of points) {
+        const x = point.x - groupWidth / 2 + barWidth * (spec.type === "histogram" ? 0 : seriesIndex);
+        parts.push(`<rect x="${x.toFixed(1)}" y="${Math.min(point.y, baseline).toFixed(1)}" width="${barWidth.toFixed(1)}" height="${Math.abs(baseline - point.y).toFixed(1)}" fill="${color}"/>`);
+      }
+    } else if (spec.type === "scatter") {
+      for (const point of points) {
+        parts.push(`<circle cx="${point.x.toFixed(1)}" cy="${point.y.toFixed(1)}" r="4" fill="${color}" fill-opacity="0.8"/>`);
+      }
+    } else {
+      const line = points.map((point, i) => `${i === 0 ? "M" : "L"}${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(" ");
+      if (spec.type === "area" && points.length > 0) {
+        const area = `${line} L${points[points.length - 1].x.toFixed(1)},${baseline.toFixed(1)} L${points[0].x.toFixed(1)},${baseline.toFixed(1)} Z`;
+        parts.push(`<path d="${area}" fill="${color}" fill-opacity="0.25"/>`);
+      }
+      parts.push(`<path d="${line}" fill="none" stroke="${color}" stroke-width="2"/>`);
+      if (spec.type === "line" && points.length <= 60) {
+        for (const point of points) {
+          parts.push(`<circle cx="${point.x.toFixed(1)}" cy="${point.y.toFixed(1)}" r="3" fill="${color}"/>`);
+        }
+      }
+    }
+  });
+
+  if (spec.xAxis.label) {
+    parts.push(textElement((plot.left + plot.right) / 2, HEIGHT - 12, spec.xAxis.label, `font-size="12" fill="#374151" text-anchor="middle"`));
+  }
+  if (spec.yAxis.label) {
+    const y = (plot.top + plot.bottom) / 2;
+    parts.push(textElement(18, y, spec.yAxis.label, `font-size="12" fill="#374151" text-anchor="middle" transform="rotate(-90 18 ${y.toFixed(1)})"`));
+  }
+  return parts.join("");
+}
+
+function renderPie(spec: ChartSpec, top: number): string {
+  const slices = spec.series[0].points.filter(point => point.y > 0);
+  const total = slices.reduce((sum, point) => sum + point.y, 0);
+  const radius = Math.min(WIDTH - 280, HEIGHT - top - 24) / 2;
+  const cx = 24 + radius + 40;
+  const cy = top + (HEIGHT - top) / 2 - 8;
+  const parts: string[] = [];
+
+  let angle = -Math.PI / 2;
+  slices.forEach((point, i) => {
+    const color = PALETTE[i % PALETTE.length];
+    const sweep = (point.y / total) * Math.PI * 2;
+    if (slices.length === 1) {
+      parts.push(`<circle cx="${cx}" cy="${cy}" r="${radius}" fill="${color}"/>`);
+    } else {
+      const x1 = cx + radius * Math.cos(angle);
+      const y1 = cy + radius * Math.sin(angle);
+      const x2 = cx + radius * Math.cos(angle + sweep);
+      const y2 = cy + radius * Math.sin(angle + sweep);
+      parts.push(`<path d="M${cx},${cy} L${x1.toFixed(1)},${y1.toFixed(1)} A${radius},${radius} 0 ${sweep > Math.PI ? 1 : 0} 1 ${x2.toFixed(1)},${y2.toFixed(1)} Z" fill="${color}" stroke="#ffffff" stroke-width="1"/>`);
+    }
+    angle += sweep;
+
+    const legendY = top + 24 + i * 20;
+    const legendX = cx + radius + 48;
+    parts.push(`<rect x="${legendX}" y="${legendY - 10}" width="12" height="12" fill="${color}"/>`);
+    parts.push(textElement(legendX + 18, legendY, `${truncate(String(point.x), 24)} (${((point.y / total) * 100).toFixed(1)}%)`, `font-size="12" fill="#374151"`));
+  });
+  return parts.join("");
+}
+
+/**
+ * Draw a chart spec as a standalone SVG document
+ */
+export function renderChartSvg(spec: ChartSpec): string {
+  let top = 24;
+  const parts: string[] = [`<rect width="${WIDTH}" height="${HEIGHT}" fill="#ffffff"/>`];
+
+  if (spec.title) {
+    parts.push(textElement(WIDTH / 2, 32, truncate(spec.title, 80), `font-size="18" font-weight="bold" fill="#111827" text-anchor="middle"`));
+    top += 32;
+  }
+  if (spec.type !== "pie" && spec.series.length > 1) {
+    parts.push(renderLegend(spec.series, 72, top + 4));
+    top += 24;
+  }
+  parts.push(spec.type === "pie" ? renderPie(spec, top) : renderCartesian(spec, top));
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}" font-family="${FONT_FAMILY}">${parts.join("")}</svg>`;
+}
+
+/**
+ * Render a chart spec to an image file in the given format
+ */
+export function renderChart(spec: ChartSpec, format: "png" | "svg"): { data: Buffer; mimeType: string } {
+  const svg = renderChartSvg(spec);
+  if (format === "svg") {
+    return { data: Buffer.from(svg, "utf8"), mimeType: "image/svg+xml" };
+  }
+
+  const png = new Resvg(svg, {
+    fitTo: { mode: "zoom", value: PNG_SCALE },
+    font: { loadSystemFonts: true, defaultFontFamily: "DejaVu Sans" }
+  }).render().asPng();
+  return { data: Buffer.from(png), mimeType: "image/png" };
+}
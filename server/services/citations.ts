@@ -0,0 +1,51 @@
+import type { MessageCitation, WebSearchResult, WebSearchSource } from "@shared/schema";
+
+// Characters of a source's snippet kept with the message; the preview card shows a few lines
+const MAX_SNIPPET_LENGTH = 300;
+
+function webUrl(link: string): URL | undefined {
+  try {
+    const url = new URL(link);
+    return url.protocol === "http:" || url.protocol === "https:" ? url : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The icon a site serves at its root, or an empty string for links that are not web pages
+ */
+export function faviconUrl(link: string): string {
+  const url = webUrl(link);
+  return url ? `${url.origin}/favicon.ico` : "";
+}
+
+// Sources that are not web pages are not cited, so their [n] markers stay plain text
+export function toCitations(sources: WebSearchSource[]): MessageCitation[] {
+  return sources.filter(source => webUrl(source.url)).map(source => ({
+    number: source.citation,
+    url: source.url,
+    title: source.title,
+    snippet: source.snippet.length > MAX_SNIPPET_LENGTH ? `${source.snippet.slice(0, MAX_SNIPPET_LENGTH - 1)}…` : source.snippet,
+    favicon: faviconUrl(source.url)
+  }));
+}
+
+/**
+ * Citations of an assistant message from the web results in its content, by number. Every
+ * web_search call numbers its results from 1, so when the agent searched more than once the
+ * latest search holds a number, as the answer was written after it.
+ */
+export function collectCitations(content: string | Array<Record<string, any>>): MessageCitation[] | undefined {
+  if (typeof content === "string") return undefined;
+
+  const byNumber = new Map<number, MessageCitation>();
+  for (const part of content) {
+    if (part.type !== "web_search_result") continue;
+    for (const citation of toCitations((part as WebSearchResult).sources)) {
+      byNumber.set(citation.number, citation);
+    }
+  }
+  if (byNumber.size === 0) return undefined;
+  return Array.from(byNumber.values()).sort((a, b) => a.number - b.number);
+}
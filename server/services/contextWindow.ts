@@ -0,0 +1,148 @@
+import { createHash } from "crypto";
+import { countTokens as countO200kTokens } from "gpt-tokenizer/encoding/o200k_base";
+import { countTokens as countCl100kTokens } from "gpt-tokenizer/encoding/cl100k_base";
+import type { ChatCompletionRequest, ModelId } from "@shared/schema";
+import { storage } from "../storage";
+import { log } from "../vite";
+import { generateOpenAIMiniResponse } from "./openai";
+import { recordModelUsage } from "./usageRecords";
+
+type ChatMessage = ChatCompletionRequest["messages"][number];
+
+interface ContextBudget {
+  encoding: "o200k_base" | "cl100k_base";
+  // Tokens of system prompt, summary and conversation sent with each request. Kept well below
+  // the model's context window to leave room for tool results and the answer.
+  historyTokens: number;
+}
+
+const CONTEXT_BUDGETS: Record<ModelId, ContextBudget> = {
+  "gpt-5": { encoding: "o200k_base", historyTokens: 64_000 },
+  "gpt-5-mini": { encoding: "o200k_base", historyTokens: 32_000 },
+  "gpt-5-nano": { encoding: "o200k_base", historyTokens: 16_000 },
+  "gpt-4o": { encoding: "o200k_base", historyTokens: 32_000 },
+  "gpt-4o-mini": { encoding: "o200k_base", historyTokens: 16_000 },
+  // The OpenRouter models do not publish their tokenizers; cl100k_base is a close estimate
+  "deepseek-r1": { encoding: "cl100k_base", historyTokens: 12_000 },
+  "llama-4-maverick": { encoding: "cl100k_base", historyTokens: 12_000 }
+};
+
+// Per-message framing tokens added by the chat format
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// What OpenAI charges for a 1024x1024 image at high detail; used for every image part
+const IMAGE_TOKENS = 765;
+// Room kept for the rolling summary when deciding how many turns fit
+const SUMMARY_TOKENS = 1_000;
+// The latest messages always go out verbatim, even when they alone exceed the budget
+const MIN_RECENT_MESSAGES = 2;
+
+const SUMMARY_MODEL: ModelId = "gpt-5-nano";
+
+const SUMMARY_PROMPT = "You maintain a running summary of a conversation between a user and an AI assistant. " +
+  "Merge the new messages into the existing summary. Keep facts, decisions, names, numbers, open questions " +
+  "and the user's preferences; drop pleasantries. Answer with the updated summary only, in at most 300 words.";
+
+function messageText(message: ChatMessage): string {
+  if (typeof message.content === "string") return message.content;
+  return message.content.map(part => part.type === "text" ? part.text : "[image]").join("\n");
+}
+
+export function countMessageTokens(model: ModelId, message: ChatMessage): number {
+  const countTokens = CONTEXT_BUDGETS[model].encoding === "o200k_base" ? countO200kTokens : countCl100kTokens;
+  if (typeof message.content === "string") {
+    return MESSAGE_OVERHEAD_TOKENS + countTokens(message.content);
+  }
+  return message.content.reduce(
+    (total, part) => total + (part.type === "text" ? countTokens(part.text) : IMAGE_TOKENS),
+    MESSAGE_OVERHEAD_TOKENS
+  );
+}
+
+// Fingerprint of the messages a summary covers; any edit to them changes it
+function hashMessages(messages: ChatMessage[]): string {
+  return createHash("sha256").update(JSON.stringify(messages.map(message => [message.role, message.content]))).digest("hex");
+}
+
+// The summary's tokens are recorded against the chat it was written for
+async function summarize(previousSummary: string | null, newMessages: ChatMessage[], userId: number, chatId: string): Promise<string> {
+  const transcript = newMessages.map(message => `${message.role}: ${messageText(message)}`).join("\n\n");
+  const response = await generateOpenAIMiniResponse({
+    model: SUMMARY_MODEL,
+    messages: [
+      { role: "system", content: SUMMARY_PROMPT },
+      { role: "user", content: `Existing summary:\n${previousSummary || "(none)"}\n\nNew messages:\n${transcript}` }
+    ],
+    webSearchEnabled: false,
+    stream: false
+  }, { model: SUMMARY_MODEL });
+  if (response.tokens) {
+    await recordModelUsage({ userId, chatId, purpose: "summary", model: SUMMARY_MODEL, tokens: response.tokens });
+  }
+  return response.message.content;
+}
+
+function withSummary(request: ChatCompletionRequest, systemMessages: ChatMessage[], summary: string | null, turns: ChatMessage[]): ChatCompletionRequest {
+  const summaryMessages: ChatMessage[] = summary
+    ? [{ role: "system", content: `Summary of the earlier conversation:\n${summary}` }]
+    : [];
+  return { ...request, messages: [...systemMessages, ...summaryMessages, ...turns] };
+}
+
+/**
+ * Fit a chat request's history into the model's context budget. Recent turns are kept
+ * verbatim; older ones are replaced by a rolling summary stored on the user's chat session.
+ * Summaries are only kept for signed-in users' saved chats, so other conversations simply
+ * lose their oldest turns once they outgrow the budget.
+ */
+export async function buildChatContext(request: ChatCompletionRequest, userId?: number): Promise<ChatCompletionRequest> {
+  const { model } = request;
+  const systemMessages = request.messages.filter(message => message.role === "system");
+  const turns = request.messages.filter(message => message.role !== "system");
+
+  const systemTokens = systemMessages.reduce((total, message) => total + countMessageTokens(model, message), 0);
+  const available = CONTEXT_BUDGETS[model].historyTokens - systemTokens - SUMMARY_TOKENS;
+
+  const session = userId && request.chatId ? await storage.getChatSummary(userId, request.chatId) : undefined;
+  // A summary of messages the chat no longer starts with belongs to an edited chat, so start over
+  const summaryValid = !!session?.summary && session.summarizedCount <= turns.length - MIN_RECENT_MESSAGES &&
+    session.summaryHash === hashMessages(turns.slice(0, session.summarizedCount));
+  const summary = summaryValid ? session!.summary : null;
+  const summarizedCount = summaryValid ? session!.summarizedCount : 0;
+
+  const tokenCounts = turns.map(message => countMessageTokens(model, message));
+  const recentTokens = tokenCounts.slice(summarizedCount).reduce((total, tokens) => total + tokens, 0);
+  if (recentTokens <= available) {
+    return summarizedCount > 0 ? withSummary(request, systemMessages, summary, turns.slice(summarizedCount)) : request;
+  }
+
+  // Fold older turns into the summary until the recent ones use about half the budget,
+  // so a long chat is re-summarized every few turns rather than on every request
+  let keepFrom = turns.length;
+  let keptTokens = 0;
+  while (keepFrom > summarizedCount) {
+    const tokens = tokenCounts[keepFrom - 1];
+    if (turns.length - keepFrom >= MIN_RECENT_MESSAGES && keptTokens + tokens > available / 2) break;
+    keptTokens += tokens;
+    keepFrom--;
+  }
+
+  if (!session) {
+    log(`Context for ${model} trimmed to the last ${turns.length - keepFrom} of ${turns.length} messages`);
+    return withSummary(request, systemMessages, null, turns.slice(keepFrom));
+  }
+
+  try {
+    const updatedSummary = await summarize(summary, turns.slice(summarizedCount, keepFrom), userId!, request.chatId!);
+    await storage.updateChatSummary(userId!, request.chatId!, {
+      summary: updatedSummary,
+      summarizedCount: keepFrom,
+      summaryHash: hashMessages(turns.slice(0, keepFrom))
+    });
+    log(`Context for ${model} summarized ${keepFrom} of ${turns.length} messages`);
+    return withSummary(request, systemMessages, updatedSummary, turns.slice(keepFrom));
+  } catch (error: any) {
+    // Without a fresh summary, send what is left of the old one and the turns that fit
+    log(`Error summarizing conversation: ${error.message}`, "error");
+    return withSummary(request, systemMessages, summary, turns.slice(keepFrom));
+  }
+}
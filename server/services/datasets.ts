@@ -0,0 +1,290 @@
+import { Worker } from "worker_threads";
+import { createRequire } from "module";
+import initSqlJs, { type Database, type SqlJsStatic } from "sql.js";
+import type { DatasetFormat, DatasetTable } from "@shared/schema";
+import { DataParseError, parseTable, type DataFormat } from "./tabularData";
+
+export const MAX_DATASET_BYTES = 20 * 1024 * 1024;
+export const MAX_DATASETS_PER_USER = 20;
+export const MAX_QUERY_ROWS = 500;
+
+const DEFAULT_QUERY_TIMEOUT_MS = 5_000;
+// Heap of the worker a query runs in; the database itself lives in wasm memory on top of this
+const QUERY_WORKER_HEAP_MB = 128;
+const MAX_NAME_LENGTH = 48;
+
+const SQLITE_HEADER = "SQLite format 3\0";
+const FORMATS_BY_EXTENSION: Record<string, DatasetFormat> = {
+  csv: "csv",
+  tsv: "tsv",
+  tab: "tsv",
+  json: "json",
+  sqlite: "sqlite",
+  sqlite3: "sqlite",
+  db: "sqlite"
+};
+// Statements that can only read; everything else is refused before it reaches the engine
+const READ_ONLY_KEYWORDS = new Set(["select", "with", "values", "explain"]);
+
+/**
+ * Thrown when an uploaded file cannot be turned into a dataset
+ */
+export class DatasetFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DatasetFormatError";
+  }
+}
+
+/**
+ * Thrown when a query is refused, fails or runs out of time
+ */
+export class DatasetQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DatasetQueryError";
+  }
+}
+
+export interface BuiltDataset {
+  name: string;
+  sourceFormat: DatasetFormat;
+  tables: DatasetTable[];
+  // The SQLite database file
+  data: Uint8Array;
+}
+
+export interface QueryRows {
+  columns: string[];
+  rows: Array<Array<string | number | null>>;
+  truncated: boolean;
+}
+
+export interface QueryOptions {
+  maxRows: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+let sqlJs: Promise<SqlJsStatic> | undefined;
+
+function loadSqlJs(): Promise<SqlJsStatic> {
+  sqlJs ??= initSqlJs();
+  return sqlJs;
+}
+
+/**
+ * Name a dataset or table is queried by: lower case letters, digits and underscores,
+ * starting with a letter
+ */
+export function toIdentifier(text: string): string {
+  const name = text
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, "_")
+    .replace(/_+/g, "_")
+    .replace(/^_|_$/g, "")
+    .slice(0, MAX_NAME_LENGTH);
+  if (!name) return "dataset";
+  return /^[a-z]/.test(name) ? name : `t_${name}`;
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, "\"\"")}"`;
+}
+
+function describeDatabase(db: Database): DatasetTable[] {
+  const [objects] = db.exec("SELECT name FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' ORDER BY name");
+  return (objects?.values || []).map(([name]) => {
+    const table = String(name);
+    const [info] = db.exec(`PRAGMA table_info(${quoteIdentifier(table)})`);
+    const [count] = db.exec(`SELECT count(*) FROM ${quoteIdentifier(table)}`);
+    return {
+      name: table,
+      // table_info rows are cid, name, type, notnull, dflt_value, pk
+      columns: (info?.values || []).map(row => ({ name: String(row[1]), type: String(row[2] || "") })),
+      rowCount: Number(count.values[0][0])
+    };
+  });
+}
+
+async function openSqliteFile(data: Uint8Array): Promise<DatasetTable[]> {
+  if (Buffer.from(data.subarray(0, SQLITE_HEADER.length)).toString("latin1") !== SQLITE_HEADER) {
+    throw new DatasetFormatError("The file is not a SQLite database");
+  }
+
+  const SQL = await loadSqlJs();
+  let db: Database | undefined;
+  try {
+    db = new SQL.Database(data);
+    const tables = describeDatabase(db);
+    if (tables.length === 0) {
+      throw new DatasetFormatError("The SQLite database has no tables");
+    }
+    return tables;
+  } catch (error: any) {
+    if (error instanceof DatasetFormatError) throw error;
+    throw new DatasetFormatError(`The SQLite database cannot be read: ${error.message}`);
+  } finally {
+    db?.close();
+  }
+}
+
+// A single table holding the parsed rows, with SQLite column types following the inferred ones
+async function tableToDatabase(text: string, format: DataFormat, table: string): Promise<Uint8Array> {
+  let dataset;
+  try {
+    dataset = parseTable(text, format);
+  } catch (error) {
+    if (error instanceof DataParseError) throw new DatasetFormatError(error.message);
+    throw error;
+  }
+
+  const sqlTypes = dataset.columns.map(column => {
+    if (column.type === "boolean") return "INTEGER";
+    if (column.type !== "number") return "TEXT";
+    return dataset.rows.every(row => row[column.name] === null || Number.isInteger(row[column.name])) ? "INTEGER" : "REAL";
+  });
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+  try {
+    const columnList = dataset.columns.map((column, i) => `${quoteIdentifier(column.name)} ${sqlTypes[i]}`).join(", ");
+    db.run(`CREATE TABLE ${quoteIdentifier(table)} (${columnList})`);
+
+    const insert = db.prepare(`INSERT INTO ${quoteIdentifier(table)} VALUES (${dataset.columns.map(() => "?").join(", ")})`);
+    db.run("BEGIN");
+    for (const row of dataset.rows) {
+      insert.run(dataset.columns.map(column => {
+        const value = row[column.name];
+        return typeof value === "boolean" ? Number(value) : value;
+      }));
+    }
+    db.run("COMMIT");
+    insert.free();
+    return db.export();
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Turn an uploaded CSV, TSV, JSON or SQLite file into a dataset. Tabular files become a
+ * database with one table named like the dataset; SQLite files are kept as they are.
+ */
+export async function buildDataset(filename: string, data: Buffer, name?: string): Promise<BuiltDataset> {
+  const extension = filename.split(".").pop()?.toLowerCase() || "";
+  const sourceFormat = FORMATS_BY_EXTENSION[extension];
+  if (!sourceFormat) {
+    throw new DatasetFormatError("Upload a .csv, .tsv, .json or SQLite (.sqlite, .db) file");
+  }
+  if (data.length > MAX_DATASET_BYTES) {
+    throw new DatasetFormatError(`Datasets are limited to ${MAX_DATASET_BYTES / 1024 / 1024} MB`);
+  }
+
+  const datasetName = toIdentifier(name || filename.replace(/\.[^.]*$/, ""));
+  if (sourceFormat === "sqlite") {
+    const file = new Uint8Array(data);
+    return { name: datasetName, sourceFormat, tables: await openSqliteFile(file), data: file };
+  }
+
+  const database = await tableToDatabase(data.toString("utf8"), sourceFormat, datasetName);
+  return { name: datasetName, sourceFormat, tables: await openSqliteFile(database), data: database };
+}
+
+/**
+ * Refuse anything but a single reading statement. The worker also sets SQLite's query_only
+ * pragma, which catches writes this check cannot see, such as a WITH clause ahead of a DELETE.
+ */
+export function assertReadOnly(sql: string): void {
+  const statement = sql
+    .replace(/^(\s+|--[^\n]*(\n|$)|\/\*[\s\S]*?\*\/)+/, "")
+    .replace(/[\s;]+$/, "");
+  const keyword = statement.match(/^[a-z]+/i)?.[0].toLowerCase();
+  if (!keyword || !READ_ONLY_KEYWORDS.has(keyword)) {
+    throw new DatasetQueryError("Only SELECT queries can be run; datasets are read-only");
+  }
+}
+
+/**
+ * Runs in a worker thread so a runaway query can be stopped by terminating the worker;
+ * sql.js runs queries synchronously and cannot be interrupted otherwise.
+ */
+const QUERY_WORKER = `
+const { parentPort, workerData } = require("worker_threads");
+const initSqlJs = require(workerData.sqlJsPath);
+const cell = value => value instanceof Uint8Array ? "<" + value.length + " byte blob>" : value;
+initSqlJs().then(SQL => {
+  const db = new SQL.Database(workerData.database);
+  try {
+    db.run("PRAGMA query_only = ON");
+    const statements = db.iterateStatements(workerData.sql);
+    const first = statements.next();
+    if (first.done) throw new Error("The query is empty");
+    if (statements.getRemainingSQL().replace(/--[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/|[\\s;]+/g, "") !== "") {
+      throw new Error("Only one statement can be run at a time");
+    }
+    const statement = first.value;
+    const columns = statement.getColumnNames();
+    const rows = [];
+    let truncated = false;
+    while (statement.step()) {
+      if (rows.length === workerData.maxRows) {
+        truncated = true;
+        break;
+      }
+      rows.push(statement.get().map(cell));
+    }
+    statement.free();
+    parentPort.postMessage({ columns, rows, truncated });
+  } catch (error) {
+    parentPort.postMessage({ error: error.message });
+  } finally {
+    db.close();
+  }
+}).catch(error => parentPort.postMessage({ error: error.message }));
+`;
+
+const sqlJsPath = createRequire(import.meta.url).resolve("sql.js");
+
+/**
+ * Run a read-only query against a dataset's database, returning at most `maxRows` rows.
+ * The query runs on a private copy of the database, so nothing it does is kept.
+ */
+export function queryDataset(database: Uint8Array, sql: string, options: QueryOptions): Promise<QueryRows> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_QUERY_TIMEOUT_MS;
+
+  return new Promise((resolve, reject) => {
+    assertReadOnly(sql);
+    const worker = new Worker(QUERY_WORKER, {
+      eval: true,
+      workerData: { sqlJsPath, database, sql, maxRows: options.maxRows },
+      resourceLimits: { maxOldGenerationSizeMb: QUERY_WORKER_HEAP_MB }
+    });
+
+    let settled = false;
+    const finish = (error: Error | null, result?: QueryRows) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+      void worker.terminate();
+      if (error) reject(error);
+      else resolve(result!);
+    };
+    const onAbort = () => finish(new DatasetQueryError("The query was cancelled"));
+    const timer = setTimeout(
+      () => finish(new DatasetQueryError(`The query did not finish within ${timeoutMs / 1000} seconds`)),
+      timeoutMs
+    );
+
+    if (options.signal?.aborted) return onAbort();
+    options.signal?.addEventListener("abort", onAbort);
+
+    worker.on("message", (message: QueryRows | { error: string }) => {
+      if ("error" in message) finish(new DatasetQueryError(message.error));
+      else finish(null, message);
+    });
+    worker.on("error", error => finish(new DatasetQueryError(`The query failed: ${error.message}`)));
+    worker.on("exit", () => finish(new DatasetQueryError("The query stopped unexpectedly")));
+  });
+}
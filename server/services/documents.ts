@@ -0,0 +1,208 @@
+import { extractText } from "unpdf";
+import mammoth from "mammoth";
+import type { DocumentFormat, DocumentInfo, FileSearchPassage } from "@shared/schema";
+import { storage } from "../storage";
+import { cosineSimilarity, getEmbedder } from "./embeddings";
+
+export const MAX_DOCUMENT_BYTES = 15 * 1024 * 1024;
+export const MAX_DOCUMENTS_PER_USER = 50;
+export const MAX_CHUNKS_PER_DOCUMENT = 1000;
+
+// Characters per chunk, and how many of them the next chunk repeats so a passage split at a
+// chunk boundary is still found whole in one of them
+const CHUNK_SIZE = 1000;
+const CHUNK_OVERLAP = 150;
+const MAX_TITLE_LENGTH = 120;
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  pdf: "pdf",
+  docx: "docx",
+  txt: "txt",
+  text: "txt",
+  md: "md",
+  markdown: "md"
+};
+
+/**
+ * Thrown when an uploaded file cannot be read as a document
+ */
+export class DocumentFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DocumentFormatError";
+  }
+}
+
+// Text of a document, by page when the format has pages
+export interface ExtractedPage {
+  page: number | null;
+  text: string;
+}
+
+export interface TextChunk {
+  page: number | null;
+  content: string;
+}
+
+export interface SearchOptions {
+  limit: number;
+  format?: DocumentFormat;
+  signal?: AbortSignal;
+}
+
+export function documentFormat(filename: string): DocumentFormat {
+  const extension = filename.split(".").pop()?.toLowerCase() || "";
+  const format = FORMATS_BY_EXTENSION[extension];
+  if (!format) {
+    throw new DocumentFormatError("Upload a PDF, DOCX, TXT or Markdown file");
+  }
+  return format;
+}
+
+/**
+ * Extract the text of a document, failing with a DocumentFormatError when it cannot be read
+ */
+export async function extractDocumentPages(format: DocumentFormat, buffer: Buffer): Promise<ExtractedPage[]> {
+  switch (format) {
+    case "pdf": {
+      try {
+        const { text } = await extractText(new Uint8Array(buffer), { mergePages: false });
+        return text.map((pageText, i) => ({ page: i + 1, text: pageText }));
+      } catch {
+        throw new DocumentFormatError("The file is not a readable PDF");
+      }
+    }
+    case "docx": {
+      try {
+        const { value } = await mammoth.extractRawText({ buffer });
+        return [{ page: null, text: value }];
+      } catch {
+        throw new DocumentFormatError("The file is not a readable Word document");
+      }
+    }
+    case "txt":
+    case "md": {
+      const text = buffer.toString("utf8");
+      if (text.includes("\u0000")) {
+        throw new DocumentFormatError("The file is not a text file");
+      }
+      return [{ page: null, text }];
+    }
+  }
+}
+
+// The first Markdown heading, or the file name without its extension
+function documentTitle(format: DocumentFormat, pages: ExtractedPage[], filename: string): string {
+  const heading = format === "md" ? pages[0]?.text.match(/^#{1,6}\s+(.+?)\s*#*\s*$/m)?.[1] : undefined;
+  const title = heading || filename.replace(/\.[^.]+$/, "") || filename;
+  return title.slice(0, MAX_TITLE_LENGTH);
+}
+
+/**
+ * Split text into chunks of about CHUNK_SIZE characters, breaking between paragraphs where
+ * possible, then at sentence ends or spaces. Chunks never span pages, so each one can be
+ * cited by the page it is on.
+ */
+export function chunkText(pages: ExtractedPage[]): TextChunk[] {
+  const chunks: TextChunk[] = [];
+
+  for (const { page, text } of pages) {
+    const normalized = text
+      .replace(/\r\n?/g, "\n")
+      .replace(/[ \t\f\v]+/g, " ")
+      .replace(/ ?\n ?/g, "\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+
+    let start = 0;
+    while (start < normalized.length) {
+      let end = Math.min(start + CHUNK_SIZE, normalized.length);
+      if (end < normalized.length) {
+        // Break at the last paragraph, sentence or word boundary in the second half of the chunk
+        const window = normalized.slice(start + CHUNK_SIZE / 2, end);
+        const boundary = [/\n\n/g, /[.!?]["')\]]?\s/g, /\s/g]
+          .map(pattern => Array.from(window.matchAll(pattern)).pop())
+          .find(match => match !== undefined);
+        if (boundary) {
+          end = start + CHUNK_SIZE / 2 + boundary.index! + boundary[0].length;
+        }
+      }
+
+      const content = normalized.slice(start, end).trim();
+      if (content) chunks.push({ page, content });
+      if (end >= normalized.length) break;
+
+      // Start the next chunk a little before this one ended, at a word boundary
+      let next = Math.max(end - CHUNK_OVERLAP, start + 1);
+      const space = normalized.indexOf(" ", next);
+      if (space !== -1 && space < end) next = space + 1;
+      start = next;
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Extract, chunk and embed an uploaded file and store it as one of the user's documents
+ */
+export async function indexDocument(userId: number, filename: string, buffer: Buffer): Promise<DocumentInfo> {
+  const format = documentFormat(filename);
+  if (buffer.length > MAX_DOCUMENT_BYTES) {
+    throw new DocumentFormatError(`Documents are limited to ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`);
+  }
+
+  const pages = await extractDocumentPages(format, buffer);
+  const chunks = chunkText(pages);
+  if (chunks.length === 0) {
+    throw new DocumentFormatError(format === "pdf"
+      ? "No text found in the PDF; scanned pages without a text layer cannot be searched"
+      : "The document is empty");
+  }
+  if (chunks.length > MAX_CHUNKS_PER_DOCUMENT) {
+    throw new DocumentFormatError(`The document is too long; at most about ${MAX_CHUNKS_PER_DOCUMENT * (CHUNK_SIZE - CHUNK_OVERLAP) / 1000}k characters of text can be searched`);
+  }
+
+  const embedder = getEmbedder();
+  const embeddings = await embedder.embed(chunks.map(chunk => chunk.content));
+
+  return storage.saveDocumentForUser(
+    {
+      userId,
+      filename,
+      title: documentTitle(format, pages, filename),
+      format,
+      sizeBytes: buffer.length,
+      pageCount: format === "pdf" ? pages.length : null,
+      chunkCount: chunks.length,
+      embedder: embedder.id
+    },
+    chunks.map((chunk, i) => ({ chunkIndex: i, page: chunk.page, content: chunk.content, embedding: embeddings[i] }))
+  );
+}
+
+/**
+ * The passages of the user's documents closest to a query, best first and numbered for
+ * citation. Documents embedded by another embedder than the current one are not searched.
+ */
+export async function searchDocuments(userId: number, query: string, options: SearchOptions): Promise<FileSearchPassage[]> {
+  const embedder = getEmbedder();
+  const chunks = await storage.getDocumentChunksForUser(userId, embedder.id, options.format);
+  if (chunks.length === 0) return [];
+
+  const [queryEmbedding] = await embedder.embed([query], options.signal);
+  return chunks
+    .map(chunk => ({ chunk, score: cosineSimilarity(queryEmbedding, chunk.embedding) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit)
+    .map(({ chunk, score }, i) => ({
+      citation: i + 1,
+      documentId: chunk.documentId,
+      filename: chunk.filename,
+      title: chunk.title,
+      page: chunk.page,
+      score: Math.round(score * 1000) / 1000,
+      text: chunk.content
+    }));
+}
@@ -0,0 +1,117 @@
+import OpenAI from "openai";
+
+/**
+ * Turns text into vectors whose cosine similarity reflects how related the texts are.
+ * Vectors from different embedders are not comparable, so stored vectors are tagged with
+ * the id of the embedder that made them.
+ */
+export interface Embedder {
+  id: string;
+  dimensions: number;
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+// Inputs per embeddings request; the API accepts more, but large batches fail as a whole
+const OPENAI_BATCH_SIZE = 96;
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length === 0 ? vector : vector.map(value => value / length);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// Runs of letters and digits in any script
+const WORD = new RegExp("[\\p{L}\\p{N}]+", "gu");
+
+// 32-bit FNV-1a
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+/**
+ * Local embedder hashing words and word pairs into a fixed number of dimensions. It needs no
+ * network and always gives the same vector for the same text, which makes it the embedder for
+ * tests and deployments without an embeddings API; it only matches shared vocabulary.
+ */
+export function createHashingEmbedder(dimensions = 512): Embedder {
+  const embedOne = (text: string) => {
+    const words = text.toLowerCase().match(WORD) || [];
+    const counts = new Map<string, number>();
+    words.forEach((word, i) => {
+      counts.set(word, (counts.get(word) || 0) + 1);
+      if (i > 0) counts.set(`${words[i - 1]} ${word}`, (counts.get(`${words[i - 1]} ${word}`) || 0) + 1);
+    });
+
+    const vector = new Array<number>(dimensions).fill(0);
+    counts.forEach((count, feature) => {
+      const value = hash(feature);
+      // The top bit picks the sign so unrelated features cancel out rather than pile up
+      vector[value % dimensions] += (value & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+    });
+    return normalize(vector);
+  };
+
+  return {
+    id: `hashing-${dimensions}`,
+    dimensions,
+    async embed(texts) {
+      return texts.map(embedOne);
+    }
+  };
+}
+
+/**
+ * Embedder backed by the OpenAI embeddings API. EMBEDDINGS_MODEL picks the model.
+ */
+export function createOpenAIEmbedder(options: { apiKey?: string; model?: string } = {}): Embedder {
+  const model = options.model || process.env.EMBEDDINGS_MODEL || "text-embedding-3-small";
+  const client = new OpenAI({ apiKey: options.apiKey || process.env.OPENAI_API_KEY || "" });
+
+  return {
+    id: `openai:${model}`,
+    dimensions: model === "text-embedding-3-large" ? 3072 : 1536,
+    async embed(texts, signal) {
+      const vectors: number[][] = [];
+      for (let start = 0; start < texts.length; start += OPENAI_BATCH_SIZE) {
+        const response = await client.embeddings.create(
+          { model, input: texts.slice(start, start + OPENAI_BATCH_SIZE) },
+          { signal }
+        );
+        vectors.push(...response.data.sort((a, b) => a.index - b.index).map(item => item.embedding));
+      }
+      return vectors;
+    }
+  };
+}
+
+// EMBEDDINGS_PROVIDER=hashing keeps embeddings local even when an OpenAI key is configured
+let embedder: Embedder = process.env.OPENAI_API_KEY && process.env.EMBEDDINGS_PROVIDER !== "hashing"
+  ? createOpenAIEmbedder()
+  : createHashingEmbedder();
+
+/**
+ * Replace the embedder used for new documents and searches
+ */
+export function setEmbedder(next: Embedder) {
+  embedder = next;
+}
+
+export function getEmbedder(): Embedder {
+  return embedder;
+}
@@ -0,0 +1,103 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { verifyFirebaseIdToken, setFirebaseKeySource, TokenVerificationError, type FirebaseKeySource } from "./firebaseAuth";
+
+const PROJECT_ID = "test-project";
+const KID = "test-key";
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const keySource: FirebaseKeySource = {
+  async getPublicKey(kid) {
+    return kid === KID ? publicKey.export({ type: "spki", format: "pem" }).toString() : undefined;
+  }
+};
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+function signToken(claims: Record<string, unknown> = {}, header: Record<string, unknown> = {}): string {
+  const now = Math.floor(Date.now() / 1000);
+  const body = `${encode({ alg: "RS256", kid: KID, ...header })}.${encode({
+    aud: PROJECT_ID,
+    iss: `https://securetoken.google.com/${PROJECT_ID}`,
+    sub: "user-1",
+    iat: now - 10,
+    exp: now + 3600,
+    ...claims
+  })}`;
+  return `${body}.${crypto.sign("RSA-SHA256", Buffer.from(body), privateKey).toString("base64url")}`;
+}
+
+const verify = (token: string, source: FirebaseKeySource = keySource) =>
+  verifyFirebaseIdToken(token, { projectId: PROJECT_ID, keySource: source });
+
+describe("verifyFirebaseIdToken", () => {
+  it("returns the claims of a valid token", async () => {
+    const claims = await verify(signToken({ email: "ada@example.com" }));
+    assert.equal(claims.sub, "user-1");
+    assert.equal(claims.email, "ada@example.com");
+  });
+
+  it("rejects an expired token", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    await assert.rejects(verify(signToken({ iat: now - 7200, exp: now - 3600 })), { name: "TokenVerificationError", message: "Token has expired" });
+  });
+
+  it("rejects a token signed with an unknown key", async () => {
+    await assert.rejects(verify(signToken({}, { kid: "rotated-away" })), { message: "Token signed with an unknown key" });
+  });
+
+  it("rejects a token issued for another project", async () => {
+    await assert.rejects(verify(signToken({ aud: "other-project" })), { message: "Token was issued for a different project" });
+  });
+
+  it("rejects a token whose signature does not match", async () => {
+    const [header, , signature] = signToken().split(".");
+    const forged = `${header}.${encode({ sub: "admin" })}.${signature}`;
+    await assert.rejects(verify(forged), { message: "Invalid token signature" });
+  });
+
+  it("rejects a header or payload that is JSON but not an object", async () => {
+    const [header, payload, signature] = signToken().split(".");
+    for (const value of [null, 1, "text", [1]]) {
+      await assert.rejects(verify(`${encode(value)}.${payload}.${signature}`), TokenVerificationError);
+      await assert.rejects(verify(`${header}.${encode(value)}.${signature}`), TokenVerificationError);
+    }
+  });
+
+  it("rejects a token when the key source returns a malformed certificate", async () => {
+    const broken: FirebaseKeySource = { async getPublicKey() { return "-----BEGIN CERTIFICATE-----\nnot a cert\n-----END CERTIFICATE-----"; } };
+    await assert.rejects(verify(signToken(), broken), { name: "TokenVerificationError", message: "Token signed with an unusable key" });
+  });
+});
+
+describe("attachUser", async () => {
+  // auth.ts reaches the database through storage, which needs a connection string to load
+  process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+  process.env.FIREBASE_PROJECT_ID = PROJECT_ID;
+  const { attachUser } = await import("../auth");
+  setFirebaseKeySource(keySource);
+
+  async function respond(token: string) {
+    let status = 0;
+    let nextCalled = false;
+    const req = { headers: { authorization: `Bearer ${token}` } } as any;
+    const res = { status(code: number) { status = code; return this; }, json() { return this; } } as any;
+    await attachUser(req, res, () => { nextCalled = true; });
+    return { status, nextCalled };
+  }
+
+  it("answers 401 rather than 500 for tokens that fail verification", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const [, payload, signature] = signToken().split(".");
+    for (const token of [
+      signToken({ iat: now - 7200, exp: now - 3600 }),
+      signToken({}, { kid: "rotated-away" }),
+      signToken({ aud: "other-project" }),
+      `${encode(null)}.${payload}.${signature}`,
+      "not-a-token"
+    ]) {
+      assert.deepEqual(await respond(token), { status: 401, nextCalled: false });
+    }
+  });
+});
@@ -0,0 +1,170 @@
+import crypto from "crypto";
+
+// X.509 certificates Firebase signs ID tokens with, keyed by key id
+const GOOGLE_CERTS_URL = "https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com";
+
+// Used when Google's response carries no usable max-age
+const DEFAULT_KEY_CACHE_MS = 60 * 60 * 1000;
+
+// A key id missing from the cache refetches the certificates in case Google rotated them,
+// but no more often than this, so tokens with made-up key ids cannot flood Google with requests
+const MIN_KEY_REFETCH_MS = 60 * 1000;
+
+// Tolerated difference between our clock and Google's when checking token times
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface FirebaseTokenClaims {
+  sub: string;
+  aud: string;
+  iss: string;
+  iat: number;
+  exp: number;
+  auth_time?: number;
+  user_id?: string;
+  email?: string;
+  name?: string;
+  picture?: string;
+  email_verified?: boolean;
+}
+
+/**
+ * Where token signing keys come from. Swapped out in tests so tokens can be signed locally.
+ */
+export interface FirebaseKeySource {
+  // PEM encoded certificate or public key for the key id, or undefined when it is unknown
+  getPublicKey(kid: string): Promise<string | undefined>;
+}
+
+export class TokenVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TokenVerificationError";
+  }
+}
+
+/**
+ * Key source backed by Google's published certificates, cached for as long as the
+ * response's Cache-Control header allows. Concurrent lookups share one request.
+ */
+export function createGoogleKeySource(url: string = GOOGLE_CERTS_URL): FirebaseKeySource {
+  let keys: Record<string, string> = {};
+  let expiresAt = 0;
+  let fetchedAt = 0;
+  let pending: Promise<void> | undefined;
+
+  async function refresh() {
+    fetchedAt = Date.now();
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Firebase public keys: ${response.status}`);
+    }
+
+    const maxAge = /(?:^|[\s,])max-age=(\d+)/.exec(response.headers.get("cache-control") || "");
+    keys = await response.json();
+    expiresAt = Date.now() + (maxAge ? parseInt(maxAge[1]) * 1000 : DEFAULT_KEY_CACHE_MS);
+  }
+
+  return {
+    async getPublicKey(kid) {
+      const now = Date.now();
+      if (now >= expiresAt || (!keys[kid] && now - fetchedAt >= MIN_KEY_REFETCH_MS)) {
+        pending ??= refresh().finally(() => { pending = undefined; });
+        await pending;
+      }
+      return keys[kid];
+    }
+  };
+}
+
+let keySource: FirebaseKeySource = createGoogleKeySource();
+
+/**
+ * Replace the key source used by verifyFirebaseIdToken
+ */
+export function setFirebaseKeySource(source: FirebaseKeySource) {
+  keySource = source;
+}
+
+export function getFirebaseProjectId(): string | undefined {
+  return process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID;
+}
+
+// Header and payload must both be JSON objects; anything else is a malformed token
+function decodeSegment(segment: string): Record<string, any> {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  } catch {
+    throw new TokenVerificationError("Malformed token");
+  }
+  if (typeof decoded !== "object" || decoded === null || Array.isArray(decoded)) {
+    throw new TokenVerificationError("Malformed token");
+  }
+  return decoded as Record<string, any>;
+}
+
+// A certificate that does not parse, or holds a key that cannot check RS256, fails the token
+// rather than the request
+function verifySignature(data: string, publicKey: string, signature: string): boolean {
+  try {
+    return crypto.verify("RSA-SHA256", Buffer.from(data), crypto.createPublicKey(publicKey), Buffer.from(signature, "base64url"));
+  } catch {
+    throw new TokenVerificationError("Token signed with an unusable key");
+  }
+}
+
+/**
+ * Verify a Firebase ID token as described in the Firebase Admin docs: an RS256 signature
+ * from one of Google's current keys, issued for our project, to a non-empty subject, and
+ * not expired. Returns the token claims or throws TokenVerificationError.
+ */
+export async function verifyFirebaseIdToken(
+  idToken: string,
+  options: { projectId?: string; keySource?: FirebaseKeySource } = {}
+): Promise<FirebaseTokenClaims> {
+  const projectId = options.projectId || getFirebaseProjectId();
+  if (!projectId) {
+    throw new Error("Firebase project ID is not configured.");
+  }
+
+  const segments = idToken.split(".");
+  if (segments.length !== 3) {
+    throw new TokenVerificationError("Malformed token");
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeSegment(encodedHeader);
+  const claims = decodeSegment(encodedPayload) as FirebaseTokenClaims;
+
+  if (header.alg !== "RS256" || typeof header.kid !== "string") {
+    throw new TokenVerificationError("Unexpected token algorithm");
+  }
+
+  const publicKey = await (options.keySource || keySource).getPublicKey(header.kid);
+  if (!publicKey) {
+    throw new TokenVerificationError("Token signed with an unknown key");
+  }
+
+  if (!verifySignature(`${encodedHeader}.${encodedPayload}`, publicKey, encodedSignature)) {
+    throw new TokenVerificationError("Invalid token signature");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (claims.aud !== projectId || claims.iss !== `https://securetoken.google.com/${projectId}`) {
+    throw new TokenVerificationError("Token was issued for a different project");
+  }
+  if (typeof claims.sub !== "string" || !claims.sub || claims.sub.length > 128) {
+    throw new TokenVerificationError("Token has no subject");
+  }
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS <= now) {
+    throw new TokenVerificationError("Token has expired");
+  }
+  if (typeof claims.iat !== "number" || claims.iat - CLOCK_SKEW_SECONDS > now) {
+    throw new TokenVerificationError("Token was issued in the future");
+  }
+  if (claims.auth_time !== undefined && claims.auth_time - CLOCK_SKEW_SECONDS > now) {
+    throw new TokenVerificationError("Token was authenticated in the future");
+  }
+
+  return claims;
+}
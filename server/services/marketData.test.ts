@@ -0,0 +1,124 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import {
+  createAlphaVantageAdapter,
+  createCoinGeckoAdapter,
+  getMarketQuote,
+  setMarketDataAdapter,
+  MarketSymbolNotFoundError
+} from "./marketData";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Hourly candles over the last three days, oldest first
+const now = Date.now();
+const coinCandles = Array.from({ length: 72 }, (_, i) => {
+  const time = now - (71 - i) * HOUR_MS;
+  return [time, 100 + i, 101 + i, 99 + i, 100.5 + i];
+});
+
+// Daily bars for 200 consecutive days ending 2026-10-16
+const dailyBars: Record<string, Record<string, string>> = {};
+for (let i = 0; i < 200; i++) {
+  const date = new Date(Date.UTC(2026, 9, 16) - i * DAY_MS).toISOString().slice(0, 10);
+  dailyBars[date] = { "1. open": String(200 - i), "2. high": String(201 - i), "3. low": String(199 - i), "4. close": String(200.5 - i), "5. volume": "1000" };
+}
+
+// One mock server answering both CoinGecko's and Alpha Vantage's endpoints
+const requests: URL[] = [];
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url!, "http://localhost");
+  requests.push(url);
+  const json = (body: unknown) => {
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(body));
+  };
+
+  switch (url.pathname) {
+    case "/coingecko/search":
+      return json({ coins: url.searchParams.get("query") === "btc" || url.searchParams.get("query") === "bitcoin"
+        ? [{ id: "wrapped-bitcoin", symbol: "wbtc", name: "Wrapped Bitcoin" }, { id: "bitcoin", symbol: "btc", name: "Bitcoin" }]
+        : [] });
+    case "/coingecko/simple/price":
+      return json({ bitcoin: { eur: 175.5 } });
+    case "/coingecko/coins/bitcoin/ohlc":
+      return json(coinCandles);
+    case "/alphavantage/query": {
+      const symbol = url.searchParams.get("symbol");
+      if (symbol === "LIMIT") return json({ Note: "API call frequency exceeded" });
+      if (symbol !== "ACME") return json({ "Error Message": "Invalid API call" });
+      return json({ "Meta Data": {}, "Time Series (Daily)": dailyBars });
+    }
+  }
+  res.statusCode = 404;
+  res.end();
+});
+await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+after(() => server.close());
+
+const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+const requestsTo = (pathname: string) => requests.filter(url => url.pathname === pathname).length;
+
+describe("CoinGecko adapter", () => {
+  setMarketDataAdapter("crypto", createCoinGeckoAdapter({ baseUrl: `${base}/coingecko/` }));
+
+  it("resolves a ticker to its coin and reports the price and change over the period", async () => {
+    const quote = await getMarketQuote("crypto", "BTC", "1d", "EUR");
+    assert.equal(quote.symbol, "BTC");
+    assert.equal(quote.name, "Bitcoin");
+    assert.equal(quote.currency, "EUR");
+    assert.equal(quote.price, 175.5);
+    assert.equal(quote.source, "CoinGecko");
+    // Only the last day of the three days of candles is kept
+    assert.ok(quote.series.length >= 24 && quote.series.length <= 25);
+    assert.ok(new Date(quote.series[0].time).getTime() >= now - DAY_MS);
+    assert.equal(quote.change, quote.price - quote.series[0].open);
+
+    const lastRequest = requests.filter(url => url.pathname.endsWith("/ohlc")).at(-1)!;
+    assert.equal(lastRequest.searchParams.get("vs_currency"), "eur");
+    assert.equal(lastRequest.searchParams.get("days"), "1");
+  });
+
+  it("looks a symbol up once and shares concurrent quotes", async () => {
+    const searches = requestsTo("/coingecko/search");
+    const prices = requestsTo("/coingecko/simple/price");
+    await Promise.all([getMarketQuote("crypto", "btc", "5d", "eur"), getMarketQuote("crypto", " BTC ", "5d", "EUR")]);
+    assert.equal(requestsTo("/coingecko/search"), searches);
+    assert.equal(requestsTo("/coingecko/simple/price"), prices + 1);
+  });
+
+  it("throws MarketSymbolNotFoundError for an unknown coin", async () => {
+    await assert.rejects(getMarketQuote("crypto", "nocoin", "1d"), MarketSymbolNotFoundError);
+  });
+});
+
+describe("Alpha Vantage adapter", () => {
+  setMarketDataAdapter("stock", createAlphaVantageAdapter({ baseUrl: `${base}/alphavantage`, apiKey: "test-key" }));
+
+  it("keeps the months of daily bars the period covers", async () => {
+    const quote = await getMarketQuote("stock", "acme", "1mo");
+    assert.equal(quote.symbol, "ACME");
+    assert.equal(quote.price, 200.5);
+    assert.equal(quote.series[0].time, "2026-09-16");
+    assert.equal(quote.series.at(-1)?.time, "2026-10-16");
+
+    const lastRequest = requests.filter(url => url.pathname === "/alphavantage/query").at(-1)!;
+    assert.equal(lastRequest.searchParams.get("function"), "TIME_SERIES_DAILY");
+    assert.equal(lastRequest.searchParams.get("apikey"), "test-key");
+  });
+
+  it("merges long series into at most 120 candles", async () => {
+    const quote = await getMarketQuote("stock", "ACME", "6mo");
+    assert.ok(quote.series.length <= 120);
+    assert.equal(quote.series.at(-1)?.close, 200.5);
+    assert.equal(quote.series[0].volume! % 1000, 0);
+  });
+
+  it("tells unknown symbols from rate limits", async () => {
+    await assert.rejects(getMarketQuote("stock", "NOPE", "1mo"), MarketSymbolNotFoundError);
+    await assert.rejects(getMarketQuote("stock", "LIMIT", "1mo"), { message: "API call frequency exceeded" });
+  });
+});
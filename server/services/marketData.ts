@@ -0,0 +1,340 @@
+import type { AssetClass, MarketPeriod, MarketQuote, OhlcPoint } from "@shared/schema";
+
+const COINGECKO_BASE_URL = "https://api.coingecko.com/api/v3";
+const ALPHA_VANTAGE_BASE_URL = "https://www.alphavantage.co";
+
+// Longer series are merged into this many candles to keep tool results small
+const MAX_SERIES_POINTS = 120;
+
+const MAX_CACHE_ENTRIES = 500;
+
+// How long a quote is served from the cache; short periods move faster, so expire sooner
+const QUOTE_TTL_MS: Record<MarketPeriod, number> = {
+  "1d": 60 * 1000,
+  "5d": 5 * 60 * 1000,
+  "1mo": 60 * 60 * 1000,
+  "3mo": 60 * 60 * 1000,
+  "6mo": 60 * 60 * 1000,
+  "1y": 60 * 60 * 1000
+};
+
+// CoinGecko ids of symbols change rarely, so lookups are kept for a day
+const SYMBOL_TTL_MS = 24 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Price and history of one asset as an adapter reports it
+ */
+export interface MarketSnapshot {
+  symbol: string;
+  name: string;
+  currency: string;
+  price: number;
+  // Oldest candle first
+  series: OhlcPoint[];
+}
+
+/**
+ * A source of market data for one asset class. Adapters take a base URL so a local mock
+ * server can stand in for the real API.
+ */
+export interface MarketDataAdapter {
+  source: string;
+  getSnapshot(symbol: string, period: MarketPeriod, currency: string, signal?: AbortSignal): Promise<MarketSnapshot>;
+}
+
+export class MarketSymbolNotFoundError extends Error {
+  constructor(symbol: string) {
+    super(`No market data found for "${symbol}"`);
+    this.name = "MarketSymbolNotFoundError";
+  }
+}
+
+/**
+ * Map of values that expire after a time to live; the oldest entries are dropped once it is full
+ */
+function createTtlCache<T>(maxEntries: number) {
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+
+  return {
+    get(key: string): T | undefined {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    },
+
+    set(key: string, value: T, ttlMs: number) {
+      entries.delete(key);
+      if (entries.size >= maxEntries) {
+        const now = Date.now();
+        for (const [k, entry] of Array.from(entries)) {
+          if (entry.expiresAt <= now) entries.delete(k);
+        }
+        while (entries.size >= maxEntries) {
+          entries.delete(entries.keys().next().value!);
+        }
+      }
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    },
+
+    delete(key: string) {
+      entries.delete(key);
+    },
+
+    clear() {
+      entries.clear();
+    }
+  };
+}
+
+async function fetchJson(url: URL, init: RequestInit = {}): Promise<any> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`Market data error (${response.status}): ${response.statusText}`);
+  }
+  return response.json();
+}
+
+// Candles from the first one at or after `cutoff`
+function since(series: OhlcPoint[], cutoff: number): OhlcPoint[] {
+  return series.filter(point => new Date(point.time).getTime() >= cutoff);
+}
+
+/**
+ * Adapter for the CoinGecko API. Symbols may be CoinGecko ids ("bitcoin") or tickers ("btc").
+ */
+export function createCoinGeckoAdapter(options: { baseUrl?: string; apiKey?: string } = {}): MarketDataAdapter {
+  const baseUrl = (options.baseUrl || process.env.COINGECKO_BASE_URL || COINGECKO_BASE_URL).replace(/\/$/, "");
+  const apiKey = options.apiKey || process.env.COINGECKO_API_KEY;
+  const headers: Record<string, string> = apiKey ? { "x-cg-demo-api-key": apiKey } : {};
+  const coins = createTtlCache<{ id: string; symbol: string; name: string }>(MAX_CACHE_ENTRIES);
+
+  // Days of OHLC data CoinGecko offers that cover each period; it picks the candle size
+  const ohlcDays: Record<MarketPeriod, number> = { "1d": 1, "5d": 7, "1mo": 30, "3mo": 90, "6mo": 180, "1y": 365 };
+  const periodDays: Record<MarketPeriod, number> = { "1d": 1, "5d": 5, "1mo": 30, "3mo": 90, "6mo": 180, "1y": 365 };
+
+  async function resolveCoin(symbol: string, signal?: AbortSignal) {
+    const query = symbol.trim().toLowerCase();
+    const cached = coins.get(query);
+    if (cached) return cached;
+
+    const url = new URL(`${baseUrl}/search`);
+    url.searchParams.set("query", query);
+    const data = await fetchJson(url, { headers, signal });
+
+    const results: Array<{ id: string; symbol: string; name: string }> = data.coins || [];
+    const coin = results.find(result => result.id === query)
+      || results.find(result => result.symbol.toLowerCase() === query)
+      || results.find(result => result.name.toLowerCase() === query);
+    if (!coin) {
+      throw new MarketSymbolNotFoundError(symbol);
+    }
+
+    coins.set(query, coin, SYMBOL_TTL_MS);
+    return coin;
+  }
+
+  return {
+    source: "CoinGecko",
+
+    async getSnapshot(symbol, period, currency, signal) {
+      const coin = await resolveCoin(symbol, signal);
+      const vsCurrency = currency.toLowerCase();
+
+      const priceUrl = new URL(`${baseUrl}/simple/price`);
+      priceUrl.searchParams.set("ids", coin.id);
+      priceUrl.searchParams.set("vs_currencies", vsCurrency);
+      const ohlcUrl = new URL(`${baseUrl}/coins/${encodeURIComponent(coin.id)}/ohlc`);
+      ohlcUrl.searchParams.set("vs_currency", vsCurrency);
+      ohlcUrl.searchParams.set("days", String(ohlcDays[period]));
+
+      const [prices, candles] = await Promise.all([
+        fetchJson(priceUrl, { headers, signal }),
+        fetchJson(ohlcUrl, { headers, signal })
+      ]);
+
+      const price = prices[coin.id]?.[vsCurrency];
+      if (typeof price !== "number") {
+        throw new Error(`CoinGecko has no ${currency.toUpperCase()} price for ${coin.name}`);
+      }
+
+      const series: OhlcPoint[] = (candles as number[][]).map(([time, open, high, low, close]) => ({
+        time: new Date(time).toISOString(),
+        open,
+        high,
+        low,
+        close
+      }));
+
+      return {
+        symbol: coin.symbol.toUpperCase(),
+        name: coin.name,
+        currency: currency.toUpperCase(),
+        price,
+        series: since(series, Date.now() - periodDays[period] * DAY_MS)
+      };
+    }
+  };
+}
+
+// Alpha Vantage series that cover each period, and how much of them to keep
+const ALPHA_VANTAGE_SERIES: Record<MarketPeriod, { params: Record<string, string>; tradingDays?: number; months?: number }> = {
+  "1d": { params: { function: "TIME_SERIES_INTRADAY", interval: "5min", outputsize: "compact" }, tradingDays: 1 },
+  "5d": { params: { function: "TIME_SERIES_INTRADAY", interval: "30min", outputsize: "full" }, tradingDays: 5 },
+  "1mo": { params: { function: "TIME_SERIES_DAILY", outputsize: "compact" }, months: 1 },
+  "3mo": { params: { function: "TIME_SERIES_DAILY", outputsize: "compact" }, months: 3 },
+  "6mo": { params: { function: "TIME_SERIES_DAILY", outputsize: "full" }, months: 6 },
+  "1y": { params: { function: "TIME_SERIES_WEEKLY" }, months: 12 }
+};
+
+/**
+ * Adapter for the Alpha Vantage stock API. Prices are in the listing's trading currency,
+ * which Alpha Vantage does not report, so they are labelled USD.
+ */
+export function createAlphaVantageAdapter(options: { baseUrl?: string; apiKey?: string } = {}): MarketDataAdapter {
+  const baseUrl = (options.baseUrl || process.env.ALPHA_VANTAGE_BASE_URL || ALPHA_VANTAGE_BASE_URL).replace(/\/$/, "");
+  const apiKey = options.apiKey || process.env.ALPHA_VANTAGE_API_KEY;
+
+  return {
+    source: "Alpha Vantage",
+
+    async getSnapshot(symbol, period, _currency, signal) {
+      if (!apiKey) {
+        throw new Error("Alpha Vantage API key is not configured.");
+      }
+
+      const { params, tradingDays, months } = ALPHA_VANTAGE_SERIES[period];
+      const url = new URL(`${baseUrl}/query`);
+      for (const [name, value] of Object.entries(params)) {
+        url.searchParams.set(name, value);
+      }
+      url.searchParams.set("symbol", symbol.toUpperCase());
+      url.searchParams.set("apikey", apiKey);
+      const data = await fetchJson(url, { signal });
+
+      // Errors and rate limits come back as 200 responses with a message instead of data
+      if (data["Error Message"]) {
+        throw new MarketSymbolNotFoundError(symbol);
+      }
+      const seriesKey = Object.keys(data).find(key => key.includes("Time Series"));
+      if (!seriesKey) {
+        throw new Error(data["Note"] || data["Information"] || "Alpha Vantage returned no data");
+      }
+
+      let series: OhlcPoint[] = Object.entries(data[seriesKey] as Record<string, Record<string, string>>)
+        .map(([time, values]) => ({
+          time: time.replace(" ", "T"),
+          open: parseFloat(values["1. open"]),
+          high: parseFloat(values["2. high"]),
+          low: parseFloat(values["3. low"]),
+          close: parseFloat(values["4. close"]),
+          volume: parseFloat(values["5. volume"])
+        }))
+        .sort((a, b) => a.time.localeCompare(b.time));
+      if (series.length === 0) {
+        throw new MarketSymbolNotFoundError(symbol);
+      }
+
+      if (tradingDays) {
+        const days = Array.from(new Set(series.map(point => point.time.slice(0, 10))));
+        const firstDay = days[Math.max(0, days.length - tradingDays)];
+        series = series.filter(point => point.time.slice(0, 10) >= firstDay);
+      } else if (months) {
+        const cutoff = new Date(series[series.length - 1].time);
+        cutoff.setMonth(cutoff.getMonth() - months);
+        series = since(series, cutoff.getTime());
+      }
+
+      return {
+        symbol: symbol.toUpperCase(),
+        name: symbol.toUpperCase(),
+        currency: "USD",
+        price: series[series.length - 1].close,
+        series
+      };
+    }
+  };
+}
+
+/**
+ * Merge neighbouring candles so the series has at most `maxPoints` of them
+ */
+function downsample(series: OhlcPoint[], maxPoints: number): OhlcPoint[] {
+  if (series.length <= maxPoints) return series;
+
+  const size = Math.ceil(series.length / maxPoints);
+  const merged: OhlcPoint[] = [];
+  for (let i = 0; i < series.length; i += size) {
+    const bucket = series.slice(i, i + size);
+    const hasVolume = bucket.every(point => point.volume !== undefined);
+    merged.push({
+      time: bucket[0].time,
+      open: bucket[0].open,
+      high: Math.max(...bucket.map(point => point.high)),
+      low: Math.min(...bucket.map(point => point.low)),
+      close: bucket[bucket.length - 1].close,
+      ...(hasVolume ? { volume: bucket.reduce((total, point) => total + point.volume!, 0) } : {})
+    });
+  }
+  return merged;
+}
+
+const adapters: Record<AssetClass, MarketDataAdapter> = {
+  crypto: createCoinGeckoAdapter(),
+  stock: createAlphaVantageAdapter()
+};
+
+// Quotes by asset class, symbol, currency and period. Promises are cached so concurrent
+// requests for the same quote share one lookup.
+const quoteCache = createTtlCache<Promise<MarketQuote>>(MAX_CACHE_ENTRIES);
+
+/**
+ * Replace the adapter used for an asset class; clears the cache
+ */
+export function setMarketDataAdapter(assetClass: AssetClass, adapter: MarketDataAdapter) {
+  adapters[assetClass] = adapter;
+  quoteCache.clear();
+}
+
+async function lookUpQuote(assetClass: AssetClass, symbol: string, period: MarketPeriod, currency: string): Promise<MarketQuote> {
+  const adapter = adapters[assetClass];
+  const snapshot = await adapter.getSnapshot(symbol, period, currency);
+
+  const firstOpen = snapshot.series[0]?.open ?? snapshot.price;
+  const change = snapshot.price - firstOpen;
+  return {
+    type: "market_quote",
+    assetClass,
+    symbol: snapshot.symbol,
+    name: snapshot.name,
+    currency: snapshot.currency,
+    price: snapshot.price,
+    change,
+    changePercent: firstOpen ? (change / firstOpen) * 100 : 0,
+    period,
+    series: downsample(snapshot.series, MAX_SERIES_POINTS),
+    source: adapter.source,
+    fetchedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Latest price and OHLC history over `period` for a crypto asset or stock.
+ * Throws MarketSymbolNotFoundError when the source does not know the symbol.
+ */
+export async function getMarketQuote(assetClass: AssetClass, symbol: string, period: MarketPeriod, currency = "usd"): Promise<MarketQuote> {
+  const key = [assetClass, symbol.trim().toLowerCase(), currency.toLowerCase(), period].join("|");
+
+  let quote = quoteCache.get(key);
+  if (!quote) {
+    quote = lookUpQuote(assetClass, symbol.trim(), period, currency);
+    quoteCache.set(key, quote, QUOTE_TTL_MS[period]);
+    quote.catch(() => quoteCache.delete(key));
+  }
+  return quote;
+}
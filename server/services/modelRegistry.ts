@@ -0,0 +1,57 @@
+import type { ChatCompletionRequest, ChatCompletionResponse, ChatStreamEvent, ModelCapabilities, ModelId, ModelInfo } from "@shared/schema";
+import { openAIProviders } from "./openai";
+import { deepSeekProvider } from "./openrouter";
+import { maverickProvider } from "./openrouter-maverick";
+import type { UsageMeter } from "./quota";
+
+export type ChatStreamHandler = (event: ChatStreamEvent) => void;
+
+export interface GenerateOptions {
+  // Receives token and tool events; only used by providers with the streaming capability
+  onEvent?: ChatStreamHandler;
+  signal?: AbortSignal;
+  // Signed-in user the request is made for, if any
+  userId?: number;
+  // Client id of the chat the request belongs to, if any
+  sessionId?: string;
+  // Daily quotas of the caller, consumed by tools such as image generation
+  usage?: UsageMeter;
+}
+
+/**
+ * A chat model that can answer /api/chat requests
+ */
+export interface ModelProvider {
+  id: ModelId;
+  label: string;
+  description: string;
+  capabilities: ModelCapabilities;
+  generate(request: ChatCompletionRequest, options?: GenerateOptions): Promise<ChatCompletionResponse>;
+}
+
+const providers = new Map<ModelId, ModelProvider>();
+
+/**
+ * Add a provider to the registry, replacing any provider already registered under the same id
+ */
+export function registerModelProvider(provider: ModelProvider) {
+  providers.set(provider.id, provider);
+}
+
+export function getModelProvider(id: string): ModelProvider | undefined {
+  return providers.get(id as ModelId);
+}
+
+/**
+ * Public description of every registered model, used to drive the client model picker
+ */
+export function listModels(): ModelInfo[] {
+  return Array.from(providers.values()).map(({ id, label, description, capabilities }) => ({
+    id,
+    label,
+    description,
+    capabilities
+  }));
+}
+
+[...openAIProviders, deepSeekProvider, maverickProvider].forEach(registerModelProvider);
@@ -1,106 +1,13 @@
 import OpenAI from "openai";
-import { ChatCompletionRequest, ChatCompletionResponse, insertImageSchema, insertPdfSchema } from "@shared/schema";
+import { AgentStep, AgentToolCall, ChatCompletionRequest, ChatCompletionResponse, ModelId, TokenUsage } from "@shared/schema";
 import { log } from "../vite";
-import { searchOpenAIEnhanced } from "./search";
-import { searchSerper } from "./serper";
-import { db } from "../db";
-import { images, pdfs } from "@shared/schema";
-import { nanoid } from "nanoid";
-import PDFDocument from "pdfkit";
+import type { ChatStreamHandler, GenerateOptions, ModelProvider } from "./modelRegistry";
+import { executeTool, getToolSchemas } from "./toolRegistry";
+// Registers the built-in tools with the tool registry
+import "./toolExecutor";
 
 // Use the latest OpenAI model with vision support
-const MODEL = "gpt-5";
-
-/**
- * Generate and store a PDF document in the database
- */
-async function generateAndStorePdf(title: string, content: string): Promise<{ id: number }> {
-  try {
-    // Create a new PDF document
-    const doc = new PDFDocument();
-    const chunks: Buffer[] = [];
-    
-    // Collect the PDF data
-    doc.on('data', (chunk) => chunks.push(chunk));
-    
-    // Wait for the PDF to finish
-    const pdfPromise = new Promise<Buffer>((resolve) => {
-      doc.on('end', () => resolve(Buffer.concat(chunks)));
-    });
-    
-    // Add content to PDF
-    doc.fontSize(16).text(title, { align: 'center' });
-    doc.moveDown(2);
-    doc.fontSize(12).text(content, { width: 410, align: 'left' });
-    
-    // Finalize the PDF
-    doc.end();
-    
-    // Wait for PDF generation to complete
-    const pdfBuffer = await pdfPromise;
-    
-    // Convert to base64
-    const base64Data = pdfBuffer.toString('base64');
-    
-    // Generate a unique filename
-    const filename = `generated-${nanoid()}.pdf`;
-    
-    // Store in database
-    const [storedPdf] = await db.insert(pdfs).values({
-      title: title,
-      filename: filename,
-      content: content,
-      pdfData: base64Data
-    }).returning({ id: pdfs.id });
-    
-    log(`PDF stored successfully with ID: ${storedPdf.id}`);
-    return storedPdf;
-    
-  } catch (error: any) {
-    log(`Failed to generate and store PDF: ${error.message}`, "error");
-    throw error;
-  }
-}
-
-/**
- * Download an image from a URL and store it in the database
- */
-async function downloadAndStoreImage(imageUrl: string, prompt?: string): Promise<{ id: number }> {
-  try {
-    // Download the image
-    const response = await fetch(imageUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to download image: ${response.statusText}`);
-    }
-    
-    const arrayBuffer = await response.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-    
-    // Convert to base64
-    const base64Data = buffer.toString('base64');
-    const mimeType = response.headers.get('content-type') || 'image/png';
-    
-    // Generate a unique filename
-    const extension = mimeType.split('/')[1] || 'png';
-    const filename = `generated-${nanoid()}.${extension}`;
-    
-    // Store in database
-    const [storedImage] = await db.insert(images).values({
-      originalUrl: imageUrl,
-      filename: filename,
-      mimeType: mimeType,
-      imageData: base64Data,
-      prompt: prompt || null
-    }).returning({ id: images.id });
-    
-    log(`Image stored successfully with ID: ${storedImage.id}`);
-    return storedImage;
-    
-  } catch (error: any) {
-    log(`Failed to download and store image: ${error.message}`, "error");
-    throw error;
-  }
-}
+const MODEL: ModelId = "gpt-5";
 
 // Initialize OpenAI client for GPT-4o
 const openai = new OpenAI({
@@ -112,95 +19,85 @@ const openaiMini = new OpenAI({
   apiKey: process.env.OPENAI_MINI_API_KEY || process.env.OPENAI_API_KEY || '',
 });
 
-// Define available tools for the AI
-const availableTools = [
-  {
-    type: "function" as const,
-    function: {
-      name: "web_search",
-      description: "Search the web for current, real-time information. Use this when you need up-to-date information, news, current events, or anything that might have changed recently.",
-      parameters: {
-        type: "object",
-        properties: {
-          query: {
-            type: "string",
-            description: "The search query to find relevant information"
-          }
-        },
-        required: ["query"]
-      }
-    }
-  },
-  {
-    type: "function" as const,
-    function: {
-      name: "file_search",
-      description: "Search through uploaded files and documents to find specific information. Use this to analyze documents, find specific content within files, or answer questions about uploaded materials.",
-      parameters: {
-        type: "object",
-        properties: {
-          query: {
-            type: "string",
-            description: "What to search for in the files"
-          },
-          file_type: {
-            type: "string",
-            description: "Optional: specific file type to search (pdf, txt, doc, etc.)"
-          }
-        },
-        required: ["query"]
-      }
-    }
-  },
-  {
-    type: "function" as const,
-    function: {
-      name: "generate_image",
-      description: "Generate images based on text descriptions. Use this when the user asks for visual content, artwork, diagrams, or any kind of image creation.",
-      parameters: {
-        type: "object",
-        properties: {
-          prompt: {
-            type: "string",
-            description: "Detailed description of the image to generate"
-          },
-          size: {
-            type: "string",
-            enum: ["1024x1024", "1792x1024", "1024x1792"],
-            description: "Image dimensions"
-          },
-          quality: {
-            type: "string",
-            enum: ["standard", "hd"],
-            description: "Image quality level"
-          }
-        },
-        required: ["prompt"]
-      }
+// Agent loop budget: rounds of tool calls and total tokens before the model must answer
+const AGENT_MAX_STEPS = Number(process.env.AGENT_MAX_STEPS) || 6;
+const AGENT_MAX_TOKENS = Number(process.env.AGENT_MAX_TOKENS) || 200_000;
+
+interface OpenAIGenerateOptions extends GenerateOptions {
+  // Registry ids of the OpenAI models double as the upstream model names
+  model?: ModelId;
+  maxSteps?: number;
+  maxTokens?: number;
+}
+
+function toTokenUsage(usage: OpenAI.CompletionUsage | null | undefined): TokenUsage {
+  return {
+    promptTokens: usage?.prompt_tokens || 0,
+    completionTokens: usage?.completion_tokens || 0
+  };
+}
+
+/**
+ * Run a chat completion. When onEvent is provided the completion is streamed and each
+ * text delta is forwarded as a token event; the assembled message has the same shape
+ * as a non-streaming response so callers can treat both modes alike.
+ */
+async function createChatCompletion(
+  client: OpenAI,
+  params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+  onEvent?: ChatStreamHandler,
+  signal?: AbortSignal
+): Promise<{ message: OpenAI.Chat.ChatCompletionMessage; tokens: TokenUsage }> {
+  if (!onEvent) {
+    const response = await client.chat.completions.create(params, { signal });
+    return { message: response.choices[0].message, tokens: toTokenUsage(response.usage) };
+  }
+
+  const stream = await client.chat.completions.create({
+    ...params,
+    stream: true,
+    stream_options: { include_usage: true }
+  }, { signal });
+
+  let content = "";
+  let tokens = toTokenUsage(undefined);
+  const toolCalls: OpenAI.Chat.ChatCompletionMessageFunctionToolCall[] = [];
+
+  for await (const chunk of stream) {
+    // Usage arrives on a final chunk that has no choices
+    if (chunk.usage) tokens = toTokenUsage(chunk.usage);
+
+    const delta = chunk.choices[0]?.delta;
+    if (!delta) continue;
+
+    if (delta.content) {
+      content += delta.content;
+      onEvent({ type: "token", delta: delta.content });
     }
-  },
-  {
-    type: "function" as const,
-    function: {
-      name: "generate_pdf",
-      description: "Generate PDF documents from text content. Use this when the user asks for documents, reports, formatted text, PDFs, or wants to download content as PDF. IMPORTANT: If you have search results or gathered information that user told to be formatted into a PDF document and then give, use this tool immediately after gathering the information.",
-      parameters: {
-        type: "object",
-        properties: {
-          title: {
-            type: "string",
-            description: "Title of the PDF document"
-          },
-          content: {
-            type: "string",
-            description: "Main text content to include in the PDF"
-          }
-        },
-        required: ["title", "content"]
-      }
+
+    // Tool call names and arguments arrive in fragments keyed by index
+    for (const toolDelta of delta.tool_calls || []) {
+      const toolCall = toolCalls[toolDelta.index] ||= {
+        id: "",
+        type: "function",
+        function: { name: "", arguments: "" }
+      };
+      if (toolDelta.id) toolCall.id = toolDelta.id;
+      if (toolDelta.function?.name) toolCall.function.name += toolDelta.function.name;
+      if (toolDelta.function?.arguments) toolCall.function.arguments += toolDelta.function.arguments;
     }
   }
-];
+
+  return {
+    message: {
+      role: "assistant",
+      content: content || null,
+      refusal: null,
+      tool_calls: toolCalls.length > 0 ? toolCalls : undefined
+    },
+    tokens
+  };
+}
 
 /**
  * Build the OpenAI message content as multimodal (text + image) if image is provided.
@@ -232,105 +129,101 @@ function isLocalImageUrl(url: string): boolean {
 }
 
 /**
- * Execute a tool call based on the function name and arguments
+ * Execute every tool call requested by the model and build the matching tool messages,
+ * along with a trace entry per call
  */
-async function executeToolCall(functionName: string, args: any): Promise<string> {
-  try {
-    switch (functionName) {
-      case "web_search":
-        log(`Executing web search: ${args.query}`);
-        const searchResults = await searchSerper(args.query);
-        const formattedResults = {
-          search_results: searchResults.organic?.slice(0, 5).map((result: any) => ({
-            title: result.title,
-            snippet: result.snippet,
-            url: result.link
-          })) || [],
-          query: args.query,
-          summary: searchResults.organic?.slice(0, 5).map((result: any) => 
-            `${result.title}: ${result.snippet}`
-          ).join('\n\n') || ""
-        };
-        return JSON.stringify(formattedResults);
-      
-      case "file_search":
-        log(`Executing file search: ${args.query}`);
-        // For now, return a placeholder - you would implement actual file search here
-        return JSON.stringify({
-          message: "File search functionality is available but no files are currently uploaded. Please upload documents to search through them.",
-          query: args.query
-        });
-      
-      case "generate_image":
-        log(`Executing image generation: ${args.prompt}`);
-        try {
-          const imageResponse = await openai.images.generate({
-            model: "dall-e-2",
-            prompt: args.prompt,
-            size: args.size || "1024x1024",
-            n: 1
-          });
-          
-          const originalUrl = imageResponse.data?.[0]?.url || "";
-          
-          if (!originalUrl) {
-            throw new Error("No image URL returned from DALL-E");
-          }
-          
-          // Download and store the image in database
-          log(`Downloading image from: ${originalUrl}`);
-          const imageStorageResult = await downloadAndStoreImage(originalUrl, args.prompt);
-          
-          // Return with special format that includes stored image ID
-          return JSON.stringify({
-            type: "image_generation_result",
-            image_id: imageStorageResult.id,
-            image_url: `/api/images/${imageStorageResult.id}`, // Local endpoint
-            original_url: originalUrl,
-            prompt: args.prompt,
-            message: `Here is the image I generated for you: "${args.prompt}"`,
-            display_image: true
-          });
-        } catch (imageError: any) {
-          log(`Image generation error: ${imageError.message}`, "error");
-          return JSON.stringify({
-            error: "Failed to generate image",
-            message: imageError.message || "Image generation is temporarily unavailable"
-          });
-        }
-      
-      case "generate_pdf":
-        log(`Executing PDF generation: ${args.title}`);
-        try {
-          const pdfStorageResult = await generateAndStorePdf(args.title, args.content);
-          
-          // Return with special format that includes stored PDF ID
-          return JSON.stringify({
-            type: "pdf_generation_result",
-            pdf_id: pdfStorageResult.id,
-            pdf_url: `/api/pdfs/${pdfStorageResult.id}`,
-            title: args.title,
-            message: `I've generated a PDF document titled "${args.title}" for you. You can view and download it using the link below.`,
-            display_pdf: true
-          });
-        } catch (pdfError: any) {
-          log(`PDF generation error: ${pdfError.message}`, "error");
-          return JSON.stringify({
-            error: "Failed to generate PDF",
-            message: pdfError.message || "PDF generation is temporarily unavailable"
-          });
-        }
-      
-      default:
-        return JSON.stringify({ error: `Unknown function: ${functionName}` });
+async function runToolCalls(
+  toolCalls: OpenAI.Chat.ChatCompletionMessageToolCall[],
+  { onEvent, signal, userId, sessionId, usage }: GenerateOptions
+) {
+  const toolMessages = [];
+  const calls: AgentToolCall[] = [];
+
+  for (const toolCall of toolCalls) {
+    const functionName = toolCall.type === "function" ? toolCall.function.name : "";
+    const rawArgs = toolCall.type === "function" ? toolCall.function.arguments || '{}' : '{}';
+
+    onEvent?.({ type: "tool_call_start", id: toolCall.id, name: functionName, arguments: rawArgs });
+
+    // Arguments are validated against the tool's schema before its handler runs
+    const startedAt = Date.now();
+    const toolResult = await executeTool(functionName, rawArgs, { signal, userId, sessionId, usage });
+
+    let success = true;
+    try {
+      success = !JSON.parse(toolResult).error;
+    } catch {
+      // Non-JSON results are plain successful output
     }
-  } catch (error: any) {
-    log(`Tool execution error for ${functionName}: ${error.message}`, "error");
-    return JSON.stringify({ 
-      error: `Failed to execute ${functionName}`, 
-      message: error.message 
+    onEvent?.({ type: "tool_call_finish", id: toolCall.id, name: functionName, success });
+
+    calls.push({
+      id: toolCall.id,
+      name: functionName,
+      arguments: rawArgs,
+      success,
+      durationMs: Date.now() - startedAt
+    });
+    toolMessages.push({
+      role: "tool" as const,
+      content: toolResult,
+      tool_call_id: toolCall.id
     });
   }
+
+  return { toolMessages, calls };
+}
+
+/**
+ * Turn an image or PDF generation tool result into the multimodal content shown to the user.
+ * Returns null when none of the tool results produced such an artifact.
+ */
+function findArtifactContent(toolMessages: Array<{ content: string }>): Array<Record<string, any>> | null {
+  for (const msg of toolMessages) {
+    let result: any;
+    try {
+      result = JSON.parse(msg.content);
+    } catch {
+      continue;
+    }
+
+    if (result.type === "image_generation_result" && result.display_image) {
+      return [
+        { type: "text", text: result.message },
+        { type: "image_url", image_url: { url: result.image_url } }
+      ];
+    }
+
+    if (result.type === "pdf_generation_result" && result.display_pdf) {
+      return [
+        { type: "text", text: result.message },
+        { type: "pdf_link", pdf_url: result.pdf_url, title: result.title }
+      ];
+    }
+  }
+
+  return null;
+}
+
+// Tool results the client renders as cards below the answer, such as weather reports and charts
+const CARD_RESULT_TYPES = new Set(["weather_report", "market_quote", "chart_result", "analysis_result", "query_result", "file_search_result", "web_search_result"]);
+
+/**
+ * Collect the tool results that are shown to the user as cards alongside the model's answer
+ */
+function findCardContent(toolMessages: Array<{ content: string }>): Array<Record<string, any>> {
+  const cards: Array<Record<string, any>> = [];
+  for (const msg of toolMessages) {
+    try {
+      const result = JSON.parse(msg.content);
+      if (CARD_RESULT_TYPES.has(result?.type)) {
+        cards.push(result);
+      }
+    } catch {
+      // Non-JSON results are never cards
+    }
+  }
+  return cards;
 }
 
 /**
@@ -338,33 +231,38 @@ async function executeToolCall(functionName: string, args: any): Promise<string>
  * If present, it will build the multimodal message accordingly.
  */
 /**
- * Generate response using GPT-4o-mini specifically for search result refinement
+ * Generate a response from one of the small OpenAI models without tools (used for search result refinement)
  */
 export async function generateOpenAIMiniResponse(
-  request: ChatCompletionRequest
+  request: ChatCompletionRequest,
+  options: OpenAIGenerateOptions = {}
 ): Promise<ChatCompletionResponse> {
+  const { onEvent, signal } = options;
+  const model: ModelId = options.model || "gpt-5-mini";
+
   try {
     if (!process.env.OPENAI_MINI_API_KEY && !process.env.OPENAI_API_KEY) {
       throw new Error("OpenAI Mini API key is not configured.");
     }
 
-    log(`Sending request to gpt-5-mini for search refinement`);
+    log(`Sending request to ${model} without tools`);
 
-    const response = await openaiMini.chat.completions.create({
-      model: "gpt-5-mini",
+    const { message: responseMessage, tokens } = await createChatCompletion(openaiMini, {
+      model,
       messages: request.messages as any,
-    });
+    }, onEvent, signal);
 
-    if (!response.choices[0].message.content) {
+    if (!responseMessage.content) {
       throw new Error("OpenAI returned an empty response");
     }
 
     return {
       message: {
         role: "assistant",
-        content: response.choices[0].message.content,
+        content: responseMessage.content,
       },
-      model: "gpt-5-mini",
+      model,
+      tokens,
     };
   } catch (error: any) {
     log(`OpenAI Mini API error: ${error.message}`, "error");
@@ -389,14 +287,18 @@ export async function generateOpenAIMiniResponse(
 }
 
 export async function generateOpenAIResponse(
-  request: ChatCompletionRequest
+  request: ChatCompletionRequest,
+  options: OpenAIGenerateOptions = {}
 ): Promise<ChatCompletionResponse> {
+  const { onEvent, signal } = options;
+  const model = options.model || MODEL;
+
   try {
     if (!process.env.OPENAI_API_KEY) {
       throw new Error("OpenAI API key is not configured.");
     }
 
-    log(`Sending request to ${MODEL} with tools enabled`);
+    log(`Sending request to ${model} with tools enabled`);
 
     // Look for a user message with imageBase64 field or multimodal content.
     // If found, convert .content into the multimodal array.
@@ -490,257 +392,84 @@ export async function generateOpenAIResponse(
       content: `Current date: ${currentDateText} (${currentDate}). When users ask for "today's news", "current news", or "latest news", always use this current date in your searches and responses.`
     };
 
-    // Add system message with current date
-    const messagesWithDate = [systemMessage, ...messages as any];
-
-    // Initial AI response with tools
-    let response = await openai.chat.completions.create({
-      model: MODEL,
-      messages: messagesWithDate,
-      tools: availableTools,
-      tool_choice: "auto", // Let AI decide when to use tools
-    });
-
-    const responseMessage = response.choices[0].message;
-    
-    // Handle tool calls if present
-    if (responseMessage.tool_calls && responseMessage.tool_calls.length > 0) {
-      log(`AI requested ${responseMessage.tool_calls.length} tool call(s)`);
-      
-      // Execute all tool calls
-      const toolMessages = [];
-      
-      for (const toolCall of responseMessage.tool_calls) {
-        const functionName = (toolCall as any).function?.name || toolCall.name;
-        const functionArgs = JSON.parse((toolCall as any).function?.arguments || toolCall.arguments || '{}');
-        
-        const toolResult = await executeToolCall(functionName, functionArgs);
-        
-        toolMessages.push({
-          role: "tool" as const,
-          content: toolResult,
-          tool_call_id: toolCall.id
-        });
-      }
-      
-      // Add assistant message with tool calls and tool responses to conversation
-      const updatedMessages: any[] = [
-        ...messages,
-        {
-          role: "assistant",
-          content: responseMessage.content,
-          tool_calls: responseMessage.tool_calls
-        },
-        ...toolMessages
-      ];
-      
-      // Check if any tool result contains image generation
-      const imageGenerationResult = toolMessages.find(msg => {
-        try {
-          const result = JSON.parse(msg.content);
-          return result.type === "image_generation_result" && result.display_image;
-        } catch {
-          return false;
+    const maxSteps = options.maxSteps ?? AGENT_MAX_STEPS;
+    const maxTokens = options.maxTokens ?? AGENT_MAX_TOKENS;
+
+    // Conversation the agent works on; grows with each round of tool calls and results
+    const conversation: any[] = [systemMessage, ...messages];
+    const trace: AgentStep[] = [];
+    const totalTokens: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+    const cards: Array<Record<string, any>> = [];
+    let tokensUsed = 0;
+
+    // Keep running tool calls until the model answers; once the step or token budget is
+    // spent, tools are withheld so the model has to answer with what it has gathered
+    for (let step = 1; ; step++) {
+      const budgetSpent = step > maxSteps || tokensUsed >= maxTokens;
+
+      const { message: responseMessage, tokens } = await createChatCompletion(openai, {
+        model,
+        messages: conversation,
+        ...(budgetSpent ? {} : { tools: getToolSchemas(), tool_choice: "auto" as const })
+      }, onEvent, signal);
+      const stepTokens = tokens.promptTokens + tokens.completionTokens;
+      tokensUsed += stepTokens;
+      totalTokens.promptTokens += tokens.promptTokens;
+      totalTokens.completionTokens += tokens.completionTokens;
+
+      if (!responseMessage.tool_calls || responseMessage.tool_calls.length === 0) {
+        trace.push({ step, toolCalls: [], tokens: stepTokens });
+
+        if (!responseMessage.content && step === 1) {
+          throw new Error("OpenAI returned an empty response");
         }
-      });
-
-      // Check if any tool result contains PDF generation
-      const pdfGenerationResult = toolMessages.find(msg => {
-        try {
-          const result = JSON.parse(msg.content);
-          return result.type === "pdf_generation_result" && result.display_pdf;
-        } catch {
-          return false;
-        }
-      });
 
-      if (imageGenerationResult) {
-        // Handle image generation specially
-        const result = JSON.parse(imageGenerationResult.content);
-        
-        // Return multimodal content with image and text
+        const text = responseMessage.content || "I used some tools to help answer your question.";
         return {
           message: {
             role: "assistant",
-            content: [
-              {
-                type: "text",
-                text: result.message
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: result.image_url
-                }
-              }
-            ] as any
+            content: cards.length > 0 ? [{ type: "text", text }, ...cards] as any : text,
           },
-          model: MODEL,
+          model,
+          trace,
+          tokens: totalTokens,
         };
       }
 
-      if (pdfGenerationResult) {
-        // Handle PDF generation specially
-        const result = JSON.parse(pdfGenerationResult.content);
-        
-        // Return multimodal content with PDF link and text
-        return {
-          message: {
-            role: "assistant",
-            content: [
-              {
-                type: "text",
-                text: result.message
-              },
-              {
-                type: "pdf_link",
-                pdf_url: result.pdf_url,
-                title: result.title
-              }
-            ] as any
-          },
-          model: MODEL,
-        };
-      }
-
-      // Get final response after tool execution - allow for additional tool calls
-      const finalResponse = await openai.chat.completions.create({
-        model: MODEL,
-        messages: [systemMessage, ...updatedMessages],
-        tools: availableTools,
-        tool_choice: "auto"
-      });
-      
-      const finalMessage = finalResponse.choices[0].message;
-      
-      // Check if AI wants to make more tool calls (e.g., PDF generation after web search)
-      if (finalMessage.tool_calls && finalMessage.tool_calls.length > 0) {
-        log(`AI requested ${finalMessage.tool_calls.length} additional tool call(s)`);
-        
-        // Execute additional tool calls
-        const additionalToolMessages = [];
-        
-        for (const toolCall of finalMessage.tool_calls) {
-          const functionName = (toolCall as any).function?.name || toolCall.name;
-          const functionArgs = JSON.parse((toolCall as any).function?.arguments || toolCall.arguments || '{}');
-          
-          const toolResult = await executeToolCall(functionName, functionArgs);
-          
-          additionalToolMessages.push({
-            role: "tool" as const,
-            content: toolResult,
-            tool_call_id: toolCall.id
-          });
-        }
-        
-        // Check for special tool results in the second round
-        const secondRoundImageResult = additionalToolMessages.find(msg => {
-          try {
-            const result = JSON.parse(msg.content);
-            return result.type === "image_generation_result" && result.display_image;
-          } catch {
-            return false;
-          }
-        });
-
-        const secondRoundPdfResult = additionalToolMessages.find(msg => {
-          try {
-            const result = JSON.parse(msg.content);
-            return result.type === "pdf_generation_result" && result.display_pdf;
-          } catch {
-            return false;
-          }
-        });
-
-        if (secondRoundImageResult) {
-          const result = JSON.parse(secondRoundImageResult.content);
-          return {
-            message: {
-              role: "assistant",
-              content: [
-                {
-                  type: "text",
-                  text: result.message
-                },
-                {
-                  type: "image_url",
-                  image_url: {
-                    url: result.image_url
-                  }
-                }
-              ] as any
-            },
-            model: MODEL,
-          };
-        }
-
-        if (secondRoundPdfResult) {
-          const result = JSON.parse(secondRoundPdfResult.content);
-          return {
-            message: {
-              role: "assistant",
-              content: [
-                {
-                  type: "text",
-                  text: result.message
-                },
-                {
-                  type: "pdf_link",
-                  pdf_url: result.pdf_url,
-                  title: result.title
-                }
-              ] as any
-            },
-            model: MODEL,
-          };
-        }
+      log(`Agent step ${step}: AI requested ${responseMessage.tool_calls.length} tool call(s)`);
 
-        // If no special results, get final response after second round
-        const secondFinalMessages = [
-          ...updatedMessages,
-          {
-            role: "assistant",
-            content: finalMessage.content,
-            tool_calls: finalMessage.tool_calls
-          },
-          ...additionalToolMessages
-        ];
-
-        const secondFinalResponse = await openai.chat.completions.create({
-          model: MODEL,
-          messages: [systemMessage, ...secondFinalMessages],
-        });
+      const { toolMessages, calls } = await runToolCalls(responseMessage.tool_calls, options);
+      trace.push({ step, toolCalls: calls, tokens: stepTokens });
+      cards.push(...findCardContent(toolMessages));
 
+      // Generated images and PDFs are the deliverable, so they end the loop directly, keeping
+      // the cards of this and earlier steps
+      const artifactContent = findArtifactContent(toolMessages);
+      if (artifactContent) {
         return {
           message: {
             role: "assistant",
-            content: secondFinalResponse.choices[0].message.content || "I've completed your request using multiple tools.",
+            content: [...artifactContent, ...cards] as any
           },
-          model: MODEL,
+          model,
+          trace,
+          tokens: totalTokens,
         };
       }
-      
-      return {
-        message: {
+
+      conversation.push(
+        {
           role: "assistant",
-          content: finalMessage.content || "I used some tools to help answer your question.",
+          content: responseMessage.content,
+          tool_calls: responseMessage.tool_calls
         },
-        model: MODEL,
-      };
-    }
+        ...toolMessages
+      );
 
-    // No tool calls, return regular response
-    if (!responseMessage.content) {
-      throw new Error("OpenAI returned an empty response");
+      if (step >= maxSteps || tokensUsed >= maxTokens) {
+        log(`Agent budget reached after ${step} step(s) and ${tokensUsed} tokens`);
+      }
     }
-
-    return {
-      message: {
-        role: "assistant",
-        content: responseMessage.content,
-      },
-      model: MODEL,
-    };
   } catch (error: any) {
     log(`OpenAI API error: ${error.message}`, "error");
 
@@ -761,4 +490,46 @@ export async function generateOpenAIResponse(
     // For any other error
     throw new Error(`Error generating response: ${error.message}`);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * OpenAI models exposed through the model registry. The larger models run with tools;
+ * the small ones answer directly, which keeps them fast for refinement-style requests.
+ */
+export const openAIProviders: ModelProvider[] = [
+  {
+    id: "gpt-5",
+    label: "GPT-5",
+    description: "Most capable model with tools, image input and reasoning",
+    capabilities: { vision: true, tools: true, streaming: true, reasoning: true },
+    generate: (request, options) => generateOpenAIResponse(request, { ...options, model: "gpt-5" })
+  },
+  {
+    id: "gpt-5-mini",
+    label: "GPT-5 mini",
+    description: "Faster reasoning model without tools",
+    capabilities: { vision: true, tools: false, streaming: true, reasoning: true },
+    generate: (request, options) => generateOpenAIMiniResponse(request, { ...options, model: "gpt-5-mini" })
+  },
+  {
+    id: "gpt-5-nano",
+    label: "GPT-5 nano",
+    description: "Fastest and cheapest reasoning model without tools",
+    capabilities: { vision: true, tools: false, streaming: true, reasoning: true },
+    generate: (request, options) => generateOpenAIMiniResponse(request, { ...options, model: "gpt-5-nano" })
+  },
+  {
+    id: "gpt-4o",
+    label: "GPT-4o",
+    description: "Previous generation model with tools and image input",
+    capabilities: { vision: true, tools: true, streaming: true, reasoning: false },
+    generate: (request, options) => generateOpenAIResponse(request, { ...options, model: "gpt-4o" })
+  },
+  {
+    id: "gpt-4o-mini",
+    label: "GPT-4o mini",
+    description: "Previous generation small model without tools",
+    capabilities: { vision: true, tools: false, streaming: true, reasoning: false },
+    generate: (request, options) => generateOpenAIMiniResponse(request, { ...options, model: "gpt-4o-mini" })
+  }
+];
@@ -1,7 +1,10 @@
 import { Request, Response } from 'express';
 import fetch from 'node-fetch';
-import { ChatCompletionRequest } from '@shared/schema';
+import { ChatCompletionRequest, ChatCompletionResponse, images } from '@shared/schema';
 import FormData from 'form-data';
+import type { ModelProvider } from './modelRegistry';
+import { putBlob } from './blobStore';
+import { db } from '../db';
 
 const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
 const MODEL = 'meta-llama/llama-4-maverick:free';
@@ -44,7 +47,7 @@ const processMessageContent = async (message: any) => {
 
 export async function generateMaverickResponse(
   request: ChatCompletionRequest
-) {
+): Promise<ChatCompletionResponse> {
   if (!OPENROUTER_API_KEY) {
     throw new Error('OpenRouter API key is not configured.');
   }
@@ -81,20 +84,26 @@ export async function generateMaverickResponse(
     });
 
     if (!response.ok) {
-      const errorData = await response.json();
+      const errorData: any = await response.json();
       console.error('[express] OpenRouter Maverick API error:', errorData);
       throw new Error(
         `Error from OpenRouter API: ${errorData.error?.message || 'Unknown error'}`
       );
     }
 
-    const data = await response.json();
+    const data: any = await response.json();
     console.log('[express] Model Llama-4-Maverick response:', data.choices[0].message.content.substring(0, 50) + '...');
     
     return {
-      role: 'assistant',
-      content: data.choices[0].message.content,
+      message: {
+        role: 'assistant',
+        content: data.choices[0].message.content,
+      },
       model: 'llama-4-maverick',
+      tokens: {
+        promptTokens: data.usage?.prompt_tokens || 0,
+        completionTokens: data.usage?.completion_tokens || 0,
+      },
     };
   } catch (error) {
     console.error('[express] Error with OpenRouter Maverick:', error);
@@ -102,23 +111,42 @@ export async function generateMaverickResponse(
   }
 }
 
-// Handler for image uploads
+export const maverickProvider: ModelProvider = {
+  id: 'llama-4-maverick',
+  label: 'Llama 4 Maverick',
+  description: 'Open multimodal model served through OpenRouter',
+  capabilities: { vision: true, tools: false, streaming: false, reasoning: false },
+  generate: (request) => generateMaverickResponse(request)
+};
+
+// Handler for image uploads. The image is kept in the blob store and returned as an
+// /api/images URL, so chat requests refer to it instead of carrying its bytes.
 export async function handleImageUpload(req: Request, res: Response) {
   try {
     // Check if file is uploaded via multer
-    const file = (req as any).file;
+    const file = req.file;
     
     if (!file) {
       return res.status(400).json({ error: 'No image data provided' });
     }
+    if (!file.mimetype.startsWith('image/')) {
+      return res.status(400).json({ error: 'Only image files can be uploaded' });
+    }
     
-    // Convert buffer to base64
-    const base64Data = file.buffer.toString('base64');
+    const blob = await putBlob(file.buffer);
+    const [stored] = await db.insert(images).values({
+      originalUrl: `upload:${file.originalname}`,
+      filename: file.originalname,
+      mimeType: file.mimetype,
+      blobHash: blob.hash,
+      sizeBytes: blob.size,
+      userId: req.user?.id ?? null
+    }).returning({ id: images.id });
     
-    // Return success with the base64 image data
     return res.status(200).json({ 
       success: true, 
-      url: base64Data // Return base64 data that can be used directly
+      id: stored.id,
+      url: `/api/images/${stored.id}`
     });
   } catch (error) {
     console.error('[express] Error handling image upload:', error);
@@ -127,4 +155,4 @@ export async function handleImageUpload(req: Request, res: Response) {
       details: error instanceof Error ? error.message : 'Unknown error' 
     });
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,6 @@
 import { ChatCompletionRequest, ChatCompletionResponse } from "@shared/schema";
 import { log } from "../vite";
+import type { ModelProvider } from "./modelRegistry";
 
 const API_URL = "https://openrouter.ai/api/v1/chat/completions";
 const MODEL = "deepseek/deepseek-r1-zero:free";
@@ -47,9 +48,21 @@ export async function generateDeepSeekResponse(
         content: data.choices[0].message.content,
       },
       model: "deepseek-r1",
+      tokens: {
+        promptTokens: data.usage?.prompt_tokens || 0,
+        completionTokens: data.usage?.completion_tokens || 0,
+      },
     };
   } catch (error: any) {
     log(`DeepSeek API error: ${error.message}`, "error");
     throw error;
   }
 }
+
+export const deepSeekProvider: ModelProvider = {
+  id: "deepseek-r1",
+  label: "DeepSeek R1",
+  description: "Open reasoning model served through OpenRouter",
+  capabilities: { vision: false, tools: false, streaming: false, reasoning: true },
+  generate: (request) => generateDeepSeekResponse(request)
+};
@@ -0,0 +1,61 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import os from "os";
+import { promises as dns } from "dns";
+import type { AddressInfo } from "net";
+
+// Documents reach the database through storage, which needs a connection string to load
+delete process.env.PAGE_FETCH_ALLOW_PRIVATE_NETWORK;
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+const { fetchPage, PageFetchError } = await import("./pageFetcher");
+
+// A site on the loopback address that would answer any fetch reaching it
+const requested: string[] = [];
+const server = http.createServer((req, res) => {
+  requested.push(req.url!);
+  res.setHeader("Content-Type", "text/plain");
+  res.end("# Internal\n\nSecrets of the server's own network.");
+});
+await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+after(() => server.close());
+const { port } = server.address() as AddressInfo;
+
+// The machine's own name resolves to a private address on most hosts, through /etc/hosts
+const hostname = os.hostname();
+const hostnameIsPrivate = await dns.lookup(hostname).then(({ address }) => /^(127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.)/.test(address), () => false);
+
+describe("fetchPage on private networks", () => {
+  it("refuses private and loopback addresses however they are written", async () => {
+    for (const address of [
+      `http://127.0.0.1:${port}/`,
+      `http://localhost:${port}/`,
+      `http://127.1:${port}/`,
+      `http://0x7f000001:${port}/`,
+      `http://[::1]:${port}/`,
+      `http://[::ffff:127.0.0.1]:${port}/`,
+      `http://[::ffff:7f00:1]:${port}/`,
+      "http://[64:ff9b::10.0.0.1]/",
+      "http://[fd00::1]/",
+      "http://[fe80::1]/",
+      "http://10.0.0.1/",
+      "http://192.168.1.1/",
+      "http://169.254.169.254/latest/meta-data/"
+    ]) {
+      await assert.rejects(fetchPage(address), (error: Error) => {
+        assert.ok(error instanceof PageFetchError, `${address}: ${error.message}`);
+        assert.match(error.message, /is on a private network and cannot be fetched/);
+        return true;
+      });
+    }
+    assert.deepEqual(requested, []);
+  });
+
+  it("refuses host names that resolve to a private address when connecting", { skip: !hostnameIsPrivate && `${hostname} does not resolve to a private address here` }, async () => {
+    await assert.rejects(fetchPage(`http://${hostname}:${port}/notes.txt`), {
+      name: "PageFetchError",
+      message: `${hostname} is on a private network and cannot be fetched`
+    });
+    assert.deepEqual(requested, []);
+  });
+});
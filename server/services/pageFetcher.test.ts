@@ -0,0 +1,171 @@
+import { describe, it, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import zlib from "zlib";
+import type { AddressInfo } from "net";
+
+// The fixture sites below listen on the loopback address, which is only fetched when private
+// networks are allowed. Read at import, so set before the dynamic import; the block itself is
+// tested in pageFetcher.privateNetwork.test.ts. Documents reach the database through storage,
+// which needs a connection string to load.
+process.env.PAGE_FETCH_ALLOW_PRIVATE_NETWORK = "true";
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+const { fetchPage, clearPageCache, PageFetchError, RobotsDisallowedError } = await import("./pageFetcher");
+
+const ARTICLE = `<!doctype html>
+<html><head>
+  <title>Tide tables | Harbour News</title>
+  <meta name="author" content="Ada Lovelace">
+  <meta property="article:published_time" content="2026-10-01T08:00:00Z">
+</head><body>
+  <nav><a href="/">Home</a> <a href="/about">About</a></nav>
+  <article>
+    <h1>Tide tables</h1>
+    ${Array.from({ length: 4 }, (_, i) => `<p>Paragraph ${i + 1} explains how the moon and the sun pull on the sea, so that the water in the harbour rises and falls twice a day. <a href="/tides/${i}">More</a></p>`).join("\n    ")}
+  </article>
+  <footer>Copyright</footer>
+</body></html>`;
+
+type Route = (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+const html = (body: string): Route => (_req, res) => {
+  res.setHeader("Content-Type", "text/html; charset=utf-8");
+  res.end(body);
+};
+
+/**
+ * A site on a local port, recording the paths requested from it. Paths without a route get 404.
+ */
+async function startSite(routes: Record<string, Route>) {
+  const paths: string[] = [];
+  const server = http.createServer((req, res) => {
+    paths.push(req.url!);
+    const route = routes[new URL(req.url!, "http://localhost").pathname];
+    if (route) return route(req, res);
+    res.statusCode = 404;
+    res.end("Not found");
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  after(() => server.close());
+  return { origin: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, paths };
+}
+
+const site = await startSite({
+  "/robots.txt": (_req, res) => res.end([
+    "User-agent: *",
+    "Disallow: /",
+    "",
+    "# Rules for this agent replace the ones for everyone",
+    "User-agent: InfonexAgent",
+    "Disallow: /private/",
+    "Allow: /private/open",
+    "Disallow: /*.json$"
+  ].join("\n")),
+  "/article": html(ARTICLE),
+  "/private/secret": html(ARTICLE),
+  "/private/open-page": html(ARTICLE),
+  "/data.json": (_req, res) => res.end("{}"),
+  "/to-secret": (_req, res) => {
+    res.writeHead(302, { Location: "/private/secret" });
+    res.end();
+  },
+  "/to-article": (_req, res) => {
+    res.writeHead(301, { Location: "/article" });
+    res.end();
+  },
+  "/notes.txt": (_req, res) => {
+    res.setHeader("Content-Type", "text/plain");
+    res.setHeader("Content-Encoding", "gzip");
+    res.end(zlib.gzipSync("# Field notes\n\nHigh water at 06:12."));
+  },
+  "/logo.png": (_req, res) => {
+    res.setHeader("Content-Type", "image/png");
+    res.end(Buffer.alloc(16));
+  }
+});
+
+const fetched = (path: string) => site.paths.filter(requested => requested === path).length;
+
+describe("fetchPage", () => {
+  beforeEach(() => clearPageCache());
+
+  it("returns the article of an HTML page as markdown with its metadata", async () => {
+    const page = await fetchPage(`${site.origin}/article#section`);
+    assert.equal(page.url, `${site.origin}/article`);
+    assert.equal(page.contentType, "html");
+    assert.equal(page.byline, "Ada Lovelace");
+    assert.equal(page.publishedAt, "2026-10-01T08:00:00.000Z");
+    assert.match(page.markdown, /Paragraph 1 explains how the moon/);
+    assert.match(page.markdown, new RegExp(`\\[More\\]\\(${site.origin}/tides/0\\)`));
+    assert.doesNotMatch(page.markdown, /Copyright/);
+  });
+
+  it("follows this agent's robots.txt group rather than the one for everyone", async () => {
+    await assert.rejects(fetchPage(`${site.origin}/private/secret`), RobotsDisallowedError);
+    await assert.rejects(fetchPage(`${site.origin}/data.json`), RobotsDisallowedError);
+    assert.equal((await fetchPage(`${site.origin}/private/open-page`)).contentType, "html");
+    assert.equal(fetched("/private/secret"), 0);
+    assert.equal(fetched("/data.json"), 0);
+  });
+
+  it("checks robots.txt again for every redirect", async () => {
+    await assert.rejects(fetchPage(`${site.origin}/to-secret`), RobotsDisallowedError);
+    assert.equal(fetched("/private/secret"), 0);
+
+    const page = await fetchPage(`${site.origin}/to-article`);
+    assert.equal(page.url, `${site.origin}/article`);
+  });
+
+  it("reads text files, decompressing them as sent", async () => {
+    const page = await fetchPage(`${site.origin}/notes.txt`);
+    assert.equal(page.contentType, "text");
+    assert.equal(page.title, "Field notes");
+    assert.match(page.markdown, /High water at 06:12/);
+  });
+
+  it("refuses content it cannot read and pages that are not found", async () => {
+    await assert.rejects(fetchPage(`${site.origin}/logo.png`), { name: "PageFetchError", message: /is image\/png/ });
+    await assert.rejects(fetchPage(`${site.origin}/gone`), { name: "PageFetchError", message: /answered with HTTP 404/ });
+    await assert.rejects(fetchPage("not a url"), PageFetchError);
+    await assert.rejects(fetchPage("file:///etc/passwd"), { message: /Only http and https pages/ });
+  });
+
+  it("downloads a page and the site's robots.txt once while they are cached", async () => {
+    const robots = fetched("/robots.txt");
+    const articles = fetched("/article");
+    await Promise.all([fetchPage(`${site.origin}/article`), fetchPage(`${site.origin}/article`)]);
+    await fetchPage(`${site.origin}/article#again`);
+    assert.equal(fetched("/article"), articles + 1);
+    assert.equal(fetched("/robots.txt"), robots + 1);
+  });
+
+  it("lets a caller stop waiting without stopping the download for the others", async () => {
+    const controller = new AbortController();
+    const abandoned = fetchPage(`${site.origin}/article`, { signal: controller.signal });
+    const kept = fetchPage(`${site.origin}/article`);
+    controller.abort(new Error("caller left"));
+    await assert.rejects(abandoned, /caller left/);
+    assert.match((await kept).markdown, /Paragraph 1/);
+  });
+});
+
+describe("fetchPage without a usable robots.txt", () => {
+  beforeEach(() => clearPageCache());
+
+  it("fetches anything from a site without robots.txt", async () => {
+    const open = await startSite({ "/article": html(ARTICLE) });
+    assert.equal((await fetchPage(`${open.origin}/article`)).contentType, "html");
+  });
+
+  it("fetches nothing from a site whose robots.txt fails with a server error", async () => {
+    const failing = await startSite({
+      "/robots.txt": (_req, res) => {
+        res.statusCode = 503;
+        res.end();
+      },
+      "/article": html(ARTICLE)
+    });
+    await assert.rejects(fetchPage(`${failing.origin}/article`), RobotsDisallowedError);
+    assert.deepEqual(failing.paths, ["/robots.txt"]);
+  });
+});
@@ -0,0 +1,631 @@
+import { lookup } from "dns";
+import http from "http";
+import https from "https";
+import { isIP, type LookupFunction } from "net";
+import { Readable } from "stream";
+import zlib from "zlib";
+import { Readability } from "@mozilla/readability";
+import { parseHTML } from "linkedom";
+import TurndownService from "turndown";
+import { log } from "../vite";
+import { DocumentFormatError, extractDocumentPages } from "./documents";
+
+const USER_AGENT = "Mozilla/5.0 (compatible; InfonexAgent/1.0)";
+// Product token matched against the User-agent lines of robots.txt
+const ROBOTS_AGENT = "infonexagent";
+
+const PAGE_TIMEOUT_MS = 10_000;
+const ROBOTS_TIMEOUT_MS = 5_000;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+// RFC 9309 lets crawlers ignore robots.txt content past 500 KiB
+const MAX_ROBOTS_BYTES = 500 * 1024;
+const MAX_REDIRECTS = 5;
+// Characters of markdown kept per page; callers that want less slice it
+const MAX_MARKDOWN_CHARS = 200_000;
+const EXCERPT_LENGTH = 300;
+
+const PAGE_TTL_MS = 30 * 60 * 1000;
+const ROBOTS_TTL_MS = 60 * 60 * 1000;
+const MAX_CACHED_PAGES = 200;
+const MAX_CACHED_ROBOTS = 500;
+
+// Local and private addresses are only fetched when explicitly allowed, e.g. for a fixture server
+const ALLOW_PRIVATE_NETWORK = process.env.PAGE_FETCH_ALLOW_PRIVATE_NETWORK === "true";
+
+const HTML_TYPES = /^(text\/html|application\/xhtml\+xml)$/;
+const TEXT_TYPES = /^text\/(plain|markdown|x-markdown)$/;
+
+export type PageContentType = "html" | "pdf" | "text";
+
+export interface FetchOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * The readable content of a page, as markdown
+ */
+export interface FetchedPage {
+  // Address the content came from, after redirects
+  url: string;
+  title: string;
+  byline: string | null;
+  // ISO date when it could be parsed, otherwise as the page wrote it
+  publishedAt: string | null;
+  siteName: string;
+  contentType: PageContentType;
+  markdown: string;
+  excerpt: string;
+  // Whether the page or its markdown was cut at the size limit
+  truncated: boolean;
+  fetchedAt: string;
+}
+
+/**
+ * Thrown when a page cannot be fetched or read; the message can be shown to the user
+ */
+export class PageFetchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PageFetchError";
+  }
+}
+
+/**
+ * Thrown when the site's robots.txt does not let this agent fetch the page
+ */
+export class RobotsDisallowedError extends PageFetchError {
+  constructor(url: string) {
+    super(`The site's robots.txt does not allow fetching ${url}`);
+    this.name = "RobotsDisallowedError";
+  }
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  // Length of the rule's path; the longest matching rule decides
+  length: number;
+}
+
+// Rules of the group that applies to this agent, or a blanket verdict when robots.txt could not be read
+type RobotsPolicy = RobotsRule[] | "allow-all" | "disallow-all";
+
+// Pages by URL without fragment, and robots.txt policies by origin. Promises are cached so
+// concurrent fetches of the same page share one download.
+const pageCache = new Map<string, { page: Promise<FetchedPage>; expiresAt: number }>();
+const robotsCache = new Map<string, { policy: Promise<RobotsPolicy>; expiresAt: number }>();
+
+/**
+ * Forget fetched pages and robots.txt policies
+ */
+export function clearPageCache() {
+  pageCache.clear();
+  robotsCache.clear();
+}
+
+function prune<T extends { expiresAt: number }>(cache: Map<string, T>, maxEntries: number) {
+  if (cache.size < maxEntries) return;
+  const now = Date.now();
+  for (const [key, entry] of Array.from(cache)) {
+    if (entry.expiresAt <= now) cache.delete(key);
+  }
+  while (cache.size >= maxEntries) {
+    cache.delete(cache.keys().next().value!);
+  }
+}
+
+// The eight 16-bit groups of an IPv6 address, with :: expanded and a trailing IPv4 part split in two
+function ipv6Groups(address: string): number[] {
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  const [a, b, c, d] = dotted ? dotted[2].split(".").map(Number) : [];
+  const hex = dotted ? `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}` : address;
+  const [head, tail] = hex.split("::");
+  const parse = (part: string | undefined) => part ? part.split(":").map(group => parseInt(group, 16)) : [];
+  const start = parse(head);
+  const end = parse(tail);
+  return tail === undefined ? start : [...start, ...Array(8 - start.length - end.length).fill(0), ...end];
+}
+
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    const [a, b] = address.split(".").map(Number);
+    return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127) || a >= 224;
+  }
+
+  const groups = ipv6Groups(address.toLowerCase());
+  const embeddedIPv4 = () => [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join(".");
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses reach the IPv4 address
+  // they carry, however the URL parser wrote it
+  if (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff) return isPrivateAddress(embeddedIPv4());
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) return isPrivateAddress(embeddedIPv4());
+  // Unspecified, loopback and the deprecated IPv4-compatible range
+  if (groups.slice(0, 6).every(group => group === 0)) return true;
+  // Unique local (fc00::/7), link- and site-local (fe80::/9) and multicast (ff00::/8)
+  return (groups[0] & 0xfe00) === 0xfc00 || (groups[0] & 0xff80) === 0xfe80 || (groups[0] & 0xff00) === 0xff00;
+}
+
+/**
+ * Refuse anything but http(s), and addresses on the server's own network given as an IP
+ * address; host names are checked when connecting, by publicLookup
+ */
+function checkUrl(url: URL) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new PageFetchError(`Only http and https pages can be fetched, not ${url.protocol.replace(":", "")}`);
+  }
+  if (ALLOW_PRIVATE_NETWORK) return;
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (host === "localhost" || (isIP(host) && isPrivateAddress(host))) {
+    throw new PageFetchError(`${url.hostname} is on a private network and cannot be fetched`);
+  }
+}
+
+/**
+ * Resolve a host name for a connection and refuse it when any address is private. Checking
+ * the addresses actually connected to, rather than an earlier lookup, keeps a host whose DNS
+ * answer changes in between from reaching the server's own network.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, options, (error, address, family) => {
+    if (error || ALLOW_PRIVATE_NETWORK) return callback(error, address, family);
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    if (addresses.some(isPrivateAddress)) {
+      return callback(new PageFetchError(`${hostname} is on a private network and cannot be fetched`), address, family);
+    }
+    callback(null, address, family);
+  });
+};
+
+// Bodies that cannot be read as sent are decompressed, as fetch would
+function decodedBody(response: http.IncomingMessage): Readable {
+  switch ((response.headers["content-encoding"] || "").trim().toLowerCase()) {
+    case "gzip":
+    case "x-gzip":
+      return response.pipe(zlib.createGunzip());
+    case "deflate":
+      return response.pipe(zlib.createInflate());
+    case "br":
+      return response.pipe(zlib.createBrotliDecompress());
+    default:
+      return response;
+  }
+}
+
+/**
+ * GET a URL without following redirects, connecting only to public addresses. Made with the
+ * http modules rather than fetch, whose connections cannot be given a lookup function.
+ */
+function request(url: URL, headers: Record<string, string>, signal: AbortSignal): Promise<Response> {
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const outgoing = client.get(url, {
+      headers: { ...headers, "Accept-Encoding": "gzip, deflate, br" },
+      lookup: publicLookup,
+      signal
+    }, incoming => {
+      const status = incoming.statusCode || 500;
+      const body = decodedBody(incoming);
+      if (body !== incoming) body.on("close", () => incoming.destroy());
+
+      const responseHeaders = new Headers();
+      for (const [name, value] of Object.entries(incoming.headers)) {
+        if (value === undefined || (body !== incoming && (name === "content-encoding" || name === "content-length"))) continue;
+        for (const item of Array.isArray(value) ? value : [value]) responseHeaders.append(name, item);
+      }
+      // Statuses that cannot carry a body get none, as the Response constructor requires
+      const nullBody = status === 204 || status === 205 || status === 304;
+      if (nullBody) incoming.resume();
+      resolve(new Response(nullBody ? null : Readable.toWeb(body) as unknown as ReadableStream, { status, headers: responseHeaders }));
+    });
+    outgoing.on("error", reject);
+  });
+}
+
+/**
+ * Read a response body up to a byte limit; the rest is dropped
+ */
+async function readBody(response: Response, maxBytes: number): Promise<{ data: Buffer; truncated: boolean }> {
+  if (!response.body) return { data: Buffer.alloc(0), truncated: false };
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  while (size < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) return { data: Buffer.concat(chunks), truncated: false };
+    chunks.push(value);
+    size += value.length;
+  }
+  await reader.cancel();
+  return { data: Buffer.concat(chunks).subarray(0, maxBytes), truncated: true };
+}
+
+function robotsPattern(path: string): RegExp {
+  const anchored = path.endsWith("$");
+  const source = (anchored ? path.slice(0, -1) : path)
+    .split("*")
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}${anchored ? "$" : ""}`);
+}
+
+/**
+ * The rules of the robots.txt group naming this agent, or of the "*" group when none does.
+ * Groups naming the same agent are merged, as RFC 9309 asks.
+ */
+function parseRobots(text: string): RobotsRule[] {
+  const groups: Array<{ agents: string[]; rules: RobotsRule[] }> = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | undefined;
+  let afterAgent = false;
+
+  for (const rawLine of text.split(/\r?\n|\r/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator < 0) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      // Consecutive User-agent lines share the rules that follow them
+      if (!current || !afterAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      afterAgent = true;
+      continue;
+    }
+    afterAgent = false;
+    if ((field === "allow" || field === "disallow") && current) {
+      // An empty Disallow allows everything and adds no rule
+      if (!value) continue;
+      let path = value;
+      try {
+        path = encodeURI(decodeURI(value));
+      } catch {
+        // Keep paths with stray percent signs as written
+      }
+      current.rules.push({ allow: field === "allow", pattern: robotsPattern(path), length: path.length });
+    }
+  }
+
+  const named = groups.filter(group => group.agents.includes(ROBOTS_AGENT));
+  const applicable = named.length > 0 ? named : groups.filter(group => group.agents.includes("*"));
+  return applicable.flatMap(group => group.rules);
+}
+
+/**
+ * Whether a path (with its query string) may be fetched: the longest matching rule wins and
+ * Allow wins a tie; with no matching rule the path is allowed
+ */
+function isPathAllowed(rules: RobotsRule[], path: string): boolean {
+  let verdict: RobotsRule | undefined;
+  for (const rule of rules) {
+    if (!rule.pattern.test(path)) continue;
+    if (!verdict || rule.length > verdict.length || (rule.length === verdict.length && rule.allow)) {
+      verdict = rule;
+    }
+  }
+  return !verdict || verdict.allow;
+}
+
+/**
+ * Fetch and parse a site's robots.txt. A missing file (4xx) allows everything and a server
+ * error disallows everything until the policy expires; an unreachable site fails the fetch.
+ */
+async function loadRobots(origin: string): Promise<RobotsPolicy> {
+  try {
+    const response = await request(
+      new URL("/robots.txt", origin),
+      { "User-Agent": USER_AGENT, Accept: "text/plain" },
+      AbortSignal.timeout(ROBOTS_TIMEOUT_MS)
+    );
+    if (response.status >= 400 && response.status < 500) {
+      await response.body?.cancel();
+      return "allow-all";
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      return "disallow-all";
+    }
+    const { data } = await readBody(response, MAX_ROBOTS_BYTES);
+    return parseRobots(data.toString("utf8"));
+  } catch (error: any) {
+    if (error instanceof PageFetchError) throw error;
+    throw new PageFetchError(`Could not reach ${origin}: ${error.cause?.message || error.message}`);
+  }
+}
+
+async function checkRobots(url: URL) {
+  const origin = url.origin;
+  let cached = robotsCache.get(origin);
+  if (!cached || cached.expiresAt <= Date.now()) {
+    prune(robotsCache, MAX_CACHED_ROBOTS);
+    cached = { policy: loadRobots(origin), expiresAt: Date.now() + ROBOTS_TTL_MS };
+    robotsCache.set(origin, cached);
+    cached.policy.catch(() => robotsCache.delete(origin));
+  }
+
+  const policy = await cached.policy;
+  const allowed = policy === "allow-all" || (policy !== "disallow-all" && isPathAllowed(policy, `${url.pathname}${url.search}`));
+  if (!allowed) {
+    throw new RobotsDisallowedError(url.href);
+  }
+}
+
+// Charset from the Content-Type header, else from a meta tag near the start of the page
+function detectCharset(contentType: string, data: Buffer): string {
+  const fromHeader = contentType.match(/charset\s*=\s*["']?([\w.:-]+)/i)?.[1];
+  if (fromHeader) return fromHeader;
+  const head = data.subarray(0, 2048).toString("latin1");
+  return head.match(/<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i)?.[1] || "utf-8";
+}
+
+function decodeText(data: Buffer, charset: string): string {
+  try {
+    return new TextDecoder(charset).decode(data);
+  } catch {
+    return new TextDecoder().decode(data);
+  }
+}
+
+function siteName(url: URL): string {
+  return url.hostname.replace(/^www\./, "");
+}
+
+// Last path segment without its extension, for documents that carry no title
+function titleFromUrl(url: URL): string {
+  const segment = decodeURIComponent(url.pathname.split("/").filter(Boolean).pop() || "");
+  return segment.replace(/\.[^.]+$/, "").replace(/[-_]+/g, " ").trim() || siteName(url);
+}
+
+function normalizeDate(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? value.trim() : new Date(time).toISOString();
+}
+
+function cellText(cell: any): string {
+  return (cell.textContent || "").replace(/\s+/g, " ").trim().replace(/\|/g, "\\|");
+}
+
+/**
+ * A GitHub-flavoured markdown table, taking the first row as the header. Cells keep their
+ * text only, as pipes tables cannot hold blocks.
+ */
+function tableToMarkdown(table: any): string {
+  const rows: string[][] = Array.from(table.querySelectorAll("tr") as ArrayLike<any>)
+    .filter(row => row.closest("table") === table)
+    .map(row => Array.from(row.querySelectorAll("th, td") as ArrayLike<any>).map(cellText));
+  const width = Math.max(0, ...rows.map(row => row.length));
+  if (width === 0) return "";
+
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+  const [header, ...body] = rows;
+  return `\n\n${[line(header), line(Array(width).fill("---")), ...body.map(line)].join("\n")}\n\n`;
+}
+
+const turndown = new TurndownService({ headingStyle: "atx", codeBlockStyle: "fenced", bulletListMarker: "-", emDelimiter: "_" });
+turndown.remove(["script", "style", "noscript", "template", "iframe", "form", "button"]);
+turndown.addRule("table", { filter: "table", replacement: (_content, node) => tableToMarkdown(node) });
+
+/**
+ * Make links and images absolute so the markdown works outside the page, and drop links
+ * and images that cannot be followed (scripts, inline data)
+ */
+function resolveLinks(root: any, base: string) {
+  for (const link of Array.from(root.querySelectorAll("a[href]") as ArrayLike<any>)) {
+    try {
+      const href = new URL(link.getAttribute("href"), base);
+      if (href.protocol === "http:" || href.protocol === "https:" || href.protocol === "mailto:") {
+        link.setAttribute("href", href.href);
+        continue;
+      }
+    } catch {
+      // Unparseable links keep their text only
+    }
+    link.removeAttribute("href");
+  }
+  for (const image of Array.from(root.querySelectorAll("img") as ArrayLike<any>)) {
+    try {
+      const src = new URL(image.getAttribute("src") || "", base);
+      if (src.protocol === "http:" || src.protocol === "https:") {
+        image.setAttribute("src", src.href);
+        continue;
+      }
+    } catch {
+      // Fall through and drop the image
+    }
+    image.remove();
+  }
+}
+
+function metaContent(document: any, ...names: string[]): string | null {
+  for (const name of names) {
+    const meta = document.querySelector(`meta[property="${name}"], meta[name="${name}"], meta[itemprop="${name}"]`);
+    const content = meta?.getAttribute("content")?.trim();
+    if (content) return content;
+  }
+  return null;
+}
+
+/**
+ * The main article of an HTML page as markdown, found with Mozilla's Readability; pages it
+ * finds no article in fall back to their whole body
+ */
+function htmlToPage(html: string, url: URL): Omit<FetchedPage, "url" | "truncated" | "fetchedAt"> {
+  const { document } = parseHTML(html);
+  // Readability changes the document it parses, so read the metadata first
+  const documentTitle = document.querySelector("title")?.textContent?.trim();
+  const published = metaContent(document, "article:published_time", "datePublished", "date", "pubdate");
+  const author = metaContent(document, "author", "article:author");
+  const bodyHtml = document.body?.innerHTML || "";
+
+  let article: ReturnType<Readability["parse"]> = null;
+  try {
+    article = new Readability(document as any, { charThreshold: 200 }).parse();
+  } catch (error: any) {
+    log(`Readability failed on ${url.href}: ${error.message}`, "error");
+  }
+
+  const { document: content } = parseHTML(`<!doctype html><html><body><div id="content">${article?.content || bodyHtml}</div></body></html>`);
+  const root = content.getElementById("content")!;
+  resolveLinks(root, url.href);
+  const markdown = turndown.turndown(root as any).replace(/\n{3,}/g, "\n\n").trim();
+
+  return {
+    title: article?.title?.trim() || documentTitle || titleFromUrl(url),
+    byline: article?.byline?.trim() || author,
+    publishedAt: normalizeDate(article?.publishedTime || published),
+    siteName: article?.siteName?.trim() || siteName(url),
+    contentType: "html",
+    markdown,
+    excerpt: article?.excerpt?.trim() || ""
+  };
+}
+
+async function pdfToPage(data: Buffer, url: URL): Promise<Omit<FetchedPage, "url" | "truncated" | "fetchedAt">> {
+  let pages;
+  try {
+    pages = await extractDocumentPages("pdf", data);
+  } catch (error) {
+    if (error instanceof DocumentFormatError) throw new PageFetchError(`${url.href} is not a readable PDF`);
+    throw error;
+  }
+  const markdown = pages
+    .map(({ page, text }) => text.trim() && `## Page ${page}\n\n${text.trim()}`)
+    .filter(Boolean)
+    .join("\n\n");
+  if (!markdown) {
+    throw new PageFetchError("The PDF has no text layer; scanned pages cannot be read");
+  }
+  return { title: titleFromUrl(url), byline: null, publishedAt: null, siteName: siteName(url), contentType: "pdf", markdown, excerpt: "" };
+}
+
+function textToPage(text: string, url: URL): Omit<FetchedPage, "url" | "truncated" | "fetchedAt"> {
+  const markdown = text.replace(/\r\n?/g, "\n").trim();
+  const heading = markdown.match(/^#{1,6}\s+(.+?)\s*#*\s*$/m)?.[1];
+  return { title: heading || titleFromUrl(url), byline: null, publishedAt: null, siteName: siteName(url), contentType: "text", markdown, excerpt: "" };
+}
+
+// First paragraph of plain prose, for pages without a description
+function excerptOf(markdown: string): string {
+  const paragraph = markdown.split("\n\n").find(block => /^[^#|>`\-!\[]/.test(block.trim())) || "";
+  const text = paragraph.replace(/\s+/g, " ").trim();
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Follow redirects by hand so every hop is checked against the address rules and robots.txt
+ */
+async function download(start: URL, signal: AbortSignal): Promise<{ url: URL; response: Response }> {
+  let url = start;
+  for (let redirects = 0; ; redirects++) {
+    checkUrl(url);
+    await checkRobots(url);
+    const response = await request(url, {
+      "User-Agent": USER_AGENT,
+      Accept: "text/html,application/xhtml+xml,application/pdf;q=0.9,text/plain;q=0.8,text/markdown;q=0.8"
+    }, signal);
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      if (redirects === MAX_REDIRECTS) {
+        throw new PageFetchError(`${start.href} redirects more than ${MAX_REDIRECTS} times`);
+      }
+      url = new URL(location, url);
+      continue;
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new PageFetchError(`${url.href} answered with HTTP ${response.status}`);
+    }
+    return { url, response };
+  }
+}
+
+// Downloads are shared by everyone asking for the page, so only the time limit stops them
+async function loadPage(start: URL): Promise<FetchedPage> {
+  const timeout = AbortSignal.timeout(PAGE_TIMEOUT_MS);
+  try {
+    const { url, response } = await download(start, timeout);
+    const contentType = response.headers.get("content-type") || "";
+    const mimeType = contentType.split(";")[0].trim().toLowerCase();
+    const isPdf = mimeType === "application/pdf" || (mimeType === "application/octet-stream" && /\.pdf$/i.test(url.pathname));
+    if (!HTML_TYPES.test(mimeType) && !TEXT_TYPES.test(mimeType) && !isPdf) {
+      await response.body?.cancel();
+      throw new PageFetchError(`${url.href} is ${mimeType || "of an unknown type"}; only web pages, PDFs and text files can be read`);
+    }
+
+    const { data, truncated } = await readBody(response, MAX_PAGE_BYTES);
+    let page: Omit<FetchedPage, "url" | "truncated" | "fetchedAt">;
+    if (isPdf) {
+      // A PDF cut short cannot be parsed at all
+      if (truncated) {
+        throw new PageFetchError(`The PDF is larger than ${MAX_PAGE_BYTES / 1024 / 1024} MB`);
+      }
+      page = await pdfToPage(data, url);
+    } else {
+      const text = decodeText(data, detectCharset(contentType, data));
+      page = HTML_TYPES.test(mimeType) ? htmlToPage(text, url) : textToPage(text, url);
+    }
+    if (!page.markdown) {
+      throw new PageFetchError(`No readable text found at ${url.href}`);
+    }
+
+    return {
+      ...page,
+      url: url.href,
+      markdown: page.markdown.slice(0, MAX_MARKDOWN_CHARS),
+      excerpt: page.excerpt || excerptOf(page.markdown),
+      truncated: truncated || page.markdown.length > MAX_MARKDOWN_CHARS,
+      fetchedAt: new Date().toISOString()
+    };
+  } catch (error: any) {
+    if (timeout.aborted) {
+      throw new PageFetchError(`${start.href} did not load within ${PAGE_TIMEOUT_MS / 1000} s`);
+    }
+    if (error instanceof PageFetchError) throw error;
+    throw new PageFetchError(`Could not fetch ${start.href}: ${error.cause?.message || error.message}`);
+  }
+}
+
+// A caller that gives up stops waiting; the download goes on for the others and the cache
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Fetch a web page, PDF or text file and return its main content as markdown with the
+ * title, byline and publish date. Sites' robots.txt is respected, downloads are limited in
+ * size and time, and pages are cached for half an hour. Throws PageFetchError, or
+ * RobotsDisallowedError when robots.txt forbids the page; failures are not cached.
+ */
+export async function fetchPage(address: string, options: FetchOptions = {}): Promise<FetchedPage> {
+  let url: URL;
+  try {
+    url = new URL(address);
+  } catch {
+    throw new PageFetchError(`${address} is not a valid URL`);
+  }
+  url.hash = "";
+
+  const key = url.href;
+  const cached = pageCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return untilAborted(cached.page, options.signal);
+  }
+
+  prune(pageCache, MAX_CACHED_PAGES);
+  const page = loadPage(url);
+  pageCache.set(key, { page, expiresAt: Date.now() + PAGE_TTL_MS });
+  page.catch(() => pageCache.delete(key));
+  return untilAborted(page, options.signal);
+}
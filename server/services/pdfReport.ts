@@ -0,0 +1,1087 @@
+import { createRequire } from "module";
+import path from "path";
+import PDFDocument from "pdfkit";
+import { Marked, type Token, type Tokens, type TokenizerExtension } from "marked";
+import Prism from "prismjs";
+import loadLanguages from "prismjs/components/index.js";
+import { Resvg } from "@resvg/resvg-js";
+import { mathjax } from "mathjax-full/js/mathjax.js";
+import { TeX } from "mathjax-full/js/input/tex.js";
+import { SVG } from "mathjax-full/js/output/svg.js";
+import { liteAdaptor } from "mathjax-full/js/adaptors/liteAdaptor.js";
+import { RegisterHTMLHandler } from "mathjax-full/js/handlers/html.js";
+import { AllPackages } from "mathjax-full/js/input/tex/AllPackages.js";
+import type { PdfTheme } from "@shared/schema";
+
+type Doc = PDFKit.PDFDocument;
+
+const MARGIN = 64;
+// Text sits this far above and below its baseline, as a share of the font size
+const ASCENT = 0.8;
+const DESCENT = 0.22;
+const LINE_GAP = 0.3;
+// Pixels per point when math and SVG images are rasterized
+const RASTER_SCALE = 4;
+// Images never take more than this share of the page height
+const MAX_IMAGE_HEIGHT = 0.6;
+// Headings up to this depth are listed in the table of contents and the outline
+const TOC_DEPTH = 3;
+const TOC_SIZE = 11;
+const TOC_ENTRY_HEIGHT = TOC_SIZE * 1.7;
+
+interface ThemeFonts {
+  regular: string;
+  bold: string;
+  italic: string;
+  boldItalic: string;
+  mono: string;
+  monoBold: string;
+}
+
+interface Theme {
+  fonts: ThemeFonts;
+  // TrueType files to register before the fonts above are used, by font name
+  fontFiles?: Record<string, string>;
+  bodySize: number;
+  codeSize: number;
+  titleSize: number;
+  headingSizes: number[];
+  text: string;
+  muted: string;
+  accent: string;
+  link: string;
+  // A rule under top-level headings
+  headingRule: boolean;
+  // List markers by nesting depth
+  bullets: string[];
+  codeBackground: string;
+  codeText: string;
+  inlineCodeBackground: string;
+  // Colors of Prism token types; unlisted types keep the color of their parent
+  codeColors: Record<string, string>;
+  tableHeaderFill: string;
+  tableHeaderText: string;
+  tableBorder: string;
+  tableStripe: string | null;
+  quoteBar: string;
+}
+
+const katexFonts = path.join(path.dirname(createRequire(import.meta.url).resolve("katex")), "fonts");
+
+const LIGHT_CODE_COLORS: Record<string, string> = {
+  comment: "#6a737d", prolog: "#6a737d", doctype: "#6a737d", cdata: "#6a737d",
+  keyword: "#d73a49", atrule: "#d73a49", important: "#d73a49", rule: "#d73a49",
+  string: "#032f62", char: "#032f62", "template-string": "#032f62", regex: "#032f62", "attr-value": "#032f62", url: "#032f62",
+  number: "#005cc5", boolean: "#005cc5", constant: "#005cc5", symbol: "#005cc5",
+  function: "#6f42c1", "class-name": "#6f42c1", builtin: "#e36209", property: "#005cc5",
+  tag: "#22863a", selector: "#22863a", "attr-name": "#6f42c1", variable: "#e36209", operator: "#d73a49"
+};
+
+const THEMES: Record<PdfTheme, Theme> = {
+  classic: {
+    fonts: { regular: "Times-Roman", bold: "Times-Bold", italic: "Times-Italic", boldItalic: "Times-BoldItalic", mono: "Courier", monoBold: "Courier-Bold" },
+    bodySize: 11.5,
+    codeSize: 9,
+    titleSize: 26,
+    headingSizes: [19, 15.5, 13, 12, 11.5, 11.5],
+    text: "#1a1a1a",
+    muted: "#666666",
+    accent: "#1f3a5f",
+    link: "#1f4e99",
+    headingRule: false,
+    bullets: ["•", "–", "•"],
+    codeBackground: "#f6f8fa",
+    codeText: "#24292e",
+    inlineCodeBackground: "#eff1f3",
+    codeColors: LIGHT_CODE_COLORS,
+    tableHeaderFill: "#e8edf3",
+    tableHeaderText: "#1f3a5f",
+    tableBorder: "#c8ced6",
+    tableStripe: null,
+    quoteBar: "#9fb3c8"
+  },
+  modern: {
+    fonts: { regular: "Helvetica", bold: "Helvetica-Bold", italic: "Helvetica-Oblique", boldItalic: "Helvetica-BoldOblique", mono: "Courier", monoBold: "Courier-Bold" },
+    bodySize: 10.5,
+    codeSize: 8.5,
+    titleSize: 28,
+    headingSizes: [18, 14.5, 12.5, 11, 10.5, 10.5],
+    text: "#222222",
+    muted: "#6b7280",
+    accent: "#0f766e",
+    link: "#0e7490",
+    headingRule: true,
+    bullets: ["•", "–", "•"],
+    codeBackground: "#1e293b",
+    codeText: "#e2e8f0",
+    inlineCodeBackground: "#e6f2f1",
+    codeColors: {
+      comment: "#94a3b8", prolog: "#94a3b8", doctype: "#94a3b8", cdata: "#94a3b8",
+      keyword: "#c084fc", atrule: "#c084fc", important: "#c084fc", rule: "#c084fc",
+      string: "#86efac", char: "#86efac", "template-string": "#86efac", regex: "#fca5a5", "attr-value": "#86efac", url: "#86efac",
+      number: "#fdba74", boolean: "#fdba74", constant: "#fdba74", symbol: "#fdba74",
+      function: "#7dd3fc", "class-name": "#fde68a", builtin: "#fde68a", property: "#7dd3fc",
+      tag: "#f9a8d4", selector: "#f9a8d4", "attr-name": "#fdba74", variable: "#fca5a5", operator: "#cbd5e1"
+    },
+    tableHeaderFill: "#0f766e",
+    tableHeaderText: "#ffffff",
+    tableBorder: "#d1d5db",
+    tableStripe: "#f3f7f7",
+    quoteBar: "#0f766e"
+  },
+  // Computer Modern, the typeface of LaTeX papers, from the fonts KaTeX ships with
+  academic: {
+    fonts: { regular: "KaTeX_Main-Regular", bold: "KaTeX_Main-Bold", italic: "KaTeX_Main-Italic", boldItalic: "KaTeX_Main-BoldItalic", mono: "KaTeX_Typewriter-Regular", monoBold: "KaTeX_Typewriter-Regular" },
+    fontFiles: Object.fromEntries(
+      ["Main-Regular", "Main-Bold", "Main-Italic", "Main-BoldItalic", "Typewriter-Regular"].map(name => [`KaTeX_${name}`, path.join(katexFonts, `KaTeX_${name}.ttf`)])
+    ),
+    bodySize: 11,
+    codeSize: 9,
+    titleSize: 22,
+    headingSizes: [16, 13.5, 12, 11, 11, 11],
+    text: "#000000",
+    muted: "#555555",
+    accent: "#000000",
+    link: "#00008b",
+    headingRule: false,
+    bullets: ["∙", "∘", "–"],
+    codeBackground: "#f5f5f5",
+    codeText: "#000000",
+    inlineCodeBackground: "#f0f0f0",
+    codeColors: { comment: "#707070", prolog: "#707070", keyword: "#00008b", string: "#8b0000", char: "#8b0000", "template-string": "#8b0000", number: "#006400", boolean: "#006400" },
+    tableHeaderFill: "#ffffff",
+    tableHeaderText: "#000000",
+    tableBorder: "#000000",
+    tableStripe: null,
+    quoteBar: "#999999"
+  }
+};
+
+export interface PdfSection {
+  heading: string;
+  content: string;
+}
+
+/**
+ * What a report is made from: markdown content, optionally followed by sections whose
+ * headings become top-level headings
+ */
+export interface PdfReport {
+  title: string;
+  content: string;
+  sections?: PdfSection[];
+  theme?: PdfTheme;
+  // Defaults to a table of contents when the report has at least three headings
+  tableOfContents?: boolean;
+}
+
+export interface PdfImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+// Looks up an image of the images table by id; undefined when it is missing or not the caller's
+export type ReportImageLoader = (id: number) => Promise<PdfImage | undefined>;
+
+// Markdown images that refer to the images table, as /api/images/:id or a full URL to it
+const IMAGE_URL = /(?:^|\/)api\/images\/(?:download\/)?(\d+)(?:[?#].*)?$/;
+
+// LaTeX math in the delimiters the chat renders, \(...\) and \[...\], as well as $...$ and $$...$$
+const blockMath: TokenizerExtension = {
+  name: "blockMath",
+  level: "block",
+  tokenizer(src) {
+    const match = /^(?:\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\])[ \t]*(?:\n|$)/.exec(src);
+    if (match) {
+      return { type: "blockMath", raw: match[0], text: (match[1] ?? match[2]).trim() };
+    }
+  }
+};
+
+const inlineMath: TokenizerExtension = {
+  name: "inlineMath",
+  level: "inline",
+  start: src => src.match(/\$|\\\(|\\\[/)?.index,
+  tokenizer(src) {
+    // A single $ only opens math when text follows it, so prices like $5 stay text
+    const match = /^(?:\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|\$(?!\s)([^$\n]*?[^\s$])\$(?!\d))/.exec(src);
+    if (match) {
+      return {
+        type: "inlineMath",
+        raw: match[0],
+        text: (match[1] ?? match[2] ?? match[3] ?? match[4]).trim(),
+        display: match[1] !== undefined || match[2] !== undefined
+      };
+    }
+  }
+};
+
+const markdown = new Marked({ gfm: true, extensions: [blockMath, inlineMath] });
+
+loadLanguages.silent = true;
+
+function prismGrammar(language: string | undefined): Prism.Grammar | undefined {
+  const name = language?.trim().toLowerCase();
+  if (!name) return undefined;
+  if (!Prism.languages[name]) {
+    loadLanguages([name]);
+  }
+  return Prism.languages[name];
+}
+
+// MathJax is set up on first use; reports without math never load its fonts
+let texDocument: ReturnType<typeof mathjax.document> | undefined;
+const adaptor = liteAdaptor();
+
+function texToSvg(tex: string, display: boolean): string {
+  if (!texDocument) {
+    RegisterHTMLHandler(adaptor);
+    texDocument = mathjax.document("", {
+      InputJax: new TeX({ packages: AllPackages, formatError: (_jax: unknown, error: Error) => { throw error; } }),
+      OutputJax: new SVG({ fontCache: "none" })
+    });
+  }
+  return adaptor.innerHTML(texDocument.convert(tex, { display }));
+}
+
+interface TextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  strike?: boolean;
+  link?: string;
+  color?: string;
+}
+
+type Inline =
+  | { kind: "text"; text: string; style: TextStyle }
+  | { kind: "math"; tex: string; style: TextStyle }
+  | { kind: "break" };
+
+interface MathBox {
+  png: Buffer;
+  width: number;
+  ascent: number;
+  descent: number;
+}
+
+type Box =
+  | { kind: "text"; x: number; width: number; text: string; font: string; size: number; style: TextStyle }
+  | { kind: "math"; x: number; width: number; math: MathBox };
+
+interface Line {
+  boxes: Box[];
+  width: number;
+  ascent: number;
+  descent: number;
+  gap: number;
+}
+
+interface TocEntry {
+  level: number;
+  text: string;
+  page: number;
+  destination: string;
+}
+
+interface RenderState {
+  doc: Doc;
+  theme: Theme;
+  // The column blocks are laid out in; narrower inside lists and quotes
+  left: number;
+  width: number;
+  // Inherited by the text of nested blocks, such as the muted italics of quotes
+  style: TextStyle;
+  // Only top-level headings are listed in the table of contents
+  nested: boolean;
+  listDepth: number;
+  // List marker still to be drawn beside the first line of an item
+  marker?: string;
+  images: Map<string, PdfImage | undefined>;
+  math: Map<string, MathBox | undefined>;
+  toc: TocEntry[];
+  outline: PDFKit.PDFOutline[];
+}
+
+function fontFor(theme: Theme, style: TextStyle): string {
+  if (style.code) return style.bold ? theme.fonts.monoBold : theme.fonts.mono;
+  if (style.bold && style.italic) return theme.fonts.boldItalic;
+  if (style.bold) return theme.fonts.bold;
+  return style.italic ? theme.fonts.italic : theme.fonts.regular;
+}
+
+function pageNumber(doc: Doc): number {
+  const range = doc.bufferedPageRange();
+  return range.start + range.count;
+}
+
+function pageBottom(doc: Doc): number {
+  return doc.page.height - doc.page.margins.bottom;
+}
+
+// Start a new page unless the next `height` points fit on this one
+function ensureSpace(state: RenderState, height: number) {
+  const { doc } = state;
+  if (doc.y + height > pageBottom(doc) && doc.y > doc.page.margins.top) {
+    doc.addPage();
+  }
+}
+
+/**
+ * Render TeX with MathJax and rasterize it, sized for text of the given size.
+ * Undefined when the TeX does not parse, so the caller can show the source instead.
+ */
+function renderMath(state: RenderState, tex: string, display: boolean, size: number, color: string): MathBox | undefined {
+  const key = `${display}|${size}|${color}|${tex}`;
+  if (state.math.has(key)) return state.math.get(key);
+
+  let box: MathBox | undefined;
+  try {
+    const svg = texToSvg(tex, display);
+    // The viewBox is in thousandths of an em, with the baseline at zero
+    const [, minY, viewWidth, viewHeight] = /viewBox="([^"]+)"/.exec(svg)![1].split(/\s+/).map(Number);
+    const width = viewWidth / 1000 * size;
+    const png = new Resvg(svg.replace(/currentColor/g, color), {
+      fitTo: { mode: "width", value: Math.max(1, Math.ceil(width * RASTER_SCALE)) }
+    }).render().asPng();
+    box = {
+      png: Buffer.from(png),
+      width,
+      ascent: -minY / 1000 * size,
+      descent: (viewHeight + minY) / 1000 * size
+    };
+  } catch {
+    box = undefined;
+  }
+  state.math.set(key, box);
+  return box;
+}
+
+// Flatten inline markdown tokens into styled runs of text and math
+function inlines(tokens: Token[] | undefined, style: TextStyle): Inline[] {
+  return (tokens || []).flatMap((token): Inline[] => {
+    switch (token.type) {
+      case "text":
+        return "tokens" in token && token.tokens ? inlines(token.tokens, style) : [{ kind: "text", text: token.text, style }];
+      case "escape":
+        return [{ kind: "text", text: token.text, style }];
+      case "strong":
+        return inlines(token.tokens, { ...style, bold: true });
+      case "em":
+        return inlines(token.tokens, { ...style, italic: true });
+      case "del":
+        return inlines(token.tokens, { ...style, strike: true });
+      case "codespan":
+        return [{ kind: "text", text: token.text, style: { ...style, code: true } }];
+      case "link":
+        // Only web and mail links are kept; anything else would be a dead link in a PDF
+        return inlines(token.tokens, /^(https?:|mailto:)/i.test(token.href) ? { ...style, link: token.href } : style);
+      case "br":
+        return [{ kind: "break" }];
+      case "html":
+        return /^<br\s*\/?>$/i.test(token.text.trim()) ? [{ kind: "break" }] : [];
+      case "inlineMath":
+        return [{ kind: "math", tex: token.text, style }];
+      case "image":
+        return [{ kind: "text", text: `[${token.text || "image"}]`, style: { ...style, italic: true } }];
+      case "checkbox":
+        return [];
+      default:
+        return "text" in token && typeof token.text === "string" ? [{ kind: "text", text: token.text, style }] : [];
+    }
+  });
+}
+
+function plainText(items: Inline[]): string {
+  return items.map(item => item.kind === "text" ? item.text : item.kind === "math" ? item.tex : " ").join("").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Break styled runs into lines no wider than `width`, wrapping at spaces and, for words
+ * longer than a line, anywhere
+ */
+function layoutInline(state: RenderState, items: Inline[], width: number, size: number): Line[] {
+  const { doc, theme } = state;
+  const lines: Line[] = [];
+  const newLine = (): Line => ({ boxes: [], width: 0, ascent: size * ASCENT, descent: size * DESCENT, gap: size * LINE_GAP });
+  let line = newLine();
+
+  const finishLine = () => {
+    // Trailing spaces take no room at the end of a line
+    const last = line.boxes[line.boxes.length - 1];
+    if (last?.kind === "text" && /\s$/.test(last.text)) {
+      last.text = last.text.trimEnd();
+      const trimmed = doc.font(last.font).fontSize(last.size).widthOfString(last.text);
+      line.width -= last.width - trimmed;
+      last.width = trimmed;
+    }
+    lines.push(line);
+    line = newLine();
+  };
+
+  const addText = (text: string, style: TextStyle) => {
+    const font = fontFor(theme, style);
+    const textWidth = doc.font(font).fontSize(size).widthOfString(text);
+    const last = line.boxes[line.boxes.length - 1];
+    if (last?.kind === "text" && last.font === font && JSON.stringify(last.style) === JSON.stringify(style)) {
+      last.text += text;
+      last.width += textWidth;
+    } else {
+      line.boxes.push({ kind: "text", x: line.width, width: textWidth, text, font, size, style });
+    }
+    line.width += textWidth;
+  };
+
+  for (const item of items) {
+    if (item.kind === "break") {
+      finishLine();
+      continue;
+    }
+
+    if (item.kind === "math") {
+      const math = renderMath(state, item.tex, false, size, item.style.link ? theme.link : item.style.color || theme.text);
+      if (!math) {
+        addText(item.tex, { ...item.style, code: true });
+        continue;
+      }
+      if (line.boxes.length > 0 && line.width + math.width > width) finishLine();
+      line.boxes.push({ kind: "math", x: line.width, width: math.width, math });
+      line.width += math.width;
+      line.ascent = Math.max(line.ascent, math.ascent);
+      line.descent = Math.max(line.descent, math.descent);
+      continue;
+    }
+
+    const font = fontFor(theme, item.style);
+    for (const piece of item.text.split(/(\s+)/)) {
+      if (!piece) continue;
+      if (/^\s+$/.test(piece)) {
+        if (line.boxes.length > 0) addText(" ", item.style);
+        continue;
+      }
+
+      const pieceWidth = doc.font(font).fontSize(size).widthOfString(piece);
+      if (line.boxes.length > 0 && line.width + pieceWidth > width) finishLine();
+      if (pieceWidth <= width) {
+        addText(piece, item.style);
+        continue;
+      }
+
+      // A word wider than the whole line is split wherever the line is full
+      let rest = piece;
+      while (rest) {
+        let count = rest.length;
+        while (count > 1 && line.width + doc.font(font).fontSize(size).widthOfString(rest.slice(0, count)) > width) count--;
+        addText(rest.slice(0, count), item.style);
+        rest = rest.slice(count);
+        if (rest) finishLine();
+      }
+    }
+  }
+
+  if (line.boxes.length > 0) lines.push(line);
+  return lines;
+}
+
+function linesHeight(lines: Line[]): number {
+  return lines.reduce((total, line) => total + line.ascent + line.descent + line.gap, 0);
+}
+
+/**
+ * Draw laid out lines from the current y, moving to a new page when a line does not fit
+ * unless `paginate` is off, as it is inside table cells
+ */
+function drawLines(state: RenderState, lines: Line[], options: { x?: number; width?: number; align?: "left" | "center" | "right"; paginate?: boolean } = {}) {
+  const { doc, theme } = state;
+  const x = options.x ?? state.left;
+  const width = options.width ?? state.width;
+
+  lines.forEach((line, index) => {
+    if (options.paginate !== false) ensureSpace(state, line.ascent + line.descent);
+    const top = doc.y;
+    const baseline = top + line.ascent;
+    const offset = options.align === "center" ? (width - line.width) / 2 : options.align === "right" ? width - line.width : 0;
+
+    if (index === 0 && state.marker) {
+      const markerSize = Math.min(theme.bodySize, (line.ascent) / ASCENT);
+      doc.font(theme.fonts.regular).fontSize(markerSize).fillColor(state.style.color || theme.text);
+      doc.text(state.marker, x - 6 - doc.widthOfString(state.marker), baseline, { baseline: "alphabetic", lineBreak: false });
+      state.marker = undefined;
+    }
+
+    for (const box of line.boxes) {
+      const boxX = x + offset + box.x;
+      if (box.kind === "math") {
+        doc.image(box.math.png, boxX, baseline - box.math.ascent, { width: box.width, height: box.math.ascent + box.math.descent });
+        continue;
+      }
+      if (box.style.code) {
+        doc.rect(boxX - 1, baseline - box.size * ASCENT, box.width + 2, box.size * (ASCENT + DESCENT)).fill(theme.inlineCodeBackground);
+      }
+      const color = box.style.link ? theme.link : box.style.color || theme.text;
+      doc.font(box.font).fontSize(box.size).fillColor(color);
+      doc.text(box.text, boxX, baseline, { baseline: "alphabetic", lineBreak: false });
+
+      // pdfkit only underlines and links text it wraps itself, so these are drawn here
+      if (box.style.link) {
+        doc.link(boxX, baseline - box.size * ASCENT, box.width, box.size * (ASCENT + DESCENT), box.style.link);
+      }
+      for (const offset of [box.style.link ? -box.size * 0.1 : null, box.style.strike ? box.size * 0.3 : null]) {
+        if (offset === null) continue;
+        doc.moveTo(boxX, baseline - offset).lineTo(boxX + box.width, baseline - offset).lineWidth(box.size * 0.05).strokeColor(color).stroke();
+      }
+    }
+
+    doc.y = top + line.ascent + line.descent + line.gap;
+  });
+  doc.x = state.left;
+}
+
+// Draw a list marker that has no line of text to sit beside, as for an item starting with code
+function drawPendingMarker(state: RenderState) {
+  if (!state.marker) return;
+  const { doc, theme } = state;
+  ensureSpace(state, theme.bodySize * 2);
+  doc.font(theme.fonts.regular).fontSize(theme.bodySize).fillColor(state.style.color || theme.text);
+  doc.text(state.marker, state.left - 6 - doc.widthOfString(state.marker), doc.y + theme.bodySize * ASCENT, { baseline: "alphabetic", lineBreak: false });
+  state.marker = undefined;
+}
+
+function renderText(state: RenderState, items: Inline[], spacing: number) {
+  if (items.length === 0) return;
+  drawLines(state, layoutInline(state, items, state.width, state.theme.bodySize));
+  state.doc.y += spacing;
+}
+
+function renderHeading(state: RenderState, heading: Tokens.Heading) {
+  const { doc, theme } = state;
+  const size = theme.headingSizes[heading.depth - 1];
+  const items = inlines(heading.tokens, { ...state.style, bold: true, color: state.style.color || theme.accent });
+  const lines = layoutInline(state, items, state.width, size);
+
+  // Keep a heading on the same page as the first lines under it
+  ensureSpace(state, linesHeight(lines) + size * 3);
+  if (doc.y > doc.page.margins.top) doc.y += size * 0.5;
+
+  if (!state.nested && heading.depth <= TOC_DEPTH) {
+    const text = plainText(items);
+    const destination = `section-${state.toc.length + 1}`;
+    doc.addNamedDestination(destination, "XYZ", doc.page.margins.left, doc.page.height - doc.y, 0);
+    state.toc.push({ level: heading.depth, text, page: pageNumber(doc), destination });
+
+    const parent = heading.depth > 1 ? state.outline[heading.depth - 2] ?? doc.outline : doc.outline;
+    state.outline[heading.depth - 1] = parent.addItem(text);
+    state.outline.length = heading.depth;
+  }
+
+  drawLines(state, lines);
+  if (theme.headingRule && heading.depth === 1) {
+    doc.moveTo(state.left, doc.y - size * 0.15).lineTo(state.left + state.width, doc.y - size * 0.15).lineWidth(0.8).strokeColor(theme.accent).stroke();
+    doc.y += size * 0.2;
+  }
+  doc.y += size * 0.2;
+}
+
+// Split the runs of a paragraph around its images and display math, which are drawn as blocks
+function renderParagraph(state: RenderState, tokens: Token[], spacing: number) {
+  let pending: Token[] = [];
+  const flush = (last: boolean) => {
+    renderText(state, inlines(pending, state.style), last ? spacing : state.theme.bodySize * 0.3);
+    pending = [];
+  };
+
+  for (const token of tokens) {
+    if (token.type === "image") {
+      flush(false);
+      renderImage(state, token.href, token.text);
+    } else if (token.type === "inlineMath" && token.display) {
+      flush(false);
+      renderBlockMath(state, token.text);
+    } else {
+      pending.push(token);
+    }
+  }
+  flush(true);
+}
+
+function renderBlockMath(state: RenderState, tex: string) {
+  const { doc, theme } = state;
+  const math = renderMath(state, tex, true, theme.bodySize, state.style.color || theme.text);
+  if (!math) {
+    renderCode(state, tex, undefined);
+    return;
+  }
+
+  drawPendingMarker(state);
+  const scale = Math.min(1, state.width / math.width);
+  const height = (math.ascent + math.descent) * scale;
+  ensureSpace(state, height + theme.bodySize);
+  doc.y += theme.bodySize * 0.3;
+  doc.image(math.png, state.left + (state.width - math.width * scale) / 2, doc.y, { width: math.width * scale, height });
+  doc.y += height + theme.bodySize * 0.8;
+}
+
+// PNG and JPEG go into the PDF as they are; SVG, as charts may be stored, is rasterized first
+function drawableImage(image: PdfImage): Buffer | undefined {
+  const { data } = image;
+  const isPng = data.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+  const isJpeg = data[0] === 0xff && data[1] === 0xd8;
+  if (isPng || isJpeg) return data;
+  if (image.mimeType === "image/svg+xml") {
+    return Buffer.from(new Resvg(data.toString("utf8"), {
+      fitTo: { mode: "zoom", value: 2 },
+      font: { loadSystemFonts: true, defaultFontFamily: "DejaVu Sans" }
+    }).render().asPng());
+  }
+  return undefined;
+}
+
+function imageSize(data: Buffer): { width: number; height: number } {
+  // PNG keeps its size in the header chunk
+  if (data[0] === 0x89) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  // JPEG keeps it in the first start-of-frame segment
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    const marker = data[offset + 1];
+    const length = data.readUInt16BE(offset + 2);
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + length;
+  }
+  throw new Error("Unreadable JPEG");
+}
+
+function renderImage(state: RenderState, href: string, alt: string) {
+  const { doc, theme } = state;
+  const image = state.images.get(href);
+  let data: Buffer | undefined;
+  let size: { width: number; height: number } | undefined;
+  try {
+    data = image && drawableImage(image);
+    size = data && imageSize(data);
+  } catch {
+    data = undefined;
+  }
+  if (!data || !size) {
+    renderText(state, [{ kind: "text", text: `[Image: ${alt || href}]`, style: { ...state.style, italic: true, color: theme.muted } }], theme.bodySize * 0.6);
+    return;
+  }
+
+  drawPendingMarker(state);
+  const maxHeight = (doc.page.height - doc.page.margins.top - doc.page.margins.bottom) * MAX_IMAGE_HEIGHT;
+  // Pixels are drawn at 96 per inch unless that is larger than the column
+  const scale = Math.min(0.75, state.width / size.width, maxHeight / size.height);
+  const width = size.width * scale;
+  const height = size.height * scale;
+  const caption = alt ? layoutInline(state, [{ kind: "text", text: alt, style: { italic: true, color: theme.muted } }], state.width, theme.bodySize * 0.85) : [];
+
+  ensureSpace(state, height + linesHeight(caption) + 6);
+  doc.image(data, state.left + (state.width - width) / 2, doc.y, { width, height });
+  doc.y += height + 6;
+  drawLines(state, caption, { align: "center" });
+  doc.y += theme.bodySize * 0.6;
+}
+
+interface CodeSegment {
+  text: string;
+  color: string;
+}
+
+// Colored runs of each source line, from Prism's tokens for the language
+function highlight(theme: Theme, code: string, language: string | undefined): CodeSegment[][] {
+  const grammar = prismGrammar(language);
+  const segments: CodeSegment[] = [];
+  const visit = (stream: Prism.TokenStream, color: string) => {
+    if (typeof stream === "string") {
+      segments.push({ text: stream, color });
+    } else if (Array.isArray(stream)) {
+      stream.forEach(part => visit(part, color));
+    } else {
+      const types = [stream.type, ...(Array.isArray(stream.alias) ? stream.alias : stream.alias ? [stream.alias] : [])];
+      visit(stream.content, types.map(type => theme.codeColors[type]).find(Boolean) || color);
+    }
+  };
+  visit(grammar ? Prism.tokenize(code, grammar) : code, theme.codeText);
+
+  const lines: CodeSegment[][] = [[]];
+  for (const segment of segments) {
+    segment.text.split("\n").forEach((text, index) => {
+      if (index > 0) lines.push([]);
+      if (text) lines[lines.length - 1].push({ text, color: segment.color });
+    });
+  }
+  return lines;
+}
+
+// Wrap highlighted lines at a number of characters, which is exact for a monospaced font
+function wrapCode(lines: CodeSegment[][], perLine: number): CodeSegment[][] {
+  return lines.flatMap(line => {
+    const wrapped: CodeSegment[][] = [[]];
+    let used = 0;
+    for (const segment of line) {
+      let rest = segment.text;
+      while (rest) {
+        if (used === perLine) {
+          wrapped.push([]);
+          used = 0;
+        }
+        const part = rest.slice(0, perLine - used);
+        wrapped[wrapped.length - 1].push({ text: part, color: segment.color });
+        used += part.length;
+        rest = rest.slice(part.length);
+      }
+    }
+    return wrapped;
+  });
+}
+
+function renderCode(state: RenderState, code: string, language: string | undefined) {
+  const { doc, theme } = state;
+  const size = theme.codeSize;
+  const lineHeight = size * 1.45;
+  const padding = 8;
+  drawPendingMarker(state);
+
+  doc.font(theme.fonts.mono).fontSize(size);
+  const charWidth = doc.widthOfString("M");
+  const perLine = Math.max(20, Math.floor((state.width - padding * 2) / charWidth));
+  const lines = wrapCode(highlight(theme, code.replace(/\t/g, "    ").replace(/\n$/, ""), language), perLine);
+  const label = language && prismGrammar(language) ? language.toLowerCase() : undefined;
+
+  // Long blocks continue on the next page, each part with its own background
+  let index = 0;
+  while (index < lines.length) {
+    ensureSpace(state, Math.min(3, lines.length - index) * lineHeight + padding * 2);
+    const available = pageBottom(doc) - doc.y - padding * 2;
+    const count = Math.max(1, Math.min(lines.length - index, Math.floor(available / lineHeight)));
+    const top = doc.y;
+    const height = count * lineHeight + padding * 2;
+
+    doc.roundedRect(state.left, top, state.width, height, 3).fill(theme.codeBackground);
+    if (label && index === 0) {
+      doc.font(theme.fonts.mono).fontSize(size * 0.8).fillColor(theme.codeColors.comment || theme.muted);
+      doc.text(label, state.left + state.width - padding - doc.widthOfString(label), top + 3 + size * 0.8 * ASCENT, { baseline: "alphabetic", lineBreak: false });
+    }
+
+    doc.font(theme.fonts.mono).fontSize(size);
+    lines.slice(index, index + count).forEach((line, row) => {
+      const baseline = top + padding + row * lineHeight + (lineHeight + size * (ASCENT - DESCENT)) / 2;
+      let x = state.left + padding;
+      for (const segment of line) {
+        if (segment.text.trim()) {
+          doc.fillColor(segment.color).text(segment.text, x, baseline, { baseline: "alphabetic", lineBreak: false });
+        }
+        x += charWidth * segment.text.length;
+      }
+    });
+
+    doc.y = top + height;
+    index += count;
+  }
+  doc.x = state.left;
+  doc.y += theme.bodySize * 0.7;
+}
+
+function renderList(state: RenderState, list: Tokens.List) {
+  const { theme } = state;
+  const indent = theme.bodySize * 1.6;
+  const start = typeof list.start === "number" ? list.start : 1;
+  const bullet = theme.bullets[state.listDepth % theme.bullets.length];
+
+  list.items.forEach((item, index) => {
+    const marker = item.task ? (item.checked ? "[x]" : "[ ]") : list.ordered ? `${start + index}.` : bullet;
+    renderBlocks({
+      ...state,
+      left: state.left + indent,
+      width: state.width - indent,
+      nested: true,
+      listDepth: state.listDepth + 1,
+      marker
+    }, item.tokens);
+  });
+  state.doc.y += theme.bodySize * 0.4;
+}
+
+function renderQuote(state: RenderState, quote: Tokens.Blockquote) {
+  const { doc, theme } = state;
+  const inset = theme.bodySize * 1.3;
+  const startPage = pageNumber(doc);
+  const startY = doc.y;
+
+  renderBlocks({
+    ...state,
+    left: state.left + inset,
+    width: state.width - inset,
+    nested: true,
+    style: { ...state.style, italic: true, color: theme.muted }
+  }, quote.tokens);
+
+  // The bar runs beside the quote on every page it spans
+  const endPage = pageNumber(doc);
+  const endY = doc.y - theme.bodySize * 0.5;
+  for (let page = startPage; page <= endPage; page++) {
+    doc.switchToPage(page - 1);
+    const top = page === startPage ? startY : doc.page.margins.top;
+    const bottom = page === endPage ? endY : pageBottom(doc);
+    doc.moveTo(state.left + 3, top).lineTo(state.left + 3, bottom).lineWidth(2.5).strokeColor(theme.quoteBar).stroke();
+  }
+  doc.y = endY + theme.bodySize * 0.5;
+}
+
+function renderTable(state: RenderState, table: Tokens.Table) {
+  const { doc, theme } = state;
+  const size = theme.bodySize * 0.9;
+  const padding = 5;
+  const columns = table.header.length;
+  drawPendingMarker(state);
+
+  // Columns start at the width of their widest cell and shrink in proportion when the table is too wide
+  const natural = table.header.map((header, column) => {
+    const cells = [header, ...table.rows.map(row => row[column])].filter(Boolean);
+    const widest = Math.max(...cells.map(cell =>
+      doc.font(cell.header ? theme.fonts.bold : theme.fonts.regular).fontSize(size).widthOfString(plainText(inlines(cell.tokens, {})))
+    ));
+    return Math.min(widest, state.width * 0.6) + padding * 2;
+  });
+  const total = natural.reduce((sum, width) => sum + width, 0);
+  const widths = total <= state.width
+    ? natural
+    : (() => {
+      const floored = natural.map(width => Math.max(state.width / columns * 0.5, state.width * width / total));
+      const sum = floored.reduce((total, width) => total + width, 0);
+      return floored.map(width => width * state.width / sum);
+    })();
+
+  const layoutRow = (cells: Tokens.TableCell[], header: boolean) => widths.map((width, column) => layoutInline(
+    state,
+    inlines(cells[column]?.tokens, header ? { bold: true, color: theme.tableHeaderText } : {}),
+    width - padding * 2,
+    size
+  ));
+  const rowHeight = (cells: Line[][]) => Math.max(...cells.map(linesHeight)) + padding * 2 - size * LINE_GAP;
+
+  const drawRow = (cells: Line[][], fill: string | null) => {
+    const top = doc.y;
+    const height = rowHeight(cells);
+    let x = state.left;
+    cells.forEach((lines, column) => {
+      if (fill) doc.rect(x, top, widths[column], height).fill(fill);
+      doc.rect(x, top, widths[column], height).lineWidth(0.5).strokeColor(theme.tableBorder).stroke();
+      doc.y = top + padding;
+      drawLines(state, lines, { x: x + padding, width: widths[column] - padding * 2, align: table.align[column] || "left", paginate: false });
+      x += widths[column];
+    });
+    doc.y = top + height;
+  };
+
+  const header = layoutRow(table.header, true);
+  const rows = table.rows.map(row => layoutRow(row, false));
+  ensureSpace(state, rowHeight(header) + (rows[0] ? rowHeight(rows[0]) : 0));
+  doc.y += size * 0.3;
+  drawRow(header, theme.tableHeaderFill);
+
+  // The header is repeated on every page the table continues on
+  rows.forEach((row, index) => {
+    if (doc.y + rowHeight(row) > pageBottom(doc)) {
+      doc.addPage();
+      drawRow(header, theme.tableHeaderFill);
+    }
+    drawRow(row, theme.tableStripe && index % 2 === 1 ? theme.tableStripe : null);
+  });
+  doc.x = state.left;
+  doc.y += theme.bodySize * 0.9;
+}
+
+function renderBlocks(state: RenderState, tokens: Token[]) {
+  const { doc, theme } = state;
+  for (const token of tokens) {
+    switch (token.type) {
+      case "heading":
+        renderHeading(state, token as Tokens.Heading);
+        break;
+      case "paragraph":
+        renderParagraph(state, token.tokens || [], theme.bodySize * 0.6);
+        break;
+      // Items of tight lists hold text without a paragraph around it
+      case "text":
+        renderParagraph(state, token.tokens || [{ type: "text", raw: token.raw, text: token.text }], theme.bodySize * 0.2);
+        break;
+      case "list":
+        renderList(state, token as Tokens.List);
+        break;
+      case "code":
+        renderCode(state, token.text, token.lang);
+        break;
+      case "blockquote":
+        renderQuote(state, token as Tokens.Blockquote);
+        break;
+      case "table":
+        renderTable(state, token as Tokens.Table);
+        break;
+      case "blockMath":
+        renderBlockMath(state, token.text);
+        break;
+      case "hr":
+        ensureSpace(state, theme.bodySize * 2);
+        doc.y += theme.bodySize * 0.5;
+        doc.moveTo(state.left, doc.y).lineTo(state.left + state.width, doc.y).lineWidth(0.5).strokeColor(theme.muted).stroke();
+        doc.y += theme.bodySize;
+        break;
+      case "html": {
+        const text = token.text.replace(/<!--[\s\S]*?-->|<[^>]+>/g, "").trim();
+        renderText(state, text ? [{ kind: "text", text, style: state.style }] : [], theme.bodySize * 0.6);
+        break;
+      }
+      default:
+        break;
+    }
+  }
+}
+
+function renderTitle(state: RenderState, title: string) {
+  const { doc, theme } = state;
+  doc.font(theme.fonts.bold).fontSize(theme.titleSize).fillColor(theme.accent);
+  doc.text(title, state.left, doc.y, { width: state.width });
+  doc.moveDown(0.3);
+  doc.font(theme.fonts.regular).fontSize(theme.bodySize * 0.9).fillColor(theme.muted);
+  doc.text(new Date().toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" }), state.left, doc.y, { width: state.width });
+  doc.y += theme.bodySize * 0.6;
+  doc.moveTo(state.left, doc.y).lineTo(state.left + state.width, doc.y).lineWidth(1.2).strokeColor(theme.accent).stroke();
+  doc.y += theme.bodySize * 1.6;
+  doc.x = state.left;
+}
+
+// Leave room for the table of contents once the number of entries is known
+function reserveContents(state: RenderState, entries: number): { page: number; top: number } {
+  const { doc, theme } = state;
+  doc.font(theme.fonts.bold).fontSize(theme.headingSizes[0]).fillColor(theme.accent);
+  doc.text("Contents", state.left, doc.y, { width: state.width });
+  doc.y += theme.bodySize * 0.5;
+
+  const top = doc.y;
+  const perPage = Math.floor((pageBottom(doc) - doc.page.margins.top) / TOC_ENTRY_HEIGHT);
+  const onFirstPage = Math.floor((pageBottom(doc) - top) / TOC_ENTRY_HEIGHT);
+  const extraPages = Math.ceil(Math.max(0, entries - onFirstPage) / perPage);
+  const page = pageNumber(doc);
+  for (let index = 0; index <= extraPages; index++) doc.addPage();
+  return { page, top };
+}
+
+function drawContents(state: RenderState, start: { page: number; top: number }) {
+  const { doc, theme } = state;
+  let page = start.page;
+  let y = start.top;
+  doc.switchToPage(page - 1);
+
+  for (const entry of state.toc) {
+    if (y + TOC_ENTRY_HEIGHT > pageBottom(doc)) {
+      page++;
+      doc.switchToPage(page - 1);
+      y = doc.page.margins.top;
+    }
+    const indent = (entry.level - 1) * 14;
+    const font = entry.level === 1 ? theme.fonts.bold : theme.fonts.regular;
+    const number = String(entry.page);
+    doc.font(font).fontSize(TOC_SIZE);
+    const numberWidth = doc.widthOfString(number);
+    const room = state.width - indent - numberWidth - 16;
+
+    let text = entry.text;
+    if (doc.widthOfString(text) > room) {
+      while (text && doc.widthOfString(`${text}…`) > room) text = text.slice(0, -1);
+      text = `${text.trimEnd()}…`;
+    }
+    const baseline = y + TOC_SIZE * ASCENT;
+    doc.fillColor(theme.text).text(text, state.left + indent, baseline, { baseline: "alphabetic", lineBreak: false });
+    doc.fillColor(theme.muted).text(number, state.left + state.width - numberWidth, baseline, { baseline: "alphabetic", lineBreak: false });
+    doc.goTo(state.left + indent, y, state.width - indent, TOC_ENTRY_HEIGHT, entry.destination);
+    y += TOC_ENTRY_HEIGHT;
+  }
+}
+
+// Page numbers, and the title on every page after the first
+function drawFooters(state: RenderState, title: string) {
+  const { doc, theme } = state;
+  const range = doc.bufferedPageRange();
+  for (let index = range.start; index < range.start + range.count; index++) {
+    doc.switchToPage(index);
+    const baseline = doc.page.height - MARGIN / 2;
+    doc.font(theme.fonts.regular).fontSize(8.5).fillColor(theme.muted);
+
+    const label = `Page ${index + 1} of ${range.count}`;
+    doc.text(label, state.left + state.width - doc.widthOfString(label), baseline, { baseline: "alphabetic", lineBreak: false });
+    if (index > 0) {
+      let text = title;
+      while (text.length > 1 && doc.widthOfString(text) > state.width * 0.6) text = text.slice(0, -2);
+      doc.text(text === title ? text : `${text.trimEnd()}…`, state.left, baseline, { baseline: "alphabetic", lineBreak: false });
+    }
+  }
+}
+
+/**
+ * Render a report to PDF: markdown headings, lists, tables, highlighted code, LaTeX math and
+ * images from the images table, with page numbers, a linked table of contents and an outline.
+ */
+export async function renderPdfReport(report: PdfReport, loadImage: ReportImageLoader): Promise<{ data: Buffer; pageCount: number }> {
+  const theme = THEMES[report.theme || "classic"];
+  const source = [report.content, ...(report.sections || []).map(section => `# ${section.heading}\n\n${section.content}`)]
+    .filter(part => part.trim())
+    .join("\n\n");
+  const tokens = markdown.lexer(source);
+
+  // Images are loaded before drawing starts, so the layout itself stays synchronous
+  const images = new Map<string, PdfImage | undefined>();
+  markdown.walkTokens(tokens, token => {
+    if (token.type === "image") images.set(token.href, undefined);
+  });
+  for (const href of Array.from(images.keys())) {
+    const match = IMAGE_URL.exec(href);
+    if (match) images.set(href, await loadImage(Number(match[1])));
+  }
+
+  const headings = tokens.filter(token => token.type === "heading" && token.depth <= TOC_DEPTH).length;
+  const withContents = report.tableOfContents ?? headings >= 3;
+
+  const doc = new PDFDocument({
+    bufferPages: true,
+    margin: MARGIN,
+    displayTitle: true,
+    info: { Title: report.title, Creator: "Infonex" }
+  });
+  for (const [name, file] of Object.entries(theme.fontFiles || {})) {
+    doc.registerFont(name, file);
+  }
+  const chunks: Buffer[] = [];
+  doc.on("data", chunk => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const state: RenderState = {
+    doc,
+    theme,
+    left: MARGIN,
+    width: doc.page.width - MARGIN * 2,
+    style: {},
+    nested: false,
+    listDepth: 0,
+    images,
+    math: new Map(),
+    toc: [],
+    outline: []
+  };
+
+  renderTitle(state, report.title);
+  const contents = withContents && headings > 0 ? reserveContents(state, headings) : undefined;
+  renderBlocks(state, tokens);
+  if (contents) drawContents(state, contents);
+  drawFooters(state, report.title);
+
+  const pageCount = doc.bufferedPageRange().count;
+  doc.end();
+  return { data: await finished, pageCount };
+}
@@ -0,0 +1,26 @@
+import type { ModelId, TokenUsage } from "@shared/schema";
+
+interface ModelPrice {
+  // USD per million tokens
+  input: number;
+  output: number;
+}
+
+// List prices of the upstream models; the OpenRouter models are served from free endpoints
+const MODEL_PRICES: Record<ModelId, ModelPrice> = {
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "deepseek-r1": { input: 0, output: 0 },
+  "llama-4-maverick": { input: 0, output: 0 }
+};
+
+/**
+ * Estimated cost in USD of the given token usage on a model
+ */
+export function estimateCost(model: ModelId, tokens: TokenUsage): number {
+  const price = MODEL_PRICES[model];
+  return (tokens.promptTokens * price.input + tokens.completionTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,132 @@
+import type { Request, Response } from "express";
+import { planIds, type InsertPlan, type Plan, type PlanId, type QuotaKind, type UsageStatus } from "@shared/schema";
+import { storage, type UsageCounter, type UsageSubject } from "../storage";
+
+// Limits each plan starts with; once created, the rows in the plans table are authoritative
+const DEFAULT_PLANS: Record<PlanId, InsertPlan> = {
+  anonymous: {
+    id: "anonymous",
+    label: "Anonymous",
+    dailyMessages: 10,
+    dailyImages: 0,
+    dailyUploads: 0,
+    dailyTokens: 200_000
+  },
+  free: {
+    id: "free",
+    label: "Free",
+    dailyMessages: 100,
+    dailyImages: 10,
+    dailyUploads: 25,
+    dailyTokens: 2_000_000
+  },
+  pro: {
+    id: "pro",
+    label: "Pro",
+    dailyMessages: 1_000,
+    dailyImages: 100,
+    dailyUploads: 250,
+    dailyTokens: 20_000_000
+  }
+};
+
+const quotaColumns: Record<QuotaKind, { counter: UsageCounter; limit: keyof Plan }> = {
+  messages: { counter: "messageCount", limit: "dailyMessages" },
+  images: { counter: "imageCount", limit: "dailyImages" },
+  uploads: { counter: "uploadCount", limit: "dailyUploads" },
+  tokens: { counter: "tokenCount", limit: "dailyTokens" }
+};
+
+/**
+ * Counts one request's use of the caller's daily quotas
+ */
+export interface UsageMeter {
+  plan: Plan;
+  // Count uses of a limited resource; returns false, counting nothing, when that would exceed the quota
+  consume(kind: QuotaKind, amount?: number): Promise<boolean>;
+  // Count usage that already happened, such as model tokens, even past the quota
+  record(kind: QuotaKind, amount: number): Promise<void>;
+  status(): Promise<UsageStatus>;
+}
+
+// Quotas reset at midnight UTC
+function getTodayDate() {
+  return new Date().toISOString().split("T")[0];
+}
+
+function getNextReset() {
+  const reset = new Date();
+  reset.setUTCHours(24, 0, 0, 0);
+  return reset.toISOString();
+}
+
+/**
+ * The client address as resolved by Express (which honours the trust proxy setting),
+ * with IPv4-mapped IPv6 addresses reduced to plain IPv4
+ */
+export function getClientIP(req: Request): string {
+  const ip = req.ip || req.socket.remoteAddress || "127.0.0.1";
+  return ip.startsWith("::ffff:") ? ip.slice("::ffff:".length) : ip;
+}
+
+async function getPlan(planId: PlanId): Promise<Plan> {
+  return (await storage.getPlan(planId)) || (await storage.createPlanIfMissing(DEFAULT_PLANS[planId]));
+}
+
+function getPlanId(req: Request): PlanId {
+  if (!req.user) return "anonymous";
+  return (planIds as readonly string[]).includes(req.user.plan) ? req.user.plan as PlanId : "free";
+}
+
+/**
+ * Meter for the caller of a request: signed-in users are counted per account on their
+ * plan, everyone else per IP address on the anonymous plan
+ */
+export async function createUsageMeter(req: Request): Promise<UsageMeter> {
+  const plan = await getPlan(getPlanId(req));
+  const subject: UsageSubject = req.user ? { userId: req.user.id } : { ipAddress: getClientIP(req) };
+
+  return {
+    plan,
+
+    async consume(kind, amount = 1) {
+      const { counter, limit } = quotaColumns[kind];
+      const usage = await storage.incrementDailyUsage(subject, getTodayDate(), counter, amount, plan[limit] as number);
+      return usage !== undefined;
+    },
+
+    async record(kind, amount) {
+      if (amount <= 0) return;
+      await storage.incrementDailyUsage(subject, getTodayDate(), quotaColumns[kind].counter, amount);
+    },
+
+    async status() {
+      const usage = await storage.getDailyUsage(subject, getTodayDate());
+      const quotas = {} as UsageStatus["quotas"];
+      for (const [kind, { counter, limit }] of Object.entries(quotaColumns) as Array<[QuotaKind, typeof quotaColumns[QuotaKind]]>) {
+        const used = usage?.[counter] || 0;
+        const max = plan[limit] as number;
+        quotas[kind] = { used, limit: max, remaining: Math.max(0, max - used) };
+      }
+
+      return {
+        plan: plan.id as PlanId,
+        planLabel: plan.label,
+        resetsAt: getNextReset(),
+        quotas
+      };
+    }
+  };
+}
+
+/**
+ * Report the caller's remaining quotas in X-Quota-* response headers
+ */
+export function setQuotaHeaders(res: Response, status: UsageStatus) {
+  res.setHeader("X-Quota-Plan", status.plan);
+  res.setHeader("X-Quota-Reset", status.resetsAt);
+  res.setHeader("X-Quota-Messages-Remaining", status.quotas.messages.remaining.toString());
+  res.setHeader("X-Quota-Images-Remaining", status.quotas.images.remaining.toString());
+  res.setHeader("X-Quota-Uploads-Remaining", status.quotas.uploads.remaining.toString());
+  res.setHeader("X-Quota-Tokens-Remaining", status.quotas.tokens.remaining.toString());
+}
@@ -0,0 +1,106 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { runSandboxedCode } from "./sandbox";
+
+// Hosts without unprivileged user namespaces refuse to run snippets at all
+const probe = await runSandboxedCode("python", "pass");
+const skip = probe.stderr.startsWith("Code execution is unavailable") && "this host cannot build the sandbox";
+
+// A file every checkout has, read by absolute path as an escaping snippet would
+const REPO_FILE = new URL("../../package.json", import.meta.url).pathname;
+
+// Start a process below the interpreter without going through subprocess and its audit events
+const forkExec = (argv: string[]) => `
+import _posixsubprocess, os
+out_r, out_w = os.pipe()
+err_r, err_w = os.pipe()
+pid = _posixsubprocess.fork_exec(${JSON.stringify(argv)}, [${JSON.stringify(argv[0])}.encode()], True, (err_w,), None, None,
+    -1, -1, -1, out_w, -1, out_w, err_r, err_w, False, False, -1, None, None, None, -1, None, False)
+os.close(out_w)
+os.close(err_w)
+output = b""
+while chunk := os.read(out_r, 65536):
+    output += chunk
+print(output.decode())
+os.waitpid(pid, 0)
+`;
+
+describe("runSandboxedCode", { skip }, () => {
+  it("runs python and javascript and reports their output", async () => {
+    const python = await runSandboxedCode("python", "print(sum(range(10)))");
+    assert.equal(python.stdout, "45\n");
+    assert.equal(python.exitCode, 0);
+
+    const javascript = await runSandboxedCode("javascript", "console.log([1, 2, 3].map(n => n * 2).join(','))");
+    assert.equal(javascript.stdout, "2,4,6\n");
+    assert.equal(javascript.exitCode, 0);
+  });
+
+  it("keeps the exit status of the snippet", async () => {
+    const result = await runSandboxedCode("python", "import sys; sys.exit(3)");
+    assert.equal(result.exitCode, 3);
+  });
+
+  it("does not let a process started with fork_exec see the server's files", async () => {
+    const result = await runSandboxedCode("python", forkExec(["/bin/cat", REPO_FILE]));
+    assert.doesNotMatch(result.stdout, /rest-express/);
+    assert.match(result.stdout, /No such file or directory/);
+  });
+
+  it("gives processes a read-only root holding only the runtime and an empty /tmp", async () => {
+    const result = await runSandboxedCode("python", forkExec(["/bin/sh", "-c", "ls /tmp /etc; touch /usr/escape; echo ok > /tmp/note && cat /tmp/note"]));
+    assert.match(result.stdout, /\/etc.*No such file or directory/);
+    assert.match(result.stdout, /Read-only file system/);
+    assert.match(result.stdout, /^ok$/m);
+  });
+
+  it("drops every capability, so the sandbox cannot mount or chroot its way out", async () => {
+    const result = await runSandboxedCode("python", forkExec(["/bin/sh", "-c", "grep CapEff /proc/self/status; mount -t tmpfs x /tmp || echo mount refused"]));
+    assert.match(result.stdout, /CapEff:\s+0+\n/);
+    assert.match(result.stdout, /mount refused/);
+  });
+
+  it("refuses native code loaded through ctypes", async () => {
+    const result = await runSandboxedCode("python", `
+import ctypes
+libc = ctypes.CDLL(None)
+print(libc.open(${JSON.stringify(REPO_FILE)}.encode(), 0))
+`);
+    assert.notEqual(result.exitCode, 0);
+    assert.match(result.stderr, /not allowed in the sandbox/);
+  });
+
+  it("keeps snippets off the network", async () => {
+    const result = await runSandboxedCode("python", forkExec(["/bin/cat", "/proc/net/dev"]));
+    const interfaces = result.stdout.split("\n").filter(line => line.includes(":")).map(line => line.split(":")[0].trim());
+    assert.deepEqual(interfaces, ["lo"]);
+  });
+
+  it("caps the memory of javascript typed arrays, not just the V8 heap", async () => {
+    const result = await runSandboxedCode("javascript", `
+const chunks = [];
+try {
+  for (let i = 0; i < 4; i++) chunks.push(new Uint8Array(128 * 1024 * 1024).fill(1));
+} catch (error) {
+  console.log(error.message);
+}
+console.log("allocated MB", chunks.length * 128);
+`, { memoryMb: 256 });
+    assert.match(result.stdout, /allocation failed/);
+    assert.doesNotMatch(result.stdout, /allocated MB 512/);
+  });
+
+  it("caps python memory", async () => {
+    const result = await runSandboxedCode("python", "data = bytearray(512 * 1024 * 1024)", { memoryMb: 256 });
+    assert.match(result.stderr, /MemoryError/);
+  });
+
+  it("stops snippets at the CPU and wall-clock limits", async () => {
+    const cpu = await runSandboxedCode("python", "while True: pass", { cpuSeconds: 1 });
+    assert.equal(cpu.exitCode, null);
+    assert.match(cpu.stderr, /CPU time limit of 1s exceeded/);
+
+    const wallClock = await runSandboxedCode("python", "import time; time.sleep(5)", { wallClockMs: 500 });
+    assert.equal(wallClock.timedOut, true);
+  });
+});
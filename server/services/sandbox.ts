@@ -0,0 +1,335 @@
+import { execFile, spawn } from "child_process";
+import { realpathSync } from "fs";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import type { CodeExecutionResult, SandboxLanguage } from "@shared/schema";
+import { log } from "../vite";
+
+export interface SandboxLimits {
+  cpuSeconds: number;
+  memoryMb: number;
+  wallClockMs: number;
+  maxOutputBytes: number;
+}
+
+const DEFAULT_LIMITS: SandboxLimits = {
+  cpuSeconds: 5,
+  memoryMb: 256,
+  wallClockMs: 10_000,
+  maxOutputBytes: 64 * 1024
+};
+
+// Interpreter used for Python snippets; must be reachable on PATH or given as an absolute path
+const PYTHON_BIN = process.env.SANDBOX_PYTHON || "python3";
+
+// Snippets run in new user, network, PID and mount namespaces: the only network interface is a
+// loopback that is down, and /proc shows the snippet's own processes only. Needs unprivileged
+// user namespaces (or root); without them code execution is refused rather than run unisolated.
+const ISOLATION_COMMAND = ["unshare", "--user", "--map-root-user", "--net", "--pid", "--fork", "--kill-child", "--mount"];
+
+// Size of the snippet's writable /tmp, which is held in memory
+const SANDBOX_TMP_MB = 16;
+
+// V8 reserves about 200 MB of address space before the heap even with the JIT off, so node's
+// address space cap is the memory limit plus this allowance
+const NODE_ADDRESS_SPACE_MB = 256;
+
+const UNISOLATED_MESSAGE = "Code execution is unavailable: this server cannot isolate snippets from its network and processes";
+
+/**
+ * Runs as root of the new namespaces, before the snippet. Builds a root file system in memory
+ * that holds /usr and the runtime's install directory read-only, a few devices, a private /proc
+ * and an empty /tmp, pivots into it and detaches the server's file system, then drops every
+ * capability and runs the snippet under the resource limits. Arguments: the directory to build
+ * the root on, the runtime directories outside /usr separated by ":", the ulimit commands and
+ * the command to run.
+ */
+const ROOT_SETUP = `
+set -e
+root="$1"; binds="$2"; limits="$3"
+shift 3
+mount -t tmpfs -o size=1m,mode=755 sandbox "$root"
+bind_ro() {
+  mkdir -p "$root$1"
+  mount --rbind "$1" "$root$1"
+  mount -o remount,bind,ro "$root$1"
+}
+bind_ro /usr
+for dir in /bin /sbin /lib /lib32 /lib64; do
+  if [ -L "$dir" ]; then ln -s "$(readlink "$dir")" "$root$dir"; elif [ -d "$dir" ]; then bind_ro "$dir"; fi
+done
+IFS=:
+for dir in $binds; do bind_ro "$dir"; done
+unset IFS
+mkdir "$root/dev" "$root/proc" "$root/tmp" "$root/.host"
+for device in null zero random urandom; do
+  touch "$root/dev/$device"
+  mount --bind "/dev/$device" "$root/dev/$device"
+done
+mount -t proc proc "$root/proc"
+mount -t tmpfs -o size=${SANDBOX_TMP_MB}m,mode=1777 tmp "$root/tmp"
+cd "$root"
+pivot_root . .host
+umount -l /.host
+rmdir /.host
+mount -o remount,bind,ro /
+cd /tmp
+exec setpriv --bounding-set=-all --inh-caps=-all --no-new-privs /bin/sh -c "$limits; \\"\\$0\\" \\"\\$@\\"" "$@"
+`;
+
+/**
+ * Runs in the child node process. The snippet executes in a fresh vm context that only
+ * exposes console. A vm context is not a security boundary and code can reach the real
+ * process from it, so the runner only removes the obvious globals; the node permission model
+ * denies file system access, child processes and workers, and the sandbox's namespaces and
+ * root file system keep it off the network and away from the server's files.
+ */
+const JS_RUNNER = `
+const vm = require("vm");
+const util = require("util");
+const blocked = () => { throw new Error("Not allowed in the sandbox"); };
+for (const name of ["require", "module", "fetch", "WebSocket", "EventSource"]) {
+  delete globalThis[name];
+}
+process.binding = process._linkedBinding = process.dlopen = process.getBuiltinModule = blocked;
+let code = "";
+process.stdin.setEncoding("utf8");
+process.stdin.on("data", chunk => { code += chunk; });
+process.stdin.on("end", () => {
+  const format = args => args.map(arg => typeof arg === "string" ? arg : util.inspect(arg)).join(" ") + "\\n";
+  const out = (...args) => { process.stdout.write(format(args)); };
+  const err = (...args) => { process.stderr.write(format(args)); };
+  const sandbox = { console: { log: out, info: out, debug: out, warn: err, error: err } };
+  try {
+    const result = vm.runInNewContext(code, sandbox, { filename: "snippet.js" });
+    if (result !== undefined) process.stdout.write(format([result]));
+  } catch (error) {
+    process.stderr.write((error && error.stack) || String(error));
+    process.exitCode = 1;
+  }
+});
+`;
+
+/**
+ * Runs in the child python process. An audit hook (which cannot be removed once installed)
+ * rejects network access, process creation, native code loading, anything under /proc and any
+ * file access outside the interpreter's own standard library. The hook only turns away the
+ * obvious calls; what keeps a snippet from the server's files is the sandbox's root file
+ * system, which holds nothing else.
+ */
+const PYTHON_RUNNER = `
+import os
+import sys
+def install_guard():
+    realpath = os.path.realpath
+    allowed_prefixes = tuple({realpath(p) + os.sep for p in (sys.prefix, sys.base_prefix, sys.exec_prefix, sys.base_exec_prefix)})
+    def readable(path):
+        if isinstance(path, bytes):
+            path = os.fsdecode(path)
+        if not isinstance(path, str):
+            return False
+        resolved = realpath(path) + os.sep
+        return not resolved.startswith("/proc/") and resolved.startswith(allowed_prefixes)
+    blocked_prefixes = ("socket.", "subprocess.", "os.system", "os.exec", "os.posix_spawn", "os.spawn", "os.fork", "os.kill", "os.remove", "os.rename", "os.rmdir", "os.mkdir", "os.chmod", "os.chown", "os.link", "os.symlink", "os.truncate", "os.chdir", "shutil.", "ctypes.", "urllib.", "http.", "ftplib.", "smtplib.", "webbrowser.", "pty.")
+    def guard(event, args):
+        if event == "open":
+            path, mode = args[0], args[1]
+            writing = isinstance(mode, str) and any(flag in mode for flag in "wax+")
+            if writing or not readable(path):
+                raise PermissionError("File system access is not allowed in the sandbox")
+        elif event in ("os.listdir", "os.scandir"):
+            # The import system lists standard library directories to find modules
+            if not readable(args[0]):
+                raise PermissionError("File system access is not allowed in the sandbox")
+        elif event.startswith(blocked_prefixes):
+            raise PermissionError(event + " is not allowed in the sandbox")
+    sys.addaudithook(guard)
+code = sys.stdin.read()
+install_guard()
+del install_guard
+exec(compile(code, "snippet.py", "exec"), {"__name__": "__main__"})
+`;
+
+interface Runtime {
+  // Interpreter with symlinks resolved, as the sandbox's root has no shims or links to it
+  executable: string;
+  // Install directory mounted into the sandbox, unless it is under /usr
+  prefix: string;
+}
+
+function nodeRuntime(): Runtime {
+  const executable = realpathSync(process.execPath);
+  return { executable, prefix: path.dirname(path.dirname(executable)) };
+}
+
+let pythonRuntime: Promise<Runtime> | undefined;
+
+// Where the configured python really lives, asked of the interpreter once
+function resolvePythonRuntime(): Promise<Runtime> {
+  pythonRuntime ??= promisify(execFile)(PYTHON_BIN, ["-I", "-S", "-c", "import os, sys; print(os.path.realpath(sys.executable)); print(os.path.realpath(sys.base_prefix))"])
+    .then(({ stdout }) => {
+      const [executable, prefix] = stdout.trim().split("\n");
+      return { executable, prefix };
+    });
+  return pythonRuntime;
+}
+
+function buildCommand(language: SandboxLanguage, runtime: Runtime, limits: SandboxLimits): string[] {
+  if (language === "python") {
+    return [runtime.executable, "-I", "-S", "-c", PYTHON_RUNNER];
+  }
+
+  // Without the JIT V8 skips its 512 MB code range, which leaves room for an address space
+  // cap that also covers typed arrays and Buffers; wasm would reserve far more, so it is off
+  return [
+    runtime.executable,
+    "--experimental-permission",
+    "--no-warnings",
+    "--jitless",
+    "--no-expose-wasm",
+    `--max-old-space-size=${limits.memoryMb}`,
+    "-e",
+    JS_RUNNER
+  ];
+}
+
+// unshare arguments that run a command inside the sandbox under the given ulimit commands
+function sandboxArgs(runtime: Runtime, ulimits: string[], command: string[]): string[] {
+  const binds = runtime.prefix === "/usr" || runtime.prefix.startsWith("/usr/") ? "" : runtime.prefix;
+  const [, ...isolationArgs] = ISOLATION_COMMAND;
+  return [...isolationArgs, "/bin/sh", "-c", ROOT_SETUP, "sandbox-setup", os.tmpdir(), binds, ulimits.join("; ") || ":", ...command];
+}
+
+// A shell reports a command killed by a signal as exit status 128 + the signal number
+function signalFromStatus(status: number | null): string | undefined {
+  if (status === null || status <= 128) return undefined;
+  return Object.entries(os.constants.signals).find(([, number]) => number === status - 128)?.[0];
+}
+
+let isolationCheck: Promise<boolean> | undefined;
+
+/**
+ * Whether this host can build the sandbox, checked once by running `true` in it
+ */
+function isolationAvailable(): Promise<boolean> {
+  isolationCheck ??= new Promise((resolve) => {
+    const probe = spawn(ISOLATION_COMMAND[0], sandboxArgs(nodeRuntime(), [], ["true"]), { stdio: ["ignore", "ignore", "pipe"] });
+    let stderr = "";
+    probe.stderr.on("data", (chunk: Buffer) => { stderr += chunk.toString("utf8"); });
+    probe.on("error", (error) => {
+      log(`Sandbox isolation is unavailable: ${error.message}`, "error");
+      resolve(false);
+    });
+    probe.on("close", (exitCode) => {
+      if (exitCode !== 0) log(`Sandbox isolation is unavailable: setup exited with ${exitCode}: ${stderr.trim()}`, "error");
+      resolve(exitCode === 0);
+    });
+  });
+  return isolationCheck;
+}
+
+/**
+ * Run a code snippet in a separate, resource-limited and isolated process and capture its
+ * output. CPU time and address space are capped with ulimit, and the process is killed once
+ * the wall-clock limit passes. The child runs with an empty environment so no server secrets
+ * are visible to it, in its own namespaces so it has no network and cannot see the server's
+ * processes, and on a root file system holding only its runtime and an empty /tmp.
+ */
+export async function runSandboxedCode(
+  language: SandboxLanguage,
+  code: string,
+  overrides: Partial<SandboxLimits> = {}
+): Promise<CodeExecutionResult> {
+  const limits = { ...DEFAULT_LIMITS, ...overrides };
+  if (!(await isolationAvailable())) {
+    return { language, stdout: "", stderr: UNISOLATED_MESSAGE, exitCode: null, timedOut: false, truncated: false, durationMs: 0 };
+  }
+
+  let runtime: Runtime;
+  try {
+    runtime = language === "python" ? await resolvePythonRuntime() : nodeRuntime();
+  } catch (error: any) {
+    log(`Sandbox failed to find ${language}: ${error.message}`, "error");
+    return { language, stdout: "", stderr: `Could not start the ${language} runtime: ${error.message}`, exitCode: null, timedOut: false, truncated: false, durationMs: 0 };
+  }
+
+  // The hard CPU limit sits a second above the soft one so the child gets SIGXCPU first
+  const addressSpaceMb = language === "python" ? limits.memoryMb : limits.memoryMb + NODE_ADDRESS_SPACE_MB;
+  const ulimits = [`ulimit -St ${limits.cpuSeconds}`, `ulimit -Ht ${limits.cpuSeconds + 1}`, `ulimit -v ${addressSpaceMb * 1024}`];
+
+  return new Promise((resolve) => {
+    const startedAt = Date.now();
+    // The limits are set inside the sandbox so they apply to the snippet and not to its setup,
+    // and the shell waits for the snippet so a signal that stops it comes back as its status
+    const child = spawn(ISOLATION_COMMAND[0], sandboxArgs(runtime, ulimits, buildCommand(language, runtime, limits)), {
+      cwd: os.tmpdir(),
+      env: { PATH: process.env.PATH || "/usr/bin:/bin" },
+      stdio: ["pipe", "pipe", "pipe"]
+    });
+
+    let stdout = "";
+    let stderr = "";
+    let truncated = false;
+    let timedOut = false;
+
+    const collect = (current: string, chunk: Buffer) => {
+      const next = current + chunk.toString("utf8");
+      if (Buffer.byteLength(next) > limits.maxOutputBytes) {
+        truncated = true;
+        return next.slice(0, limits.maxOutputBytes);
+      }
+      return next;
+    };
+
+    child.stdout.on("data", (chunk: Buffer) => { stdout = collect(stdout, chunk); });
+    child.stderr.on("data", (chunk: Buffer) => { stderr = collect(stderr, chunk); });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill("SIGKILL");
+    }, limits.wallClockMs);
+
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      log(`Sandbox failed to start ${language}: ${error.message}`, "error");
+      resolve({
+        language,
+        stdout,
+        stderr: `Could not start the ${language} runtime: ${error.message}`,
+        exitCode: null,
+        timedOut: false,
+        truncated,
+        durationMs: Date.now() - startedAt
+      });
+    });
+
+    child.on("close", (status, killSignal) => {
+      clearTimeout(timer);
+      const signal = killSignal || signalFromStatus(status);
+      const exitCode = signal ? null : status;
+      if (timedOut) {
+        stderr += `\nExecution stopped after ${limits.wallClockMs / 1000}s`;
+      } else if (signal === "SIGXCPU") {
+        stderr += `\nExecution stopped: CPU time limit of ${limits.cpuSeconds}s exceeded`;
+      } else if (signal) {
+        stderr += `\nExecution stopped by ${signal}`;
+      }
+
+      resolve({
+        language,
+        stdout,
+        stderr,
+        exitCode,
+        timedOut,
+        truncated,
+        durationMs: Date.now() - startedAt
+      });
+    });
+
+    child.stdin.on("error", () => {
+      // The process may exit before reading all of its input
+    });
+    child.stdin.end(code);
+  });
+}
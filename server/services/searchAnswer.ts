@@ -0,0 +1,225 @@
+import type { ChatCompletionRequest, MessageCitation, ModelId, SearchAnswerRequest, TokenUsage, WebSearchHit, WebSearchResult, WebSearchSource } from "@shared/schema";
+import { log } from "../vite";
+import { toCitations } from "./citations";
+import { buildChatContext } from "./contextWindow";
+import { generateOpenAIMiniResponse } from "./openai";
+import { fetchPage } from "./pageFetcher";
+import { estimateCost } from "./pricing";
+import { recordModelUsage } from "./usageRecords";
+import { webSearch } from "./webSearch";
+
+type ChatMessage = ChatCompletionRequest["messages"][number];
+
+const REWRITE_MODEL: ModelId = "gpt-5-nano";
+export const SEARCH_ANSWER_MODEL: ModelId = "gpt-5-mini";
+
+// Search results kept once duplicates are dropped; each one becomes a numbered source
+const MAX_SOURCES = 6;
+// Sources whose pages are read; the others are cited from their search snippets
+const MAX_FETCHED_PAGES = 3;
+// Characters of a page's text given to the model
+const MAX_PAGE_CHARS = 6_000;
+// Latest turns the query rewriter sees
+const REWRITE_TURNS = 6;
+
+const REWRITE_PROMPT = "You turn the user's latest message into a single web search query. Resolve pronouns and " +
+  "references from the conversation, keep names, numbers and dates, and drop filler words. Answer with the query " +
+  "only, on one line, without quotes.";
+
+const ANSWER_PROMPT = "Answer the user's question from the numbered web sources below. Cite each statement taken " +
+  "from a source by its number in square brackets, like [1] or [2][3], and only cite numbers listed below. Prefer " +
+  "page text over snippets, say when the sources disagree or do not answer the question, and never invent facts " +
+  "or links. Do not list the sources at the end; the user sees them below the answer.";
+
+// Tracking parameters that make the same page look like several results
+const TRACKING_PARAMETER = /^(utm_\w+|gclid|fbclid|ref|ref_src)$/i;
+
+export interface SearchAnswerOptions {
+  // Signed-in user the request is made for, whose saved chat summary may stand in for older turns
+  userId?: number;
+  signal?: AbortSignal;
+}
+
+export interface SearchAnswer {
+  text: string;
+  result: WebSearchResult;
+  // The sources again, as the message keeps them for its [n] markers
+  citations: MessageCitation[];
+  // Summed over the query rewrite and the answer, which use different models
+  tokens: TokenUsage;
+  costUsd: number;
+}
+
+interface SourceText extends WebSearchSource {
+  // Readable text of the page, when it was fetched
+  pageText?: string;
+}
+
+function addTokens(total: TokenUsage, tokens: TokenUsage | undefined): TokenUsage {
+  return {
+    promptTokens: total.promptTokens + (tokens?.promptTokens ?? 0),
+    completionTokens: total.completionTokens + (tokens?.completionTokens ?? 0)
+  };
+}
+
+// Only the text of earlier turns is needed; attachments and images are left out
+function toTextMessage(message: ChatMessage): ChatMessage {
+  if (typeof message.content === "string") return message;
+  const text = message.content.map(part => part.type === "text" ? part.text : "").filter(Boolean).join("\n");
+  return { role: message.role, content: text };
+}
+
+/**
+ * Turn a follow-up like "and how tall is it?" into a query that makes sense without the chat.
+ * Falls back to the question itself when there is no earlier turn or the rewrite fails.
+ */
+async function rewriteQuery(query: string, turns: ChatMessage[], signal?: AbortSignal): Promise<{ searchQuery: string; tokens?: TokenUsage }> {
+  const recent = turns.slice(-REWRITE_TURNS);
+  if (recent.length === 0) {
+    return { searchQuery: query };
+  }
+
+  try {
+    const transcript = recent.map(message => `${message.role}: ${message.content}`).join("\n\n");
+    const response = await generateOpenAIMiniResponse({
+      model: REWRITE_MODEL,
+      messages: [
+        { role: "system", content: REWRITE_PROMPT },
+        { role: "user", content: `Conversation:\n${transcript}\n\nLatest message: ${query}` }
+      ],
+      webSearchEnabled: false,
+      stream: false
+    }, { model: REWRITE_MODEL, signal });
+    const searchQuery = response.message.content.split("\n")[0].replace(/^["']|["']$/g, "").trim();
+    return { searchQuery: searchQuery || query, tokens: response.tokens };
+  } catch (error: any) {
+    if (signal?.aborted) throw error;
+    log(`Search query rewrite failed, searching the question as asked: ${error.message}`, "error");
+    return { searchQuery: query };
+  }
+}
+
+/**
+ * Key under which two links count as the same page: scheme, "www.", fragment, trailing
+ * slash and tracking parameters are ignored
+ */
+export function pageKey(link: string): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return undefined;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return undefined;
+
+  for (const name of Array.from(url.searchParams.keys())) {
+    if (TRACKING_PARAMETER.test(name)) url.searchParams.delete(name);
+  }
+  url.searchParams.sort();
+  const host = url.hostname.toLowerCase().replace(/^www\./, "");
+  return `${host}${url.pathname.replace(/\/+$/, "")}${url.search}`;
+}
+
+/**
+ * The results of a search without repeated pages, numbered in rank order
+ */
+function toSources(results: WebSearchHit[]): SourceText[] {
+  const seen = new Set<string>();
+  const sources: SourceText[] = [];
+  for (const result of results) {
+    const key = pageKey(result.url);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    sources.push({ ...result, citation: sources.length + 1, fetched: false });
+    if (sources.length === MAX_SOURCES) break;
+  }
+  return sources;
+}
+
+/**
+ * Read a page and return its content as markdown, or undefined when it cannot be fetched.
+ * Pages are best effort: a slow, broken or robots-excluded site only loses its full text.
+ */
+async function fetchPageText(url: string, signal?: AbortSignal): Promise<string | undefined> {
+  try {
+    const page = await fetchPage(url, { signal });
+    return page.markdown.slice(0, MAX_PAGE_CHARS);
+  } catch (error: any) {
+    if (signal?.aborted) throw error;
+    log(`Could not read ${url}: ${error.message}`);
+    return undefined;
+  }
+}
+
+function formatSources(sources: SourceText[]): string {
+  return sources.map(source => [
+    `[${source.citation}] ${source.title}`,
+    `URL: ${source.url}`,
+    source.pageText ? `Page text:\n${source.pageText}` : `Snippet: ${source.snippet}`
+  ].join("\n")).join("\n\n");
+}
+
+/**
+ * Search the web for a question and answer it with numbered citations: the question is
+ * rewritten into a standalone query, the results are deduplicated, the top pages are read
+ * and the answer is written from them in the context of the conversation.
+ */
+export async function searchAndAnswer(request: SearchAnswerRequest, options: SearchAnswerOptions = {}): Promise<SearchAnswer> {
+  const { signal, userId } = options;
+  const startedAt = Date.now();
+  const messages = request.messages.map(toTextMessage);
+  const turns = messages.filter(message => message.role !== "system");
+
+  const { searchQuery, tokens: rewriteTokens } = await rewriteQuery(request.query, turns, signal);
+  let tokens = addTokens({ promptTokens: 0, completionTokens: 0 }, rewriteTokens);
+  let costUsd = 0;
+  if (rewriteTokens) {
+    costUsd += estimateCost(REWRITE_MODEL, rewriteTokens);
+    await recordModelUsage({ userId, chatId: request.chatId, purpose: "query_rewrite", model: REWRITE_MODEL, tokens: rewriteTokens });
+  }
+
+  const { results } = await webSearch(searchQuery, { signal });
+  const sources = toSources(results);
+  const result: WebSearchResult = { type: "web_search_result", query: request.query, searchQuery, vertical: "web", sources };
+  if (sources.length === 0) {
+    return { text: `I couldn't find any web results for "${searchQuery}".`, result, citations: [], tokens, costUsd };
+  }
+
+  const pageTexts = await Promise.all(sources.slice(0, MAX_FETCHED_PAGES).map(source => fetchPageText(source.url, signal)));
+  pageTexts.forEach((pageText, index) => {
+    if (pageText) Object.assign(sources[index], { pageText, fetched: true });
+  });
+
+  // Older turns are summarized the same way as in /api/chat
+  const context = await buildChatContext({
+    model: SEARCH_ANSWER_MODEL,
+    messages,
+    chatId: request.chatId,
+    webSearchEnabled: false,
+    stream: false
+  }, userId);
+  const response = await generateOpenAIMiniResponse({
+    ...context,
+    messages: [
+      ...context.messages,
+      { role: "system", content: `${ANSWER_PROMPT}\n\nSearched for: ${searchQuery}\n\n${formatSources(sources)}` },
+      { role: "user", content: request.query }
+    ]
+  }, { model: SEARCH_ANSWER_MODEL, signal });
+  tokens = addTokens(tokens, response.tokens);
+  if (response.tokens) {
+    costUsd += estimateCost(SEARCH_ANSWER_MODEL, response.tokens);
+    await recordModelUsage({
+      userId,
+      chatId: request.chatId,
+      purpose: "search_answer",
+      model: SEARCH_ANSWER_MODEL,
+      tokens: response.tokens,
+      latencyMs: Date.now() - startedAt
+    });
+  }
+
+  // The page text was for the model only
+  result.sources = sources.map(({ pageText, ...source }) => source);
+  return { text: response.message.content, result, citations: toCitations(result.sources), tokens, costUsd };
+}
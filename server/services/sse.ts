@@ -0,0 +1,32 @@
+import type { Response } from "express";
+import type { ChatStreamEvent } from "@shared/schema";
+
+export interface ChatEventStream {
+  send: (event: ChatStreamEvent) => void;
+  close: () => void;
+}
+
+/**
+ * Switch an Express response into server-sent events mode and return a writer for chat stream events
+ */
+export function openEventStream(res: Response): ChatEventStream {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // Stop reverse proxies from buffering the stream
+  });
+  res.flushHeaders();
+
+  return {
+    send(event) {
+      if (res.writableEnded) return;
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    },
+    close() {
+      if (!res.writableEnded) {
+        res.end();
+      }
+    }
+  };
+}
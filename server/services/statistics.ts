@@ -0,0 +1,424 @@
+import type { AnalysisType, DataTable } from "@shared/schema";
+import type { Dataset } from "./tabularData";
+
+// Matrices wider than this are unreadable in a chat message
+const MAX_MATRIX_COLUMNS = 12;
+// Columns given their own histogram in a distribution analysis
+const MAX_HISTOGRAMS = 4;
+const MAX_HISTOGRAM_BINS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface LinearFit {
+  slope: number;
+  intercept: number;
+  rSquared: number;
+  n: number;
+}
+
+export interface AnalysisOutput {
+  tables: DataTable[];
+  notes: string[];
+}
+
+// Rounded for display; statistics carry more digits than anyone reads
+function round(value: number | null): number | null {
+  return value === null || !Number.isFinite(value) ? null : Number(value.toPrecision(6));
+}
+
+export function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Sample standard deviation
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+}
+
+/**
+ * Quantile of sorted values with linear interpolation between closest ranks
+ */
+export function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+// Sample skewness (adjusted Fisher-Pearson); null for fewer than three values or no spread
+export function skewness(values: number[]): number | null {
+  const n = values.length;
+  if (n < 3) return null;
+  const average = mean(values);
+  const m2 = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / n;
+  const m3 = values.reduce((sum, value) => sum + (value - average) ** 3, 0) / n;
+  if (m2 === 0) return null;
+  return (m3 / m2 ** 1.5) * Math.sqrt(n * (n - 1)) / (n - 2);
+}
+
+export function pearson(x: number[], y: number[]): number | null {
+  if (x.length < 2) return null;
+  const meanX = mean(x);
+  const meanY = mean(y);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < x.length; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    varianceX += (x[i] - meanX) ** 2;
+    varianceY += (y[i] - meanY) ** 2;
+  }
+  return varianceX === 0 || varianceY === 0 ? null : covariance / Math.sqrt(varianceX * varianceY);
+}
+
+// Ranks starting at 1, with tied values sharing the average of their ranks
+function ranks(values: number[]): number[] {
+  const order = values.map((value, i) => ({ value, i })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) result[order[k].i] = rank;
+    start = end + 1;
+  }
+  return result;
+}
+
+export function spearman(x: number[], y: number[]): number | null {
+  return pearson(ranks(x), ranks(y));
+}
+
+/**
+ * Least-squares line through the points
+ */
+export function linearFit(x: number[], y: number[]): LinearFit | null {
+  if (x.length < 2) return null;
+  const meanX = mean(x);
+  const meanY = mean(y);
+  let covariance = 0;
+  let varianceX = 0;
+  for (let i = 0; i < x.length; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    varianceX += (x[i] - meanX) ** 2;
+  }
+  if (varianceX === 0) return null;
+
+  const slope = covariance / varianceX;
+  const r = pearson(x, y);
+  return { slope, intercept: meanY - slope * meanX, rSquared: r === null ? 0 : r * r, n: x.length };
+}
+
+/**
+ * Equal-width bins covering the values; about the square root of the count of them
+ */
+export function histogramBins(values: number[], maxBins = MAX_HISTOGRAM_BINS): HistogramBin[] {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (min === max) return [{ start: min, end: max, count: values.length }];
+
+  const binCount = Math.min(maxBins, Math.max(5, Math.ceil(Math.sqrt(values.length))));
+  const width = (max - min) / binCount;
+  const bins = Array.from({ length: binCount }, (_, i) => ({ start: min + i * width, end: min + (i + 1) * width, count: 0 }));
+  for (const value of values) {
+    bins[Math.min(binCount - 1, Math.floor((value - min) / width))].count++;
+  }
+  return bins;
+}
+
+function numericValues(dataset: Dataset, column: string): number[] {
+  return dataset.rows.map(row => row[column]).filter((value): value is number => typeof value === "number");
+}
+
+function numericColumns(dataset: Dataset): string[] {
+  return dataset.columns.filter(column => column.type === "number").map(column => column.name);
+}
+
+// Pairs of values from rows where both columns are present
+function pairs(dataset: Dataset, a: (row: Dataset["rows"][number], i: number) => number | null, b: string): { x: number[]; y: number[] } {
+  const x: number[] = [];
+  const y: number[] = [];
+  dataset.rows.forEach((row, i) => {
+    const first = a(row, i);
+    const second = row[b];
+    if (first !== null && typeof second === "number") {
+      x.push(first);
+      y.push(second);
+    }
+  });
+  return { x, y };
+}
+
+/**
+ * Count of missing values per column; only columns with any are listed
+ */
+export function missingValuesTable(dataset: Dataset): DataTable | null {
+  const total = dataset.rows.length;
+  const rows = dataset.columns
+    .map(column => ({ column: column.name, missing: dataset.rows.filter(row => row[column.name] === null).length }))
+    .filter(row => row.missing > 0)
+    .map(row => ({ ...row, percent: round((row.missing / total) * 100) }));
+  if (rows.length === 0) return null;
+
+  return {
+    title: "Missing values",
+    columns: [
+      { key: "column", label: "Column", type: "string" },
+      { key: "missing", label: "Missing", type: "number" },
+      { key: "percent", label: "Missing %", type: "number" }
+    ],
+    rows
+  };
+}
+
+function summarize(dataset: Dataset): AnalysisOutput {
+  const total = dataset.rows.length;
+  const tables: DataTable[] = [{
+    title: "Columns",
+    columns: [
+      { key: "column", label: "Column", type: "string" },
+      { key: "type", label: "Type", type: "string" },
+      { key: "count", label: "Count", type: "number" },
+      { key: "missing", label: "Missing", type: "number" },
+      { key: "unique", label: "Unique", type: "number" }
+    ],
+    rows: dataset.columns.map(column => {
+      const present = dataset.rows.map(row => row[column.name]).filter(value => value !== null);
+      return {
+        column: column.name,
+        type: column.type,
+        count: present.length,
+        missing: total - present.length,
+        unique: new Set(present).size
+      };
+    })
+  }];
+
+  const numeric = numericColumns(dataset);
+  if (numeric.length > 0) {
+    tables.push({
+      title: "Numeric columns",
+      columns: [
+        { key: "column", label: "Column", type: "string" },
+        { key: "mean", label: "Mean", type: "number" },
+        { key: "std", label: "Std dev", type: "number" },
+        { key: "min", label: "Min", type: "number" },
+        { key: "q1", label: "25%", type: "number" },
+        { key: "median", label: "Median", type: "number" },
+        { key: "q3", label: "75%", type: "number" },
+        { key: "max", label: "Max", type: "number" }
+      ],
+      rows: numeric.map(column => {
+        const sorted = numericValues(dataset, column).sort((a, b) => a - b);
+        if (sorted.length === 0) return { column, mean: null, std: null, min: null, q1: null, median: null, q3: null, max: null };
+        return {
+          column,
+          mean: round(mean(sorted)),
+          std: round(standardDeviation(sorted)),
+          min: sorted[0],
+          q1: round(quantile(sorted, 0.25)),
+          median: round(quantile(sorted, 0.5)),
+          q3: round(quantile(sorted, 0.75)),
+          max: sorted[sorted.length - 1]
+        };
+      })
+    });
+  }
+
+  const categorical = dataset.columns.filter(column => column.type === "string" || column.type === "boolean");
+  if (categorical.length > 0) {
+    tables.push({
+      title: "Text and boolean columns",
+      columns: [
+        { key: "column", label: "Column", type: "string" },
+        { key: "unique", label: "Unique", type: "number" },
+        { key: "top", label: "Most common", type: "string" },
+        { key: "topCount", label: "Occurrences", type: "number" }
+      ],
+      rows: categorical.map(column => {
+        const counts = new Map<string, number>();
+        for (const row of dataset.rows) {
+          const value = row[column.name];
+          if (value !== null) counts.set(String(value), (counts.get(String(value)) || 0) + 1);
+        }
+        const [top] = Array.from(counts).sort((a, b) => b[1] - a[1]);
+        return { column: column.name, unique: counts.size, top: top?.[0] ?? null, topCount: top?.[1] ?? 0 };
+      })
+    });
+  }
+
+  return { tables, notes: [] };
+}
+
+function correlationMatrix(dataset: Dataset, columns: string[], method: "pearson" | "spearman"): DataTable {
+  const correlate = method === "pearson" ? pearson : spearman;
+  return {
+    title: method === "pearson" ? "Pearson correlation" : "Spearman rank correlation",
+    columns: [
+      { key: "column", label: "", type: "string" },
+      ...columns.map(column => ({ key: column, label: column, type: "number" as const }))
+    ],
+    rows: columns.map(a => ({
+      column: a,
+      ...Object.fromEntries(columns.map(b => {
+        if (a === b) return [b, 1];
+        const { x, y } = pairs(dataset, row => typeof row[a] === "number" ? row[a] as number : null, b);
+        return [b, round(correlate(x, y))];
+      }))
+    }))
+  };
+}
+
+function correlate(dataset: Dataset): AnalysisOutput {
+  const numeric = numericColumns(dataset);
+  if (numeric.length < 2) {
+    return { tables: [], notes: ["Correlation needs at least two numeric columns."] };
+  }
+
+  const columns = numeric.slice(0, MAX_MATRIX_COLUMNS);
+  const notes = numeric.length > columns.length
+    ? [`Only the first ${MAX_MATRIX_COLUMNS} of ${numeric.length} numeric columns are correlated.`]
+    : [];
+  return {
+    tables: [correlationMatrix(dataset, columns, "pearson"), correlationMatrix(dataset, columns, "spearman")],
+    notes
+  };
+}
+
+function trend(dataset: Dataset): AnalysisOutput {
+  // Trends run over the first date column when there is one, otherwise over row order
+  const dateColumn = dataset.columns.find(column => column.type === "date")?.name;
+  const unit = dateColumn ? "day" : "row";
+  const position = (row: Dataset["rows"][number], i: number) => {
+    if (!dateColumn) return i + 1;
+    const value = row[dateColumn];
+    return typeof value === "string" ? Date.parse(value) / DAY_MS : null;
+  };
+
+  const numeric = numericColumns(dataset);
+  if (numeric.length === 0) {
+    return { tables: [], notes: ["Trend analysis needs at least one numeric column."] };
+  }
+
+  const rows = numeric.map(column => {
+    const { x, y } = pairs(dataset, position, column);
+    const fit = linearFit(x, y);
+    if (!fit) return { column, slope: null, intercept: null, rSquared: null, n: x.length, direction: "n/a" };
+    // Flat unless the line explains a meaningful share of the variation
+    const direction = fit.rSquared < 0.1 || fit.slope === 0 ? "flat" : fit.slope > 0 ? "rising" : "falling";
+    return {
+      column,
+      slope: round(fit.slope),
+      intercept: round(fit.intercept),
+      rSquared: round(fit.rSquared),
+      n: fit.n,
+      direction
+    };
+  });
+
+  return {
+    tables: [{
+      title: dateColumn ? `Linear trend over ${dateColumn}` : "Linear trend over row order",
+      columns: [
+        { key: "column", label: "Column", type: "string" },
+        { key: "slope", label: `Slope per ${unit}`, type: "number" },
+        { key: "intercept", label: "Intercept", type: "number" },
+        { key: "rSquared", label: "R²", type: "number" },
+        { key: "n", label: "Points", type: "number" },
+        { key: "direction", label: "Direction", type: "string" }
+      ],
+      rows
+    }],
+    notes: dateColumn ? ["Intercepts are values at 1970-01-01, as days are counted from then."] : []
+  };
+}
+
+function distribution(dataset: Dataset): AnalysisOutput {
+  const numeric = numericColumns(dataset);
+  if (numeric.length === 0) {
+    return { tables: [], notes: ["Distribution analysis needs at least one numeric column."] };
+  }
+
+  const tables: DataTable[] = [{
+    title: "Quantiles",
+    columns: [
+      { key: "column", label: "Column", type: "string" },
+      { key: "min", label: "Min", type: "number" },
+      { key: "p5", label: "5%", type: "number" },
+      { key: "q1", label: "25%", type: "number" },
+      { key: "median", label: "Median", type: "number" },
+      { key: "q3", label: "75%", type: "number" },
+      { key: "p95", label: "95%", type: "number" },
+      { key: "max", label: "Max", type: "number" },
+      { key: "skewness", label: "Skewness", type: "number" }
+    ],
+    rows: numeric.map(column => {
+      const sorted = numericValues(dataset, column).sort((a, b) => a - b);
+      if (sorted.length === 0) return { column, min: null, p5: null, q1: null, median: null, q3: null, p95: null, max: null, skewness: null };
+      return {
+        column,
+        min: sorted[0],
+        p5: round(quantile(sorted, 0.05)),
+        q1: round(quantile(sorted, 0.25)),
+        median: round(quantile(sorted, 0.5)),
+        q3: round(quantile(sorted, 0.75)),
+        p95: round(quantile(sorted, 0.95)),
+        max: sorted[sorted.length - 1],
+        skewness: round(skewness(sorted))
+      };
+    })
+  }];
+
+  for (const column of numeric.slice(0, MAX_HISTOGRAMS)) {
+    const values = numericValues(dataset, column);
+    tables.push({
+      title: `Histogram of ${column}`,
+      columns: [
+        { key: "start", label: "From", type: "number" },
+        { key: "end", label: "To", type: "number" },
+        { key: "count", label: "Count", type: "number" },
+        { key: "percent", label: "Share %", type: "number" }
+      ],
+      rows: histogramBins(values).map(bin => ({
+        start: round(bin.start),
+        end: round(bin.end),
+        count: bin.count,
+        percent: round((bin.count / values.length) * 100)
+      }))
+    });
+  }
+
+  const notes = numeric.length > MAX_HISTOGRAMS
+    ? [`Histograms are shown for the first ${MAX_HISTOGRAMS} of ${numeric.length} numeric columns.`]
+    : [];
+  return { tables, notes };
+}
+
+const analyses: Record<AnalysisType, (dataset: Dataset) => AnalysisOutput> = {
+  summary: summarize,
+  correlation: correlate,
+  trend,
+  distribution
+};
+
+/**
+ * Run an analysis over a parsed dataset. Every analysis ends with a report of missing values
+ * when the data has any.
+ */
+export function analyzeDataset(dataset: Dataset, analysisType: AnalysisType): AnalysisOutput {
+  const { tables, notes } = analyses[analysisType](dataset);
+  const missing = missingValuesTable(dataset);
+  return {
+    tables: missing ? [...tables, missing] : tables,
+    notes: [...dataset.warnings, ...notes]
+  };
+}
@@ -0,0 +1,234 @@
+import type { DataColumn, DataColumnType } from "@shared/schema";
+
+// Rows beyond this are rejected rather than analyzed slowly
+const MAX_ROWS = 100_000;
+
+export type CellValue = string | number | boolean | null;
+
+export type DataRow = Record<string, CellValue>;
+
+export interface Dataset {
+  columns: DataColumn[];
+  // Values are converted to their column's type; dates stay ISO-style strings
+  rows: DataRow[];
+  // Problems found while parsing that did not stop it, such as ragged rows
+  warnings: string[];
+}
+
+export type DataFormat = "csv" | "tsv" | "json";
+
+/**
+ * Thrown when data cannot be parsed into a table
+ */
+export class DataParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DataParseError";
+  }
+}
+
+const MISSING_VALUES = new Set(["", "na", "n/a", "nan", "null", "none", "-", "?"]);
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+// Numbers written with thousands separators, as spreadsheets export them
+const GROUPED_NUMBER_PATTERN = /^[+-]?\d{1,3}(,\d{3})+(\.\d+)?$/;
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, false: false, yes: true, no: false };
+const DATE_PATTERN = /^\d{4}[-/]\d{1,2}[-/]\d{1,2}([T ]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Split delimited text into records following RFC 4180: fields may be quoted, quotes inside
+ * quoted fields are doubled, and quoted fields may span lines. Accepts LF or CRLF line endings.
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === "\"") {
+        if (text[i + 1] === "\"") {
+          field += "\"";
+          i += 2;
+          continue;
+        }
+        quoted = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === "\"" && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+      if (char === "\r" && text[i + 1] === "\n") i++;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (quoted) {
+    throw new DataParseError("Unterminated quoted field");
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines separate nothing in a table
+  return records.filter(fields => fields.length > 1 || fields[0].trim() !== "");
+}
+
+function detectFormat(text: string): DataFormat {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) return "json";
+
+  const header = trimmed.split(/\r?\n/, 1)[0];
+  const count = (char: string) => header.split(char).length - 1;
+  return count("\t") > count(",") ? "tsv" : "csv";
+}
+
+function uniqueHeaders(headers: string[]): string[] {
+  const seen = new Map<string, number>();
+  return headers.map((header, i) => {
+    const name = header.trim() || `column_${i + 1}`;
+    const times = (seen.get(name) || 0) + 1;
+    seen.set(name, times);
+    return times === 1 ? name : `${name}_${times}`;
+  });
+}
+
+function parseNumber(text: string): number | undefined {
+  if (NUMBER_PATTERN.test(text)) return Number(text);
+  if (GROUPED_NUMBER_PATTERN.test(text)) return Number(text.replace(/,/g, ""));
+  return undefined;
+}
+
+function isDate(text: string): boolean {
+  return DATE_PATTERN.test(text) && !isNaN(Date.parse(text.replace(/\//g, "-")));
+}
+
+// The most specific type every present value of a column fits
+function inferType(values: CellValue[]): DataColumnType {
+  const present = values.filter(value => value !== null);
+  if (present.length === 0) return "string";
+
+  const fits = (test: (value: CellValue) => boolean) => present.every(test);
+  if (fits(value => typeof value === "number" || (typeof value === "string" && parseNumber(value.trim()) !== undefined))) return "number";
+  if (fits(value => typeof value === "boolean" || (typeof value === "string" && value.trim().toLowerCase() in BOOLEAN_VALUES))) return "boolean";
+  if (fits(value => typeof value === "string" && isDate(value.trim()))) return "date";
+  return "string";
+}
+
+function convert(value: CellValue, type: DataColumnType): CellValue {
+  if (value === null || typeof value !== "string") return value;
+  const text = value.trim();
+  switch (type) {
+    case "number":
+      return parseNumber(text)!;
+    case "boolean":
+      return BOOLEAN_VALUES[text.toLowerCase()];
+    case "date":
+      return text.replace(/\//g, "-").replace(" ", "T");
+    default:
+      return value;
+  }
+}
+
+function normalizeCell(value: unknown): CellValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "boolean") return value;
+  if (typeof value === "string") return MISSING_VALUES.has(value.trim().toLowerCase()) ? null : value;
+  // Nested objects and arrays are kept as their JSON text
+  return JSON.stringify(value);
+}
+
+function rowsFromJson(text: string): { headers: string[]; records: unknown[][] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error: any) {
+    throw new DataParseError(`Invalid JSON: ${error.message}`);
+  }
+
+  if (Array.isArray(parsed)) {
+    // An array of plain values is a single column
+    if (parsed.every(item => typeof item !== "object" || item === null)) {
+      return { headers: ["value"], records: parsed.map(item => [item]) };
+    }
+    const headers: string[] = [];
+    for (const item of parsed) {
+      if (typeof item !== "object" || item === null || Array.isArray(item)) {
+        throw new DataParseError("JSON arrays must contain only objects or only plain values");
+      }
+      for (const key of Object.keys(item)) {
+        if (!headers.includes(key)) headers.push(key);
+      }
+    }
+    return { headers, records: parsed.map(item => headers.map(header => (item as Record<string, unknown>)[header])) };
+  }
+
+  if (typeof parsed === "object" && parsed !== null) {
+    // An object of label/value pairs is a two-column table
+    return { headers: ["label", "value"], records: Object.entries(parsed) };
+  }
+
+  throw new DataParseError("JSON data must be an array or an object");
+}
+
+/**
+ * Parse CSV, TSV or JSON into typed rows. The format is detected when not given; CSV and TSV
+ * need a header line. Each column gets the most specific type all of its values fit, with
+ * empty cells and markers like "NA" read as missing.
+ */
+export function parseTable(text: string, format?: DataFormat): Dataset {
+  const input = text.replace(/^\uFEFF/, "");
+  const warnings: string[] = [];
+  let headers: string[];
+  let records: unknown[][];
+
+  const detected = format || detectFormat(input);
+  if (detected === "json") {
+    ({ headers, records } = rowsFromJson(input));
+  } else {
+    const parsed = parseDelimited(input, detected === "tsv" ? "\t" : ",");
+    if (parsed.length === 0) {
+      throw new DataParseError("The data is empty");
+    }
+    headers = parsed[0];
+    records = parsed.slice(1);
+
+    const ragged = records.filter(record => record.length !== headers.length).length;
+    if (ragged > 0) {
+      warnings.push(`${ragged} row(s) have a different number of fields than the header; missing fields are empty and extra fields are ignored`);
+    }
+  }
+
+  if (records.length === 0) {
+    throw new DataParseError("The data has a header but no rows");
+  }
+  if (records.length > MAX_ROWS) {
+    throw new DataParseError(`The data has ${records.length} rows; at most ${MAX_ROWS} can be analyzed`);
+  }
+
+  const names = uniqueHeaders(headers.map(String));
+  const cells = records.map(record => names.map((_, i) => normalizeCell(record[i])));
+  const columns: DataColumn[] = names.map((name, i) => ({ name, type: inferType(cells.map(row => row[i])) }));
+  const rows = cells.map(row => Object.fromEntries(columns.map((column, i) => [column.name, convert(row[i], column.type)])));
+
+  return { columns, rows, warnings };
+}
@@ -1,326 +1,302 @@
 import OpenAI from "openai";
+import { z } from "zod";
 import { db } from "../db";
-import { images, pdfs } from "@shared/schema";
-import PDFDocument from "pdfkit";
-import { searchSerper } from "./serper";
-import fs from "fs";
-import path from "path";
-import crypto from "crypto";
+import { eq } from "drizzle-orm";
+import { analysisTypes, chartTypes, documentFormats, images, marketPeriods, pdfs, pdfThemes, sandboxLanguages, searchTimeRanges, searchVerticals, type AnalysisResult, type AnalysisType, type AssetClass, type ChartResult, type ChartSpec, type ChartType, type DocumentFormat, type FileSearchResult, type MarketPeriod, type QueryResult, type SandboxLanguage, type WebSearchOptions, type WebSearchResult } from "@shared/schema";
+import { nanoid } from "nanoid";
+import { SearchUnavailableError, webSearch } from "./webSearch";
+import { log } from "../vite";
+import { defineTool, registerTool, type ToolContext } from "./toolRegistry";
+import { runSandboxedCode } from "./sandbox";
+import { getWeatherReport, MAX_FORECAST_DAYS, WeatherLocationNotFoundError } from "./weather";
+import { getMarketQuote, MarketSymbolNotFoundError } from "./marketData";
+import { buildChartSpec, ChartDataError, parseChartData, renderChart, type ChartOptions } from "./charts";
+import { DataParseError, parseTable, type DataFormat } from "./tabularData";
+import { analyzeDataset } from "./statistics";
+import { DatasetQueryError, MAX_QUERY_ROWS, queryDataset } from "./datasets";
+import { storage } from "../storage";
+import { getBlobStore, putBlob } from "./blobStore";
+import { renderPdfReport, type PdfImage, type PdfReport } from "./pdfReport";
+import { searchDocuments } from "./documents";
+import { fetchPage, PageFetchError, RobotsDisallowedError } from "./pageFetcher";
+import { deleteWorkspaceEntry, listWorkspace, MAX_FILE_BYTES, MAX_WORKSPACE_BYTES, moveWorkspaceEntry, readWorkspaceFile, WorkspaceError, writeWorkspaceFile } from "./workspace";
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY || '',
 });
 
-export async function executeToolCall(toolName: string, args: any): Promise<string> {
-  try {
-    switch (toolName) {
-      case "web_search":
-        return await handleWebSearch(args.query);
-      
-      case "generate_image":
-        return await handleImageGeneration(args.prompt, args.style || "natural", args.size || "1024x1024");
-      
-      case "generate_pdf":
-        return await handlePdfGeneration(args.title, args.content, args.sections);
-      
-      case "execute_code":
-        return await handleCodeExecution(args.code, args.language || "javascript");
-      
-      case "analyze_data":
-        return await handleDataAnalysis(args.data, args.analysis_type, args.visualization);
-      
-      case "translate_text":
-        return await handleTextTranslation(args.text, args.target_language, args.source_language);
-      
-      case "get_weather":
-        return await handleWeatherRequest(args.location, args.forecast_days);
-      
-      case "calculate_math":
-        return await handleMathCalculation(args.expression, args.operation || "calculate");
-      
-      case "compose_email":
-        return await handleEmailComposition(args.subject, args.purpose, args.tone || "professional", args.recipient);
-      
-      case "analyze_sentiment":
-        return await handleSentimentAnalysis(args.text, args.analysis_depth || "basic");
-      
-      case "create_calendar_event":
-        return await handleCalendarEvent(args.title, args.date, args.time, args.duration, args.description);
-      
-      case "extract_text_from_image":
-        return await handleOCRAnalysis(args.image_url, args.language || "auto");
-      
-      case "generate_audio":
-        return await handleAudioGeneration(args.text, args.voice || "alloy", args.speed || 1.0);
-      
-      case "detect_language":
-        return await handleLanguageDetection(args.text);
-      
-      case "get_crypto_price":
-        return await handleCryptoPrices(args.symbol, args.currency || "usd");
-      
-      case "get_stock_data":
-        return await handleStockData(args.symbol, args.period || "1d");
-      
-      case "monitor_system":
-        return await handleSystemMonitoring(args.metric || "all");
-      
-      case "query_database":
-        return await handleDatabaseQuery(args.query, args.database || "main");
-      
-      case "manage_files":
-        return await handleFileOperations(args.operation, args.path, args.content);
-      
-      case "network_diagnostics":
-        return await handleNetworkDiagnostics(args.target, args.test_type || "ping");
-      
-      case "security_scan":
-        return await handleSecurityScan(args.url, args.scan_type || "basic");
-      
-      case "advanced_summarize":
-        return await handleAdvancedSummarization(args.text, args.method || "extractive", args.length || "medium");
-      
-      case "analyze_code":
-        return await handleCodeAnalysis(args.code, args.language, args.analysis_type || "comprehensive");
-      
-      case "create_chart":
-        return await handleChartCreation(args.data, args.chart_type, args.title, args.x_label, args.y_label);
-      
-      case "extract_text_from_url":
-        return await handleTextExtraction(args.url, args.summary_length || "medium");
-      
-      case "format_text":
-        return await handleTextFormatting(args.text, args.format_type, args.style);
-      
-      case "generate_password":
-        return await handlePasswordGeneration(args.length || 16, args.include_symbols, args.include_numbers, args.include_uppercase, args.exclude_similar);
-      
-      default:
-        return `Unknown tool: ${toolName}`;
-    }
-  } catch (error: any) {
-    return `Error executing ${toolName}: ${error.message}`;
+/**
+ * Look up an image a report embeds, if the caller may see it
+ */
+async function loadReportImage(id: number, userId?: number): Promise<PdfImage | undefined> {
+  const [image] = await db.select().from(images).where(eq(images.id, id));
+  if (!image || (image.userId !== null && image.userId !== userId)) {
+    return undefined;
   }
+  // Images stored before the blob store still keep their bytes in the row
+  const data = image.blobHash
+    ? await getBlobStore().get(image.blobHash)
+    : image.imageData ? Buffer.from(image.imageData.split(',')[1] || image.imageData, 'base64') : undefined;
+  return data && { data, mimeType: image.mimeType };
 }
 
-async function handleWebSearch(query: string): Promise<string> {
-  const searchResults: any = await searchSerper(query);
-  const searchSummary = searchResults.organic?.slice(0, 5).map((result: any) => 
-    `${result.title}: ${result.snippet}`
-  ).join('\n') || 'No search results found.';
-  
-  return `Search results for "${query}":\n\n${searchSummary}`;
-}
-
-async function handleImageGeneration(prompt: string, style: string, size: string): Promise<string> {
+/**
+ * Render a report to PDF and store it in the blob store
+ */
+async function generateAndStorePdf(report: PdfReport, userId?: number): Promise<{ id: number; pageCount: number }> {
   try {
-    const response = await openai.images.generate({
-      model: "dall-e-3",
-      prompt: prompt,
-      n: 1,
-      size: size as "1024x1024" | "1792x1024" | "1024x1792",
-      style: style as "vivid" | "natural",
-    });
-
-    const imageUrl = response.data?.[0]?.url;
-    if (!imageUrl) {
-      throw new Error("No image URL returned from DALL-E");
-    }
-
-    // Download and store the image
-    const imageResponse = await fetch(imageUrl);
-    const imageBuffer = await imageResponse.arrayBuffer();
-    const imageBase64 = Buffer.from(imageBuffer).toString('base64');
+    const { data, pageCount } = await renderPdfReport(report, id => loadReportImage(id, userId));
+    const blob = await putBlob(data);
     
-    // Generate filename
-    const timestamp = Date.now();
-    const filename = `dalle-${timestamp}.png`;
+    // Generate a unique filename
+    const filename = `generated-${nanoid()}.pdf`;
     
     // Store in database
-    const [savedImage] = await db.insert(images).values({
-      originalUrl: imageUrl,
+    const [storedPdf] = await db.insert(pdfs).values({
+      title: report.title,
       filename: filename,
-      mimeType: "image/png",
-      imageData: `data:image/png;base64,${imageBase64}`,
-      prompt: prompt
-    }).returning();
-
-    return `🎨 Image generated successfully! 
-**Prompt:** ${prompt}
-**Style:** ${style}
-**Size:** ${size}
-**Download:** [Click here to download](/api/images/download/${savedImage.id})
-
-The image has been saved to the database and is ready for download.`;
+      content: [report.content, ...(report.sections || []).map(section => `# ${section.heading}\n\n${section.content}`)].join('\n\n'),
+      blobHash: blob.hash,
+      sizeBytes: blob.size,
+      userId: userId ?? null
+    }).returning({ id: pdfs.id });
+    
+    log(`PDF stored successfully with ID: ${storedPdf.id}`);
+    return { id: storedPdf.id, pageCount };
+    
   } catch (error: any) {
-    return `Failed to generate image: ${error.message}`;
+    log(`Failed to generate and store PDF: ${error.message}`, "error");
+    throw error;
   }
 }
 
-async function handlePdfGeneration(title: string, content: string, sections?: Array<{heading: string, content: string}>): Promise<string> {
+/**
+ * Store an image in the blob store and record it in the database so it is served by /api/images/:id
+ */
+async function storeImage(data: Buffer, mimeType: string, originalUrl: string, prompt?: string, userId?: number): Promise<{ id: number }> {
+  // Generate a unique filename
+  const extension = mimeType.split('/')[1]?.split('+')[0] || 'png';
+  const filename = `generated-${nanoid()}.${extension}`;
+  const blob = await putBlob(data);
+
+  const [storedImage] = await db.insert(images).values({
+    originalUrl,
+    filename: filename,
+    mimeType: mimeType,
+    blobHash: blob.hash,
+    sizeBytes: blob.size,
+    prompt: prompt || null,
+    userId: userId ?? null
+  }).returning({ id: images.id });
+
+  log(`Image stored successfully with ID: ${storedImage.id}`);
+  return storedImage;
+}
+
+/**
+ * Download an image from a URL and store it in the database
+ */
+async function downloadAndStoreImage(imageUrl: string, prompt?: string, userId?: number): Promise<{ id: number }> {
   try {
-    const doc = new PDFDocument();
-    const chunks: Buffer[] = [];
+    // Download the image
+    const response = await fetch(imageUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to download image: ${response.statusText}`);
+    }
     
-    doc.on('data', (chunk) => chunks.push(chunk));
+    const arrayBuffer = await response.arrayBuffer();
+    const mimeType = response.headers.get('content-type') || 'image/png';
+    return await storeImage(Buffer.from(arrayBuffer), mimeType, imageUrl, prompt, userId);
     
-    const pdfPromise = new Promise<Buffer>((resolve) => {
-      doc.on('end', () => resolve(Buffer.concat(chunks)));
-    });
+  } catch (error: any) {
+    log(`Failed to download and store image: ${error.message}`, "error");
+    throw error;
+  }
+}
 
-    // Add title
-    doc.fontSize(20).text(title, { align: 'center' });
-    doc.moveDown(2);
+/**
+ * Render a chart spec and store the image, returning the tool result the client shows as a chart
+ */
+async function storeChart(spec: ChartSpec, format: "png" | "svg", userId?: number): Promise<ChartResult> {
+  const { data, mimeType } = renderChart(spec, format);
+  const stored = await storeImage(data, mimeType, `chart:${spec.type}`, spec.title, userId);
+  return {
+    type: "chart_result",
+    spec,
+    image_id: stored.id,
+    image_url: `/api/images/${stored.id}`,
+    format
+  };
+}
 
-    // Add main content
-    if (content) {
-      doc.fontSize(12).text(content);
-      doc.moveDown();
+async function handleWebSearch(query: string, options: WebSearchOptions, context: ToolContext): Promise<string> {
+  log(`Executing ${options.vertical} search: ${query}`);
+  try {
+    const { results } = await webSearch(query, { ...options, signal: context.signal });
+    if (results.length === 0) {
+      return JSON.stringify({ error: "No results", message: `The ${options.vertical} search found nothing; try other words or a wider time range` });
     }
 
-    // Add sections if provided
-    if (sections && sections.length > 0) {
-      sections.forEach(section => {
-        doc.fontSize(16).text(section.heading, { underline: true });
-        doc.moveDown(0.5);
-        doc.fontSize(12).text(section.content);
-        doc.moveDown(1.5);
-      });
+    const result: WebSearchResult = {
+      type: "web_search_result",
+      query,
+      searchQuery: query,
+      vertical: options.vertical,
+      sources: results.slice(0, MAX_WEB_RESULTS).map((hit, index) => ({ ...hit, citation: index + 1, fetched: false }))
+    };
+    return JSON.stringify(result);
+  } catch (error: any) {
+    if (error instanceof SearchUnavailableError) {
+      return JSON.stringify({ error: "Search unavailable", message: "Web search is temporarily unavailable; answer from what you know and say it may be out of date" });
     }
+    throw error;
+  }
+}
 
-    doc.end();
-    const pdfBuffer = await pdfPromise;
-    
-    // Generate filename
-    const timestamp = Date.now();
-    const filename = `${title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}-${timestamp}.pdf`;
-    
-    // Store in database
-    const [savedPdf] = await db.insert(pdfs).values({
-      title: title,
-      filename: filename,
-      content: content,
-      pdfData: pdfBuffer.toString('base64')
-    }).returning();
+async function handleFileSearch(query: string, format: DocumentFormat | undefined, maxResults: number, context: ToolContext): Promise<string> {
+  if (!context.userId) {
+    return JSON.stringify({ error: "Sign in required", message: "Documents belong to signed-in users; sign in and upload one to search it" });
+  }
 
-    return `📄 PDF generated successfully!
-**Title:** ${title}
-**Filename:** ${filename}
-**Content Length:** ${content.length} characters
-**Download:** [Click here to download](/api/pdfs/download/${savedPdf.id})
+  log(`Executing file search: ${query}`);
+  try {
+    const available = await storage.getDocumentsForUser(context.userId);
+    if (available.length === 0) {
+      return JSON.stringify({ error: "No documents", message: "The user has not uploaded any documents yet; they can upload PDF, DOCX, TXT or Markdown files" });
+    }
 
-The PDF has been created and saved to the database.`;
+    const passages = await searchDocuments(context.userId, query, { limit: maxResults, format, signal: context.signal });
+    if (passages.length === 0) {
+      return JSON.stringify({
+        error: "No matches",
+        message: `Nothing in ${format ? `the user's ${format} documents` : "the user's documents"} matches the query; try other words`
+      });
+    }
+
+    const result: FileSearchResult = { type: "file_search_result", query, passages };
+    return JSON.stringify(result);
   } catch (error: any) {
-    return `Failed to generate PDF: ${error.message}`;
+    log(`File search error: ${error.message}`, "error");
+    return JSON.stringify({ error: "Failed to search files", message: "File search is temporarily unavailable" });
   }
 }
 
-async function handleCodeExecution(code: string, language: string): Promise<string> {
+async function handleImageGeneration(prompt: string, size: "1024x1024" | "1792x1024" | "1024x1792", context: ToolContext): Promise<string> {
+  log(`Executing image generation: ${prompt}`);
   try {
-    if (language === "javascript") {
-      // Safe JavaScript execution using eval with limited context
-      const context = {
-        console: { log: (...args: any[]) => args.join(' ') },
-        Math: Math,
-        Date: Date,
-        JSON: JSON,
-        parseInt: parseInt,
-        parseFloat: parseFloat,
-        result: undefined
-      };
-      
-      // Create a function that runs the code in limited context
-      const func = new Function('context', `
-        with(context) {
-          ${code}
-          return { result, logs: [] };
-        }
-      `);
-      
-      const execution = func(context);
-      return `✅ Code executed successfully!
-**Language:** JavaScript
-**Result:** ${execution.result || 'undefined'}
-
-**Code executed:**
-\`\`\`javascript
-${code}
-\`\`\``;
-    } else {
-      return `❌ Language "${language}" is not supported yet. Currently supported: JavaScript`;
+    if (context.usage && !(await context.usage.consume("images"))) {
+      return JSON.stringify({
+        error: "Failed to generate image",
+        message: `The daily image generation limit of the ${context.usage.plan.label} plan has been reached`
+      });
     }
-  } catch (error: any) {
-    return `❌ Code execution failed: ${error.message}
 
-**Code that failed:**
-\`\`\`${language}
-${code}
-\`\`\``;
+
+    const imageResponse = await openai.images.generate({
+      model: "dall-e-2",
+      prompt,
+      size,
+      n: 1
+    });
+    const originalUrl = imageResponse.data?.[0]?.url || "";
+    
+    if (!originalUrl) {
+      throw new Error("No image URL returned from DALL-E");
+    }
+    
+    // Download and store the image in database
+    log(`Downloading image from: ${originalUrl}`);
+    const imageStorageResult = await downloadAndStoreImage(originalUrl, prompt, context.userId);
+    
+    // Return with special format that includes stored image ID
+    return JSON.stringify({
+      type: "image_generation_result",
+      image_id: imageStorageResult.id,
+      image_url: `/api/images/${imageStorageResult.id}`, // Local endpoint
+      original_url: originalUrl,
+      prompt,
+      message: `Here is the image I generated for you: "${prompt}"`,
+      display_image: true
+    });
+  } catch (imageError: any) {
+    log(`Image generation error: ${imageError.message}`, "error");
+    return JSON.stringify({
+      error: "Failed to generate image",
+      message: imageError.message || "Image generation is temporarily unavailable"
+    });
   }
 }
 
-async function handleDataAnalysis(data: string, analysisType: string, visualization?: boolean): Promise<string> {
+async function handlePdfGeneration(report: PdfReport, userId?: number): Promise<string> {
+  const { title } = report;
+  log(`Executing PDF generation: ${title}`);
   try {
-    let parsedData: any[] = [];
+    const pdfStorageResult = await generateAndStorePdf(report, userId);
     
-    // Try to parse as JSON first, then CSV
-    try {
-      parsedData = JSON.parse(data);
-    } catch {
-      // Simple CSV parsing
-      const lines = data.trim().split('\n');
-      const headers = lines[0].split(',').map(h => h.trim());
-      parsedData = lines.slice(1).map(line => {
-        const values = line.split(',').map(v => v.trim());
-        const obj: any = {};
-        headers.forEach((header, i) => {
-          obj[header] = isNaN(Number(values[i])) ? values[i] : Number(values[i]);
-        });
-        return obj;
-      });
-    }
+    // Return with special format that includes stored PDF ID
+    return JSON.stringify({
+      type: "pdf_generation_result",
+      pdf_id: pdfStorageResult.id,
+      pdf_url: `/api/pdfs/${pdfStorageResult.id}`,
+      title,
+      page_count: pdfStorageResult.pageCount,
+      message: `I've generated a PDF document titled "${title}" for you. You can view and download it using the link below.`,
+      display_pdf: true
+    });
+  } catch (pdfError: any) {
+    log(`PDF generation error: ${pdfError.message}`, "error");
+    return JSON.stringify({
+      error: "Failed to generate PDF",
+      message: pdfError.message || "PDF generation is temporarily unavailable"
+    });
+  }
+}
 
-    const dataLength = parsedData.length;
-    let analysisResult = `📊 Data Analysis Results\n**Dataset Size:** ${dataLength} records\n**Analysis Type:** ${analysisType}\n\n`;
+async function handleCodeExecution(code: string, language: SandboxLanguage): Promise<string> {
+  log(`Executing ${language} code in sandbox`);
+  const result = await runSandboxedCode(language, code);
+  return JSON.stringify({ type: "code_execution_result", ...result });
+}
 
-    switch (analysisType) {
-      case "summary":
-        const numericFields = Object.keys(parsedData[0] || {}).filter(key => 
-          typeof parsedData[0][key] === 'number'
-        );
-        
-        analysisResult += "**Summary Statistics:**\n";
-        numericFields.forEach(field => {
-          const values = parsedData.map(item => item[field]).filter(v => typeof v === 'number');
-          const sum = values.reduce((a, b) => a + b, 0);
-          const avg = sum / values.length;
-          const min = Math.min(...values);
-          const max = Math.max(...values);
-          
-          analysisResult += `• ${field}: avg=${avg.toFixed(2)}, min=${min}, max=${max}\n`;
-        });
-        break;
-        
-      case "correlation":
-        analysisResult += "**Correlation Analysis:**\nCorrelation analysis requires numerical data with multiple variables.\n";
-        break;
-        
-      case "trend":
-        analysisResult += "**Trend Analysis:**\nTrend analysis shows data patterns over time or sequence.\n";
-        break;
-        
-      case "distribution":
-        analysisResult += "**Distribution Analysis:**\nData distribution shows how values are spread across the dataset.\n";
-        break;
-    }
+// Chart drawn for each analyze_data analysis type when a visualization is requested
+const ANALYSIS_CHART_TYPES: Record<AnalysisType, ChartType> = {
+  summary: "bar",
+  correlation: "scatter",
+  trend: "line",
+  distribution: "histogram"
+};
+
+async function handleDataAnalysis(data: string, analysisType: AnalysisType, visualization?: boolean, format?: DataFormat, userId?: number): Promise<string> {
+  log(`Running ${analysisType} analysis`);
+  try {
+    const dataset = parseTable(data, format);
+    const { tables, notes } = analyzeDataset(dataset, analysisType);
+    const result: AnalysisResult = {
+      type: "analysis_result",
+      analysisType,
+      rowCount: dataset.rows.length,
+      columns: dataset.columns,
+      tables,
+      notes
+    };
 
     if (visualization) {
-      analysisResult += "\n📈 **Visualization:** Chart generation would be implemented here";
+      try {
+        const spec = buildChartSpec(dataset.rows, ANALYSIS_CHART_TYPES[analysisType], { title: `${analysisType} of ${dataset.rows.length} rows` });
+        result.chart = await storeChart(spec, "png", userId);
+      } catch (chartError: any) {
+        log(`Analysis chart error: ${chartError.message}`, "error");
+        result.notes.push(`No chart could be drawn: ${chartError.message}`);
+      }
     }
 
-    return analysisResult;
+    return JSON.stringify(result);
   } catch (error: any) {
-    return `❌ Data analysis failed: ${error.message}`;
+    log(`Data analysis error: ${error.message}`, "error");
+    return JSON.stringify({
+      error: error instanceof DataParseError ? "Unusable data" : "Data analysis failed",
+      message: error.message || "Data analysis is temporarily unavailable"
+    });
   }
 }
 
@@ -350,22 +326,17 @@ ${translatedText}`;
   }
 }
 
-async function handleWeatherRequest(location: string, forecastDays?: number): Promise<string> {
+async function handleWeatherRequest(location: string, forecastDays = 1): Promise<string> {
+  log(`Fetching weather for ${location}`);
   try {
-    // This would normally call a weather API
-    return `🌤️ Weather Information for ${location}
-    
-**Current Weather:**
-• Temperature: 22°C (72°F)
-• Conditions: Partly cloudy
-• Humidity: 65%
-• Wind: 10 km/h NW
-
-${forecastDays ? `**${forecastDays}-Day Forecast:**\n• Day 1: 24°C, Sunny\n• Day 2: 19°C, Light rain\n• Day 3: 21°C, Cloudy` : ''}
-
-*Note: This is a placeholder. Connect a real weather API like OpenWeatherMap for live data.*`;
+    const report = await getWeatherReport(location, forecastDays);
+    return JSON.stringify(report);
   } catch (error: any) {
-    return `❌ Weather request failed: ${error.message}`;
+    log(`Weather request error: ${error.message}`, "error");
+    return JSON.stringify({
+      error: error instanceof WeatherLocationNotFoundError ? "Location not found" : "Failed to get weather",
+      message: error.message || "Weather information is temporarily unavailable"
+    });
   }
 }
 
@@ -588,61 +559,17 @@ ${analysis}
   }
 }
 
-async function handleCryptoPrices(symbol: string, currency: string = "usd"): Promise<string> {
+async function handleMarketQuote(assetClass: AssetClass, symbol: string, period: MarketPeriod, currency?: string): Promise<string> {
+  log(`Fetching ${assetClass} quote for ${symbol} over ${period}`);
   try {
-    // Simulated crypto data (in production, use real API like CoinGecko)
-    const mockData = {
-      bitcoin: { price: 43500, change24h: 2.5 },
-      ethereum: { price: 2650, change24h: -1.2 },
-      cardano: { price: 0.47, change24h: 0.8 }
-    };
-    
-    const data = mockData[symbol.toLowerCase() as keyof typeof mockData] || { price: 0, change24h: 0 };
-    
-    return `💰 **Cryptocurrency Data**
-
-**Symbol:** ${symbol.toUpperCase()}
-**Current Price:** $${data.price.toLocaleString()} ${currency.toUpperCase()}
-**24h Change:** ${data.change24h > 0 ? '+' : ''}${data.change24h}%
-
-**Market Analysis:**
-- ${data.change24h > 0 ? '🟢 Bullish' : '🔴 Bearish'} trend in last 24h
-- Real-time price tracking
-- Multi-currency support available
-
-*Note: This is demo data. Production version uses live market APIs.*`;
+    const quote = await getMarketQuote(assetClass, symbol, period, currency);
+    return JSON.stringify(quote);
   } catch (error: any) {
-    return `❌ Crypto price lookup failed: ${error.message}`;
-  }
-}
-
-async function handleStockData(symbol: string, period: string = "1d"): Promise<string> {
-  try {
-    // Simulated stock data (in production, use real API like Alpha Vantage)
-    const mockData = {
-      AAPL: { price: 185.20, change: 2.15, volume: "52.1M" },
-      TSLA: { price: 238.45, change: -3.20, volume: "28.7M" },
-      GOOGL: { price: 142.80, change: 1.45, volume: "18.9M" }
-    };
-    
-    const data = mockData[symbol.toUpperCase() as keyof typeof mockData] || { price: 0, change: 0, volume: "0" };
-    
-    return `📈 **Stock Market Data**
-
-**Symbol:** ${symbol.toUpperCase()}
-**Current Price:** $${data.price}
-**Change:** ${data.change > 0 ? '+' : ''}$${data.change} (${((data.change / data.price) * 100).toFixed(2)}%)
-**Volume:** ${data.volume}
-**Period:** ${period}
-
-**Technical Indicators:**
-- ${data.change > 0 ? '🟢 Upward' : '🔴 Downward'} momentum
-- High liquidity trading
-- Real-time market data
-
-*Note: This is demo data. Production version uses live market feeds.*`;
-  } catch (error: any) {
-    return `❌ Stock data lookup failed: ${error.message}`;
+    log(`Market data error: ${error.message}`, "error");
+    return JSON.stringify({
+      error: error instanceof MarketSymbolNotFoundError ? "Symbol not found" : "Failed to get market data",
+      message: error.message || "Market data is temporarily unavailable"
+    });
   }
 }
 
@@ -673,64 +600,109 @@ async function handleSystemMonitoring(metric: string = "all"): Promise<string> {
   }
 }
 
-async function handleDatabaseQuery(query: string, database: string = "main"): Promise<string> {
-  try {
-    // Simulated database query result
-    return `🗄️ **Database Query Executed**
+async function handleDatasetListing(userId?: number): Promise<string> {
+  if (!userId) {
+    return JSON.stringify({ error: "Sign in required", message: "Datasets belong to signed-in users" });
+  }
 
-**Database:** ${database}
-**Query:** \`${query}\`
+  const available = await storage.getDatasetsForUser(userId);
+  return JSON.stringify({
+    datasets: available.map(dataset => ({ name: dataset.name, filename: dataset.filename, tables: dataset.tables })),
+    message: available.length === 0 ? "The user has not uploaded any datasets yet" : undefined
+  });
+}
 
-**Results:**
-- Query executed successfully
-- Processing time: ~45ms
-- Rows affected: 0
-- Connection status: Active
+async function handleDatabaseQuery(query: string, datasetName: string | undefined, maxRows: number, context: ToolContext): Promise<string> {
+  if (!context.userId) {
+    return JSON.stringify({ error: "Sign in required", message: "Datasets belong to signed-in users; sign in and upload one to query it" });
+  }
 
-**Analysis:**
-- Query syntax validated
-- Performance optimization applied
-- Transaction completed safely
+  try {
+    const available = await storage.getDatasetsForUser(context.userId);
+    if (available.length === 0) {
+      return JSON.stringify({ error: "No datasets", message: "The user has not uploaded any datasets yet" });
+    }
+    // The dataset may be left out when there is only one
+    const name = datasetName || (available.length === 1 ? available[0].name : undefined);
+    const dataset = name ? await storage.getDatasetForUser(context.userId, name) : undefined;
+    if (!dataset) {
+      return JSON.stringify({
+        error: name ? "Unknown dataset" : "Dataset required",
+        message: `Name one of the user's datasets: ${available.map(item => item.name).join(", ")}`
+      });
+    }
 
-*Note: This is a simulation. Production queries would execute against real database.*`;
+    log(`Querying dataset ${dataset.name}`);
+    const startedAt = Date.now();
+    const { columns, rows, truncated } = await queryDataset(Buffer.from(dataset.data, "base64"), query, { maxRows, signal: context.signal });
+
+    // Keyed by position since joins can return several columns with the same name
+    const keys = columns.map((_, i) => `c${i}`);
+    const result: QueryResult = {
+      type: "query_result",
+      dataset: dataset.name,
+      sql: query.trim(),
+      table: {
+        title: `Query on ${dataset.name}`,
+        columns: columns.map((label, i) => ({
+          key: keys[i],
+          label,
+          type: rows.some(row => typeof row[i] === "number") && rows.every(row => row[i] === null || typeof row[i] === "number") ? "number" : "string"
+        })),
+        rows: rows.map(row => Object.fromEntries(keys.map((key, i) => [key, row[i]])))
+      },
+      rowCount: rows.length,
+      truncated,
+      durationMs: Date.now() - startedAt
+    };
+    return JSON.stringify(result);
   } catch (error: any) {
-    return `❌ Database query failed: ${error.message}`;
+    log(`Dataset query error: ${error.message}`, "error");
+    return JSON.stringify({
+      error: error instanceof DatasetQueryError ? "Query failed" : "Failed to query dataset",
+      message: error.message || "Dataset queries are temporarily unavailable"
+    });
   }
 }
 
-async function handleFileOperations(operation: string, filePath: string, content?: string): Promise<string> {
+const fileOperations = ["create", "read", "list", "append", "delete", "move"] as const;
+type FileOperation = typeof fileOperations[number];
+
+async function handleFileOperations(operation: FileOperation, path: string, content: string | undefined, destination: string | undefined, context: ToolContext): Promise<string> {
+  if (!context.userId || !context.sessionId) {
+    return JSON.stringify({
+      error: "Workspace unavailable",
+      message: "Workspace files are kept per chat for signed-in users; sign in to use them"
+    });
+  }
+
+  const scope = { userId: context.userId, sessionId: context.sessionId };
   try {
-    const timestamp = new Date().toISOString();
-    
-    switch (operation.toLowerCase()) {
+    switch (operation) {
       case "create":
-        return `📄 **File Created**
-**Path:** ${filePath}
-**Size:** ${content?.length || 0} bytes
-**Created:** ${timestamp}
-**Status:** ✅ Success`;
-        
-      case "read":
-        return `📖 **File Read Operation**
-**Path:** ${filePath}
-**Access Time:** ${timestamp}
-**Status:** ✅ File accessible
-**Content Preview:** Available`;
-        
+      case "append": {
+        const file = await writeWorkspaceFile(scope, path, content || "", operation);
+        return JSON.stringify({ operation, ...file });
+      }
+      case "read": {
+        const file = await readWorkspaceFile(scope, path);
+        return JSON.stringify({ operation, path: file.path, sizeBytes: file.sizeBytes, content: file.content });
+      }
+      case "list": {
+        const listing = await listWorkspace(scope, path);
+        return JSON.stringify({ operation, ...listing, quotaBytes: MAX_WORKSPACE_BYTES });
+      }
       case "delete":
-        return `🗑️ **File Deleted**
-**Path:** ${filePath}
-**Deleted:** ${timestamp}
-**Status:** ✅ Removed successfully`;
-        
-      default:
-        return `📁 **File Operation: ${operation}**
-**Path:** ${filePath}
-**Timestamp:** ${timestamp}
-**Status:** ✅ Operation completed`;
+        return JSON.stringify({ operation, deleted: await deleteWorkspaceEntry(scope, path) });
+      case "move":
+        return JSON.stringify({ operation, moved: await moveWorkspaceEntry(scope, path, destination || "") });
     }
   } catch (error: any) {
-    return `❌ File operation failed: ${error.message}`;
+    log(`Workspace ${operation} error: ${error.message}`, "error");
+    return JSON.stringify({
+      error: error instanceof WorkspaceError ? "File operation refused" : "File operation failed",
+      message: error.message || "Workspace files are temporarily unavailable"
+    });
   }
 }
 
@@ -862,69 +834,43 @@ ${analysis}`;
   }
 }
 
-async function handleChartCreation(data: string, chartType: string, title?: string, xLabel?: string, yLabel?: string): Promise<string> {
+async function handleChartCreation(data: string, chartType: ChartType, options: ChartOptions, format: "png" | "svg", userId?: number): Promise<string> {
+  log(`Creating ${chartType} chart`);
   try {
-    // Parse the data
-    let parsedData: any[] = [];
-    try {
-      parsedData = JSON.parse(data);
-    } catch {
-      // Simple CSV parsing
-      const lines = data.trim().split('\n');
-      const headers = lines[0].split(',').map(h => h.trim());
-      parsedData = lines.slice(1).map(line => {
-        const values = line.split(',').map(v => v.trim());
-        const obj: any = {};
-        headers.forEach((header, i) => {
-          obj[header] = isNaN(Number(values[i])) ? values[i] : Number(values[i]);
-        });
-        return obj;
-      });
-    }
-
-    return `📊 Chart Created Successfully!
-**Type:** ${chartType.charAt(0).toUpperCase() + chartType.slice(1)} Chart
-**Title:** ${title || 'Untitled Chart'}
-**Data Points:** ${parsedData.length}
-${xLabel ? `**X-Axis:** ${xLabel}` : ''}
-${yLabel ? `**Y-Axis:** ${yLabel}` : ''}
-
-**Chart Configuration:**
-- Chart Type: ${chartType}
-- Dataset: ${parsedData.length} records
-- Format: Interactive web chart
-
-*Chart visualization would be rendered using libraries like Chart.js or D3.js*
-
-**Sample Data Preview:**
-\`\`\`json
-${JSON.stringify(parsedData.slice(0, 3), null, 2)}
-\`\`\``;
+    const spec = buildChartSpec(parseChartData(data), chartType, options);
+    return JSON.stringify(await storeChart(spec, format, userId));
   } catch (error: any) {
-    return `❌ Chart creation failed: ${error.message}`;
+    log(`Chart creation error: ${error.message}`, "error");
+    return JSON.stringify({
+      error: error instanceof ChartDataError ? "Unusable chart data" : "Failed to create chart",
+      message: error.message || "Chart creation is temporarily unavailable"
+    });
   }
 }
 
-async function handleTextExtraction(url: string, summaryLength: string): Promise<string> {
+async function handleTextExtraction(url: string, length: ExtractLength, context: ToolContext): Promise<string> {
+  log(`Extracting text from ${url}`);
   try {
-    // This would normally use a web scraping service or API
-    // For demonstration, we'll simulate the response
-    return `🔗 Text Extraction Completed
-**URL:** ${url}
-**Summary Length:** ${summaryLength}
-
-**Status:** Content extraction would be performed using web scraping tools
-
-*This feature would integrate with services like:*
-- Puppeteer for dynamic content
-- Cheerio for HTML parsing  
-- Mercury Parser for clean text extraction
-- Custom summarization using GPT-5
-
-**Next Steps:** 
-The extracted content would be cleaned, processed, and summarized according to the ${summaryLength} length specification.`;
+    const page = await fetchPage(url, { signal: context.signal });
+    const limit = EXTRACT_LENGTH_CHARS[length];
+    return JSON.stringify({
+      url: page.url,
+      title: page.title,
+      byline: page.byline,
+      published_at: page.publishedAt,
+      site_name: page.siteName,
+      content_type: page.contentType,
+      content: page.markdown.slice(0, limit),
+      truncated: page.truncated || page.markdown.length > limit
+    });
   } catch (error: any) {
-    return `❌ Text extraction failed: ${error.message}`;
+    if (error instanceof RobotsDisallowedError) {
+      return JSON.stringify({ error: "Fetching disallowed", message: `${error.message}; do not retry, use search results for this site instead` });
+    }
+    if (error instanceof PageFetchError) {
+      return JSON.stringify({ error: "Could not read page", message: error.message });
+    }
+    throw error;
   }
 }
 
@@ -1021,4 +967,380 @@ async function handlePasswordGeneration(
   } catch (error: any) {
     return `❌ Password generation failed: ${error.message}`;
   }
-}
\ No newline at end of file
+}
+// Passages file_search may return at once
+const MAX_SEARCH_RESULTS = 10;
+// Web search results given to the model and shown as cards
+const MAX_WEB_RESULTS = 6;
+
+type ExtractLength = "short" | "medium" | "long";
+
+// Characters of page markdown extract_text_from_url returns for each summary length
+const EXTRACT_LENGTH_CHARS: Record<ExtractLength, number> = { short: 4_000, medium: 12_000, long: 30_000 };
+
+// Plain arithmetic only: calculate_math evaluates the expression as JavaScript
+const ARITHMETIC_EXPRESSION = /^[\d\s+\-*/%().,eE]+$/;
+
+const builtinTools = [
+  defineTool({
+    name: "web_search",
+    description: "Search the web for current, real-time information. Use this when you need up-to-date information, news, current events, or anything that might have changed recently. Pick a vertical for news articles, images, videos or places such as shops and restaurants. Cite each result you use by its number in square brackets, like [1]; the user sees the numbered results as cards.",
+    schema: z.object({
+      query: z.string().min(1).describe("The search query to find relevant information"),
+      vertical: z.enum(searchVerticals).optional().describe("Kind of results (default web)"),
+      time_range: z.enum(searchTimeRanges).optional().describe("Only results from the past day, week, month or year; ignored for places"),
+      region: z.string().regex(/^[a-z]{2}$/i).optional().describe("Two-letter country code to localize results for, such as us or in"),
+      language: z.string().regex(/^[a-z]{2}$/i).optional().describe("Two-letter language code of the results, such as en or hi")
+    }),
+    permission: "read",
+    timeoutMs: 30_000,
+    handler: (args, context) => handleWebSearch(args.query, {
+      vertical: args.vertical || "web",
+      timeRange: args.time_range,
+      region: args.region?.toLowerCase(),
+      language: args.language?.toLowerCase()
+    }, context)
+  }),
+  defineTool({
+    name: "file_search",
+    description: "Search the documents the user uploaded (PDF, DOCX, TXT, Markdown) for passages relevant to a question. Answer from the returned passages and cite each one you use by its number in square brackets, like [1]; the user sees the numbered passages as sources.",
+    schema: z.object({
+      query: z.string().min(1).describe("What to search for in the documents, phrased like the passage you hope to find"),
+      file_type: z.enum(documentFormats).optional().describe("Only search documents of this type"),
+      max_results: z.number().int().min(1).max(MAX_SEARCH_RESULTS).optional().describe("Most passages to return (default 5)")
+    }),
+    permission: "read",
+    handler: (args, context) => handleFileSearch(args.query, args.file_type, args.max_results || 5, context)
+  }),
+  defineTool({
+    name: "generate_image",
+    description: "Generate images based on text descriptions. Use this when the user asks for visual content, artwork, diagrams, or any kind of image creation.",
+    schema: z.object({
+      prompt: z.string().min(1).describe("Detailed description of the image to generate"),
+      size: z.enum(["1024x1024", "1792x1024", "1024x1792"]).optional().describe("Image dimensions")
+    }),
+    permission: "write",
+    timeoutMs: 90_000,
+    handler: (args, context) => handleImageGeneration(args.prompt, args.size || "1024x1024", context)
+  }),
+  defineTool({
+    name: "generate_pdf",
+    description: "Generate PDF documents from markdown. Use this when the user asks for documents, reports, formatted text, PDFs, or wants to download content as PDF. Write the content as markdown: headings, bullet and numbered lists, tables, fenced code blocks with a language, LaTeX math in \\(...\\) or \\[...\\], and images already in the chat as ![caption](/api/images/ID). IMPORTANT: If you have search results or gathered information that user told to be formatted into a PDF document and then give, use this tool immediately after gathering the information.",
+    schema: z.object({
+      title: z.string().min(1).describe("Title of the PDF document"),
+      content: z.string().describe("Main content of the PDF, as markdown"),
+      sections: z.array(z.object({
+        heading: z.string(),
+        content: z.string().describe("Section content, as markdown")
+      })).optional().describe("Optional sections added after the main content, each under a top-level heading"),
+      theme: z.enum(pdfThemes).optional().describe("Look of the document: classic (serif, default), modern (sans-serif, colored) or academic (LaTeX style)"),
+      table_of_contents: z.boolean().optional().describe("Whether to include a linked table of contents (default: when there are three or more headings)")
+    }),
+    permission: "write",
+    timeoutMs: 60_000,
+    handler: (args, context) => handlePdfGeneration({
+      title: args.title,
+      content: args.content,
+      sections: args.sections,
+      theme: args.theme,
+      tableOfContents: args.table_of_contents
+    }, context.userId)
+  }),
+  defineTool({
+    name: "execute_code",
+    description: "Run JavaScript or Python code in an isolated sandbox for calculations, data processing, or algorithmic tasks. Print results to stdout; there is no network or file system access.",
+    schema: z.object({
+      code: z.string().min(1).describe("Code to execute"),
+      language: z.enum(sandboxLanguages).optional().describe("Programming language (default javascript)")
+    }),
+    // Runs arbitrary code, but in a sandbox with no network, no capabilities and none of the server's files
+    permission: "write",
+    timeoutMs: 20_000,
+    handler: (args) => handleCodeExecution(args.code, args.language || "javascript")
+  }),
+  defineTool({
+    name: "analyze_data",
+    description: "Perform statistical analysis on datasets. The results are shown to the user as sortable tables, so summarize the key findings instead of repeating every number. Optionally adds a chart of the data.",
+    schema: z.object({
+      data: z.string().min(1).describe("CSV or TSV with a header line, or JSON, to analyze"),
+      analysis_type: z.enum(analysisTypes).describe("summary: column statistics; correlation: Pearson and Spearman matrices; trend: linear fit over the first date column or row order; distribution: quantiles and histograms"),
+      format: z.enum(["csv", "tsv", "json"]).optional().describe("Format of the data; detected when not given"),
+      visualization: z.boolean().optional().describe("Whether to draw a chart of the data")
+    }),
+    // Stores the chart image
+    permission: "write",
+    handler: (args, context) => handleDataAnalysis(args.data, args.analysis_type, args.visualization, args.format, context.userId)
+  }),
+  defineTool({
+    name: "translate_text",
+    description: "Translate text between different languages using advanced translation models",
+    schema: z.object({
+      text: z.string().min(1).describe("Text to translate"),
+      source_language: z.string().optional().describe("Source language code (e.g., 'en', 'es', 'fr')"),
+      target_language: z.string().min(1).describe("Target language code")
+    }),
+    permission: "read",
+    handler: (args) => handleTextTranslation(args.text, args.target_language, args.source_language)
+  }),
+  defineTool({
+    name: "get_weather",
+    description: "Get current weather conditions and a daily forecast for any location. The result is shown to the user as a weather card, so summarize it briefly instead of repeating every number.",
+    schema: z.object({
+      location: z.string().min(1).describe("City name, optionally with region or country (e.g. 'Paris, France'), or 'latitude,longitude'"),
+      forecast_days: z.number().int().min(1).max(MAX_FORECAST_DAYS).optional().describe(`Number of forecast days including today (1-${MAX_FORECAST_DAYS}, default 1)`)
+    }),
+    permission: "read",
+    handler: (args) => handleWeatherRequest(args.location, args.forecast_days)
+  }),
+  defineTool({
+    name: "calculate_math",
+    description: "Perform complex mathematical calculations, solve equations, or work with mathematical expressions",
+    schema: z.object({
+      expression: z.string().min(1).describe("Mathematical expression or equation to solve"),
+      operation: z.enum(["calculate", "solve", "differentiate", "integrate", "plot"]).optional().describe("Type of mathematical operation")
+    }).refine(
+      args => (args.operation && args.operation !== "calculate") || ARITHMETIC_EXPRESSION.test(args.expression),
+      { message: "Only numbers, parentheses and arithmetic operators can be calculated", path: ["expression"] }
+    ),
+    permission: "read",
+    handler: (args) => handleMathCalculation(args.expression, args.operation || "calculate")
+  }),
+  defineTool({
+    name: "compose_email",
+    description: "Help compose professional emails with proper formatting and tone",
+    schema: z.object({
+      recipient: z.string().optional().describe("Email recipient"),
+      subject: z.string().min(1).describe("Email subject line"),
+      purpose: z.string().min(1).describe("Purpose or context of the email"),
+      tone: z.enum(["formal", "casual", "friendly", "professional"]).optional().describe("Desired tone of the email")
+    }),
+    permission: "read",
+    handler: (args) => handleEmailComposition(args.subject, args.purpose, args.tone || "professional", args.recipient)
+  }),
+  defineTool({
+    name: "analyze_sentiment",
+    description: "Analyze the emotional tone and sentiment of text content",
+    schema: z.object({
+      text: z.string().min(1).describe("Text to analyze for sentiment"),
+      analysis_depth: z.enum(["basic", "detailed", "emotions"]).optional().describe("Level of analysis detail")
+    }),
+    permission: "read",
+    handler: (args) => handleSentimentAnalysis(args.text, args.analysis_depth || "basic")
+  }),
+  defineTool({
+    name: "create_calendar_event",
+    description: "Create structured calendar events with proper formatting",
+    schema: z.object({
+      title: z.string().min(1).describe("Event title"),
+      date: z.string().min(1).describe("Event date"),
+      time: z.string().optional().describe("Event time"),
+      duration: z.string().optional().describe("Event duration"),
+      description: z.string().optional().describe("Event description or agenda")
+    }),
+    permission: "read",
+    handler: (args) => handleCalendarEvent(args.title, args.date, args.time, args.duration, args.description)
+  }),
+  defineTool({
+    name: "extract_text_from_image",
+    description: "Extract and analyze text from images using advanced OCR technology",
+    schema: z.object({
+      image_url: z.string().min(1).describe("URL or data URI of the image to analyze"),
+      language: z.string().optional().describe("Language hint for OCR (auto, en, es, fr, etc.)")
+    }),
+    permission: "read",
+    timeoutMs: 60_000,
+    handler: (args) => handleOCRAnalysis(args.image_url, args.language || "auto")
+  }),
+  defineTool({
+    name: "generate_audio",
+    description: "Generate high-quality audio from text using advanced text-to-speech",
+    schema: z.object({
+      text: z.string().min(1).describe("Text to convert to speech"),
+      voice: z.enum(["alloy", "echo", "fable", "onyx", "nova", "shimmer"]).optional().describe("Voice type for speech generation"),
+      speed: z.number().min(0.25).max(4).optional().describe("Speech speed (0.25 to 4.0, default 1.0)")
+    }),
+    permission: "write",
+    timeoutMs: 60_000,
+    handler: (args) => handleAudioGeneration(args.text, args.voice || "alloy", args.speed || 1.0)
+  }),
+  defineTool({
+    name: "detect_language",
+    description: "Detect the language of text with confidence scores and linguistic analysis",
+    schema: z.object({
+      text: z.string().min(1).describe("Text to analyze for language detection")
+    }),
+    permission: "read",
+    handler: (args) => handleLanguageDetection(args.text)
+  }),
+  defineTool({
+    name: "get_crypto_price",
+    description: "Get the live price of a cryptocurrency and its price history (OHLC) over a period. The result is shown to the user as a price chart.",
+    schema: z.object({
+      symbol: z.string().min(1).describe("Cryptocurrency name, id or ticker (bitcoin, ethereum, btc, sol, etc.)"),
+      currency: z.string().optional().describe("Currency for price display (usd, eur, btc, etc.)"),
+      period: z.enum(marketPeriods).optional().describe("Time period of the price history (default 1d)")
+    }),
+    permission: "read",
+    handler: (args) => handleMarketQuote("crypto", args.symbol, args.period || "1d", args.currency || "usd")
+  }),
+  defineTool({
+    name: "get_stock_data",
+    description: "Get the latest stock price and its price history (OHLC with volume) over a period. The result is shown to the user as a price chart.",
+    schema: z.object({
+      symbol: z.string().min(1).describe("Stock symbol (AAPL, TSLA, GOOGL, etc.)"),
+      period: z.enum(marketPeriods).optional().describe("Time period of the price history (default 1d)")
+    }),
+    permission: "read",
+    handler: (args) => handleMarketQuote("stock", args.symbol, args.period || "1d")
+  }),
+  defineTool({
+    name: "monitor_system",
+    description: "Monitor system performance, resources, and health metrics",
+    schema: z.object({
+      metric: z.enum(["all", "memory", "cpu", "disk", "network"]).optional().describe("System metric to monitor")
+    }),
+    permission: "system",
+    handler: (args) => handleSystemMonitoring(args.metric || "all")
+  }),
+  defineTool({
+    name: "query_database",
+    description: `Run a read-only SQLite query against one of the datasets the user uploaded. Use list_datasets first to see their tables and columns. Only a single SELECT statement is allowed and at most ${MAX_QUERY_ROWS} rows come back; the result is shown to the user as a table, so summarize it instead of repeating every row.`,
+    schema: z.object({
+      query: z.string().min(1).describe("A single SQLite SELECT statement"),
+      dataset: z.string().optional().describe("Name of the dataset to query; may be left out when the user has only one"),
+      max_rows: z.number().int().min(1).max(MAX_QUERY_ROWS).optional().describe("Most rows to return (default 100)")
+    }),
+    // Runs on a throwaway copy of the user's own data, so it reads nothing else and changes nothing
+    permission: "read",
+    handler: (args, context) => handleDatabaseQuery(args.query, args.dataset, args.max_rows || 100, context)
+  }),
+  defineTool({
+    name: "list_datasets",
+    description: "List the datasets the user uploaded, with their tables, columns and row counts, for use with query_database",
+    schema: z.object({}),
+    permission: "read",
+    handler: (_args, context) => handleDatasetListing(context.userId)
+  }),
+  defineTool({
+    name: "manage_files",
+    description: `Create, read, list, append to, delete and move text files in this conversation's workspace, so multi-file outputs can be built up over several turns. Paths are relative to the workspace root (e.g. "site/index.html"); directories exist implicitly. The user can browse and download the files. Files are limited to ${MAX_FILE_BYTES / 1024} KB and a workspace to ${MAX_WORKSPACE_BYTES / 1024 / 1024} MB.`,
+    schema: z.object({
+      operation: z.enum(fileOperations).describe("create writes or replaces a file; append adds to the end of one; list shows a directory (use \"/\" for everything); delete removes a file or a whole directory; move renames a file or directory"),
+      path: z.string().min(1).describe("File or directory path in the workspace"),
+      content: z.string().optional().describe("Text to write (create and append)"),
+      destination: z.string().optional().describe("New path (move)")
+    }).refine(
+      args => args.operation !== "move" || !!args.destination,
+      { message: "move needs a destination", path: ["destination"] }
+    ).refine(
+      args => (args.operation !== "create" && args.operation !== "append") || args.content !== undefined,
+      { message: "create and append need content", path: ["content"] }
+    ),
+    // Writes only to the conversation's own workspace
+    permission: "write",
+    handler: (args, context) => handleFileOperations(args.operation, args.path, args.content, args.destination, context)
+  }),
+  defineTool({
+    name: "network_diagnostics",
+    description: "Perform network diagnostics including ping, traceroute, and connectivity tests",
+    schema: z.object({
+      target: z.string().min(1).describe("Target host, IP address, or URL to test"),
+      test_type: z.enum(["ping", "traceroute", "dns", "port", "speed"]).optional().describe("Type of network test to perform")
+    }),
+    permission: "system",
+    handler: (args) => handleNetworkDiagnostics(args.target, args.test_type || "ping")
+  }),
+  defineTool({
+    name: "security_scan",
+    description: "Scan URLs, files, or content for security vulnerabilities and threats",
+    schema: z.object({
+      url: z.string().min(1).describe("URL or content to scan for security issues"),
+      scan_type: z.enum(["basic", "comprehensive", "malware", "phishing", "ssl"]).optional().describe("Type of security scan to perform")
+    }),
+    permission: "read",
+    handler: (args) => handleSecurityScan(args.url, args.scan_type || "basic")
+  }),
+  defineTool({
+    name: "advanced_summarize",
+    description: "Advanced text summarization with multiple algorithms and customizable output",
+    schema: z.object({
+      text: z.string().min(1).describe("Text content to summarize"),
+      method: z.enum(["extractive", "abstractive", "hybrid", "keyword"]).optional().describe("Summarization method to use"),
+      length: z.enum(["short", "medium", "long"]).optional().describe("Target summary length")
+    }),
+    permission: "read",
+    handler: (args) => handleAdvancedSummarization(args.text, args.method || "extractive", args.length || "medium")
+  }),
+  defineTool({
+    name: "analyze_code",
+    description: "Analyze code for complexity, performance issues, security vulnerabilities, and best practices",
+    schema: z.object({
+      code: z.string().min(1).describe("Code to analyze"),
+      language: z.string().min(1).describe("Programming language (javascript, python, java, etc.)"),
+      analysis_type: z.enum(["complexity", "security", "performance", "style", "comprehensive"]).optional().describe("Type of code analysis to perform")
+    }),
+    permission: "read",
+    handler: (args) => handleCodeAnalysis(args.code, args.language, args.analysis_type || "comprehensive")
+  }),
+  defineTool({
+    name: "create_chart",
+    description: "Draw a chart from data. The chart is shown to the user as an interactive chart with a downloadable image.",
+    schema: z.object({
+      data: z.string().min(1).describe("Data in JSON (array of objects, array of numbers, or {label: value} object) or CSV format"),
+      chart_type: z.enum(chartTypes).describe("Type of chart to create"),
+      title: z.string().optional().describe("Chart title"),
+      x_label: z.string().optional().describe("X-axis label"),
+      y_label: z.string().optional().describe("Y-axis label"),
+      x_field: z.string().optional().describe("Column for the x axis or pie labels (default: first text column)"),
+      y_fields: z.array(z.string()).optional().describe("Columns to plot as series (default: all numeric columns)"),
+      format: z.enum(["png", "svg"]).optional().describe("Format of the stored image (default png)")
+    }),
+    // Stores the chart image
+    permission: "write",
+    handler: (args, context) => handleChartCreation(args.data, args.chart_type, {
+      title: args.title,
+      xLabel: args.x_label,
+      yLabel: args.y_label,
+      xField: args.x_field,
+      yFields: args.y_fields
+    }, args.format || "png", context.userId)
+  }),
+  defineTool({
+    name: "extract_text_from_url",
+    description: "Read a web page, PDF or text file and return its main content as markdown with the title, byline " +
+      "and publish date. Use it to summarize or quote a page the user links or a search result needs in full.",
+    schema: z.object({
+      url: z.string().url().describe("URL of the page to read"),
+      summary_length: z.enum(["short", "medium", "long"]).optional().describe("How much of the page to return: short for a brief summary, long to quote or analyse it (default medium)")
+    }),
+    permission: "read",
+    timeoutMs: 30_000,
+    handler: (args, context) => handleTextExtraction(args.url, args.summary_length || "medium", context)
+  }),
+  defineTool({
+    name: "format_text",
+    description: "Format and structure text content with various styles and layouts",
+    schema: z.object({
+      text: z.string().min(1).describe("Text content to format"),
+      format_type: z.enum(["markdown", "html", "json", "csv", "xml", "yaml"]).describe("Output format type"),
+      style: z.enum(["professional", "academic", "casual", "technical"]).optional().describe("Writing style to apply")
+    }),
+    permission: "read",
+    handler: (args) => handleTextFormatting(args.text, args.format_type, args.style)
+  }),
+  defineTool({
+    name: "generate_password",
+    description: "Generate secure passwords with customizable complexity",
+    schema: z.object({
+      length: z.number().int().min(4).max(128).optional().describe("Password length (default 16)"),
+      include_symbols: z.boolean().optional().describe("Include special symbols"),
+      include_numbers: z.boolean().optional().describe("Include numbers"),
+      include_uppercase: z.boolean().optional().describe("Include uppercase letters"),
+      exclude_similar: z.boolean().optional().describe("Exclude similar characters (0, O, l, 1, etc.)")
+    }),
+    permission: "read",
+    handler: (args) => handlePasswordGeneration(args.length || 16, args.include_symbols, args.include_numbers, args.include_uppercase, args.exclude_similar)
+  })
+];
+
+builtinTools.forEach(registerTool);
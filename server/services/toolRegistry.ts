@@ -0,0 +1,157 @@
+import type OpenAI from "openai";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { fromZodError } from "zod-validation-error";
+import { log } from "../vite";
+import type { UsageMeter } from "./quota";
+
+/**
+ * What a tool is allowed to touch, from least to most privileged:
+ * - read: looks things up or computes an answer without side effects
+ * - write: stores new artifacts such as images or PDFs
+ * - system: reaches into the host machine or runs arbitrary code
+ */
+export type ToolPermission = "read" | "write" | "system";
+
+const permissionRank: Record<ToolPermission, number> = {
+  read: 0,
+  write: 1,
+  system: 2
+};
+
+// Tools up to this level are offered to chat models unless a caller asks otherwise
+export const DEFAULT_TOOL_PERMISSION: ToolPermission = "write";
+
+const DEFAULT_TOOL_TIMEOUT_MS = 30_000;
+
+export interface ToolContext {
+  // Aborted when the tool times out or the chat request is cancelled
+  signal: AbortSignal;
+  // Signed-in user the tool runs for; artifacts it stores belong to them
+  userId?: number;
+  // Client id of the chat the tool runs in, which scopes its workspace files
+  sessionId?: string;
+  // Daily quotas of the caller; tools with a quota of their own consume it
+  usage?: UsageMeter;
+}
+
+export interface ToolDefinition<TSchema extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: TSchema;
+  permission: ToolPermission;
+  timeoutMs?: number;
+  // Returns the tool output as sent back to the model; JSON results with an `error` field count as failures
+  handler(args: z.infer<TSchema>, context: ToolContext): Promise<string>;
+}
+
+export interface ExecuteToolOptions {
+  permission?: ToolPermission;
+  signal?: AbortSignal;
+  userId?: number;
+  sessionId?: string;
+  usage?: UsageMeter;
+}
+
+/**
+ * Identity helper so each tool's handler arguments are inferred from its schema
+ */
+export function defineTool<TSchema extends z.ZodTypeAny>(tool: ToolDefinition<TSchema>): ToolDefinition<TSchema> {
+  return tool;
+}
+
+const tools = new Map<string, ToolDefinition>();
+
+/**
+ * Add a tool to the registry, replacing any tool already registered under the same name
+ */
+export function registerTool(tool: ToolDefinition<any>) {
+  tools.set(tool.name, tool);
+}
+
+export function getTool(name: string): ToolDefinition | undefined {
+  return tools.get(name);
+}
+
+function isPermitted(tool: ToolDefinition, permission: ToolPermission) {
+  return permissionRank[tool.permission] <= permissionRank[permission];
+}
+
+/**
+ * Function-calling schemas for every tool the given permission level may use
+ */
+export function getToolSchemas(permission: ToolPermission = DEFAULT_TOOL_PERMISSION): OpenAI.Chat.ChatCompletionFunctionTool[] {
+  return Array.from(tools.values())
+    .filter(tool => isPermitted(tool, permission))
+    .map(tool => {
+      const { $schema, ...parameters } = zodToJsonSchema(tool.schema, { target: "openApi3" }) as Record<string, unknown>;
+      return {
+        type: "function" as const,
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters
+        }
+      };
+    });
+}
+
+/**
+ * Validate raw model-supplied arguments and run the named tool. Failures of any kind
+ * (unknown tool, bad arguments, denied permission, timeout, handler error) come back
+ * as a JSON string with an `error` field so they can be fed straight back to the model.
+ */
+export async function executeTool(name: string, rawArgs: string, options: ExecuteToolOptions = {}): Promise<string> {
+  const { permission = DEFAULT_TOOL_PERMISSION, signal, userId, sessionId, usage } = options;
+
+  const tool = tools.get(name);
+  if (!tool) {
+    return JSON.stringify({ error: `Unknown function: ${name}` });
+  }
+
+  if (!isPermitted(tool, permission)) {
+    log(`Denied ${name}: requires ${tool.permission} permission`, "error");
+    return JSON.stringify({ error: `Permission denied for ${name}` });
+  }
+
+  let parsedArgs: unknown;
+  try {
+    parsedArgs = JSON.parse(rawArgs || "{}");
+  } catch {
+    return JSON.stringify({ error: `Invalid arguments for ${name}`, message: "Arguments are not valid JSON" });
+  }
+
+  const validation = tool.schema.safeParse(parsedArgs);
+  if (!validation.success) {
+    return JSON.stringify({
+      error: `Invalid arguments for ${name}`,
+      message: fromZodError(validation.error).message
+    });
+  }
+
+  const timeoutMs = tool.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+  const controller = new AbortController();
+  const abortFromParent = () => controller.abort();
+  signal?.addEventListener("abort", abortFromParent);
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`Timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+    });
+
+    return await Promise.race([tool.handler(validation.data, { signal: controller.signal, userId, sessionId, usage }), timeout]);
+  } catch (error: any) {
+    log(`Tool execution error for ${name}: ${error.message}`, "error");
+    return JSON.stringify({
+      error: `Failed to execute ${name}`,
+      message: error.message
+    });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abortFromParent);
+  }
+}
@@ -0,0 +1,40 @@
+import type { ModelId, TokenUsage, UsagePurpose } from "@shared/schema";
+import { storage } from "../storage";
+import { log } from "../vite";
+import { estimateCost } from "./pricing";
+
+export interface ModelUsage {
+  // Signed-in user the call was made for; calls for anonymous visitors only count against quotas
+  userId?: number;
+  // Client id of the chat the call served
+  chatId?: string;
+  purpose: UsagePurpose;
+  model: ModelId;
+  tokens: TokenUsage;
+  toolCalls?: number;
+  latencyMs?: number;
+}
+
+/**
+ * Record a model call for the user's usage summary, priced from the model price table.
+ * Failures are logged rather than thrown, as the answer the call produced is still good.
+ */
+export async function recordModelUsage(usage: ModelUsage): Promise<void> {
+  if (!usage.userId) return;
+
+  try {
+    await storage.recordUsage({
+      userId: usage.userId,
+      chatId: usage.chatId ?? null,
+      purpose: usage.purpose,
+      model: usage.model,
+      promptTokens: usage.tokens.promptTokens,
+      completionTokens: usage.tokens.completionTokens,
+      toolCallCount: usage.toolCalls ?? 0,
+      latencyMs: usage.latencyMs ?? null,
+      costUsd: estimateCost(usage.model, usage.tokens)
+    });
+  } catch (error: any) {
+    log(`Error recording ${usage.purpose} usage: ${error.message}`, "error");
+  }
+}
@@ -0,0 +1,150 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import {
+  createFixtureWeatherProvider,
+  createOpenMeteoProvider,
+  getWeatherReport,
+  setWeatherProvider,
+  WeatherLocationNotFoundError,
+  type WeatherFixture,
+  type WeatherProvider
+} from "./weather";
+
+const lisbon: WeatherFixture = {
+  location: { name: "Lisbon", country: "Portugal", latitude: 38.72, longitude: -9.14, timezone: "Europe/Lisbon" },
+  current: {
+    time: "2026-10-19T12:00",
+    temperature: 21,
+    apparentTemperature: 20,
+    humidity: 60,
+    precipitation: 0,
+    windSpeed: 12,
+    windDirection: 300,
+    weatherCode: 1,
+    condition: "Mainly clear",
+    isDay: true
+  },
+  forecast: Array.from({ length: 7 }, (_, i) => ({
+    date: `2026-10-${19 + i}`,
+    temperatureMax: 22 + i,
+    temperatureMin: 15,
+    precipitationSum: 0,
+    precipitationProbability: 10,
+    windSpeedMax: 20,
+    weatherCode: 1,
+    condition: "Mainly clear"
+  }))
+};
+
+// Fixture provider that counts the lookups reaching it
+function countingProvider(fixtures: WeatherFixture[]) {
+  const inner = createFixtureWeatherProvider(fixtures);
+  const calls = { geocode: 0, forecast: 0 };
+  const provider: WeatherProvider = {
+    async geocode(query) { calls.geocode++; return inner.geocode(query); },
+    async getForecast(location, days) { calls.forecast++; return inner.getForecast(location, days); }
+  };
+  return { provider, calls };
+}
+
+describe("getWeatherReport", () => {
+  it("returns the report for a place, cut to the forecast length asked for", async () => {
+    setWeatherProvider(createFixtureWeatherProvider([lisbon]));
+    const report = await getWeatherReport("Lisbon", 3);
+    assert.equal(report.type, "weather_report");
+    assert.equal(report.location.country, "Portugal");
+    assert.equal(report.current.temperature, 21);
+    assert.deepEqual(report.forecast.map(day => day.date), ["2026-10-19", "2026-10-20", "2026-10-21"]);
+  });
+
+  it("throws WeatherLocationNotFoundError for an unknown place", async () => {
+    setWeatherProvider(createFixtureWeatherProvider([lisbon]));
+    await assert.rejects(getWeatherReport("Atlantis", 3), WeatherLocationNotFoundError);
+  });
+
+  it("looks a place up once for every forecast length and spelling of its name", async () => {
+    const { provider, calls } = countingProvider([lisbon]);
+    setWeatherProvider(provider);
+    const [short, long] = await Promise.all([getWeatherReport("Lisbon", 1), getWeatherReport("  lisbon ", 7)]);
+    assert.equal(short.forecast.length, 1);
+    assert.equal(long.forecast.length, 7);
+    assert.deepEqual(calls, { geocode: 1, forecast: 1 });
+  });
+
+  it("does not cache failed lookups", async () => {
+    const { provider, calls } = countingProvider([]);
+    setWeatherProvider(provider);
+    await assert.rejects(getWeatherReport("Lisbon", 3), WeatherLocationNotFoundError);
+    await assert.rejects(getWeatherReport("Lisbon", 3), WeatherLocationNotFoundError);
+    assert.equal(calls.geocode, 2);
+  });
+});
+
+describe("createOpenMeteoProvider", async () => {
+  const requests: URL[] = [];
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url!, "http://localhost");
+    requests.push(url);
+    res.setHeader("Content-Type", "application/json");
+    if (url.pathname === "/search") {
+      return res.end(JSON.stringify({
+        results: [
+          { name: "Paris", admin1: "Île-de-France", country: "France", country_code: "FR", latitude: 48.85, longitude: 2.35, timezone: "Europe/Paris" },
+          { name: "Paris", admin1: "Texas", country: "United States", country_code: "US", latitude: 33.66, longitude: -95.56, timezone: "America/Chicago" }
+        ]
+      }));
+    }
+    if (url.pathname === "/forecast") {
+      return res.end(JSON.stringify({
+        current: {
+          time: "2026-10-19T12:00", temperature_2m: 18, apparent_temperature: 17, relative_humidity_2m: 70,
+          precipitation: 0.2, wind_speed_10m: 9, wind_direction_10m: 180, weather_code: 61, is_day: 1
+        },
+        daily: {
+          time: ["2026-10-19", "2026-10-20"],
+          weather_code: [61, 3],
+          temperature_2m_max: [19, 20],
+          temperature_2m_min: [11, 12],
+          precipitation_sum: [2.5, 0],
+          wind_speed_10m_max: [25, 15]
+        }
+      }));
+    }
+    res.statusCode = 404;
+    res.end("{}");
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  after(() => server.close());
+
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const provider = createOpenMeteoProvider({ geocodingUrl: `${base}/search`, forecastUrl: `${base}/forecast` });
+
+  it("picks the match named by a region or country after the place name", async () => {
+    const texas = await provider.geocode("Paris, Texas");
+    assert.equal(texas?.region, "Texas");
+    assert.equal(requests.at(-1)?.searchParams.get("name"), "Paris");
+
+    const france = await provider.geocode("Paris");
+    assert.equal(france?.country, "France");
+  });
+
+  it("takes coordinates as they are, without a geocoding request", async () => {
+    const before = requests.length;
+    const location = await provider.geocode("51.5, -0.12");
+    assert.deepEqual(location, { name: "51.5, -0.12", latitude: 51.5, longitude: -0.12, timezone: "auto" });
+    assert.equal(requests.length, before);
+  });
+
+  it("maps the forecast response and describes the weather codes", async () => {
+    const { current, forecast } = await provider.getForecast(
+      { name: "Paris", latitude: 48.85, longitude: 2.35, timezone: "Europe/Paris" }, 2
+    );
+    assert.equal(requests.at(-1)?.searchParams.get("forecast_days"), "2");
+    assert.equal(current.condition, "Slight rain");
+    assert.equal(current.isDay, true);
+    assert.equal(forecast[1].condition, "Overcast");
+    assert.equal(forecast[0].precipitationProbability, null);
+  });
+});
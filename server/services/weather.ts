@@ -0,0 +1,263 @@
+import type { CurrentWeather, DailyForecast, WeatherLocation, WeatherReport } from "@shared/schema";
+
+const GEOCODING_URL = "https://geocoding-api.open-meteo.com/v1/search";
+const FORECAST_URL = "https://api.open-meteo.com/v1/forecast";
+
+// Longest forecast the get_weather tool offers; always fetched so one cache entry serves every length
+export const MAX_FORECAST_DAYS = 7;
+
+// Reports kept before entries from past hours are dropped
+const MAX_CACHE_ENTRIES = 500;
+
+// Place names matched per geocoding query, narrowed down by any region or country in the query
+const GEOCODING_CANDIDATES = 10;
+
+/**
+ * Where weather data comes from. Swapped for a fixture-backed provider in tests so they run offline.
+ */
+export interface WeatherProvider {
+  // Resolve a place name or "latitude,longitude" pair, or undefined when nothing matches
+  geocode(query: string, signal?: AbortSignal): Promise<WeatherLocation | undefined>;
+  // Current conditions and the daily forecast starting today
+  getForecast(location: WeatherLocation, days: number, signal?: AbortSignal): Promise<{ current: CurrentWeather; forecast: DailyForecast[] }>;
+}
+
+export class WeatherLocationNotFoundError extends Error {
+  constructor(query: string) {
+    super(`No place called "${query}" was found`);
+    this.name = "WeatherLocationNotFoundError";
+  }
+}
+
+// WMO weather interpretation codes as used by Open-Meteo
+const WEATHER_CONDITIONS: Record<number, string> = {
+  0: "Clear sky",
+  1: "Mainly clear",
+  2: "Partly cloudy",
+  3: "Overcast",
+  45: "Fog",
+  48: "Depositing rime fog",
+  51: "Light drizzle",
+  53: "Moderate drizzle",
+  55: "Dense drizzle",
+  56: "Light freezing drizzle",
+  57: "Dense freezing drizzle",
+  61: "Slight rain",
+  63: "Moderate rain",
+  65: "Heavy rain",
+  66: "Light freezing rain",
+  67: "Heavy freezing rain",
+  71: "Slight snowfall",
+  73: "Moderate snowfall",
+  75: "Heavy snowfall",
+  77: "Snow grains",
+  80: "Slight rain showers",
+  81: "Moderate rain showers",
+  82: "Violent rain showers",
+  85: "Slight snow showers",
+  86: "Heavy snow showers",
+  95: "Thunderstorm",
+  96: "Thunderstorm with slight hail",
+  99: "Thunderstorm with heavy hail"
+};
+
+export function describeWeatherCode(code: number): string {
+  return WEATHER_CONDITIONS[code] || "Unknown";
+}
+
+function parseCoordinates(query: string): { latitude: number; longitude: number } | undefined {
+  const match = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/.exec(query);
+  if (!match) return undefined;
+
+  const latitude = parseFloat(match[1]);
+  const longitude = parseFloat(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return undefined;
+  return { latitude, longitude };
+}
+
+async function fetchJson(url: URL, signal?: AbortSignal): Promise<any> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Weather service error (${response.status}): ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Provider backed by the Open-Meteo geocoding and forecast APIs (no API key needed). The URLs
+ * can point at a self-hosted instance or any service with the same API.
+ */
+export function createOpenMeteoProvider(options: { geocodingUrl?: string; forecastUrl?: string } = {}): WeatherProvider {
+  const geocodingUrl = options.geocodingUrl || process.env.WEATHER_GEOCODING_URL || GEOCODING_URL;
+  const forecastUrl = options.forecastUrl || process.env.WEATHER_FORECAST_URL || FORECAST_URL;
+
+  return {
+    async geocode(query, signal) {
+      const coordinates = parseCoordinates(query);
+      if (coordinates) {
+        // Open-Meteo picks the timezone for the coordinates when asked for "auto"
+        return { name: `${coordinates.latitude}, ${coordinates.longitude}`, ...coordinates, timezone: "auto" };
+      }
+
+      // The search matches place names only, so "Paris, Texas" searches for Paris and
+      // uses the rest to choose between the matches
+      const [name, ...qualifiers] = query.split(",").map(part => part.trim()).filter(Boolean);
+      if (!name) return undefined;
+
+      const url = new URL(geocodingUrl);
+      url.searchParams.set("name", name);
+      url.searchParams.set("count", String(GEOCODING_CANDIDATES));
+      url.searchParams.set("language", "en");
+      url.searchParams.set("format", "json");
+      const data = await fetchJson(url, signal);
+
+      const results: any[] = data.results || [];
+      const wanted = qualifiers.map(qualifier => qualifier.toLowerCase());
+      const match = results.find(result => wanted.every(qualifier =>
+        [result.admin1, result.country, result.country_code].some(
+          (field: string | undefined) => field?.toLowerCase() === qualifier
+        )
+      )) || results[0];
+      if (!match) return undefined;
+
+      return {
+        name: match.name,
+        region: match.admin1 || undefined,
+        country: match.country || undefined,
+        latitude: match.latitude,
+        longitude: match.longitude,
+        timezone: match.timezone || "auto"
+      };
+    },
+
+    async getForecast(location, days, signal) {
+      const url = new URL(forecastUrl);
+      url.searchParams.set("latitude", String(location.latitude));
+      url.searchParams.set("longitude", String(location.longitude));
+      url.searchParams.set("timezone", location.timezone);
+      url.searchParams.set("forecast_days", String(days));
+      url.searchParams.set("current", [
+        "temperature_2m", "apparent_temperature", "relative_humidity_2m", "precipitation",
+        "wind_speed_10m", "wind_direction_10m", "weather_code", "is_day"
+      ].join(","));
+      url.searchParams.set("daily", [
+        "weather_code", "temperature_2m_max", "temperature_2m_min", "precipitation_sum",
+        "precipitation_probability_max", "wind_speed_10m_max"
+      ].join(","));
+      const data = await fetchJson(url, signal);
+
+      const { current, daily } = data;
+      return {
+        current: {
+          time: current.time,
+          temperature: current.temperature_2m,
+          apparentTemperature: current.apparent_temperature,
+          humidity: current.relative_humidity_2m,
+          precipitation: current.precipitation,
+          windSpeed: current.wind_speed_10m,
+          windDirection: current.wind_direction_10m,
+          weatherCode: current.weather_code,
+          condition: describeWeatherCode(current.weather_code),
+          isDay: current.is_day === 1
+        },
+        forecast: (daily.time as string[]).map((date, i) => ({
+          date,
+          temperatureMax: daily.temperature_2m_max[i],
+          temperatureMin: daily.temperature_2m_min[i],
+          precipitationSum: daily.precipitation_sum[i],
+          precipitationProbability: daily.precipitation_probability_max?.[i] ?? null,
+          windSpeedMax: daily.wind_speed_10m_max[i],
+          weatherCode: daily.weather_code[i],
+          condition: describeWeatherCode(daily.weather_code[i])
+        }))
+      };
+    }
+  };
+}
+
+export interface WeatherFixture {
+  location: WeatherLocation;
+  current: CurrentWeather;
+  forecast: DailyForecast[];
+}
+
+/**
+ * Provider answering from canned data, matched on the fixture's location name (case-insensitive)
+ */
+export function createFixtureWeatherProvider(fixtures: WeatherFixture[]): WeatherProvider {
+  const byName = new Map(fixtures.map(fixture => [fixture.location.name.toLowerCase(), fixture]));
+  const find = (name: string) => byName.get(name.split(",")[0].trim().toLowerCase());
+
+  return {
+    async geocode(query) {
+      return find(query)?.location;
+    },
+
+    async getForecast(location, days) {
+      const fixture = find(location.name);
+      if (!fixture) {
+        throw new Error(`No weather fixture for ${location.name}`);
+      }
+      return { current: fixture.current, forecast: fixture.forecast.slice(0, days) };
+    }
+  };
+}
+
+let provider: WeatherProvider = createOpenMeteoProvider();
+
+// Reports by normalized location and UTC hour, so a place is looked up at most once an hour.
+// Promises are cached so concurrent requests for the same place share one lookup.
+const reportCache = new Map<string, Promise<WeatherReport>>();
+
+/**
+ * Replace the provider used by getWeatherReport; clears the cache
+ */
+export function setWeatherProvider(next: WeatherProvider) {
+  provider = next;
+  reportCache.clear();
+}
+
+function currentHour() {
+  return new Date().toISOString().slice(0, 13);
+}
+
+function pruneCache(hour: string) {
+  if (reportCache.size < MAX_CACHE_ENTRIES) return;
+  for (const key of Array.from(reportCache.keys())) {
+    if (!key.endsWith(`|${hour}`)) reportCache.delete(key);
+  }
+  // Still full with this hour's lookups: drop the oldest
+  while (reportCache.size >= MAX_CACHE_ENTRIES) {
+    reportCache.delete(reportCache.keys().next().value!);
+  }
+}
+
+async function lookUpWeather(query: string): Promise<WeatherReport> {
+  const location = await provider.geocode(query);
+  if (!location) {
+    throw new WeatherLocationNotFoundError(query);
+  }
+
+  const { current, forecast } = await provider.getForecast(location, MAX_FORECAST_DAYS);
+  return { type: "weather_report", location, current, forecast, fetchedAt: new Date().toISOString() };
+}
+
+/**
+ * Current conditions and a `forecastDays` day forecast for a place name or coordinates.
+ * Throws WeatherLocationNotFoundError when the place cannot be found.
+ */
+export async function getWeatherReport(query: string, forecastDays: number): Promise<WeatherReport> {
+  const hour = currentHour();
+  const key = `${query.trim().toLowerCase().replace(/\s+/g, " ")}|${hour}`;
+
+  let report = reportCache.get(key);
+  if (!report) {
+    pruneCache(hour);
+    report = lookUpWeather(query);
+    reportCache.set(key, report);
+    report.catch(() => reportCache.delete(key));
+  }
+
+  const result = await report;
+  return { ...result, forecast: result.forecast.slice(0, forecastDays) };
+}
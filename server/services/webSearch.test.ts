@@ -0,0 +1,182 @@
+import { describe, it, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { SearchVertical, WebSearchHit } from "@shared/schema";
+import {
+  createFixtureSearchProvider,
+  setSearchProviders,
+  webSearch,
+  SearchUnavailableError,
+  type SearchOptions,
+  type SearchProvider
+} from "./webSearch";
+
+const hit = (title: string): WebSearchHit => ({ title, url: `https://example.com/${title}`, snippet: "", siteName: "example.com", position: 1 });
+
+/**
+ * Provider whose searches are scripted per test, recording every call and the signal it got
+ */
+function scriptedProvider(id: string, answer: (query: string, options: SearchOptions) => Promise<WebSearchHit[]>, extra: { timeoutMs?: number; verticals?: SearchVertical[] } = {}) {
+  const calls: Array<{ query: string; signal?: AbortSignal }> = [];
+  const provider: SearchProvider = {
+    id,
+    verticals: extra.verticals || ["web", "news"],
+    timeoutMs: extra.timeoutMs,
+    async search(query, options) {
+      calls.push({ query, signal: options.signal });
+      return answer(query, options);
+    }
+  };
+  return { provider, calls };
+}
+
+const failing = (id: string) => scriptedProvider(id, async () => { throw new Error("quota exceeded"); });
+const answering = (id: string) => scriptedProvider(id, async query => [hit(`${id}:${query}`)]);
+
+// Never answers; settles only when the signal it was given aborts. The timer stands in for
+// the open connection of a real request, which keeps the process alive meanwhile, as
+// AbortSignal.timeout does not.
+const hanging = (id: string, timeoutMs?: number) => scriptedProvider(id, (_query, { signal }) => new Promise((_resolve, reject) => {
+  const connection = setTimeout(() => reject(new Error("connection reset")), 60_000);
+  signal?.addEventListener("abort", () => {
+    clearTimeout(connection);
+    reject(signal.reason);
+  }, { once: true });
+}), { timeoutMs });
+
+describe("webSearch", () => {
+  it("answers from fixtures whatever the case and spacing of the query", async () => {
+    setSearchProviders([createFixtureSearchProvider([
+      { query: "Node test runner", results: [{ title: "Test runner", url: "https://nodejs.org/api/test.html", snippet: "node:test" }] }
+    ])]);
+    const response = await webSearch("  node   TEST runner ");
+    assert.equal(response.provider, "fixture");
+    assert.equal(response.query, "node   TEST runner");
+    assert.deepEqual(response.results.map(result => [result.siteName, result.position]), [["nodejs.org", 1]]);
+    assert.deepEqual((await webSearch("unknown query")).results, []);
+  });
+
+  it("falls back to the next provider when one fails, skipping those without the vertical", async () => {
+    const first = failing("first");
+    const webOnly = answering("web-only");
+    webOnly.provider = { ...webOnly.provider, verticals: ["web"] };
+    const last = answering("last");
+    setSearchProviders([first.provider, webOnly.provider, last.provider]);
+
+    const response = await webSearch("election results", { vertical: "news" });
+    assert.equal(response.provider, "last");
+    assert.equal(first.calls.length, 1);
+    assert.equal(webOnly.calls.length, 0);
+  });
+
+  it("moves on from a provider that does not answer within its timeout", async () => {
+    const slow = hanging("slow", 50);
+    const backup = answering("backup");
+    setSearchProviders([slow.provider, backup.provider]);
+
+    const response = await webSearch("slow query");
+    assert.equal(response.provider, "backup");
+    assert.equal(slow.calls[0].signal?.aborted, true);
+  });
+
+  it("throws SearchUnavailableError listing every failure, and does not cache it", async () => {
+    const first = failing("first");
+    const slow = hanging("slow", 20);
+    setSearchProviders([first.provider, slow.provider]);
+
+    await assert.rejects(webSearch("anything"), (error: Error) => {
+      assert.ok(error instanceof SearchUnavailableError);
+      assert.match(error.message, /first: quota exceeded; slow: slow did not answer within 20 ms/);
+      return true;
+    });
+    await assert.rejects(webSearch("anything"), SearchUnavailableError);
+    assert.equal(first.calls.length, 2);
+  });
+
+  it("caches responses by normalized query and filters", async () => {
+    const provider = answering("cached");
+    setSearchProviders([provider.provider]);
+
+    await Promise.all([webSearch("Cache Me"), webSearch("cache me")]);
+    await webSearch("CACHE  me");
+    assert.equal(provider.calls.length, 1);
+
+    await webSearch("cache me", { timeRange: "week" });
+    await webSearch("cache me", { vertical: "news" });
+    assert.equal(provider.calls.length, 3);
+  });
+});
+
+describe("webSearch circuit breaker", () => {
+  beforeEach(() => mock.timers.enable({ apis: ["Date"], now: Date.now() }));
+  afterEach(() => mock.timers.reset());
+
+  it("skips a provider for a minute after three failures in a row, then tries it again", async () => {
+    let down = true;
+    const flaky = scriptedProvider("flaky", async query => {
+      if (down) throw new Error("503 Service Unavailable");
+      return [hit(query)];
+    });
+    const backup = answering("backup");
+    setSearchProviders([flaky.provider, backup.provider]);
+
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await webSearch(`query ${i}`)).provider, "backup");
+    }
+    assert.equal(flaky.calls.length, 3);
+
+    // Paused: the chain goes straight to the backup
+    await webSearch("query 3");
+    assert.equal(flaky.calls.length, 3);
+    mock.timers.tick(59_000);
+    await webSearch("query 4");
+    assert.equal(flaky.calls.length, 3);
+
+    // After the cooldown one trial search decides; it fails, so the pause starts over
+    mock.timers.tick(1_000);
+    await webSearch("query 5");
+    assert.equal(flaky.calls.length, 4);
+    await webSearch("query 6");
+    assert.equal(flaky.calls.length, 4);
+
+    // Once it answers again its failures are forgotten
+    down = false;
+    mock.timers.tick(60_000);
+    assert.equal((await webSearch("query 7")).provider, "flaky");
+    down = true;
+    await webSearch("query 8");
+    await webSearch("query 9");
+    assert.equal(flaky.calls.length, 7);
+  });
+});
+
+describe("webSearch shared searches", () => {
+  it("keeps searching for other callers when the first one aborts", async () => {
+    let finish!: (hits: WebSearchHit[]) => void;
+    const provider = scriptedProvider("shared", () => new Promise(resolve => { finish = resolve; }));
+    setSearchProviders([provider.provider]);
+
+    const first = new AbortController();
+    const firstSearch = webSearch("shared query", { signal: first.signal });
+    const secondSearch = webSearch("Shared Query", { signal: new AbortController().signal });
+    await new Promise(resolve => setImmediate(resolve));
+
+    first.abort(new Error("first caller left"));
+    await assert.rejects(firstSearch, /first caller left/);
+    assert.equal(provider.calls.length, 1);
+    assert.equal(provider.calls[0].signal?.aborted, false);
+
+    finish([hit("shared")]);
+    const response = await secondSearch;
+    assert.equal(response.results[0].title, "shared");
+
+    // The finished search is cached for later callers
+    assert.equal((await webSearch("shared query")).results[0].title, "shared");
+    assert.equal(provider.calls.length, 1);
+  });
+
+  it("rejects a caller whose signal is already aborted without waiting", async () => {
+    const provider = answering("quick");
+    setSearchProviders([provider.provider]);
+    await assert.rejects(webSearch("already aborted", { signal: AbortSignal.abort(new Error("too late")) }), /too late/);
+  });
+});
@@ -0,0 +1,421 @@
+import OpenAI from "openai";
+import type { SearchTimeRange, SearchVertical, WebSearchHit, WebSearchOptions } from "@shared/schema";
+import { log } from "../vite";
+
+const SERPER_BASE_URL = "https://google.serper.dev";
+const OPENAI_SEARCH_MODEL = "gpt-4o-mini-search-preview";
+
+// Results asked of every provider; callers that want fewer slice them
+const MAX_RESULTS = 10;
+
+// How long a provider may take before the next one in the chain is tried
+const DEFAULT_TIMEOUT_MS = 8_000;
+// Consecutive failures after which a provider is skipped, and for how long
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = 60 * 1000;
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 500;
+
+// Characters of answer text kept as the snippet of a result the OpenAI search cites
+const CITED_SNIPPET_LENGTH = 240;
+
+// Serper endpoint and the field of its response holding the results, by vertical
+const SERPER_VERTICALS: Record<SearchVertical, { path: string; field: string }> = {
+  web: { path: "search", field: "organic" },
+  news: { path: "news", field: "news" },
+  images: { path: "images", field: "images" },
+  videos: { path: "videos", field: "videos" },
+  places: { path: "places", field: "places" }
+};
+
+// Google's "qdr" time filter
+const SERPER_TIME_RANGES: Record<SearchTimeRange, string> = { day: "qdr:d", week: "qdr:w", month: "qdr:m", year: "qdr:y" };
+
+export interface SearchOptions extends Partial<WebSearchOptions> {
+  signal?: AbortSignal;
+}
+
+/**
+ * A web search backend. Providers return results ranked best first and throw when the
+ * search fails; an empty list means the search worked but found nothing.
+ */
+export interface SearchProvider {
+  readonly id: string;
+  // Verticals the provider can search; the chain skips it for the others
+  readonly verticals: readonly SearchVertical[];
+  // Overrides the default time the chain waits for this provider
+  readonly timeoutMs?: number;
+  search(query: string, options: SearchOptions): Promise<WebSearchHit[]>;
+}
+
+export interface WebSearchResponse {
+  query: string;
+  vertical: SearchVertical;
+  // Id of the provider that answered
+  provider: string;
+  results: WebSearchHit[];
+}
+
+/**
+ * Thrown when every provider in the chain failed or is cooling down after repeated failures
+ */
+export class SearchUnavailableError extends Error {
+  constructor(failures: string[]) {
+    super(`Web search is unavailable: ${failures.join("; ") || "no search provider is configured"}`);
+    this.name = "SearchUnavailableError";
+  }
+}
+
+class SearchTimeoutError extends Error {
+  constructor(provider: string, timeoutMs: number) {
+    super(`${provider} did not answer within ${timeoutMs} ms`);
+    this.name = "SearchTimeoutError";
+  }
+}
+
+function siteName(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+function isWebUrl(url: unknown): url is string {
+  return typeof url === "string" && /^https?:\/\//i.test(url);
+}
+
+const optionalString = (value: unknown) => typeof value === "string" && value ? value : undefined;
+const optionalNumber = (value: unknown) => typeof value === "number" && Number.isFinite(value) ? value : undefined;
+
+/**
+ * Normalize one entry of a Serper response, or return undefined when it has no usable link
+ */
+function fromSerper(vertical: SearchVertical, result: any, position: number): WebSearchHit | undefined {
+  // Places link to their website when they have one, otherwise to Google Maps
+  const url = vertical === "places"
+    ? (isWebUrl(result.website) ? result.website : result.cid ? `https://maps.google.com/?cid=${encodeURIComponent(result.cid)}` : undefined)
+    : result.link;
+  if (!isWebUrl(url)) return undefined;
+
+  const hit: WebSearchHit = {
+    title: String(result.title || url),
+    url,
+    snippet: String(result.snippet || ""),
+    siteName: siteName(url),
+    position
+  };
+  if (vertical === "images") {
+    return {
+      ...hit,
+      siteName: optionalString(result.domain) ?? hit.siteName,
+      imageUrl: isWebUrl(result.imageUrl) ? result.imageUrl : undefined,
+      thumbnailUrl: isWebUrl(result.thumbnailUrl) ? result.thumbnailUrl : undefined,
+      source: optionalString(result.source)
+    };
+  }
+  if (vertical === "news" || vertical === "videos") {
+    return {
+      ...hit,
+      thumbnailUrl: isWebUrl(result.imageUrl) ? result.imageUrl : undefined,
+      date: optionalString(result.date),
+      source: optionalString(result.channel) ?? optionalString(result.source),
+      duration: optionalString(result.duration)
+    };
+  }
+  if (vertical === "places") {
+    return {
+      ...hit,
+      snippet: [result.category, result.address].filter(Boolean).join(" · "),
+      address: optionalString(result.address),
+      category: optionalString(result.category),
+      rating: optionalNumber(result.rating),
+      ratingCount: optionalNumber(result.ratingCount),
+      phone: optionalString(result.phoneNumber)
+    };
+  }
+  return hit;
+}
+
+/**
+ * Google results through the Serper API
+ */
+export function createSerperProvider(options: { apiKey?: string; baseUrl?: string } = {}): SearchProvider {
+  const baseUrl = (options.baseUrl || process.env.SERPER_BASE_URL || SERPER_BASE_URL).replace(/\/$/, "");
+  const apiKey = options.apiKey || process.env.SERPER_API_KEY;
+
+  return {
+    id: "serper",
+    verticals: ["web", "news", "images", "videos", "places"],
+
+    async search(query, { signal, vertical = "web", timeRange, region, language }) {
+      if (!apiKey) {
+        throw new Error("Serper API key is not configured.");
+      }
+
+      const { path, field } = SERPER_VERTICALS[vertical];
+      const response = await fetch(`${baseUrl}/${path}`, {
+        method: "POST",
+        headers: { "X-API-KEY": apiKey, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          q: query,
+          num: MAX_RESULTS,
+          ...(region ? { gl: region } : {}),
+          ...(language ? { hl: language } : {}),
+          ...(timeRange && vertical !== "places" ? { tbs: SERPER_TIME_RANGES[timeRange] } : {})
+        }),
+        signal
+      });
+      if (!response.ok) {
+        throw new Error(`Serper API error (${response.status}): ${response.statusText}`);
+      }
+
+      const data: any = await response.json();
+      const entries: any[] = Array.isArray(data[field]) ? data[field] : [];
+      const results: WebSearchHit[] = [];
+      for (const entry of entries) {
+        const hit = fromSerper(vertical, entry, results.length + 1);
+        if (hit) results.push(hit);
+      }
+      return results.slice(0, MAX_RESULTS);
+    }
+  };
+}
+
+/**
+ * Results cited by OpenAI's search model. The model answers in prose; each page it cites
+ * becomes a result, with the sentence citing it as the snippet.
+ */
+export function createOpenAISearchProvider(options: { apiKey?: string; model?: string } = {}): SearchProvider {
+  const apiKey = options.apiKey || process.env.OPENAI_API_KEY;
+  const client = new OpenAI({ apiKey: apiKey || "" });
+  const model = options.model || OPENAI_SEARCH_MODEL;
+
+  return {
+    id: "openai",
+    // The search model cites pages but has no news, media or map results
+    verticals: ["web"],
+    // The search model writes an answer before it returns its sources
+    timeoutMs: 20_000,
+
+    async search(query, { signal, region }) {
+      if (!apiKey) {
+        throw new Error("OpenAI API key is not configured.");
+      }
+
+      const response = await client.chat.completions.create({
+        model,
+        web_search_options: region
+          ? { user_location: { type: "approximate", approximate: { country: region.toUpperCase() } } }
+          : {},
+        messages: [{ role: "user", content: query }]
+      }, { signal });
+
+      const message = response.choices[0]?.message;
+      const content = message?.content || "";
+      const results: WebSearchHit[] = [];
+      const seen = new Set<string>();
+      for (const annotation of message?.annotations || []) {
+        const { url, title, start_index } = annotation.url_citation;
+        if (!isWebUrl(url) || seen.has(url)) continue;
+        seen.add(url);
+
+        // The sentence the citation closes, without the markdown link itself
+        const before = content.slice(0, start_index).replace(/\s*\($/, "");
+        const sentenceStart = Math.max(before.lastIndexOf("\n"), before.search(/[^.!?]*$/));
+        results.push({
+          title: title || url,
+          url,
+          snippet: before.slice(sentenceStart).trim().slice(-CITED_SNIPPET_LENGTH),
+          siteName: siteName(url),
+          position: results.length + 1
+        });
+      }
+      return results.slice(0, MAX_RESULTS);
+    }
+  };
+}
+
+export interface SearchFixture {
+  query: string;
+  // Web when absent
+  vertical?: SearchVertical;
+  results: Array<Omit<WebSearchHit, "position" | "siteName"> & { siteName?: string }>;
+}
+
+/**
+ * Provider answering from canned results, matched on the normalized query, so tests run
+ * offline. Unknown queries find nothing.
+ */
+export function createFixtureSearchProvider(fixtures: SearchFixture[]): SearchProvider {
+  const keyOf = (vertical: SearchVertical, query: string) => `${vertical}|${normalizeQuery(query)}`;
+  const byQuery = new Map(fixtures.map(fixture => [keyOf(fixture.vertical || "web", fixture.query), fixture.results]));
+
+  return {
+    id: "fixture",
+    verticals: ["web", "news", "images", "videos", "places"],
+
+    async search(query, { vertical = "web" }) {
+      return (byQuery.get(keyOf(vertical, query)) || []).map((result, index) => ({
+        ...result,
+        siteName: result.siteName ?? siteName(result.url),
+        position: index + 1
+      }));
+    }
+  };
+}
+
+/**
+ * Query as used for cache and fixture lookups: case, Unicode form and spacing do not
+ * change what a search finds
+ */
+export function normalizeQuery(query: string): string {
+  return query.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+const PROVIDER_FACTORIES: Record<string, () => SearchProvider> = {
+  serper: () => createSerperProvider(),
+  openai: () => createOpenAISearchProvider()
+};
+
+// SEARCH_PROVIDERS lists the providers to try, in order, such as "serper,openai"
+function createConfiguredProviders(): SearchProvider[] {
+  const ids = (process.env.SEARCH_PROVIDERS || "serper,openai").split(",").map(id => id.trim().toLowerCase()).filter(Boolean);
+  return ids.flatMap(id => {
+    const factory = PROVIDER_FACTORIES[id];
+    if (!factory) {
+      log(`Unknown search provider "${id}" in SEARCH_PROVIDERS`, "error");
+      return [];
+    }
+    return [factory()];
+  });
+}
+
+interface CircuitState {
+  failures: number;
+  // While in the future the provider is skipped; afterwards one trial search decides
+  openUntil: number;
+}
+
+let providers: SearchProvider[] = createConfiguredProviders();
+const circuits = new Map<string, CircuitState>();
+
+// Responses by normalized query. Promises are cached so concurrent searches for the same
+// query share one lookup.
+const responseCache = new Map<string, { response: Promise<WebSearchResponse>; expiresAt: number }>();
+
+/**
+ * Replace the providers tried by webSearch, in order; clears the cache and circuit breakers
+ */
+export function setSearchProviders(next: SearchProvider[]) {
+  providers = next;
+  circuits.clear();
+  responseCache.clear();
+}
+
+export function getSearchProviders(): SearchProvider[] {
+  return providers;
+}
+
+function isOpen(provider: SearchProvider): boolean {
+  const circuit = circuits.get(provider.id);
+  return !!circuit && circuit.failures >= FAILURE_THRESHOLD && circuit.openUntil > Date.now();
+}
+
+function recordFailure(provider: SearchProvider) {
+  const circuit = circuits.get(provider.id) || { failures: 0, openUntil: 0 };
+  circuit.failures += 1;
+  if (circuit.failures >= FAILURE_THRESHOLD) {
+    circuit.openUntil = Date.now() + COOLDOWN_MS;
+    log(`Search provider ${provider.id} failed ${circuit.failures} times in a row; skipping it for ${COOLDOWN_MS / 1000} s`, "error");
+  }
+  circuits.set(provider.id, circuit);
+}
+
+/**
+ * Run one provider, giving up after its timeout
+ */
+async function searchWith(provider: SearchProvider, query: string, options: Partial<WebSearchOptions>): Promise<WebSearchHit[]> {
+  const timeoutMs = provider.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const timeout = AbortSignal.timeout(timeoutMs);
+  try {
+    return await provider.search(query, { ...options, signal: timeout });
+  } catch (error) {
+    if (timeout.aborted) {
+      throw new SearchTimeoutError(provider.id, timeoutMs);
+    }
+    throw error;
+  }
+}
+
+// Shared by every caller waiting on the query, so it follows none of their signals
+async function searchChain(query: string, options: Partial<WebSearchOptions> & { vertical: SearchVertical }): Promise<WebSearchResponse> {
+  const { vertical } = options;
+  const failures: string[] = [];
+  const capable = providers.filter(provider => provider.verticals.includes(vertical));
+  if (capable.length === 0) {
+    failures.push(`no search provider supports ${vertical} results`);
+  }
+  for (const provider of capable) {
+    if (isOpen(provider)) {
+      failures.push(`${provider.id} is paused after repeated failures`);
+      continue;
+    }
+
+    try {
+      const results = await searchWith(provider, query, options);
+      circuits.delete(provider.id);
+      return { query, vertical, provider: provider.id, results };
+    } catch (error: any) {
+      recordFailure(provider);
+      failures.push(`${provider.id}: ${error.message}`);
+      log(`Search provider ${provider.id} failed: ${error.message}`, "error");
+    }
+  }
+  throw new SearchUnavailableError(failures);
+}
+
+// A caller that gives up stops waiting; the search goes on for the others and the cache
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+function pruneCache() {
+  if (responseCache.size < MAX_CACHE_ENTRIES) return;
+  const now = Date.now();
+  for (const [key, entry] of Array.from(responseCache)) {
+    if (entry.expiresAt <= now) responseCache.delete(key);
+  }
+  while (responseCache.size >= MAX_CACHE_ENTRIES) {
+    responseCache.delete(responseCache.keys().next().value!);
+  }
+}
+
+/**
+ * Search the web, trying each provider that covers the vertical in turn until one answers.
+ * Results are cached by normalized query and filters for a few minutes. Throws
+ * SearchUnavailableError when no provider could answer; the error is not cached. The shared
+ * search does not follow any caller's signal; aborting only stops that caller waiting.
+ */
+export async function webSearch(query: string, options: SearchOptions = {}): Promise<WebSearchResponse> {
+  const { signal, ...filters } = options;
+  const vertical = filters.vertical || "web";
+  const key = [vertical, filters.timeRange, filters.region, filters.language, normalizeQuery(query)].join("|");
+  const cached = responseCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return untilAborted(cached.response, signal);
+  }
+
+  pruneCache();
+  const response = searchChain(query.trim(), { ...filters, vertical });
+  responseCache.set(key, { response, expiresAt: Date.now() + CACHE_TTL_MS });
+  response.catch(() => responseCache.delete(key));
+  return untilAborted(response, signal);
+}
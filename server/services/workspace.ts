@@ -0,0 +1,226 @@
+import type { WorkspaceFile, WorkspaceFileInfo } from "@shared/schema";
+import { storage, type WorkspaceLimits } from "../storage";
+
+export const MAX_FILE_BYTES = 1024 * 1024;
+export const MAX_WORKSPACE_BYTES = 10 * 1024 * 1024;
+export const MAX_WORKSPACE_FILES = 200;
+// Totals over all of a user's workspaces, as any chat id the client sends opens a new one
+export const MAX_USER_WORKSPACE_BYTES = 50 * 1024 * 1024;
+export const MAX_USER_WORKSPACE_FILES = 1000;
+
+const MAX_PATH_LENGTH = 255;
+const MAX_PATH_DEPTH = 10;
+
+/**
+ * Thrown when a workspace operation cannot be carried out as asked
+ */
+export class WorkspaceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkspaceError";
+  }
+}
+
+export class WorkspaceFileNotFoundError extends WorkspaceError {
+  constructor(path: string) {
+    super(`No file or directory at "${path}"`);
+    this.name = "WorkspaceFileNotFoundError";
+  }
+}
+
+export class WorkspaceQuotaError extends WorkspaceError {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkspaceQuotaError";
+  }
+}
+
+// The workspace of one chat of a signed-in user
+export interface WorkspaceScope {
+  userId: number;
+  sessionId: string;
+}
+
+export interface WorkspaceListing {
+  directory: string;
+  files: WorkspaceFileInfo[];
+  totalBytes: number;
+}
+
+/**
+ * Normalize a workspace path to segments joined by "/", with no leading slash. A leading
+ * slash is read as the workspace root; ".." is refused rather than resolved so no path can
+ * name anything outside the workspace. The root itself normalizes to "".
+ */
+export function normalizePath(path: string): string {
+  if (/[\u0000-\u001f\\]/.test(path)) {
+    throw new WorkspaceError("Paths may not contain backslashes or control characters");
+  }
+
+  const segments = path.trim().split("/").map(segment => segment.trim()).filter(segment => segment !== "" && segment !== ".");
+  if (segments.includes("..")) {
+    throw new WorkspaceError("Paths may not contain \"..\"; they are relative to the workspace root");
+  }
+  if (segments.length > MAX_PATH_DEPTH) {
+    throw new WorkspaceError(`Paths may be at most ${MAX_PATH_DEPTH} levels deep`);
+  }
+
+  const normalized = segments.join("/");
+  if (normalized.length > MAX_PATH_LENGTH) {
+    throw new WorkspaceError(`Paths may be at most ${MAX_PATH_LENGTH} characters long`);
+  }
+  return normalized;
+}
+
+function filePath(path: string): string {
+  const normalized = normalizePath(path);
+  if (!normalized) {
+    throw new WorkspaceError("A file path is required");
+  }
+  return normalized;
+}
+
+function isInside(path: string, directory: string): boolean {
+  return directory === "" || path.startsWith(`${directory}/`);
+}
+
+// Every directory a path sits in, such as "a" and "a/b" for "a/b/c.txt"
+function parentDirectories(path: string): string[] {
+  const segments = path.split("/");
+  return segments.slice(0, -1).map((_, i) => segments.slice(0, i + 1).join("/"));
+}
+
+// A file cannot share its path with a directory, nor sit below another file
+function assertPathFree(files: WorkspaceFileInfo[], path: string) {
+  if (files.some(file => isInside(file.path, path))) {
+    throw new WorkspaceError(`"${path}" is a directory`);
+  }
+  const blocking = parentDirectories(path).find(directory => files.some(file => file.path === directory));
+  if (blocking) {
+    throw new WorkspaceError(`"${blocking}" is a file, so it cannot contain other files`);
+  }
+}
+
+// Why a save was refused, by the limit it would have exceeded
+const QUOTA_MESSAGES: Record<keyof WorkspaceLimits, string> = {
+  workspaceFiles: `A workspace holds at most ${MAX_WORKSPACE_FILES} files; delete some first`,
+  workspaceBytes: `A workspace holds at most ${MAX_WORKSPACE_BYTES / 1024 / 1024} MB; delete some files first`,
+  userFiles: `All workspaces together hold at most ${MAX_USER_WORKSPACE_FILES} files; delete some first`,
+  userBytes: `All workspaces together hold at most ${MAX_USER_WORKSPACE_BYTES / 1024 / 1024} MB; delete some files first`
+};
+
+const WORKSPACE_LIMITS: WorkspaceLimits = {
+  workspaceFiles: MAX_WORKSPACE_FILES,
+  workspaceBytes: MAX_WORKSPACE_BYTES,
+  userFiles: MAX_USER_WORKSPACE_FILES,
+  userBytes: MAX_USER_WORKSPACE_BYTES
+};
+
+/**
+ * Create or replace a file, or append to it (creating it when missing), within the quotas.
+ * Storage checks the quotas as it saves, so concurrent writes cannot overrun them together.
+ */
+export async function writeWorkspaceFile(scope: WorkspaceScope, path: string, content: string, mode: "create" | "append"): Promise<WorkspaceFileInfo> {
+  const target = filePath(path);
+  if (content.includes("\u0000")) {
+    throw new WorkspaceError("Files can only hold text");
+  }
+
+  const files = await storage.getWorkspaceFiles(scope.userId, scope.sessionId);
+  const existing = files.find(file => file.path === target);
+  if (!existing) {
+    assertPathFree(files, target);
+  }
+
+  let fullContent = content;
+  if (mode === "append" && existing) {
+    const current = await storage.getWorkspaceFile(scope.userId, scope.sessionId, target);
+    fullContent = (current?.content || "") + content;
+  }
+
+  const sizeBytes = Buffer.byteLength(fullContent, "utf8");
+  if (sizeBytes > MAX_FILE_BYTES) {
+    throw new WorkspaceQuotaError(`Files are limited to ${MAX_FILE_BYTES / 1024} KB`);
+  }
+
+  const result = await storage.saveWorkspaceFile(
+    { userId: scope.userId, sessionId: scope.sessionId, path: target, content: fullContent, sizeBytes },
+    WORKSPACE_LIMITS
+  );
+  if ("exceeded" in result) {
+    throw new WorkspaceQuotaError(QUOTA_MESSAGES[result.exceeded]);
+  }
+  return result.saved;
+}
+
+export async function readWorkspaceFile(scope: WorkspaceScope, path: string): Promise<WorkspaceFile> {
+  const target = filePath(path);
+  const file = await storage.getWorkspaceFile(scope.userId, scope.sessionId, target);
+  if (!file) {
+    throw new WorkspaceFileNotFoundError(target);
+  }
+  return file;
+}
+
+/**
+ * Files in a directory and all of its subdirectories; the whole workspace by default
+ */
+export async function listWorkspace(scope: WorkspaceScope, directory = ""): Promise<WorkspaceListing> {
+  const root = normalizePath(directory);
+  const files = await storage.getWorkspaceFiles(scope.userId, scope.sessionId);
+  const listed = files.filter(file => isInside(file.path, root));
+  if (root && listed.length === 0) {
+    if (files.some(file => file.path === root)) {
+      throw new WorkspaceError(`"${root}" is a file; read it instead`);
+    }
+    throw new WorkspaceFileNotFoundError(root);
+  }
+  return {
+    directory: root,
+    files: listed,
+    totalBytes: files.reduce((total, file) => total + file.sizeBytes, 0)
+  };
+}
+
+/**
+ * Delete a file, or a directory with everything in it. Returns the deleted file paths.
+ */
+export async function deleteWorkspaceEntry(scope: WorkspaceScope, path: string): Promise<string[]> {
+  const target = filePath(path);
+  const files = await storage.getWorkspaceFiles(scope.userId, scope.sessionId);
+  const paths = files.map(file => file.path).filter(file => file === target || isInside(file, target));
+  if (paths.length === 0) {
+    throw new WorkspaceFileNotFoundError(target);
+  }
+
+  await storage.deleteWorkspaceFiles(scope.userId, scope.sessionId, paths);
+  return paths;
+}
+
+/**
+ * Move or rename a file, or a directory with everything in it. The destination is the new
+ * path of the entry itself and must not exist yet.
+ */
+export async function moveWorkspaceEntry(scope: WorkspaceScope, path: string, destination: string): Promise<Array<{ from: string; to: string }>> {
+  const source = filePath(path);
+  const target = filePath(destination);
+  if (target === source || isInside(target, source)) {
+    throw new WorkspaceError(`"${source}" cannot be moved into itself`);
+  }
+
+  const files = await storage.getWorkspaceFiles(scope.userId, scope.sessionId);
+  const moving = files.filter(file => file.path === source || isInside(file.path, source));
+  if (moving.length === 0) {
+    throw new WorkspaceFileNotFoundError(source);
+  }
+
+  const staying = files.filter(file => !moving.includes(file));
+  if (staying.some(file => file.path === target)) {
+    throw new WorkspaceError(`"${target}" already exists`);
+  }
+  assertPathFree(staying, target);
+
+  const renames = moving.map(file => ({ from: file.path, to: target + file.path.slice(source.length) }));
+  await storage.renameWorkspaceFiles(scope.userId, scope.sessionId, renames);
+  return renames;
+}
@@ -3,13 +3,57 @@ import {
   chatSessions, 
   messages, 
   dailyUsage,
+  usageRecords,
+  type InsertUsageRecord,
   type User, 
   type InsertUser,
+  plans,
   type DailyUsage,
-  type InsertDailyUsage
+  type InsertDailyUsage,
+  type Plan,
+  type InsertPlan,
+  type ChatSession,
+  type Message,
+  type SyncedChat,
+  type SyncedChatMessage,
+  type MessageUsage,
+  type UsageSummary,
+  datasets,
+  type Dataset,
+  type DatasetFormat,
+  type DatasetInfo,
+  type DatasetTable,
+  type InsertDataset,
+  workspaceFiles,
+  type InsertWorkspaceFile,
+  type WorkspaceFile,
+  type WorkspaceFileInfo,
+  documents,
+  documentChunks,
+  type DocumentFormat,
+  type DocumentInfo,
+  type InsertDocument,
+  type InsertDocumentChunk,
+  attachments,
+  type Attachment,
+  type AttachmentInfo,
+  type AttachmentKind,
+  type InsertAttachment
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { eq, and, asc, desc, inArray, sql, gte } from "drizzle-orm";
+
+// Whose usage a daily usage row counts: a signed-in user, or an anonymous IP address
+export type UsageSubject = { userId: number } | { ipAddress: string };
+
+export type UsageCounter = "messageCount" | "imageCount" | "uploadCount" | "tokenCount";
+
+// Rolling summary of a chat's leading messages, with how many it covers and their hash
+export interface ChatSummary {
+  summary: string | null;
+  summarizedCount: number;
+  summaryHash: string | null;
+}
 
 // Interface for storage operations
 export interface IStorage {
@@ -18,10 +62,229 @@ export interface IStorage {
   getUserByFirebaseUid(firebaseUid: string): Promise<User | undefined>;
   createOrUpdateUser(user: InsertUser): Promise<User>;
   
+  // Plan operations
+  getPlan(id: string): Promise<Plan | undefined>;
+  createPlanIfMissing(plan: InsertPlan): Promise<Plan>;
+
   // Daily usage operations
-  getDailyUsage(ipAddress: string, date: string): Promise<DailyUsage | undefined>;
+  getDailyUsage(subject: UsageSubject, date: string): Promise<DailyUsage | undefined>;
   createOrUpdateDailyUsage(usage: InsertDailyUsage): Promise<DailyUsage>;
-  incrementDailyUsage(ipAddress: string, date: string): Promise<DailyUsage>;
+  incrementDailyUsage(
+    subject: UsageSubject,
+    date: string,
+    counter: UsageCounter,
+    amount: number,
+    limit?: number
+  ): Promise<DailyUsage | undefined>;
+
+  // Chat history operations, always scoped to the owning user
+  getChatsForUser(userId: number): Promise<SyncedChat[]>;
+  getChatForUser(userId: number, clientId: string): Promise<SyncedChat | undefined>;
+  saveChatForUser(userId: number, chat: SyncedChat): Promise<void>;
+  deleteChatForUser(userId: number, clientId: string): Promise<boolean>;
+  importChatsForUser(userId: number, chats: SyncedChat[]): Promise<number>;
+  // Messages of an exchange the server answered, added to the chat unless the client synced them already
+  appendChatMessages(userId: number, clientId: string, newMessages: SyncedChatMessage[]): Promise<void>;
+
+  // Rolling conversation summaries kept for context-window management
+  getChatSummary(userId: number, clientId: string): Promise<ChatSummary | undefined>;
+  updateChatSummary(userId: number, clientId: string, summary: ChatSummary & { summary: string }): Promise<void>;
+
+  // Usage accounting over the model calls recorded for a user
+  recordUsage(record: InsertUsageRecord): Promise<void>;
+  getUsageSummary(userId: number, since: Date): Promise<UsageSummary>;
+
+  // Uploaded datasets, always scoped to the owning user. Saving under a name the user
+  // already has replaces that dataset.
+  getDatasetsForUser(userId: number): Promise<DatasetInfo[]>;
+  getDatasetForUser(userId: number, name: string): Promise<Dataset | undefined>;
+  saveDatasetForUser(dataset: InsertDataset): Promise<DatasetInfo>;
+  deleteDatasetForUser(userId: number, id: number): Promise<boolean>;
+
+  // Workspace files of one chat of a user. Saving to an existing path replaces the file;
+  // a save that would take the workspace or the user past a limit saves nothing.
+  getWorkspaceFiles(userId: number, sessionId: string): Promise<WorkspaceFileInfo[]>;
+  getWorkspaceFile(userId: number, sessionId: string, path: string): Promise<WorkspaceFile | undefined>;
+  saveWorkspaceFile(file: InsertWorkspaceFile, limits: WorkspaceLimits): Promise<{ saved: WorkspaceFileInfo } | { exceeded: keyof WorkspaceLimits }>;
+  deleteWorkspaceFiles(userId: number, sessionId: string, paths: string[]): Promise<number>;
+  renameWorkspaceFiles(userId: number, sessionId: string, renames: Array<{ from: string; to: string }>): Promise<void>;
+
+  // Searchable documents of a user, saved together with their embedded chunks
+  getDocumentsForUser(userId: number): Promise<DocumentInfo[]>;
+  saveDocumentForUser(document: InsertDocument, chunks: DocumentChunkInput[]): Promise<DocumentInfo>;
+  deleteDocumentForUser(userId: number, id: number): Promise<boolean>;
+  getDocumentChunksForUser(userId: number, embedder: string, format?: DocumentFormat): Promise<StoredDocumentChunk[]>;
+
+  // Files attached to a user's chat messages
+  saveAttachment(attachment: InsertAttachment): Promise<AttachmentInfo>;
+  getAttachmentForUser(userId: number, id: number): Promise<Attachment | undefined>;
+  getAttachmentsForUser(userId: number, ids: number[]): Promise<Attachment[]>;
+}
+
+// Totals a workspace file save keeps within: for the file's own workspace, and for all of
+// the user's workspaces together
+export interface WorkspaceLimits {
+  workspaceFiles: number;
+  workspaceBytes: number;
+  userFiles: number;
+  userBytes: number;
+}
+
+export type DocumentChunkInput = Omit<InsertDocumentChunk, "id" | "documentId" | "userId">;
+
+// A chunk with the document it belongs to, as searched
+export interface StoredDocumentChunk {
+  documentId: number;
+  filename: string;
+  title: string;
+  page: number | null;
+  content: string;
+  embedding: number[];
+}
+
+// Chunk rows per insert statement, keeping the statement's parameter count well below the limit
+const CHUNK_INSERT_BATCH = 200;
+
+function usageSubjectFilter(subject: UsageSubject) {
+  return "userId" in subject ? eq(dailyUsage.userId, subject.userId) : eq(dailyUsage.ipAddress, subject.ipAddress);
+}
+
+// Columns of the unique index a subject's daily usage rows conflict on
+function usageConflictTarget(usage: UsageSubject | InsertDailyUsage) {
+  return "userId" in usage && usage.userId != null ? [dailyUsage.userId, dailyUsage.date] : [dailyUsage.ipAddress, dailyUsage.date];
+}
+
+// Convert a stored session and its messages back into the client's chat shape
+function toSyncedChat(session: ChatSession, sessionMessages: Message[]): SyncedChat {
+  return {
+    id: session.clientId || String(session.id),
+    title: session.title,
+    createdAt: session.createdAt.toISOString(),
+    updatedAt: session.updatedAt.toISOString(),
+    messages: sessionMessages.map(msg => ({
+      role: msg.role as SyncedChatMessage["role"],
+      content: (msg.contentParts as Array<Record<string, any>> | null) || msg.content,
+      model: msg.model,
+      timestamp: msg.timestamp.toISOString(),
+      trace: (msg.trace as SyncedChatMessage["trace"]) || undefined,
+      citations: (msg.citations as SyncedChatMessage["citations"]) || undefined,
+      usage: msg.promptTokens === null ? undefined : {
+        promptTokens: msg.promptTokens,
+        completionTokens: msg.completionTokens || 0,
+        toolCalls: msg.toolCallCount || 0,
+        latencyMs: msg.latencyMs || 0,
+        costUsd: msg.costUsd || 0,
+      },
+    })),
+  };
+}
+
+// Plain text copy of multimodal content for search and display fallbacks
+function plainText(content: SyncedChatMessage["content"]): string {
+  return typeof content === "string"
+    ? content
+    : content.filter(part => part.type === "text").map(part => part.text).join("\n");
+}
+
+// Columns of a stored message other than its accounting
+function toMessageRow(sessionId: number, msg: SyncedChatMessage) {
+  return {
+    sessionId,
+    role: msg.role,
+    content: plainText(msg.content),
+    contentParts: typeof msg.content === "string" ? null : msg.content,
+    model: msg.model,
+    trace: msg.trace || null,
+    citations: msg.citations || null,
+    timestamp: new Date(msg.timestamp),
+  };
+}
+
+function usageColumns(usage: MessageUsage | undefined) {
+  return {
+    promptTokens: usage?.promptTokens ?? null,
+    completionTokens: usage?.completionTokens ?? null,
+    toolCallCount: usage?.toolCalls ?? null,
+    latencyMs: usage?.latencyMs ?? null,
+    costUsd: usage?.costUsd ?? null,
+  };
+}
+
+// Usage columns a synced message keeps from the same stored message, which is then taken off the list
+function claimStoredUsage(stored: Message[], msg: SyncedChatMessage) {
+  const index = stored.findIndex(row => row.role === msg.role && row.content === plainText(msg.content));
+  if (index === -1) return usageColumns(undefined);
+  const [row] = stored.splice(index, 1);
+  return {
+    promptTokens: row.promptTokens,
+    completionTokens: row.completionTokens,
+    toolCallCount: row.toolCallCount,
+    latencyMs: row.latencyMs,
+    costUsd: row.costUsd,
+  };
+}
+
+// Columns of a dataset other than the database itself, which can be many megabytes
+const datasetInfoColumns = {
+  id: datasets.id,
+  name: datasets.name,
+  filename: datasets.filename,
+  sourceFormat: datasets.sourceFormat,
+  tables: datasets.tables,
+  sizeBytes: datasets.sizeBytes,
+  createdAt: datasets.createdAt,
+};
+
+function toDatasetInfo(dataset: Omit<Dataset, "userId" | "data">): DatasetInfo {
+  return {
+    ...dataset,
+    sourceFormat: dataset.sourceFormat as DatasetFormat,
+    tables: dataset.tables as DatasetTable[],
+    createdAt: dataset.createdAt.toISOString(),
+  };
+}
+
+const workspaceFileInfoColumns = {
+  path: workspaceFiles.path,
+  sizeBytes: workspaceFiles.sizeBytes,
+  updatedAt: workspaceFiles.updatedAt,
+};
+
+function toWorkspaceFileInfo(file: { path: string; sizeBytes: number; updatedAt: Date }): WorkspaceFileInfo {
+  return { ...file, updatedAt: file.updatedAt.toISOString() };
+}
+
+function workspaceFilter(userId: number, sessionId: string) {
+  return and(eq(workspaceFiles.userId, userId), eq(workspaceFiles.sessionId, sessionId));
+}
+
+const documentInfoColumns = {
+  id: documents.id,
+  filename: documents.filename,
+  title: documents.title,
+  format: documents.format,
+  sizeBytes: documents.sizeBytes,
+  pageCount: documents.pageCount,
+  chunkCount: documents.chunkCount,
+  createdAt: documents.createdAt,
+};
+
+function toDocumentInfo(document: { format: string; createdAt: Date } & Omit<DocumentInfo, "format" | "createdAt">): DocumentInfo {
+  return { ...document, format: document.format as DocumentFormat, createdAt: document.createdAt.toISOString() };
+}
+
+function toAttachmentInfo(attachment: Attachment): AttachmentInfo {
+  return {
+    id: attachment.id,
+    filename: attachment.filename,
+    mimeType: attachment.mimeType,
+    kind: attachment.kind as AttachmentKind,
+    sizeBytes: attachment.sizeBytes,
+    pageCount: attachment.pageCount,
+    textLength: attachment.extractedText?.length || 0,
+    truncated: attachment.truncated,
+    createdAt: attachment.createdAt.toISOString(),
+  };
 }
 
 // Database implementation of storage
@@ -54,11 +317,22 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getDailyUsage(ipAddress: string, date: string): Promise<DailyUsage | undefined> {
+  async getPlan(id: string): Promise<Plan | undefined> {
+    const [plan] = await db.select().from(plans).where(eq(plans.id, id));
+    return plan || undefined;
+  }
+
+  async createPlanIfMissing(planData: InsertPlan): Promise<Plan> {
+    await db.insert(plans).values(planData).onConflictDoNothing();
+    const [plan] = await db.select().from(plans).where(eq(plans.id, planData.id));
+    return plan;
+  }
+
+  async getDailyUsage(subject: UsageSubject, date: string): Promise<DailyUsage | undefined> {
     const [usage] = await db
       .select()
       .from(dailyUsage)
-      .where(and(eq(dailyUsage.ipAddress, ipAddress), eq(dailyUsage.date, date)));
+      .where(and(usageSubjectFilter(subject), eq(dailyUsage.date, date)));
     return usage || undefined;
   }
 
@@ -67,26 +341,431 @@ export class DatabaseStorage implements IStorage {
       .insert(dailyUsage)
       .values(usageData)
       .onConflictDoUpdate({
-        target: [dailyUsage.ipAddress, dailyUsage.date],
+        target: usageConflictTarget(usageData),
         set: {
           messageCount: usageData.messageCount,
+          imageCount: usageData.imageCount,
+          uploadCount: usageData.uploadCount,
+          tokenCount: usageData.tokenCount,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return usage;
+  }
+
+  /**
+   * Atomically add to one of the day's counters. With a limit, nothing is added and
+   * undefined is returned when the new total would exceed it.
+   */
+  async incrementDailyUsage(
+    subject: UsageSubject,
+    date: string,
+    counter: UsageCounter,
+    amount: number,
+    limit?: number
+  ): Promise<DailyUsage | undefined> {
+    if (limit !== undefined && amount > limit) return undefined;
+
+    const column = dailyUsage[counter];
+    const [usage] = await db
+      .insert(dailyUsage)
+      .values({ ...subject, date, [counter]: amount })
+      .onConflictDoUpdate({
+        target: usageConflictTarget(subject),
+        set: {
+          [counter]: sql`${column} + ${amount}`,
           updatedAt: new Date(),
         },
+        setWhere: limit === undefined ? undefined : sql`${column} + ${amount} <= ${limit}`,
       })
       .returning();
     return usage;
   }
 
-  async incrementDailyUsage(ipAddress: string, date: string): Promise<DailyUsage> {
-    const existing = await this.getDailyUsage(ipAddress, date);
-    const newCount = (existing?.messageCount || 0) + 1;
-    
-    return await this.createOrUpdateDailyUsage({
-      ipAddress,
-      date,
-      messageCount: newCount,
+  async getChatsForUser(userId: number): Promise<SyncedChat[]> {
+    const sessions = await db
+      .select()
+      .from(chatSessions)
+      .where(eq(chatSessions.userId, userId))
+      .orderBy(desc(chatSessions.updatedAt));
+    if (sessions.length === 0) return [];
+
+    const sessionMessages = await db
+      .select()
+      .from(messages)
+      .where(inArray(messages.sessionId, sessions.map(session => session.id)))
+      .orderBy(asc(messages.timestamp), asc(messages.id));
+
+    return sessions.map(session =>
+      toSyncedChat(session, sessionMessages.filter(msg => msg.sessionId === session.id))
+    );
+  }
+
+  async getChatForUser(userId: number, clientId: string): Promise<SyncedChat | undefined> {
+    const [session] = await db
+      .select()
+      .from(chatSessions)
+      .where(and(eq(chatSessions.userId, userId), eq(chatSessions.clientId, clientId)));
+    if (!session) return undefined;
+
+    const sessionMessages = await db
+      .select()
+      .from(messages)
+      .where(eq(messages.sessionId, session.id))
+      .orderBy(asc(messages.timestamp), asc(messages.id));
+
+    return toSyncedChat(session, sessionMessages);
+  }
+
+  async saveChatForUser(userId: number, chat: SyncedChat): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [session] = await tx
+        .insert(chatSessions)
+        .values({
+          userId,
+          clientId: chat.id,
+          title: chat.title,
+          createdAt: new Date(chat.createdAt),
+          updatedAt: new Date(chat.updatedAt),
+        })
+        .onConflictDoUpdate({
+          target: [chatSessions.userId, chatSessions.clientId],
+          set: {
+            title: chat.title,
+            updatedAt: new Date(chat.updatedAt),
+          },
+        })
+        .returning();
+
+      // Usage shown on messages comes from the server, so a message keeps the accounting of
+      // the same stored message and whatever usage the client sends is ignored
+      const stored = await tx
+        .select()
+        .from(messages)
+        .where(eq(messages.sessionId, session.id))
+        .orderBy(asc(messages.timestamp), asc(messages.id));
+
+      // The client always sends the whole conversation, so replace the stored messages
+      await tx.delete(messages).where(eq(messages.sessionId, session.id));
+      if (chat.messages.length > 0) {
+        await tx.insert(messages).values(chat.messages.map(msg => ({
+          ...toMessageRow(session.id, msg),
+          ...claimStoredUsage(stored, msg),
+        })));
+      }
+    });
+  }
+
+  async appendChatMessages(userId: number, clientId: string, newMessages: SyncedChatMessage[]): Promise<void> {
+    if (newMessages.length === 0) return;
+
+    await db.transaction(async (tx) => {
+      const now = new Date();
+      const [session] = await tx
+        .insert(chatSessions)
+        .values({ userId, clientId, createdAt: now, updatedAt: now })
+        .onConflictDoUpdate({
+          target: [chatSessions.userId, chatSessions.clientId],
+          set: { updatedAt: now },
+        })
+        .returning();
+
+      // The client may have synced the question before the answer arrived
+      const [last] = await tx
+        .select({ role: messages.role, content: messages.content })
+        .from(messages)
+        .where(eq(messages.sessionId, session.id))
+        .orderBy(desc(messages.timestamp), desc(messages.id))
+        .limit(1);
+      const [first, ...rest] = newMessages;
+      const synced = !!last && last.role === first.role && last.content === plainText(first.content);
+      const unsaved = synced ? rest : newMessages;
+      if (unsaved.length === 0) return;
+
+      await tx.insert(messages).values(unsaved.map(msg => ({
+        ...toMessageRow(session.id, msg),
+        ...usageColumns(msg.usage),
+      })));
     });
   }
+
+  async deleteChatForUser(userId: number, clientId: string): Promise<boolean> {
+    const [session] = await db
+      .select({ id: chatSessions.id })
+      .from(chatSessions)
+      .where(and(eq(chatSessions.userId, userId), eq(chatSessions.clientId, clientId)));
+    if (!session) return false;
+
+    await db.transaction(async (tx) => {
+      await tx.delete(messages).where(eq(messages.sessionId, session.id));
+      await tx.delete(workspaceFiles).where(workspaceFilter(userId, clientId));
+      await tx.delete(chatSessions).where(eq(chatSessions.id, session.id));
+    });
+    return true;
+  }
+
+  async importChatsForUser(userId: number, chats: SyncedChat[]): Promise<number> {
+    const existing = await db
+      .select({ clientId: chatSessions.clientId })
+      .from(chatSessions)
+      .where(eq(chatSessions.userId, userId));
+    const existingIds = new Set(existing.map(session => session.clientId));
+
+    // Chats that already made it to the server are left untouched
+    const newChats = chats.filter(chat => !existingIds.has(chat.id));
+    for (const chat of newChats) {
+      await this.saveChatForUser(userId, chat);
+    }
+    return newChats.length;
+  }
+
+  async getChatSummary(userId: number, clientId: string): Promise<ChatSummary | undefined> {
+    const [session] = await db
+      .select({ summary: chatSessions.summary, summarizedCount: chatSessions.summarizedCount, summaryHash: chatSessions.summaryHash })
+      .from(chatSessions)
+      .where(and(eq(chatSessions.userId, userId), eq(chatSessions.clientId, clientId)));
+    return session || undefined;
+  }
+
+  async updateChatSummary(userId: number, clientId: string, { summary, summarizedCount, summaryHash }: ChatSummary & { summary: string }): Promise<void> {
+    await db
+      .update(chatSessions)
+      .set({ summary, summarizedCount, summaryHash })
+      .where(and(eq(chatSessions.userId, userId), eq(chatSessions.clientId, clientId)));
+  }
+
+  async recordUsage(record: InsertUsageRecord): Promise<void> {
+    await db.insert(usageRecords).values(record);
+  }
+
+  async getUsageSummary(userId: number, since: Date): Promise<UsageSummary> {
+    // Internal calls add tokens and cost to the answers they served but are not answers themselves
+    const answered = sql`${usageRecords.purpose} in ('chat', 'search_answer')`;
+    const aggregate = {
+      messages: sql`count(*) filter (where ${answered})`.mapWith(Number),
+      promptTokens: sql`coalesce(sum(${usageRecords.promptTokens}), 0)`.mapWith(Number),
+      completionTokens: sql`coalesce(sum(${usageRecords.completionTokens}), 0)`.mapWith(Number),
+      toolCalls: sql`coalesce(sum(${usageRecords.toolCallCount}), 0)`.mapWith(Number),
+      costUsd: sql`coalesce(sum(${usageRecords.costUsd}), 0)`.mapWith(Number),
+      averageLatencyMs: sql`coalesce(round(avg(${usageRecords.latencyMs}) filter (where ${answered})), 0)`.mapWith(Number),
+    };
+    const day = sql`to_char(${usageRecords.createdAt}, 'YYYY-MM-DD')`.mapWith(String);
+    const recorded = and(eq(usageRecords.userId, userId), gte(usageRecords.createdAt, since));
+
+    const [totals] = await db
+      .select(aggregate)
+      .from(usageRecords)
+      .where(recorded);
+
+    const days = await db
+      .select({ date: day, ...aggregate })
+      .from(usageRecords)
+      .where(recorded)
+      .groupBy(day)
+      .orderBy(day);
+
+    const models = await db
+      .select({ model: usageRecords.model, ...aggregate })
+      .from(usageRecords)
+      .where(recorded)
+      .groupBy(usageRecords.model)
+      .orderBy(desc(aggregate.costUsd));
+
+    return {
+      since: since.toISOString().split("T")[0],
+      totals,
+      days,
+      models,
+    };
+  }
+
+  async getDatasetsForUser(userId: number): Promise<DatasetInfo[]> {
+    const rows = await db
+      .select(datasetInfoColumns)
+      .from(datasets)
+      .where(eq(datasets.userId, userId))
+      .orderBy(desc(datasets.createdAt));
+    return rows.map(toDatasetInfo);
+  }
+
+  async getDatasetForUser(userId: number, name: string): Promise<Dataset | undefined> {
+    const [dataset] = await db
+      .select()
+      .from(datasets)
+      .where(and(eq(datasets.userId, userId), eq(datasets.name, name)));
+    return dataset || undefined;
+  }
+
+  async saveDatasetForUser(dataset: InsertDataset): Promise<DatasetInfo> {
+    const [saved] = await db
+      .insert(datasets)
+      .values(dataset)
+      .onConflictDoUpdate({
+        target: [datasets.userId, datasets.name],
+        set: { ...dataset, createdAt: new Date() },
+      })
+      .returning(datasetInfoColumns);
+    return toDatasetInfo(saved);
+  }
+
+  async deleteDatasetForUser(userId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(datasets)
+      .where(and(eq(datasets.userId, userId), eq(datasets.id, id)))
+      .returning({ id: datasets.id });
+    return deleted.length > 0;
+  }
+
+  async getWorkspaceFiles(userId: number, sessionId: string): Promise<WorkspaceFileInfo[]> {
+    const files = await db
+      .select(workspaceFileInfoColumns)
+      .from(workspaceFiles)
+      .where(workspaceFilter(userId, sessionId))
+      .orderBy(asc(workspaceFiles.path));
+    return files.map(toWorkspaceFileInfo);
+  }
+
+  async getWorkspaceFile(userId: number, sessionId: string, path: string): Promise<WorkspaceFile | undefined> {
+    const [file] = await db
+      .select()
+      .from(workspaceFiles)
+      .where(and(workspaceFilter(userId, sessionId), eq(workspaceFiles.path, path)));
+    return file || undefined;
+  }
+
+  /**
+   * Save a file unless the totals it leaves would exceed a limit. The user's row is locked
+   * while the totals are read and the file written, so concurrent saves to any of their
+   * workspaces are checked one after another rather than against the same totals.
+   */
+  async saveWorkspaceFile(file: InsertWorkspaceFile, limits: WorkspaceLimits): Promise<{ saved: WorkspaceFileInfo } | { exceeded: keyof WorkspaceLimits }> {
+    return db.transaction(async (tx) => {
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, file.userId)).for("update");
+
+      const inWorkspace = sql`${workspaceFiles.sessionId} = ${file.sessionId}`;
+      const isTarget = sql`(${inWorkspace} and ${workspaceFiles.path} = ${file.path})`;
+      const [usage] = await tx
+        .select({
+          replaces: sql`count(*) filter (where ${isTarget}) > 0`.mapWith(Boolean),
+          workspaceFiles: sql`count(*) filter (where ${inWorkspace})`.mapWith(Number),
+          // Bytes of the other files, as the saved file replaces any at its path
+          workspaceBytes: sql`coalesce(sum(${workspaceFiles.sizeBytes}) filter (where ${inWorkspace} and not ${isTarget}), 0)`.mapWith(Number),
+          userFiles: sql`count(*)`.mapWith(Number),
+          userBytes: sql`coalesce(sum(${workspaceFiles.sizeBytes}) filter (where not ${isTarget}), 0)`.mapWith(Number),
+        })
+        .from(workspaceFiles)
+        .where(eq(workspaceFiles.userId, file.userId));
+
+      if (!usage.replaces && usage.workspaceFiles >= limits.workspaceFiles) return { exceeded: "workspaceFiles" as const };
+      if (!usage.replaces && usage.userFiles >= limits.userFiles) return { exceeded: "userFiles" as const };
+      if (usage.workspaceBytes + file.sizeBytes > limits.workspaceBytes) return { exceeded: "workspaceBytes" as const };
+      if (usage.userBytes + file.sizeBytes > limits.userBytes) return { exceeded: "userBytes" as const };
+
+      const [saved] = await tx
+        .insert(workspaceFiles)
+        .values(file)
+        .onConflictDoUpdate({
+          target: [workspaceFiles.userId, workspaceFiles.sessionId, workspaceFiles.path],
+          set: { content: file.content, sizeBytes: file.sizeBytes, updatedAt: new Date() },
+        })
+        .returning(workspaceFileInfoColumns);
+      return { saved: toWorkspaceFileInfo(saved) };
+    });
+  }
+
+  async deleteWorkspaceFiles(userId: number, sessionId: string, paths: string[]): Promise<number> {
+    if (paths.length === 0) return 0;
+    const deleted = await db
+      .delete(workspaceFiles)
+      .where(and(workspaceFilter(userId, sessionId), inArray(workspaceFiles.path, paths)))
+      .returning({ id: workspaceFiles.id });
+    return deleted.length;
+  }
+
+  async renameWorkspaceFiles(userId: number, sessionId: string, renames: Array<{ from: string; to: string }>): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const { from, to } of renames) {
+        await tx
+          .update(workspaceFiles)
+          .set({ path: to, updatedAt: new Date() })
+          .where(and(workspaceFilter(userId, sessionId), eq(workspaceFiles.path, from)));
+      }
+    });
+  }
+
+  async getDocumentsForUser(userId: number): Promise<DocumentInfo[]> {
+    const rows = await db
+      .select(documentInfoColumns)
+      .from(documents)
+      .where(eq(documents.userId, userId))
+      .orderBy(desc(documents.createdAt));
+    return rows.map(toDocumentInfo);
+  }
+
+  async saveDocumentForUser(document: InsertDocument, chunks: DocumentChunkInput[]): Promise<DocumentInfo> {
+    const saved = await db.transaction(async (tx) => {
+      const [row] = await tx.insert(documents).values(document).returning(documentInfoColumns);
+      for (let start = 0; start < chunks.length; start += CHUNK_INSERT_BATCH) {
+        await tx.insert(documentChunks).values(
+          chunks.slice(start, start + CHUNK_INSERT_BATCH).map(chunk => ({ ...chunk, documentId: row.id, userId: document.userId }))
+        );
+      }
+      return row;
+    });
+    return toDocumentInfo(saved);
+  }
+
+  async deleteDocumentForUser(userId: number, id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx.delete(documentChunks).where(and(eq(documentChunks.userId, userId), eq(documentChunks.documentId, id)));
+      const deleted = await tx
+        .delete(documents)
+        .where(and(eq(documents.userId, userId), eq(documents.id, id)))
+        .returning({ id: documents.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getDocumentChunksForUser(userId: number, embedder: string, format?: DocumentFormat): Promise<StoredDocumentChunk[]> {
+    return db
+      .select({
+        documentId: documentChunks.documentId,
+        filename: documents.filename,
+        title: documents.title,
+        page: documentChunks.page,
+        content: documentChunks.content,
+        embedding: documentChunks.embedding,
+      })
+      .from(documentChunks)
+      .innerJoin(documents, eq(documents.id, documentChunks.documentId))
+      .where(and(
+        eq(documentChunks.userId, userId),
+        eq(documents.embedder, embedder),
+        format ? eq(documents.format, format) : undefined
+      ));
+  }
+
+  async saveAttachment(attachment: InsertAttachment): Promise<AttachmentInfo> {
+    const [saved] = await db.insert(attachments).values(attachment).returning();
+    return toAttachmentInfo(saved);
+  }
+
+  async getAttachmentForUser(userId: number, id: number): Promise<Attachment | undefined> {
+    const [attachment] = await db
+      .select()
+      .from(attachments)
+      .where(and(eq(attachments.userId, userId), eq(attachments.id, id)));
+    return attachment || undefined;
+  }
+
+  async getAttachmentsForUser(userId: number, ids: number[]): Promise<Attachment[]> {
+    if (ids.length === 0) return [];
+    return db
+      .select()
+      .from(attachments)
+      .where(and(eq(attachments.userId, userId), inArray(attachments.id, ids)));
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -1,7 +1,32 @@
-import { pgTable, text, serial, integer, timestamp, json, varchar, boolean, date } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, json, varchar, boolean, date, uniqueIndex, index, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Usage plans; anonymous applies to visitors who are not signed in
+export const planIds = ["anonymous", "free", "pro"] as const;
+
+export type PlanId = typeof planIds[number];
+
+// Per-day limits of each plan
+export const plans = pgTable("plans", {
+  id: varchar("id", { length: 32 }).primaryKey(), // One of planIds
+  label: text("label").notNull(),
+  dailyMessages: integer("daily_messages").notNull(),
+  dailyImages: integer("daily_images").notNull(), // Image generation tool calls
+  dailyUploads: integer("daily_uploads").notNull(), // Images uploaded for chat input
+  dailyTokens: integer("daily_tokens").notNull(), // Model tokens across all chat requests
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertPlanSchema = createInsertSchema(plans).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertPlan = z.infer<typeof insertPlanSchema>;
+export type Plan = typeof plans.$inferSelect;
+
 // Updated users table for Firebase authentication
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -10,6 +35,7 @@ export const users = pgTable("users", {
   displayName: text("display_name"),
   photoURL: text("photo_url"),
   emailVerified: boolean("email_verified").default(false),
+  plan: varchar("plan", { length: 32 }).notNull().default("free"), // One of planIds
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -27,10 +53,16 @@ export type User = typeof users.$inferSelect;
 export const chatSessions = pgTable("chat_sessions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
+  clientId: varchar("client_id", { length: 64 }), // Chat id generated by the client, used to sync history
   title: text("title").notNull().default("New Conversation"),
+  summary: text("summary"), // Rolling summary of the turns that no longer fit the context window
+  summarizedCount: integer("summarized_count").notNull().default(0), // Leading non-system messages the summary covers
+  summaryHash: varchar("summary_hash", { length: 64 }), // SHA-256 of those messages, so an edited chat does not reuse the summary
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("chat_sessions_user_client_idx").on(table.userId, table.clientId),
+]);
 
 export const insertChatSessionSchema = createInsertSchema(chatSessions).omit({
   id: true,
@@ -46,7 +78,16 @@ export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
   role: text("role").notNull(), // user, assistant, system
   content: text("content").notNull(),
+  contentParts: json("content_parts"), // Full multimodal content when the message is not plain text
   model: text("model").notNull(), // gpt-5, gpt-5-mini, gpt-5-nano, deepseek-r1
+  trace: json("trace"), // Agent steps taken to produce an assistant message
+  // Accounting for assistant messages; null when the provider did not report usage
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  toolCallCount: integer("tool_call_count"),
+  latencyMs: integer("latency_ms"),
+  costUsd: doublePrecision("cost_usd"), // Estimated from the model price table
+  citations: json("citations"), // Web sources an assistant message cites as [1], [2], ...
   timestamp: timestamp("timestamp").notNull().defaultNow(),
   sessionId: integer("session_id").references(() => chatSessions.id).notNull(),
 });
@@ -75,49 +116,513 @@ const imageUrlContentSchema = z.object({
   })
 });
 
+// Define the attachment content type schema: a file uploaded to /api/attachments, referenced by
+// id so the message never carries the file itself. The server reads the file's extracted text or
+// image back in on every request; the other fields are only for display.
+const attachmentContentSchema = z.object({
+  type: z.literal("attachment"),
+  attachment_id: z.number().int().positive(),
+  filename: z.string().optional(),
+  kind: z.string().optional(),
+  mime_type: z.string().optional(),
+  size_bytes: z.number().optional(),
+});
+
+export type AttachmentContentPart = z.infer<typeof attachmentContentSchema>;
+
 // Define the text content type schema
 const textContentSchema = z.object({
   type: z.literal("text"),
   text: z.string(),
 });
 
+// Model ids accepted by /api/chat; each one is served by a provider in the server's model registry
+export const modelIds = ["gpt-5", "gpt-5-mini", "gpt-5-nano", "gpt-4o", "gpt-4o-mini", "deepseek-r1", "llama-4-maverick"] as const;
+
+export type ModelId = typeof modelIds[number];
+
+export interface ModelCapabilities {
+  vision: boolean;
+  tools: boolean;
+  streaming: boolean;
+  reasoning: boolean;
+}
+
+// Model description returned by GET /api/models
+export interface ModelInfo {
+  id: ModelId;
+  label: string;
+  description: string;
+  capabilities: ModelCapabilities;
+}
+
 // Request schema for chat completions
 export const chatCompletionRequestSchema = z.object({
-  model: z.enum(["gpt-5", "gpt-5-mini", "gpt-5-nano", "gpt-4o", "gpt-4o-mini", "deepseek-r1", "llama-4-maverick"]),
+  model: z.enum(modelIds),
   messages: z.array(
     z.object({
       role: z.enum(["user", "assistant", "system"]),
       content: z.union([
         z.string(),
-        z.array(z.union([textContentSchema, imageContentSchema, imageUrlContentSchema]))
+        z.array(z.union([textContentSchema, imageContentSchema, imageUrlContentSchema, attachmentContentSchema]))
       ]),
     })
   ),
-  sessionId: z.string().optional(),
+  chatId: z.string().max(64).optional(), // Client id of the chat, used to save the exchange and look up its rolling summary
   webSearchEnabled: z.boolean().optional().default(true),
+  stream: z.boolean().optional().default(false), // Stream the response as server-sent events
 });
 
 export type ChatCompletionRequest = z.infer<typeof chatCompletionRequestSchema>;
 
+// A tool call made by the agent loop while producing a response
+export const agentToolCallSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  arguments: z.string(), // Raw JSON arguments as sent by the model
+  success: z.boolean(),
+  durationMs: z.number(),
+});
+
+export type AgentToolCall = z.infer<typeof agentToolCallSchema>;
+
+// One model turn of the agent loop; the final answer is a step without tool calls
+export const agentStepSchema = z.object({
+  step: z.number(),
+  toolCalls: z.array(agentToolCallSchema),
+  tokens: z.number(),
+});
+
+export type AgentStep = z.infer<typeof agentStepSchema>;
+
+// Tokens a provider reported for one chat request, summed over all model calls it made
+export const tokenUsageSchema = z.object({
+  promptTokens: z.number().int().nonnegative(),
+  completionTokens: z.number().int().nonnegative(),
+});
+
+export type TokenUsage = z.infer<typeof tokenUsageSchema>;
+
+// Accounting attached to an assistant message
+export const messageUsageSchema = tokenUsageSchema.extend({
+  toolCalls: z.number().int().nonnegative(),
+  latencyMs: z.number().int().nonnegative(),
+  costUsd: z.number().nonnegative(),
+});
+
+export type MessageUsage = z.infer<typeof messageUsageSchema>;
+
+// Links rendered from stored data; other schemes such as javascript: would run in the page
+const webUrlSchema = z.string().url().refine(
+  url => /^https?:\/\//i.test(url),
+  { message: "Must be an http or https URL" }
+);
+
+// A web source an assistant message cites as [number], shown as a preview card on hover
+export const messageCitationSchema = z.object({
+  number: z.number().int().positive(),
+  url: webUrlSchema,
+  title: z.string(),
+  snippet: z.string(),
+  favicon: z.union([webUrlSchema, z.literal("")]), // Empty when the site has no icon to show
+});
+
+export type MessageCitation = z.infer<typeof messageCitationSchema>;
+
 // Response schema for chat completions
 export const chatCompletionResponseSchema = z.object({
   message: z.object({
     role: z.enum(["assistant"]),
     content: z.string(),
   }),
-  model: z.enum(["gpt-5", "gpt-5-mini", "gpt-5-nano", "gpt-4o", "gpt-4o-mini", "deepseek-r1", "llama-4-maverick"]),
+  model: z.enum(modelIds),
+  trace: z.array(agentStepSchema).optional(),
+  // Set by providers that report token counts
+  tokens: tokenUsageSchema.optional(),
+  // Set by /api/chat from the token counts, tool calls and timing of the request
+  usage: messageUsageSchema.optional(),
+  // Set by /api/chat from the web results the answer was written from
+  citations: z.array(messageCitationSchema).optional(),
 });
 
 export type ChatCompletionResponse = z.infer<typeof chatCompletionResponseSchema>;
 
+// Server-sent events emitted by /api/chat when the request sets `stream: true`
+export type ChatStreamEvent =
+  | { type: "token"; delta: string }
+  | { type: "tool_call_start"; id: string; name: string; arguments: string }
+  | { type: "tool_call_finish"; id: string; name: string; success: boolean }
+  | { type: "message"; message: { role: "assistant"; content: string | Array<Record<string, any>> }; model: string; trace?: AgentStep[]; usage?: MessageUsage; citations?: MessageCitation[] }
+  | { type: "error"; message: string };
+
+// Languages the code sandbox can run
+export const sandboxLanguages = ["javascript", "python"] as const;
+
+export type SandboxLanguage = typeof sandboxLanguages[number];
+
+// Request schema for POST /api/execute
+export const codeExecutionRequestSchema = z.object({
+  language: z.enum(sandboxLanguages),
+  code: z.string().min(1).max(100_000),
+});
+
+// Output of a sandboxed run, returned by POST /api/execute and the execute_code tool
+export interface CodeExecutionResult {
+  language: SandboxLanguage;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null; // null when the process was killed
+  timedOut: boolean;
+  truncated: boolean; // Output was cut off at the size limit
+  durationMs: number;
+}
+
+// Weather for a place as returned by the get_weather tool and shown as a card in the chat.
+// Temperatures are in °C, wind speeds in km/h and precipitation in mm.
+export interface WeatherLocation {
+  name: string;
+  region?: string;
+  country?: string;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+}
+
+export interface CurrentWeather {
+  time: string; // Local time at the location, ISO 8601 without offset
+  temperature: number;
+  apparentTemperature: number;
+  humidity: number; // Percent
+  precipitation: number;
+  windSpeed: number;
+  windDirection: number; // Degrees, 0 = from the north
+  weatherCode: number; // WMO weather interpretation code
+  condition: string;
+  isDay: boolean;
+}
+
+export interface DailyForecast {
+  date: string; // YYYY-MM-DD
+  temperatureMax: number;
+  temperatureMin: number;
+  precipitationSum: number;
+  precipitationProbability: number | null; // Percent, when the model provides it
+  windSpeedMax: number;
+  weatherCode: number;
+  condition: string;
+}
+
+export interface WeatherReport {
+  type: "weather_report";
+  location: WeatherLocation;
+  current: CurrentWeather;
+  forecast: DailyForecast[];
+  fetchedAt: string;
+}
+
+// Time spans the market data tools chart
+export const marketPeriods = ["1d", "5d", "1mo", "3mo", "6mo", "1y"] as const;
+
+export type MarketPeriod = typeof marketPeriods[number];
+
+export type AssetClass = "crypto" | "stock";
+
+// One candle of a price series
+export interface OhlcPoint {
+  time: string; // ISO 8601 start of the candle; exchange-local time when the source gives no offset
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+// Price and history of a crypto asset or stock as returned by the market data tools and
+// shown as a price chart in the chat
+export interface MarketQuote {
+  type: "market_quote";
+  assetClass: AssetClass;
+  symbol: string;
+  name: string;
+  currency: string;
+  price: number;
+  // Change from the first open of the series to the latest price
+  change: number;
+  changePercent: number;
+  period: MarketPeriod;
+  series: OhlcPoint[];
+  source: string;
+  fetchedAt: string;
+}
+
+// Charts the chart tools can draw
+export const chartTypes = ["bar", "line", "pie", "scatter", "area", "histogram"] as const;
+
+export type ChartType = typeof chartTypes[number];
+
+export interface ChartAxis {
+  label?: string;
+  kind: "category" | "number";
+}
+
+export interface ChartSeries {
+  name: string;
+  points: Array<{ x: string | number; y: number }>;
+}
+
+// Description of a chart, rasterized by the server and drawn interactively by the client
+export interface ChartSpec {
+  type: ChartType;
+  title?: string;
+  xAxis: ChartAxis;
+  yAxis: ChartAxis;
+  series: ChartSeries[];
+}
+
+// Result of the chart tools; the rendered image is served from /api/images/:id
+export interface ChartResult {
+  type: "chart_result";
+  spec: ChartSpec;
+  image_id: number;
+  image_url: string;
+  format: "png" | "svg";
+}
+
+// Type inferred for a column of a parsed dataset
+export type DataColumnType = "number" | "boolean" | "date" | "string";
+
+export interface DataColumn {
+  name: string;
+  type: DataColumnType;
+}
+
+// A table of results, shown in the chat as a sortable table
+export interface DataTable {
+  title: string;
+  columns: Array<{ key: string; label: string; type: "number" | "string" }>;
+  rows: Array<Record<string, string | number | null>>;
+}
+
+export const analysisTypes = ["summary", "correlation", "trend", "distribution"] as const;
+
+export type AnalysisType = typeof analysisTypes[number];
+
+// Result of the analyze_data tool
+export interface AnalysisResult {
+  type: "analysis_result";
+  analysisType: AnalysisType;
+  rowCount: number;
+  columns: DataColumn[];
+  tables: DataTable[];
+  notes: string[];
+  chart?: ChartResult;
+}
+
+// How an attachment is turned into something the model can read: images are passed on as
+// images, everything else as extracted text
+export const attachmentKinds = ["image", "pdf", "document", "data", "code", "text"] as const;
+export type AttachmentKind = typeof attachmentKinds[number];
+
+// An uploaded attachment as returned to its owner
+export interface AttachmentInfo {
+  id: number;
+  filename: string;
+  mimeType: string;
+  kind: AttachmentKind;
+  sizeBytes: number;
+  pageCount: number | null;
+  // Characters of text extracted for the model; 0 for images
+  textLength: number;
+  // Set when the extracted text was cut to the limit
+  truncated: boolean;
+  createdAt: string;
+}
+
+export const documentFormats = ["pdf", "docx", "txt", "md"] as const;
+export type DocumentFormat = typeof documentFormats[number];
+
+// A document as listed to its owner
+export interface DocumentInfo {
+  id: number;
+  filename: string;
+  title: string;
+  format: DocumentFormat;
+  sizeBytes: number;
+  pageCount: number | null;
+  chunkCount: number;
+  createdAt: string;
+}
+
+export interface FileSearchPassage {
+  // Number the answer cites the passage by, as in [1]
+  citation: number;
+  documentId: number;
+  filename: string;
+  title: string;
+  page: number | null;
+  score: number;
+  text: string;
+}
+
+export interface FileSearchResult {
+  type: "file_search_result";
+  query: string;
+  passages: FileSearchPassage[];
+}
+
+// Kinds of results a web search can return
+export const searchVerticals = ["web", "news", "images", "videos", "places"] as const;
+export type SearchVertical = typeof searchVerticals[number];
+
+// How recent results must be; places ignore it
+export const searchTimeRanges = ["day", "week", "month", "year"] as const;
+export type SearchTimeRange = typeof searchTimeRanges[number];
+
+// Filters of a web search, as accepted by /api/search
+export const webSearchOptionsSchema = z.object({
+  vertical: z.enum(searchVerticals).optional().default("web"),
+  timeRange: z.enum(searchTimeRanges).optional(),
+  // Two-letter country code results are localized for, such as "us" or "in"
+  region: z.string().regex(/^[a-z]{2}$/i).transform(value => value.toLowerCase()).optional(),
+  // Two-letter language code of the results, such as "en" or "hi"
+  language: z.string().regex(/^[a-z]{2}$/i).transform(value => value.toLowerCase()).optional(),
+});
+
+export type WebSearchOptions = z.infer<typeof webSearchOptionsSchema>;
+
+// One web search result, the same whichever search provider answered. Fields after
+// `position` are only set by the verticals they belong to.
+export interface WebSearchHit {
+  title: string;
+  // The page the result leads to; for images the page showing the image
+  url: string;
+  snippet: string;
+  siteName: string;
+  // Rank among the provider's results, starting at 1
+  position: number;
+  // News, images and videos
+  thumbnailUrl?: string;
+  // Images: the full-size image
+  imageUrl?: string;
+  // News and videos, as the provider words it, such as "3 hours ago" or "Mar 4, 2025"
+  date?: string;
+  // News publisher or video channel
+  source?: string;
+  // Videos, such as "12:31"
+  duration?: string;
+  // Places
+  address?: string;
+  category?: string;
+  rating?: number;
+  ratingCount?: number;
+  phone?: string;
+}
+
+// Request schema for POST /api/search-answer
+export const searchAnswerRequestSchema = z.object({
+  query: z.string().trim().min(1).max(500),
+  // System prompt and earlier turns, so follow-up questions are searched in context
+  messages: chatCompletionRequestSchema.shape.messages.max(200).optional().default([]),
+  chatId: z.string().max(64).optional(),
+});
+
+export type SearchAnswerRequest = z.infer<typeof searchAnswerRequestSchema>;
+
+// A search result an answer can cite as [1], [2], ...
+export interface WebSearchSource extends WebSearchHit {
+  citation: number;
+  // Whether the page itself was read, rather than only its search snippet
+  fetched: boolean;
+}
+
+// Results of the web_search tool and of /api/search-answer, shown as a card below the answer
+export interface WebSearchResult {
+  type: "web_search_result";
+  query: string;
+  // The standalone query that was actually searched
+  searchQuery: string;
+  vertical: SearchVertical;
+  sources: WebSearchSource[];
+}
+
+// Response of POST /api/search-answer: the answer with its sources as a card
+export interface SearchAnswerResponse {
+  message: {
+    role: "assistant";
+    content: Array<{ type: "text"; text: string } | WebSearchResult>;
+  };
+  model: ModelId;
+  usage: MessageUsage;
+  citations: MessageCitation[];
+}
+
+export const datasetFormats = ["csv", "tsv", "json", "sqlite"] as const;
+export type DatasetFormat = typeof datasetFormats[number];
+
+export interface DatasetTable {
+  name: string;
+  // Declared SQLite column types; empty when a column has none
+  columns: Array<{ name: string; type: string }>;
+  rowCount: number;
+}
+
+// A dataset as listed to its owner, without the database itself
+export interface DatasetInfo {
+  id: number;
+  name: string;
+  filename: string;
+  sourceFormat: DatasetFormat;
+  tables: DatasetTable[];
+  sizeBytes: number;
+  createdAt: string;
+}
+
+export interface QueryResult {
+  type: "query_result";
+  dataset: string;
+  sql: string;
+  table: DataTable;
+  // Rows shown; `truncated` is set when the query returned more
+  rowCount: number;
+  truncated: boolean;
+  durationMs: number;
+}
+
+// A chat as kept by the client, used to sync history with GET/PUT /api/chat-sessions
+export const syncedChatMessageSchema = z.object({
+  role: z.enum(["user", "assistant", "system"]),
+  content: z.union([z.string(), z.array(z.record(z.any()))]),
+  model: z.string(),
+  timestamp: z.string().datetime(),
+  trace: z.array(agentStepSchema).optional(),
+  // Returned from the server's records; ignored when the client sends it
+  usage: messageUsageSchema.optional(),
+  citations: z.array(messageCitationSchema).optional(),
+});
+
+export type SyncedChatMessage = z.infer<typeof syncedChatMessageSchema>;
+
+export const syncedChatSchema = z.object({
+  id: z.string().min(1).max(64),
+  title: z.string(),
+  messages: z.array(syncedChatMessageSchema),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type SyncedChat = z.infer<typeof syncedChatSchema>;
+
 // Images table for storing generated images
 export const images = pgTable("images", {
   id: serial("id").primaryKey(),
   originalUrl: text("original_url").notNull(), // Original DALL-E URL
   filename: text("filename").notNull(), // Generated filename
   mimeType: text("mime_type").notNull().default("image/png"),
-  imageData: text("image_data").notNull(), // Base64 encoded image data
+  imageData: text("image_data"), // Base64 data of images stored before the blob store; moved out when first read
+  blobHash: text("blob_hash"), // SHA-256 of the image in the blob store
+  sizeBytes: integer("size_bytes"),
   prompt: text("prompt"), // The prompt used to generate the image
+  userId: integer("user_id").references(() => users.id), // Owner; null for anonymous requests
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -129,13 +634,21 @@ export const insertImageSchema = createInsertSchema(images).omit({
 export type InsertImage = z.infer<typeof insertImageSchema>;
 export type Image = typeof images.$inferSelect;
 
+// Looks the generate_pdf tool can give a report: fonts, colors and code highlighting
+export const pdfThemes = ["classic", "modern", "academic"] as const;
+
+export type PdfTheme = typeof pdfThemes[number];
+
 // PDFs table for storing generated PDFs
 export const pdfs = pgTable("pdfs", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   filename: text("filename").notNull(),
-  content: text("content").notNull(), // The text content used to generate the PDF
-  pdfData: text("pdf_data").notNull(), // Base64 encoded PDF data
+  content: text("content").notNull(), // The markdown the PDF was rendered from
+  pdfData: text("pdf_data"), // Base64 data of PDFs stored before the blob store; moved out when first read
+  blobHash: text("blob_hash"), // SHA-256 of the PDF in the blob store
+  sizeBytes: integer("size_bytes"),
+  userId: integer("user_id").references(() => users.id), // Owner; null for anonymous requests
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -147,15 +660,136 @@ export const insertPdfSchema = createInsertSchema(pdfs).omit({
 export type InsertPdf = z.infer<typeof insertPdfSchema>;
 export type Pdf = typeof pdfs.$inferSelect;
 
+// Datasets users upload for the SQL tool. Every upload is kept as a SQLite database so
+// CSV, JSON and SQLite files are all queried the same way.
+export const datasets = pgTable("datasets", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(), // Name the model queries the dataset by
+  filename: text("filename").notNull(), // Name of the uploaded file
+  sourceFormat: text("source_format").notNull(), // csv, tsv, json or sqlite
+  tables: json("tables").notNull(), // DatasetTable[] describing the database
+  sizeBytes: integer("size_bytes").notNull(),
+  data: text("data").notNull(), // Base64 encoded SQLite database
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("datasets_user_name_idx").on(table.userId, table.name),
+]);
+
+export const insertDatasetSchema = createInsertSchema(datasets).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertDataset = z.infer<typeof insertDatasetSchema>;
+export type Dataset = typeof datasets.$inferSelect;
+
+// Files the agent writes over a conversation, one workspace per chat of a signed-in user
+export const workspaceFiles = pgTable("workspace_files", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  sessionId: varchar("session_id", { length: 64 }).notNull(), // Client id of the chat the workspace belongs to
+  path: text("path").notNull(), // Normalized path inside the workspace, such as "src/index.html"
+  content: text("content").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("workspace_files_session_path_idx").on(table.userId, table.sessionId, table.path),
+]);
+
+export const insertWorkspaceFileSchema = createInsertSchema(workspaceFiles).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertWorkspaceFile = z.infer<typeof insertWorkspaceFileSchema>;
+export type WorkspaceFile = typeof workspaceFiles.$inferSelect;
+
+// Files attached to chat messages, kept with the text extracted from them
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  filename: text("filename").notNull(),
+  mimeType: text("mime_type").notNull(),
+  kind: text("kind").notNull(), // image, pdf, document, data, code or text
+  sizeBytes: integer("size_bytes").notNull(),
+  blobHash: text("blob_hash").notNull(), // SHA-256 of the file in the blob store
+  extractedText: text("extracted_text"), // Null for images
+  truncated: boolean("truncated").notNull().default(false),
+  pageCount: integer("page_count"), // Only known for PDFs
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAttachmentSchema = createInsertSchema(attachments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+export type Attachment = typeof attachments.$inferSelect;
+
+// Documents users upload for the file_search tool; their text is kept as embedded chunks
+export const documents = pgTable("documents", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  filename: text("filename").notNull(),
+  title: text("title").notNull(),
+  format: text("format").notNull(), // pdf, docx, txt or md
+  sizeBytes: integer("size_bytes").notNull(),
+  pageCount: integer("page_count"), // Only known for PDFs
+  chunkCount: integer("chunk_count").notNull(),
+  embedder: text("embedder").notNull(), // Id of the embedder that made the chunk vectors
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertDocumentSchema = createInsertSchema(documents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertDocument = z.infer<typeof insertDocumentSchema>;
+export type Document = typeof documents.$inferSelect;
+
+export const documentChunks = pgTable("document_chunks", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull().references(() => documents.id),
+  userId: integer("user_id").notNull().references(() => users.id), // Owner, so searches need no join to filter
+  chunkIndex: integer("chunk_index").notNull(),
+  page: integer("page"), // Page the chunk starts on, for PDFs
+  content: text("content").notNull(),
+  embedding: doublePrecision("embedding").array().notNull(),
+}, (table) => [
+  uniqueIndex("document_chunks_document_index_idx").on(table.documentId, table.chunkIndex),
+]);
+
+export type InsertDocumentChunk = typeof documentChunks.$inferInsert;
+export type DocumentChunk = typeof documentChunks.$inferSelect;
+
+// A workspace file as listed, without its content
+export interface WorkspaceFileInfo {
+  path: string;
+  sizeBytes: number;
+  updatedAt: string;
+}
+
 // Daily usage tracking for non-authenticated users (by IP)
 export const dailyUsage = pgTable("daily_usage", {
   id: serial("id").primaryKey(),
-  ipAddress: varchar("ip_address", { length: 45 }).notNull(), // IPv4 or IPv6
+  ipAddress: varchar("ip_address", { length: 45 }), // IPv4 or IPv6; set for anonymous usage
+  userId: integer("user_id").references(() => users.id), // Set for signed-in usage
   date: date("date").notNull(), // YYYY-MM-DD format
   messageCount: integer("message_count").notNull().default(0),
+  imageCount: integer("image_count").notNull().default(0),
+  uploadCount: integer("upload_count").notNull().default(0),
+  tokenCount: integer("token_count").notNull().default(0),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("daily_usage_ip_date_idx").on(table.ipAddress, table.date),
+  uniqueIndex("daily_usage_user_date_idx").on(table.userId, table.date),
+]);
 
 export const insertDailyUsageSchema = createInsertSchema(dailyUsage).omit({
   id: true,
@@ -165,3 +799,71 @@ export const insertDailyUsageSchema = createInsertSchema(dailyUsage).omit({
 
 export type InsertDailyUsage = z.infer<typeof insertDailyUsageSchema>;
 export type DailyUsage = typeof dailyUsage.$inferSelect;
+
+// Why the server called a model: to answer a chat or search, or for its own bookkeeping
+export const usagePurposes = ["chat", "search_answer", "query_rewrite", "summary"] as const;
+
+export type UsagePurpose = typeof usagePurposes[number];
+
+// Model calls made for signed-in users, recorded by the server as they finish. Kept apart
+// from the chats so deleting a chat leaves its cost history in place.
+export const usageRecords = pgTable("usage_records", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  chatId: varchar("chat_id", { length: 64 }), // Client id of the chat the call served, if any
+  purpose: varchar("purpose", { length: 32 }).notNull(), // One of usagePurposes
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull(),
+  completionTokens: integer("completion_tokens").notNull(),
+  toolCallCount: integer("tool_call_count").notNull().default(0),
+  latencyMs: integer("latency_ms"), // Set for answers; internal calls are not timed
+  costUsd: doublePrecision("cost_usd").notNull(), // Estimated from the model price table
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("usage_records_user_created_idx").on(table.userId, table.createdAt),
+]);
+
+export const insertUsageRecordSchema = createInsertSchema(usageRecords).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertUsageRecord = z.infer<typeof insertUsageRecordSchema>;
+export type UsageRecord = typeof usageRecords.$inferSelect;
+
+// Daily quotas tracked per user, or per IP address for anonymous visitors
+export const quotaKinds = ["messages", "images", "uploads", "tokens"] as const;
+
+export type QuotaKind = typeof quotaKinds[number];
+
+export interface QuotaUsage {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+// Response of GET /api/usage/daily
+export interface UsageStatus {
+  plan: PlanId;
+  planLabel: string;
+  resetsAt: string; // ISO timestamp of the next UTC midnight
+  quotas: Record<QuotaKind, QuotaUsage>;
+}
+
+// Totals of recorded model usage for one group of GET /api/usage/summary
+export interface UsageAggregate {
+  messages: number; // Chat and search answers; internal calls only add tokens and cost
+  promptTokens: number;
+  completionTokens: number;
+  toolCalls: number;
+  costUsd: number;
+  averageLatencyMs: number;
+}
+
+// Response of GET /api/usage/summary
+export interface UsageSummary {
+  since: string; // YYYY-MM-DD, first day included
+  totals: UsageAggregate;
+  days: Array<UsageAggregate & { date: string }>;
+  models: Array<UsageAggregate & { model: string }>;
+}